@@ -20,6 +20,9 @@ export default [
         __filename: 'readonly',
         global: 'readonly',
         fetch: 'readonly',
+        Response: 'readonly',
+        AbortSignal: 'readonly',
+        AbortController: 'readonly',
         setTimeout: 'readonly',
         setInterval: 'readonly',
         clearTimeout: 'readonly',
@@ -0,0 +1,100 @@
+import { getUserProfile } from '../lib/api/auth-client.js';
+import { ConfigManager } from '../utils/config-manager.js';
+import { CredentialStore, TOKEN_ENV_VAR } from '../utils/credentials.js';
+import { CLIError } from '../utils/errors.js';
+import { promptMasked } from '../utils/prompt.js';
+
+export interface LoginOptions {
+  token?: string;
+  json?: boolean;
+}
+
+export interface WhoamiOptions {
+  json?: boolean;
+}
+
+/**
+ * Read a token piped on stdin
+ * @example echo "$MPAK_API_TOKEN" | mpak login
+ */
+async function readTokenFromStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8').trim();
+}
+
+/**
+ * Log in by verifying an API token against the registry and storing it
+ * @example mpak login
+ * @example mpak login --token xxx
+ */
+export async function handleLogin(options: LoginOptions = {}): Promise<void> {
+  const registryUrl = new ConfigManager().getRegistryUrl();
+
+  let token = options.token;
+  if (!token) {
+    if (process.stdin.isTTY) {
+      process.stderr.write(`=> Logging in to ${registryUrl}\n`);
+      process.stderr.write('=> Paste an API token from your mpak account settings\n');
+      token = (await promptMasked('Token: ')).trim();
+    } else {
+      token = await readTokenFromStdin();
+    }
+  }
+  if (!token) {
+    throw new CLIError('No token provided');
+  }
+
+  // Only store tokens the registry accepts
+  const profile = await getUserProfile(registryUrl, token);
+  new CredentialStore().setToken(registryUrl, token);
+
+  if (options.json) {
+    console.log(JSON.stringify({ registry: registryUrl, user: profile }, null, 2));
+    return;
+  }
+  console.log(`Logged in to ${registryUrl} as ${profile.username || profile.email}`);
+}
+
+/**
+ * Remove the stored token for the current registry
+ */
+export async function handleLogout(): Promise<void> {
+  const registryUrl = new ConfigManager().getRegistryUrl();
+  const removed = new CredentialStore().deleteToken(registryUrl);
+
+  console.log(removed ? `Logged out of ${registryUrl}` : `Not logged in to ${registryUrl}`);
+  if (process.env[TOKEN_ENV_VAR]) {
+    process.stderr.write(`=> Note: ${TOKEN_ENV_VAR} is set and will still be used\n`);
+  }
+}
+
+/**
+ * Show the user the current token belongs to
+ */
+export async function handleWhoami(options: WhoamiOptions = {}): Promise<void> {
+  const registryUrl = new ConfigManager().getRegistryUrl();
+  const token = new CredentialStore().getToken(registryUrl);
+  if (!token) {
+    throw new CLIError(`Not logged in to ${registryUrl}. Run "mpak login" first.`);
+  }
+
+  const profile = await getUserProfile(registryUrl, token);
+
+  if (options.json) {
+    console.log(JSON.stringify(profile, null, 2));
+    return;
+  }
+
+  console.log(`Username:          ${profile.username || '(not set)'}`);
+  console.log(`Email:             ${profile.email}`);
+  if (profile.githubUsername) {
+    console.log(`GitHub:            ${profile.githubUsername}`);
+  }
+  console.log(`Verified:          ${profile.verified ? 'yes' : 'no'}`);
+  console.log(`Published bundles: ${profile.publishedBundles}`);
+  console.log(`Total downloads:   ${profile.totalDownloads.toLocaleString()}`);
+  console.log(`Registry:          ${registryUrl}`);
+}
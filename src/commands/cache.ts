@@ -0,0 +1,202 @@
+import { existsSync, rmSync } from 'fs';
+import { RegistryClient } from '../lib/api/registry-client.js';
+import {
+  findCacheEntries,
+  findStaleEntries,
+  getCacheBase,
+  listCacheEntries,
+  parseDuration,
+  removeCacheEntry,
+  verifyCacheEntry,
+  type CacheEntry,
+  type CacheVerifyResult,
+} from '../lib/cache.js';
+import { formatSize } from '../utils/progress.js';
+import { parsePackageSpec } from './packages/run.js';
+
+export interface CacheListOptions {
+  json?: boolean;
+}
+
+export interface CacheCleanOptions {
+  json?: boolean;
+}
+
+export interface CachePruneOptions {
+  olderThan: string;
+  json?: boolean;
+}
+
+export interface CacheVerifyOptions {
+  json?: boolean;
+}
+
+function formatPlatform(entry: CacheEntry): string {
+  return entry.platform ? `${entry.platform.os}-${entry.platform.arch}` : '-';
+}
+
+function printRemoved(removed: CacheEntry[], json?: boolean): void {
+  const freed = removed.reduce((sum, entry) => sum + entry.size, 0);
+
+  if (json) {
+    console.log(JSON.stringify({ removed, freed }, null, 2));
+    return;
+  }
+
+  for (const entry of removed) {
+    console.log(`Removed ${entry.name}${entry.version ? `@${entry.version}` : ''} (${formatSize(entry.size)})`);
+  }
+  console.log(`Freed ${formatSize(freed)}`);
+}
+
+/**
+ * List cached bundles
+ * @example mpak cache list
+ */
+export async function handleCacheList(options: CacheListOptions = {}): Promise<void> {
+  const entries = listCacheEntries();
+
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  if (entries.length === 0) {
+    console.log('No cached bundles.');
+    console.log('');
+    console.log('Bundles are cached the first time you run them: mpak run <package>');
+    return;
+  }
+
+  const nameWidth = Math.max(20, ...entries.map((e) => e.name.length)) + 2;
+  const formatVersion = (entry: CacheEntry) => `${entry.version ?? '-'}${entry.current ? ' *' : ''}`;
+  const versionWidth = Math.max(10, ...entries.map((e) => formatVersion(e).length)) + 2;
+  const platformWidth = 14;
+  const sizeWidth = 11;
+  const sourceWidth = 10;
+
+  console.log('');
+  console.log(
+    'NAME'.padEnd(nameWidth) +
+      'VERSION'.padEnd(versionWidth) +
+      'PLATFORM'.padEnd(platformWidth) +
+      'SIZE'.padEnd(sizeWidth) +
+      'SOURCE'.padEnd(sourceWidth) +
+      'PULLED'
+  );
+
+  for (const entry of entries) {
+    console.log(
+      entry.name.padEnd(nameWidth) +
+        formatVersion(entry).padEnd(versionWidth) +
+        formatPlatform(entry).padEnd(platformWidth) +
+        formatSize(entry.size).padEnd(sizeWidth) +
+        entry.source.padEnd(sourceWidth) +
+        entry.pulledAt.slice(0, 10)
+    );
+  }
+
+  const total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  console.log('');
+  if (entries.some((e) => e.current && e.source === 'registry')) {
+    console.log('* used by runs without a version');
+  }
+  console.log(`${entries.length} bundle(s), ${formatSize(total)} in ${getCacheBase()}`);
+}
+
+/**
+ * Remove cached bundles: one package (optionally one version), or everything
+ * @example mpak cache clean
+ * @example mpak cache clean @scope/name
+ */
+export async function handleCacheClean(
+  packageSpec: string | undefined,
+  options: CacheCleanOptions = {}
+): Promise<void> {
+  const entries = listCacheEntries();
+
+  if (!packageSpec) {
+    if (existsSync(getCacheBase())) {
+      rmSync(getCacheBase(), { recursive: true, force: true });
+    }
+    printRemoved(entries, options.json);
+    return;
+  }
+
+  const { name, version } = parsePackageSpec(packageSpec);
+  const matches = findCacheEntries(entries, name, version);
+  if (matches.length === 0 && !options.json) {
+    console.log(`No cached bundles match ${packageSpec}`);
+    return;
+  }
+
+  for (const entry of matches) {
+    removeCacheEntry(entry);
+  }
+  printRemoved(matches, options.json);
+}
+
+/**
+ * Remove bundles pulled longer ago than a duration
+ * @example mpak cache prune --older-than 30d
+ */
+export async function handleCachePrune(options: CachePruneOptions): Promise<void> {
+  const maxAge = parseDuration(options.olderThan);
+  const stale = findStaleEntries(listCacheEntries(), maxAge);
+
+  if (stale.length === 0 && !options.json) {
+    console.log(`No cached bundles older than ${options.olderThan}`);
+    return;
+  }
+
+  for (const entry of stale) {
+    removeCacheEntry(entry);
+  }
+  printRemoved(stale, options.json);
+}
+
+/**
+ * Re-check cached bundles against the digests recorded at pull time and
+ * the registry. Exits non-zero if any bundle fails.
+ * @example mpak cache verify
+ * @example mpak cache verify @scope/name
+ */
+export async function handleCacheVerify(
+  packageSpec: string | undefined,
+  options: CacheVerifyOptions = {}
+): Promise<void> {
+  let entries = listCacheEntries();
+  if (packageSpec) {
+    const { name, version } = parsePackageSpec(packageSpec);
+    entries = findCacheEntries(entries, name, version);
+  }
+
+  const client = new RegistryClient();
+  const results: CacheVerifyResult[] = [];
+  for (const entry of entries) {
+    results.push(await verifyCacheEntry(entry, client));
+  }
+  const failed = results.filter((r) => r.status !== 'ok' && r.status !== 'skipped');
+
+  if (options.json) {
+    console.log(JSON.stringify({ valid: failed.length === 0, results }, null, 2));
+  } else if (results.length === 0) {
+    console.log(packageSpec ? `No cached bundles match ${packageSpec}` : 'No cached bundles.');
+  } else {
+    for (const result of results) {
+      const label = `${result.name}${result.version ? `@${result.version}` : ''}`;
+      const icon = result.status === 'ok' ? '\u2713' : result.status === 'skipped' ? '-' : '\u2717';
+      console.log(`${icon} ${label}${result.message ? `: ${result.message}` : ''}`);
+    }
+    console.log('');
+    console.log(
+      failed.length === 0
+        ? `All ${results.length} cached bundle(s) verified`
+        : `${failed.length} of ${results.length} cached bundle(s) failed verification; re-pull with "mpak run <package> --update"`
+    );
+  }
+
+  if (failed.length > 0) {
+    process.exit(1);
+  }
+}
@@ -0,0 +1,171 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { DEFAULT_MCP_TIMEOUT_MS, StdioMcpClient, type McpCallToolResult, type McpContentBlock } from '../lib/mcp/client.js';
+import { parseToolArgs, validateToolArgs } from '../lib/mcp/tool-args.js';
+import { CLIError, NotFoundError, exitCodeFor } from '../utils/errors.js';
+import { formatSchemaProperties } from './packages/inspect.js';
+import { prepareServer } from './packages/run.js';
+
+export interface CallOptions {
+  arg?: string[];
+  input?: string;
+  update?: boolean;
+  timeout?: number;
+  outputDir?: string;
+  json?: boolean;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'application/pdf': 'pdf',
+  'application/json': 'json',
+  'text/plain': 'txt',
+};
+
+/**
+ * File extension for a content block's MIME type
+ * @example extensionForMimeType('image/png') => 'png'
+ */
+export function extensionForMimeType(mimeType: string | undefined): string {
+  return (mimeType && MIME_EXTENSIONS[mimeType.split(';')[0].trim()]) || 'bin';
+}
+
+/**
+ * Read the --input JSON object (a file path, or - for stdin)
+ */
+function readInput(path: string): Record<string, unknown> {
+  const source = path === '-' ? 'stdin' : path;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path === '-' ? 0 : path, 'utf8'));
+  } catch (err) {
+    throw new CLIError(`Failed to read --input from ${source}: ${err instanceof Error ? err.message : err}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new CLIError(`--input must be a JSON object (${source})`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Pretty-print text that is JSON; leave everything else as it is
+ */
+function formatText(text: string): string {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.stringify(JSON.parse(trimmed), null, 2);
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return text;
+}
+
+/**
+ * Print content blocks: text to the output stream, binary data saved to files
+ */
+export function printToolContent(
+  content: McpContentBlock[],
+  toolName: string,
+  outputDir: string,
+  write: (_text: string) => void
+): void {
+  content.forEach((block, index) => {
+    const saveBinary = (data: string, mimeType: string | undefined) => {
+      const path = join(outputDir, `${toolName}-${index + 1}.${extensionForMimeType(mimeType)}`);
+      writeFileSync(path, Buffer.from(data, 'base64'));
+      process.stderr.write(`=> Saved ${mimeType ?? 'binary content'} to ${path}\n`);
+    };
+
+    switch (block.type) {
+      case 'text':
+        write(formatText(block.text));
+        break;
+      case 'image':
+      case 'audio':
+        saveBinary(block.data, block.mimeType);
+        break;
+      case 'resource_link':
+        write(`${block.name ? `${block.name}: ` : ''}${block.uri}`);
+        break;
+      case 'resource':
+        if (block.resource.text !== undefined) {
+          write(formatText(block.resource.text));
+        } else if (block.resource.blob !== undefined) {
+          saveBinary(block.resource.blob, block.resource.mimeType);
+        }
+        break;
+      default:
+        write(JSON.stringify(block, null, 2));
+    }
+  });
+}
+
+/**
+ * Call one tool on a bundle's server and print the result. Exits non-zero
+ * when the tool reports an error.
+ * @example mpak call @scope/name search --arg query=cats --arg limit=5
+ * @example mpak call @scope/name create --input args.json
+ */
+export async function handleCall(
+  packageSpec: string,
+  toolName: string,
+  options: CallOptions = {}
+): Promise<void> {
+  let client: StdioMcpClient | undefined;
+  let result: McpCallToolResult;
+  try {
+    const input = options.input ? readInput(options.input) : {};
+    const launch = await prepareServer(packageSpec, { update: options.update });
+
+    client = await StdioMcpClient.start(
+      { command: launch.command, args: launch.args, env: launch.env, cwd: launch.cacheDir },
+      { timeoutMs: options.timeout ?? DEFAULT_MCP_TIMEOUT_MS }
+    );
+    await client.initialize();
+
+    const tools = await client.listTools();
+    const tool = tools.find((t) => t.name === toolName);
+    if (!tool) {
+      throw new NotFoundError(
+        `Tool "${toolName}" not found in ${launch.packageName}. Available: ${tools.map((t) => t.name).join(', ') || 'none'}`
+      );
+    }
+
+    const args = { ...input, ...parseToolArgs(options.arg ?? [], tool.inputSchema ?? {}) };
+    const issues = validateToolArgs(args, tool.inputSchema ?? {});
+    if (issues.length > 0) {
+      const usage = formatSchemaProperties(tool.inputSchema ?? {});
+      throw new CLIError(
+        `Invalid arguments for ${toolName}:\n  ${issues.join('\n  ')}` +
+          (usage.length > 0 ? `\n\nArguments:\n  ${usage.join('\n  ')}` : '')
+      );
+    }
+
+    result = await client.callTool(toolName, args);
+    await client.close();
+  } catch (err) {
+    await client?.close();
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(exitCodeFor(err));
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    const write = result.isError ? (text: string) => console.error(text) : (text: string) => console.log(text);
+    printToolContent(result.content ?? [], toolName, resolve(options.outputDir ?? '.'), write);
+  }
+
+  if (result.isError) {
+    process.exit(1);
+  }
+}
@@ -1,7 +1,13 @@
+import { findSensitiveConfigKeys } from '../lib/cache.js';
 import { ConfigManager, PackageConfig } from '../utils/config-manager.js';
+import { SecretStore, isSecretReference } from '../utils/secrets.js';
 
 export interface ConfigSetOptions {
-  // Future options like --global could go here
+  /**
+   * Keep the values in the OS keychain (or encrypted file) rather than
+   * config.json. Keys a cached copy of the bundle marks sensitive always are.
+   */
+  secret?: boolean;
 }
 
 export interface ConfigGetOptions {
@@ -22,15 +28,23 @@ function maskValue(value: string): string {
   return value.substring(0, 4) + '*'.repeat(value.length - 4);
 }
 
+/**
+ * Show a stored value: masked, or where the secret is kept
+ */
+function displayValue(value: string, secrets: SecretStore): string {
+  return isSecretReference(value) ? `[${secrets.describe(value)}]` : maskValue(value);
+}
+
 /**
  * Set config value(s) for a package
  * @example mpak config set @scope/name api_key=xxx
  * @example mpak config set @scope/name api_key=xxx other_key=yyy
+ * @example mpak config set @scope/name --secret api_key=xxx
  */
 export async function handleConfigSet(
   packageName: string,
   keyValuePairs: string[],
-  _options: ConfigSetOptions = {}
+  options: ConfigSetOptions = {}
 ): Promise<void> {
   if (keyValuePairs.length === 0) {
     process.stderr.write('Error: At least one key=value pair is required\n');
@@ -39,7 +53,10 @@ export async function handleConfigSet(
   }
 
   const configManager = new ConfigManager();
+  const secrets = new SecretStore(configManager);
+  const sensitiveKeys = findSensitiveConfigKeys(packageName);
   let setCount = 0;
+  let storedIn: string | undefined;
 
   for (const pair of keyValuePairs) {
     const eqIndex = pair.indexOf('=');
@@ -56,11 +73,23 @@ export async function handleConfigSet(
       process.exit(1);
     }
 
-    configManager.setPackageConfigValue(packageName, key, value);
+    if (options.secret || sensitiveKeys.includes(key)) {
+      storedIn = (await secrets.set(packageName, key, value)).description;
+    } else {
+      // Replacing a secret with a plain value
+      await secrets.delete(packageName, key);
+      configManager.setPackageConfigValue(packageName, key, value);
+    }
     setCount++;
   }
 
-  console.log(`Set ${setCount} config value(s) for ${packageName}`);
+  // Sensitive values saved before they were kept out of config.json
+  const migrated = await secrets.migrate(packageName, sensitiveKeys);
+  if (migrated.length > 0) {
+    process.stderr.write(`=> Moved ${migrated.join(', ')} for ${packageName} out of ~/.mpak/config.json\n`);
+  }
+
+  console.log(`Set ${setCount} config value(s) for ${packageName}${storedIn ? ` (stored in the ${storedIn})` : ''}`);
 }
 
 /**
@@ -73,6 +102,7 @@ export async function handleConfigGet(
   options: ConfigGetOptions = {}
 ): Promise<void> {
   const configManager = new ConfigManager();
+  const secrets = new SecretStore(configManager);
   const config = configManager.getPackageConfig(packageName);
 
   if (!config || Object.keys(config).length === 0) {
@@ -88,13 +118,13 @@ export async function handleConfigGet(
     // Mask values in JSON output too
     const masked: PackageConfig = {};
     for (const [key, value] of Object.entries(config)) {
-      masked[key] = maskValue(value);
+      masked[key] = displayValue(value, secrets);
     }
     console.log(JSON.stringify(masked, null, 2));
   } else {
     console.log(`Config for ${packageName}:`);
     for (const [key, value] of Object.entries(config)) {
-      console.log(`  ${key}: ${maskValue(value)}`);
+      console.log(`  ${key}: ${displayValue(value, secrets)}`);
     }
   }
 }
@@ -141,9 +171,11 @@ export async function handleConfigClear(
   _options: ConfigClearOptions = {}
 ): Promise<void> {
   const configManager = new ConfigManager();
+  const secrets = new SecretStore(configManager);
 
   if (key) {
     // Clear specific key
+    await secrets.delete(packageName, key);
     const cleared = configManager.clearPackageConfigValue(packageName, key);
     if (cleared) {
       console.log(`Cleared ${key} for ${packageName}`);
@@ -152,6 +184,9 @@ export async function handleConfigClear(
     }
   } else {
     // Clear all config for package
+    for (const storedKey of Object.keys(configManager.getPackageConfig(packageName) ?? {})) {
+      await secrets.delete(packageName, storedKey);
+    }
     const cleared = configManager.clearPackageConfig(packageName);
     if (cleared) {
       console.log(`Cleared all config for ${packageName}`);
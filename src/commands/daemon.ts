@@ -0,0 +1,411 @@
+import { spawn } from 'child_process';
+import { closeSync, existsSync, mkdirSync, openSync, readSync, statSync, watchFile, writeSync } from 'fs';
+import { createServer } from 'net';
+import { resolve } from 'path';
+import {
+  DAEMON_NAME_PATTERN,
+  daemonNameFor,
+  formatUptime,
+  getDaemonPaths,
+  getRunDir,
+  isDaemonProcess,
+  isProcessAlive,
+  listDaemons,
+  readDaemonState,
+  readLastLines,
+  removeDaemonState,
+  writeDaemonState,
+  type DaemonState,
+} from '../lib/daemon.js';
+import { BRIDGE_TOKEN_ENV_VAR, HEALTH_PATH, MCP_PATH, SSE_PATH, type HttpTransport } from '../lib/mcp/http-bridge.js';
+import { CLIError, ExitCode } from '../utils/errors.js';
+import { DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT } from './packages/run.js';
+
+export interface StartOptions {
+  name?: string;
+  local?: string;
+  config?: string;  // Gateway config (as for `mpak serve`)
+  transport?: string;  // http (default) or sse
+  port?: number;
+  host?: string;
+  authToken?: string;
+  cors?: string;
+  update?: boolean;
+  timeout?: number;  // Per-request timeout (ms)
+}
+
+export interface PsOptions {
+  json?: boolean;
+}
+
+export interface StopOptions {
+  all?: boolean;
+}
+
+export interface LogsOptions {
+  follow?: boolean;
+  lines?: number;
+}
+
+/**
+ * How long `start` waits for a daemon to answer /health (the first start
+ * may download the bundle)
+ */
+const START_TIMEOUT_MS = 60_000;
+
+/**
+ * How long `stop` waits after SIGTERM before killing the process group
+ */
+const STOP_TIMEOUT_MS = 10_000;
+
+/**
+ * Ports tried when --port is not given
+ */
+const PORT_SCAN_RANGE = 100;
+
+const DEFAULT_LOG_LINES = 50;
+
+/**
+ * How long a liveness check waits for /health
+ */
+const HEALTH_PROBE_TIMEOUT_MS = 2_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isPortFree(host: string, port: number): Promise<boolean> {
+  const server = createServer();
+  return new Promise((resolve) => {
+    server.once('error', () => resolve(false));
+    server.listen(port, host, () => server.close(() => resolve(true)));
+  });
+}
+
+/**
+ * First free port from 8080 up, skipping ports other daemons were given
+ */
+async function findFreePort(host: string): Promise<number> {
+  const taken = new Set<number>();
+  for (const daemon of listDaemons()) {
+    if (await isDaemonRunning(daemon)) taken.add(daemon.port);
+  }
+  for (let port = DEFAULT_HTTP_PORT; port < DEFAULT_HTTP_PORT + PORT_SCAN_RANGE; port++) {
+    if (!taken.has(port) && (await isPortFree(host, port))) {
+      return port;
+    }
+  }
+  throw new CLIError(`No free port between ${DEFAULT_HTTP_PORT} and ${DEFAULT_HTTP_PORT + PORT_SCAN_RANGE - 1}; use --port`);
+}
+
+function daemonUrl(state: DaemonState): string {
+  const host = state.host.includes(':') ? `[${state.host}]` : state.host;
+  return `http://${host}:${state.port}${state.transport === 'http' ? MCP_PATH : SSE_PATH}`;
+}
+
+/**
+ * /health URL for a daemon, over loopback when it listens on every interface
+ */
+function healthUrl(state: DaemonState): string {
+  const host = ['0.0.0.0', '::'].includes(state.host) ? DEFAULT_HTTP_HOST : state.host;
+  return `http://${host.includes(':') ? `[${host}]` : host}:${state.port}${HEALTH_PATH}`;
+}
+
+/**
+ * Whether a daemon is still running: its pid must be alive and belong to the
+ * process mpak started. Where process start times can't be read, ask the
+ * daemon's /health endpoint instead.
+ */
+async function isDaemonRunning(state: DaemonState): Promise<boolean> {
+  const isOurs = isDaemonProcess(state);
+  if (isOurs !== undefined) {
+    return isOurs;
+  }
+  try {
+    const response = await fetch(healthUrl(state), { signal: AbortSignal.timeout(HEALTH_PROBE_TIMEOUT_MS) });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+function requireDaemon(name: string): DaemonState {
+  const state = readDaemonState(name);
+  if (!state) {
+    throw new CLIError(`No background server named "${name}" (see mpak ps)`, ExitCode.NOT_FOUND);
+  }
+  return state;
+}
+
+/**
+ * Start a daemon from its state (pid still to be assigned) and wait until
+ * it answers /health. Output goes to <name>.log.
+ */
+async function launchDaemon(state: DaemonState, extraArgs: string[] = []): Promise<DaemonState> {
+  const paths = getDaemonPaths(state.name);
+  mkdirSync(getRunDir(), { recursive: true, mode: 0o700 });
+  const log = openSync(paths.log, 'a');
+  const args = [...state.args, ...extraArgs];
+  writeSync(log, `=> ${new Date().toISOString()} mpak ${args.join(' ')}\n`);
+
+  const env = { ...process.env };
+  if (state.authToken) env[BRIDGE_TOKEN_ENV_VAR] = state.authToken;
+  const child = spawn(process.execPath, [...process.execArgv, process.argv[1], ...args], {
+    detached: true,
+    stdio: ['ignore', log, log],
+    env,
+  });
+  closeSync(log);
+  let exited = child.pid === undefined;
+  child.on('exit', () => (exited = true));
+  child.on('error', () => (exited = true));
+  child.unref();
+
+  const started: DaemonState = { ...state, pid: child.pid ?? 0, startedAt: new Date().toISOString() };
+  writeDaemonState(started);
+
+  const health = healthUrl(started);
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (exited || !isProcessAlive(started.pid)) {
+      removeDaemonState(state.name);
+      const tail = readLastLines(paths.log, 10);
+      throw new CLIError(`${state.name} exited during startup. Last log lines:\n  ${tail.join('\n  ')}`);
+    }
+    try {
+      const response = await fetch(health);
+      if (response.ok) {
+        const body = (await response.json()) as { version?: string };
+        if (body.version) {
+          started.version = body.version;
+          writeDaemonState(started);
+        }
+        return started;
+      }
+    } catch {
+      // Not listening yet
+    }
+    await sleep(250);
+  }
+
+  process.stderr.write(`=> ${state.name} is still starting after ${START_TIMEOUT_MS / 1000}s; see mpak logs ${state.name}\n`);
+  return started;
+}
+
+/**
+ * Ask a daemon to stop, then kill its process group if it doesn't. Nothing
+ * is signalled unless the pid is still the daemon's.
+ * @returns false if it was not running
+ */
+async function stopDaemon(state: DaemonState): Promise<boolean> {
+  if (!(await isDaemonRunning(state))) {
+    return false;
+  }
+  process.kill(state.pid, 'SIGTERM');
+  const deadline = Date.now() + STOP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (!isProcessAlive(state.pid)) return true;
+    await sleep(100);
+  }
+  process.stderr.write(`=> ${state.name} did not stop within ${STOP_TIMEOUT_MS / 1000}s; killing it\n`);
+  try {
+    process.kill(process.platform === 'win32' ? state.pid : -state.pid, 'SIGKILL');
+  } catch {
+    // Gone in the meantime
+  }
+  return true;
+}
+
+/**
+ * Serve a bundle (or a gateway config) over HTTP in the background
+ * @example mpak start @nimblebraininc/echo
+ * @example mpak start --config servers.json --name tools --port 9000
+ */
+export async function handleStart(packageSpec: string | undefined, options: StartOptions = {}): Promise<void> {
+  const sources = [packageSpec, options.local, options.config].filter(Boolean);
+  if (sources.length !== 1) {
+    throw new CLIError('Give one of a package, --local <bundle> or --config <servers.json>');
+  }
+  const kind: DaemonState['kind'] = options.config ? 'gateway' : options.local ? 'local' : 'package';
+  const target = kind === 'package' ? packageSpec! : resolve((options.config ?? options.local)!);
+  if (kind !== 'package' && !existsSync(target)) {
+    throw new CLIError(`File not found: ${target}`);
+  }
+
+  const transport = options.transport ?? 'http';
+  if (transport !== 'http' && transport !== 'sse') {
+    throw new CLIError(`Unknown transport "${transport}". Background servers use http or sse`);
+  }
+  const name = options.name ?? daemonNameFor(kind, target);
+  if (!DAEMON_NAME_PATTERN.test(name)) {
+    throw new CLIError(`Invalid name "${name}". Use letters, digits, ".", "-" and "_"`);
+  }
+
+  const existing = readDaemonState(name);
+  if (existing && (await isDaemonRunning(existing))) {
+    throw new CLIError(`${name} is already running (pid ${existing.pid}). Stop it first or pick another --name`);
+  }
+
+  const host = options.host || DEFAULT_HTTP_HOST;
+  let port = options.port;
+  if (port === undefined) {
+    port = await findFreePort(host);
+  } else if (!(await isPortFree(host, port))) {
+    throw new CLIError(`Port ${port} is already in use`);
+  }
+
+  const args =
+    kind === 'gateway' ? ['serve', '--config', target] : kind === 'local' ? ['run', '--local', target] : ['run', target];
+  args.push('--transport', transport, '--host', host, '--port', String(port));
+  if (options.cors) args.push('--cors', options.cors);
+  if (options.timeout) args.push('--timeout', String(options.timeout));
+  args.push('--log-file', getDaemonPaths(name).log);
+
+  const state = await launchDaemon(
+    {
+      name,
+      kind,
+      target,
+      pid: 0,
+      transport: transport as HttpTransport,
+      host,
+      port,
+      startedAt: '',
+      args,
+      ...(options.authToken || process.env[BRIDGE_TOKEN_ENV_VAR]
+        ? { authToken: options.authToken || process.env[BRIDGE_TOKEN_ENV_VAR] }
+        : {}),
+    },
+    // Only the first start refreshes the cache
+    options.update && kind !== 'gateway' ? ['--update'] : []
+  );
+
+  console.log(`\u2713 Started ${name} (pid ${state.pid}) at ${daemonUrl(state)}`);
+  console.log(`  Logs: mpak logs ${name}`);
+}
+
+/**
+ * List background servers
+ * @example mpak ps --json
+ */
+export async function handlePs(options: PsOptions = {}): Promise<void> {
+  const now = Date.now();
+  const rows = await Promise.all(
+    listDaemons().map(async ({ authToken, ...state }) => ({
+      ...state,
+      url: daemonUrl(state),
+      running: await isDaemonRunning({ ...state, authToken }),
+      auth: Boolean(authToken),
+    }))
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(rows, null, 2));
+    return;
+  }
+
+  if (rows.length === 0) {
+    console.log('No background servers.');
+    console.log('');
+    console.log('Start one with: mpak start <package>');
+    return;
+  }
+
+  const nameWidth = Math.max(12, ...rows.map((r) => r.name.length)) + 2;
+  const targetWidth = Math.max(20, ...rows.map((r) => r.target.length)) + 2;
+  const versionWidth = Math.max(8, ...rows.map((r) => (r.version ?? '-').length)) + 2;
+  const pidWidth = 9;
+  const uptimeWidth = 10;
+
+  console.log('');
+  console.log(
+    'NAME'.padEnd(nameWidth) +
+      'SERVES'.padEnd(targetWidth) +
+      'VERSION'.padEnd(versionWidth) +
+      'PID'.padEnd(pidWidth) +
+      'UPTIME'.padEnd(uptimeWidth) +
+      'URL'
+  );
+  for (const row of rows) {
+    console.log(
+      row.name.padEnd(nameWidth) +
+        row.target.padEnd(targetWidth) +
+        (row.version ?? '-').padEnd(versionWidth) +
+        String(row.pid).padEnd(pidWidth) +
+        (row.running ? formatUptime(now - Date.parse(row.startedAt)) : 'exited').padEnd(uptimeWidth) +
+        row.url
+    );
+  }
+  console.log('');
+
+  if (rows.some((row) => !row.running)) {
+    console.log('Exited servers can be restarted (mpak restart <name>) or cleared (mpak stop <name>).');
+  }
+}
+
+/**
+ * Stop background servers. Their logs are kept.
+ * @example mpak stop echo
+ * @example mpak stop --all
+ */
+export async function handleStop(name: string | undefined, options: StopOptions = {}): Promise<void> {
+  if (!name && !options.all) {
+    throw new CLIError('Name a server to stop, or use --all');
+  }
+  const states = options.all ? listDaemons() : [requireDaemon(name!)];
+  if (states.length === 0) {
+    console.log('No background servers.');
+    return;
+  }
+
+  for (const state of states) {
+    const wasRunning = await stopDaemon(state);
+    removeDaemonState(state.name);
+    console.log(wasRunning ? `\u2713 Stopped ${state.name}` : `\u2713 Removed ${state.name} (it was not running)`);
+  }
+}
+
+/**
+ * Stop a background server and start it again with the same settings
+ * @example mpak restart echo
+ */
+export async function handleRestart(name: string): Promise<void> {
+  const state = requireDaemon(name);
+  await stopDaemon(state);
+  const restarted = await launchDaemon(state);
+  console.log(`\u2713 Restarted ${name} (pid ${restarted.pid}) at ${daemonUrl(restarted)}`);
+}
+
+/**
+ * Print a background server's log, optionally following it
+ * @example mpak logs echo -f
+ */
+export async function handleLogs(name: string, options: LogsOptions = {}): Promise<void> {
+  const { log } = getDaemonPaths(name);
+  if (!existsSync(log)) {
+    throw new CLIError(`No logs for "${name}" (see mpak ps)`, ExitCode.NOT_FOUND);
+  }
+
+  for (const line of readLastLines(log, options.lines ?? DEFAULT_LOG_LINES)) {
+    console.log(line);
+  }
+  if (!options.follow) {
+    return;
+  }
+
+  // Print what's appended; a smaller file means the log was rotated
+  let position = statSync(log).size;
+  watchFile(log, { interval: 500 }, (current) => {
+    if (current.size < position) position = 0;
+    if (current.size === position) return;
+    const buffer = Buffer.alloc(current.size - position);
+    const fd = openSync(log, 'r');
+    try {
+      readSync(fd, buffer, 0, buffer.length, position);
+    } finally {
+      closeSync(fd);
+    }
+    position = current.size;
+    process.stdout.write(buffer);
+  });
+}
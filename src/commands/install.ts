@@ -0,0 +1,276 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { RegistryClient, type Platform } from '../lib/api/registry-client.js';
+import { getSkillDownloadInfo } from '../lib/api/skills-client.js';
+import { resolveBundleVersion, resolveSkillVersion } from '../lib/version-resolver.js';
+import { getCacheMetadata, getVersionCacheDir } from '../lib/cache.js';
+import { parsePackageSpec, pullBundleToCache } from './packages/run.js';
+import { getSkillsDir, getShortName, downloadAndExtractSkill } from './skills/install.js';
+import { exitCodeFor } from '../utils/errors.js';
+import {
+  LATEST_SPECIFIER,
+  PROJECT_MANIFEST_FILE,
+  LOCKFILE_FILE,
+  createLockfile,
+  findLockedArtifact,
+  findProjectRoot,
+  readLockfile,
+  readProjectManifest,
+  writeLockfile,
+  writeProjectManifest,
+  type Lockfile,
+  type LockedBundle,
+  type LockedSkill,
+  type ProjectManifest,
+} from '../utils/lockfile.js';
+
+export interface InstallOptions {
+  skill?: boolean;
+  frozenLockfile?: boolean;
+  json?: boolean;
+}
+
+interface InstallResult {
+  type: 'bundle' | 'skill';
+  name: string;
+  version: string;
+  sha256: string;
+  status: 'installed' | 'up-to-date';
+}
+
+/**
+ * Error raised when mpak.lock would need to change under --frozen-lockfile
+ */
+class LockfileOutdatedError extends Error {
+  constructor(detail: string) {
+    super(`${LOCKFILE_FILE} is out of date (${detail}). Run 'mpak install' without --frozen-lockfile to update it`);
+    this.name = 'LockfileOutdatedError';
+  }
+}
+
+/**
+ * Add package specs to mpak.json as bundles or skills
+ */
+function addToManifest(manifest: ProjectManifest, specs: string[], asSkill: boolean): void {
+  const key = asSkill ? 'skills' : 'bundles';
+  const deps = manifest[key] ?? {};
+  for (const spec of specs) {
+    const { name, version } = parsePackageSpec(spec);
+    if (!name.startsWith('@') || !name.includes('/')) {
+      throw new Error(`Package name must be scoped (e.g., @username/package-name): ${spec}`);
+    }
+    deps[name] = version || LATEST_SPECIFIER;
+  }
+  manifest[key] = deps;
+}
+
+/**
+ * Resolve a bundle against the lockfile (or the registry when it isn't
+ * locked yet) and make sure the locked artifact is in the run cache
+ */
+async function installBundle(
+  client: RegistryClient,
+  lockfile: Lockfile,
+  name: string,
+  specifier: string,
+  platform: Platform,
+  options: InstallOptions
+): Promise<InstallResult> {
+  let locked: LockedBundle | undefined = lockfile.bundles[name];
+  if (locked && locked.specifier !== specifier) {
+    if (options.frozenLockfile) {
+      throw new LockfileOutdatedError(`${name} changed from ${locked.specifier} to ${specifier}`);
+    }
+    locked = undefined;
+  }
+
+  const requestedVersion = locked
+    ? locked.version
+    : await resolveBundleVersion(client, name, specifier === LATEST_SPECIFIER ? undefined : specifier);
+  const downloadInfo = await client.getDownloadInfo(name, requestedVersion, platform);
+  const bundle = downloadInfo.bundle;
+
+  let artifact = locked ? findLockedArtifact(locked, platform) : undefined;
+  if (artifact) {
+    if (artifact.sha256 !== bundle.sha256) {
+      throw new Error(
+        `Digest drift for ${name}@${bundle.version} (${platform.os}-${platform.arch}): ` +
+        `${LOCKFILE_FILE} has ${artifact.sha256}, registry has ${bundle.sha256}`
+      );
+    }
+  } else {
+    if (options.frozenLockfile) {
+      throw new LockfileOutdatedError(
+        locked
+          ? `${name} has no artifact for ${platform.os}-${platform.arch}`
+          : `${name} is not locked`
+      );
+    }
+    if (!locked) {
+      locked = { specifier, version: bundle.version, artifacts: [] };
+      lockfile.bundles[name] = locked;
+    }
+    artifact = { platform: bundle.platform, sha256: bundle.sha256, url: downloadInfo.url };
+    locked.artifacts.push(artifact);
+  }
+
+  const cacheDir = getVersionCacheDir(name, bundle.version, platform);
+  const cachedMeta = getCacheMetadata(cacheDir);
+  if (cachedMeta && cachedMeta.version === bundle.version && cachedMeta.sha256 === artifact.sha256) {
+    return { type: 'bundle', name, version: bundle.version, sha256: artifact.sha256, status: 'up-to-date' };
+  }
+
+  await pullBundleToCache(client, downloadInfo, cacheDir, artifact.sha256);
+  return { type: 'bundle', name, version: bundle.version, sha256: artifact.sha256, status: 'installed' };
+}
+
+/**
+ * Resolve a skill against the lockfile (or the registry when it isn't
+ * locked yet) and install it to the skills directory
+ */
+async function installSkill(
+  lockfile: Lockfile,
+  name: string,
+  specifier: string,
+  options: InstallOptions
+): Promise<InstallResult> {
+  let locked: LockedSkill | undefined = lockfile.skills[name];
+  if (locked && locked.specifier !== specifier) {
+    if (options.frozenLockfile) {
+      throw new LockfileOutdatedError(`${name} changed from ${locked.specifier} to ${specifier}`);
+    }
+    locked = undefined;
+  }
+  if (!locked && options.frozenLockfile) {
+    throw new LockfileOutdatedError(`${name} is not locked`);
+  }
+
+  const requestedVersion = locked
+    ? locked.version
+    : await resolveSkillVersion(name, specifier === LATEST_SPECIFIER ? undefined : specifier);
+  const downloadInfo = await getSkillDownloadInfo(name, requestedVersion);
+  const skill = downloadInfo.skill;
+
+  if (locked) {
+    if (locked.sha256 !== skill.sha256) {
+      throw new Error(
+        `Digest drift for ${name}@${skill.version}: ${LOCKFILE_FILE} has ${locked.sha256}, registry has ${skill.sha256}`
+      );
+    }
+  } else {
+    locked = { specifier, version: skill.version, sha256: skill.sha256, url: downloadInfo.url };
+    lockfile.skills[name] = locked;
+  }
+
+  const skillsDir = getSkillsDir();
+  await downloadAndExtractSkill(
+    downloadInfo.url,
+    { sha256: locked.sha256, size: skill.size },
+    skillsDir,
+    join(skillsDir, getShortName(skill.name)),
+    { name: skill.name, version: skill.version, specifier, sha256: skill.sha256 }
+  );
+
+  return { type: 'skill', name, version: skill.version, sha256: skill.sha256, status: 'installed' };
+}
+
+/**
+ * Install the bundles and skills declared in mpak.json, exactly as pinned
+ * in mpak.lock. Packages passed on the command line are added to mpak.json first.
+ * @example mpak install
+ * @example mpak install @scope/bundle @scope/other@1.2.0
+ * @example mpak install --skill @scope/skill
+ * @example mpak install --frozen-lockfile
+ */
+export async function handleInstall(
+  packages: string[],
+  options: InstallOptions = {}
+): Promise<void> {
+  try {
+    if (packages.length > 0 && options.frozenLockfile) {
+      throw new Error('Cannot add packages with --frozen-lockfile');
+    }
+
+    let root = findProjectRoot();
+    if (!root) {
+      if (packages.length === 0) {
+        throw new Error(
+          `No ${PROJECT_MANIFEST_FILE} found. Run 'mpak install <package>' to create one`
+        );
+      }
+      root = process.cwd();
+    }
+
+    const manifestExists = existsSync(join(root, PROJECT_MANIFEST_FILE));
+    const manifest: ProjectManifest = manifestExists ? readProjectManifest(root) : {};
+    if (packages.length > 0) {
+      addToManifest(manifest, packages, !!options.skill);
+      writeProjectManifest(root, manifest);
+    }
+
+    const existingLockfile = readLockfile(root);
+    if (!existingLockfile && options.frozenLockfile) {
+      throw new LockfileOutdatedError(`${LOCKFILE_FILE} not found`);
+    }
+    const lockfile = existingLockfile ?? createLockfile();
+    const before = JSON.stringify(lockfile);
+
+    // Drop entries that are no longer declared
+    const bundleDeps = manifest.bundles ?? {};
+    const skillDeps = manifest.skills ?? {};
+    for (const name of Object.keys(lockfile.bundles)) {
+      if (!(name in bundleDeps)) {
+        if (options.frozenLockfile) throw new LockfileOutdatedError(`${name} was removed`);
+        delete lockfile.bundles[name];
+      }
+    }
+    for (const name of Object.keys(lockfile.skills)) {
+      if (!(name in skillDeps)) {
+        if (options.frozenLockfile) throw new LockfileOutdatedError(`${name} was removed`);
+        delete lockfile.skills[name];
+      }
+    }
+
+    const client = new RegistryClient();
+    const platform = RegistryClient.detectPlatform();
+    const results: InstallResult[] = [];
+
+    for (const [name, specifier] of Object.entries(bundleDeps)) {
+      results.push(await installBundle(client, lockfile, name, specifier, platform, options));
+    }
+    for (const [name, specifier] of Object.entries(skillDeps)) {
+      results.push(await installSkill(lockfile, name, specifier, options));
+    }
+
+    const lockfileUpdated = JSON.stringify(lockfile) !== before || !existingLockfile;
+    if (lockfileUpdated) {
+      writeLockfile(root, lockfile);
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify({ root, lockfileUpdated, packages: results }, null, 2));
+      return;
+    }
+
+    if (results.length === 0) {
+      console.log(`Nothing to install (${PROJECT_MANIFEST_FILE} has no bundles or skills)`);
+      return;
+    }
+
+    for (const result of results) {
+      const mark = result.status === 'installed' ? '✓' : '=';
+      console.log(`${mark} ${result.type.padEnd(7)} ${result.name}@${result.version}`);
+    }
+    console.log('');
+    console.log(`${results.length} package(s) installed from ${join(root, LOCKFILE_FILE)}`);
+    if (lockfileUpdated) {
+      console.log(`Updated ${LOCKFILE_FILE}`);
+    }
+  } catch (error) {
+    console.error('=> Install failed');
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+    process.exit(exitCodeFor(error));
+  }
+}
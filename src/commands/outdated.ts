@@ -0,0 +1,235 @@
+import { RegistryClient } from '../lib/api/registry-client.js';
+import { getSkillDownloadInfo } from '../lib/api/skills-client.js';
+import { getCacheMetadata, getVersionCacheDir, listCacheEntries, writeCurrentPointer } from '../lib/cache.js';
+import { listTrackedSkills } from '../lib/installed-skills.js';
+import {
+  checkOutdated,
+  findInstalledBundles,
+  findInstalledSkills,
+  needsUpdate,
+  registryVersionLookup,
+  type InstalledPackage,
+  type OutdatedResult,
+} from '../lib/outdated.js';
+import {
+  LOCKFILE_FILE,
+  findProjectRoot,
+  readLockfile,
+  readProjectManifest,
+  writeLockfile,
+  type Lockfile,
+  type ProjectManifest,
+} from '../utils/lockfile.js';
+import { NotFoundError, exitCodeFor } from '../utils/errors.js';
+import { pullBundleToCache } from './packages/run.js';
+import { downloadAndExtractSkill, getSkillsDir } from './skills/install.js';
+
+export interface OutdatedOptions {
+  json?: boolean;
+}
+
+export interface UpdateOptions {
+  json?: boolean;
+}
+
+interface UpdateResult {
+  type: InstalledPackage['type'];
+  name: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Cached bundles and mpak-installed skills, with the version spec each
+ * follows (mpak.json in the current project takes precedence)
+ */
+function findInstalledPackages(root: string | null = findProjectRoot()): InstalledPackage[] {
+  const manifest: ProjectManifest = root ? readProjectManifest(root) : {};
+  return [
+    ...findInstalledBundles(listCacheEntries(), manifest.bundles),
+    ...findInstalledSkills(listTrackedSkills(getSkillsDir()), manifest.skills),
+  ];
+}
+
+function printResults(results: OutdatedResult[]): void {
+  const nameWidth = Math.max(20, ...results.map((r) => r.name.length)) + 2;
+  const typeWidth = 8;
+  const versionWidth = Math.max(10, ...results.map((r) => r.current.length)) + 2;
+
+  console.log('');
+  console.log(
+    'NAME'.padEnd(nameWidth) +
+      'TYPE'.padEnd(typeWidth) +
+      'CURRENT'.padEnd(versionWidth) +
+      'WANTED'.padEnd(versionWidth) +
+      'LATEST'
+  );
+  for (const result of results) {
+    console.log(
+      result.name.padEnd(nameWidth) +
+        result.type.padEnd(typeWidth) +
+        result.current.padEnd(versionWidth) +
+        (result.wanted ?? '-').padEnd(versionWidth) +
+        (result.latest ?? '-')
+    );
+  }
+  console.log('');
+}
+
+function printLookupErrors(results: OutdatedResult[]): void {
+  for (const result of results) {
+    if (result.error) {
+      console.error(`\u2717 ${result.name}: ${result.error}`);
+    }
+  }
+}
+
+/**
+ * Compare cached bundles and installed skills to the registry
+ * @example mpak outdated
+ * @example mpak outdated --json
+ */
+export async function handleOutdated(options: OutdatedOptions = {}): Promise<void> {
+  try {
+    const results = await checkOutdated(findInstalledPackages(), registryVersionLookup(new RegistryClient()));
+    const outdated = results.filter((r) => r.outdated);
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+      return;
+    }
+
+    printLookupErrors(results);
+    if (results.length === 0) {
+      console.log('No cached bundles or installed skills.');
+      return;
+    }
+    if (outdated.length === 0) {
+      console.log(`All ${results.length} package(s) are up to date`);
+      return;
+    }
+
+    printResults(outdated);
+    if (outdated.some(needsUpdate)) {
+      console.log('Run "mpak update" to move packages to their wanted version');
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(exitCodeFor(err));
+  }
+}
+
+/**
+ * Move one package to its wanted version. Bundles are pulled into the cache
+ * and become current; skills are reinstalled in place. A package locked in
+ * the project's mpak.lock gets its entry moved to the new version (bundles
+ * keep only this platform's artifact; `mpak install` adds the others).
+ */
+async function updatePackage(
+  client: RegistryClient,
+  result: OutdatedResult,
+  lockfile: Lockfile | null
+): Promise<UpdateResult> {
+  const wanted = result.wanted!;
+
+  if (result.type === 'bundle') {
+    const platform = RegistryClient.detectPlatform();
+    const downloadInfo = await client.getDownloadInfo(result.name, wanted, platform);
+    const bundle = downloadInfo.bundle;
+    const cacheDir = getVersionCacheDir(result.name, bundle.version, platform);
+    if (!getCacheMetadata(cacheDir)) {
+      await pullBundleToCache(client, downloadInfo, cacheDir);
+    }
+    writeCurrentPointer(cacheDir, bundle.version);
+
+    const locked = lockfile?.bundles[result.name];
+    if (locked) {
+      locked.version = bundle.version;
+      locked.artifacts = [{ platform: bundle.platform, sha256: bundle.sha256, url: downloadInfo.url }];
+    }
+  } else {
+    const downloadInfo = await getSkillDownloadInfo(result.name, wanted);
+    const skill = downloadInfo.skill;
+    process.stderr.write(`=> Pulling ${skill.name}@${skill.version}...\n`);
+    await downloadAndExtractSkill(
+      downloadInfo.url,
+      { sha256: skill.sha256, size: skill.size },
+      getSkillsDir(),
+      result.path,
+      { name: skill.name, version: skill.version, specifier: result.specifier, sha256: skill.sha256 }
+    );
+
+    const locked = lockfile?.skills[result.name];
+    if (locked) {
+      locked.version = skill.version;
+      locked.sha256 = skill.sha256;
+      locked.url = downloadInfo.url;
+    }
+  }
+
+  return { type: result.type, name: result.name, from: result.current, to: wanted };
+}
+
+/**
+ * Update cached bundles and installed skills to the highest version their
+ * spec allows: all of them, or the named ones. Inside a project, mpak.lock
+ * follows the updates.
+ * @example mpak update
+ * @example mpak update @scope/bundle @scope/skill
+ */
+export async function handleUpdate(names: string[], options: UpdateOptions = {}): Promise<void> {
+  try {
+    const root = findProjectRoot();
+    let packages = findInstalledPackages(root);
+    if (names.length > 0) {
+      for (const name of names) {
+        if (!packages.some((p) => p.name === name)) {
+          throw new NotFoundError(`${name} is not cached or installed`);
+        }
+      }
+      packages = packages.filter((p) => names.includes(p.name));
+    }
+
+    const client = new RegistryClient();
+    const results = await checkOutdated(packages, registryVersionLookup(client));
+    const failed = results.find((r) => r.error);
+    if (failed) {
+      throw new Error(`Failed to check ${failed.name}: ${failed.error}`);
+    }
+
+    const lockfile = root ? readLockfile(root) : null;
+    const lockedBefore = JSON.stringify(lockfile);
+    const updated: UpdateResult[] = [];
+    try {
+      for (const result of results.filter(needsUpdate)) {
+        updated.push(await updatePackage(client, result, lockfile));
+      }
+    } finally {
+      // Record what was updated even if a later package failed
+      if (root && lockfile && JSON.stringify(lockfile) !== lockedBefore) {
+        writeLockfile(root, lockfile);
+        process.stderr.write(`=> Updated ${LOCKFILE_FILE}\n`);
+      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify({ updated }, null, 2));
+      return;
+    }
+
+    if (updated.length === 0) {
+      console.log('Everything is up to date');
+      return;
+    }
+    for (const update of updated) {
+      console.log(`\u2713 ${update.type.padEnd(7)} ${update.name} ${update.from} -> ${update.to}`);
+    }
+    if (updated.some((u) => u.type === 'skill')) {
+      console.log('');
+      console.log('Restart Claude Code to load updated skills.');
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(exitCodeFor(err));
+  }
+}
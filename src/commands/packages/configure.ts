@@ -0,0 +1,108 @@
+import {
+  defaultUserConfigValue,
+  formatUserConfigValue,
+  parseUserConfigValue,
+  promptUserConfigValue,
+  saveUserConfigValue,
+} from '../../lib/user-config.js';
+import type { McpbUserConfigField } from '../../schemas/generated/manifest.js';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { CLIError } from '../../utils/errors.js';
+import { SecretStore, isSecretReference } from '../../utils/secrets.js';
+import { resolveBundle } from './run.js';
+
+export interface ConfigureOptions {
+  local?: string;
+  update?: boolean;
+}
+
+/**
+ * Typed at a prompt to remove a stored value
+ */
+const CLEAR_WORD = '-';
+
+/**
+ * What the prompt shows in brackets for a field
+ */
+function describeCurrent(field: McpbUserConfigField, stored: string | undefined): string {
+  if (stored !== undefined) {
+    if (field.sensitive || isSecretReference(stored)) {
+      return 'set';
+    }
+    const parsed = parseUserConfigValue(field, stored);
+    return `current: ${parsed.valid ? formatUserConfigValue(parsed.value) : stored}`;
+  }
+  const defaultValue = defaultUserConfigValue(field);
+  if (defaultValue !== undefined) {
+    return `default: ${formatUserConfigValue(defaultValue)}`;
+  }
+  return field.required ? 'required' : 'optional';
+}
+
+/**
+ * Walk through every user_config field of a bundle, required or not, and
+ * save the answers. Enter keeps a value, "-" clears it.
+ * @example mpak configure @scope/name
+ * @example mpak configure --local ./bundle.mcpb
+ */
+export async function handleConfigure(packageSpec: string, options: ConfigureOptions = {}): Promise<void> {
+  if (process.stdin.isTTY !== true) {
+    throw new CLIError(
+      `mpak configure needs a terminal; use 'mpak config set ${packageSpec || '<package>'} <key>=<value>' instead`
+    );
+  }
+
+  const { packageName, manifest } = await resolveBundle(packageSpec, options);
+  const fields = Object.entries(manifest.user_config ?? {});
+  if (fields.length === 0) {
+    console.log(`${packageName} has no settings to configure`);
+    return;
+  }
+
+  const configManager = new ConfigManager();
+  const secrets = new SecretStore(configManager);
+  const sensitiveKeys = fields.filter(([, field]) => field.sensitive).map(([key]) => key);
+  const migrated = await secrets.migrate(packageName, sensitiveKeys);
+  if (migrated.length > 0) {
+    process.stderr.write(`=> Moved ${migrated.join(', ')} for ${packageName} out of ~/.mpak/config.json\n`);
+  }
+
+  process.stderr.write(`=> Configuring ${packageName} (Enter keeps a value, "${CLEAR_WORD}" clears it)\n`);
+
+  // Collect every answer before saving anything, so Ctrl-C leaves the config as it was
+  const changes: Array<{ key: string; field: McpbUserConfigField; value: string | string[] | null }> = [];
+  for (const [key, field] of fields) {
+    const stored = configManager.getPackageConfigValue(packageName, key);
+    const hasFallback = stored !== undefined || field.default !== undefined;
+
+    for (;;) {
+      const value = await promptUserConfigValue(key, field, {
+        hint: describeCurrent(field, stored),
+        clearWord: stored !== undefined ? CLEAR_WORD : undefined,
+      });
+      if (value === undefined && field.required && !hasFallback) {
+        process.stderr.write(`=> ${field.title || key} is required\n`);
+        continue;
+      }
+      if (value !== undefined) {
+        changes.push({ key, field, value });
+      }
+      break;
+    }
+  }
+
+  for (const { key, field, value } of changes) {
+    if (value === null) {
+      await secrets.delete(packageName, key);
+      configManager.clearPackageConfigValue(packageName, key);
+    } else {
+      await saveUserConfigValue(packageName, key, field, value, configManager, secrets);
+    }
+  }
+
+  console.log(
+    changes.length > 0
+      ? `Saved ${changes.length} setting(s) for ${packageName}`
+      : `No changes for ${packageName}`
+  );
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { describeType, formatSchemaProperties } from './inspect.js';
+
+describe('describeType', () => {
+  it('describes scalars, arrays, unions and enums', () => {
+    expect(describeType({ type: 'string' })).toBe('string');
+    expect(describeType({ type: 'array', items: { type: 'number' } })).toBe('number[]');
+    expect(describeType({ type: ['string', 'null'] })).toBe('string | null');
+    expect(describeType({ anyOf: [{ type: 'string' }, { type: 'integer' }] })).toBe('string | integer');
+    expect(describeType({ enum: ['asc', 'desc'] })).toBe('"asc" | "desc"');
+    expect(describeType({})).toBe('any');
+  });
+});
+
+describe('formatSchemaProperties', () => {
+  it('lists properties with required flags and descriptions', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search text' },
+        limit: { type: 'integer' },
+      },
+      required: ['query'],
+    };
+
+    expect(formatSchemaProperties(schema)).toEqual(['query: string (required) - Search text', 'limit: integer']);
+  });
+
+  it('handles schemas without properties', () => {
+    expect(formatSchemaProperties({ type: 'object' })).toEqual([]);
+  });
+});
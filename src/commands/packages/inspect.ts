@@ -0,0 +1,203 @@
+import {
+  DEFAULT_MCP_TIMEOUT_MS,
+  McpError,
+  StdioMcpClient,
+  type McpInitializeResult,
+  type McpPrompt,
+  type McpResource,
+  type McpResourceTemplate,
+  type McpTool,
+  type StdoutNoise,
+} from '../../lib/mcp/client.js';
+import { JsonRpcErrorCode } from '../../lib/mcp/jsonrpc.js';
+import { exitCodeFor } from '../../utils/errors.js';
+import { prepareServer } from './run.js';
+
+export interface InspectOptions {
+  local?: string;
+  update?: boolean;
+  timeout?: number;
+  json?: boolean;
+}
+
+/**
+ * What a running server reports about itself
+ */
+export interface InspectResult {
+  package: string;
+  protocolVersion: string;
+  serverInfo: McpInitializeResult['serverInfo'];
+  capabilities: McpInitializeResult['capabilities'];
+  instructions?: string;
+  tools: McpTool[];
+  prompts: McpPrompt[];
+  resources: McpResource[];
+  resourceTemplates: McpResourceTemplate[];
+  /** Non-JSON-RPC lines the server wrote to stdout while being inspected */
+  stdoutNoise: StdoutNoise;
+}
+
+/**
+ * Resource templates are optional even for servers with resources; treat
+ * "method not found" as none
+ */
+async function listResourceTemplates(client: StdioMcpClient): Promise<McpResourceTemplate[]> {
+  try {
+    return await client.listResourceTemplates();
+  } catch (err) {
+    if (err instanceof McpError && err.code === JsonRpcErrorCode.METHOD_NOT_FOUND) {
+      return [];
+    }
+    throw err;
+  }
+}
+
+/**
+ * Describe a JSON Schema type in one word or a short union
+ * @example describeType({ type: 'array', items: { type: 'string' } }) => 'string[]'
+ */
+export function describeType(schema: Record<string, unknown> | undefined): string {
+  if (!schema) return 'any';
+  if (Array.isArray(schema.enum)) return schema.enum.map((v) => JSON.stringify(v)).join(' | ');
+  const variants = (schema.anyOf ?? schema.oneOf) as Record<string, unknown>[] | undefined;
+  if (Array.isArray(variants)) return variants.map(describeType).join(' | ');
+  if (Array.isArray(schema.type)) return schema.type.join(' | ');
+  if (schema.type === 'array') return `${describeType(schema.items as Record<string, unknown> | undefined)}[]`;
+  return typeof schema.type === 'string' ? schema.type : 'any';
+}
+
+/**
+ * One line per top-level property of an object schema
+ * @example formatSchemaProperties({ properties: { q: { type: 'string' } }, required: ['q'] })
+ *   => ['q: string (required)']
+ */
+export function formatSchemaProperties(schema: Record<string, unknown>): string[] {
+  const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+  const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+
+  return Object.entries(properties).map(([name, property]) => {
+    let line = `${name}: ${describeType(property)}`;
+    if (required.has(name)) line += ' (required)';
+    if (typeof property.description === 'string') line += ` - ${property.description}`;
+    return line;
+  });
+}
+
+function formatCapabilities(capabilities: McpInitializeResult['capabilities']): string {
+  const names = Object.entries(capabilities).map(([name, value]) => {
+    const flags =
+      value && typeof value === 'object'
+        ? Object.entries(value).filter(([, enabled]) => enabled === true).map(([flag]) => flag)
+        : [];
+    return flags.length > 0 ? `${name} (${flags.join(', ')})` : name;
+  });
+  return names.length > 0 ? names.join(', ') : 'none';
+}
+
+function printResult(result: InspectResult): void {
+  const { serverInfo } = result;
+  console.log('');
+  console.log(`${serverInfo.title || serverInfo.name} ${serverInfo.version} (MCP ${result.protocolVersion})`);
+  console.log(`Capabilities: ${formatCapabilities(result.capabilities)}`);
+
+  if (result.instructions) {
+    console.log('');
+    console.log('Instructions:');
+    for (const line of result.instructions.split('\n')) console.log(`  ${line}`);
+  }
+
+  if (result.capabilities.tools) {
+    console.log('');
+    console.log(`Tools (${result.tools.length}):`);
+    for (const tool of result.tools) {
+      console.log(`  ${tool.name}${tool.title ? ` (${tool.title})` : ''}`);
+      if (tool.description) console.log(`    ${tool.description.split('\n')[0]}`);
+      const properties = formatSchemaProperties(tool.inputSchema ?? {});
+      for (const property of properties) console.log(`      ${property}`);
+    }
+  }
+
+  if (result.capabilities.prompts) {
+    console.log('');
+    console.log(`Prompts (${result.prompts.length}):`);
+    for (const prompt of result.prompts) {
+      console.log(`  ${prompt.name}${prompt.description ? ` - ${prompt.description.split('\n')[0]}` : ''}`);
+      for (const arg of prompt.arguments ?? []) {
+        console.log(`      ${arg.name}${arg.required ? ' (required)' : ''}${arg.description ? ` - ${arg.description}` : ''}`);
+      }
+    }
+  }
+
+  if (result.capabilities.resources) {
+    console.log('');
+    console.log(`Resources (${result.resources.length}):`);
+    for (const resource of result.resources) {
+      console.log(`  ${resource.uri}  ${resource.name}${resource.mimeType ? ` (${resource.mimeType})` : ''}`);
+    }
+    if (result.resourceTemplates.length > 0) {
+      console.log('');
+      console.log(`Resource templates (${result.resourceTemplates.length}):`);
+      for (const template of result.resourceTemplates) {
+        console.log(`  ${template.uriTemplate}  ${template.name}`);
+      }
+    }
+  }
+
+  console.log('');
+  if (result.stdoutNoise.lines > 0) {
+    console.log(
+      `\u2717 stdout: ${result.stdoutNoise.lines} line(s) that are not JSON-RPC. MCP clients read stdout as the ` +
+        'protocol stream, so servers must log to stderr (or run with "mpak run --guard-stdout").'
+    );
+    for (const line of result.stdoutNoise.sample) console.log(`    ${line}`);
+  } else {
+    console.log('\u2713 stdout: only JSON-RPC messages');
+  }
+  console.log('');
+}
+
+/**
+ * Start a bundle the way `run` does, ask it what it exposes over MCP, and
+ * shut it down
+ * @example mpak bundle inspect @scope/name
+ * @example mpak bundle inspect --local ./my-bundle.mcpb --json
+ */
+export async function handleInspect(packageSpec: string, options: InspectOptions = {}): Promise<void> {
+  let client: StdioMcpClient | undefined;
+  try {
+    const launch = await prepareServer(packageSpec, { local: options.local, update: options.update });
+    process.stderr.write(`=> Starting ${launch.packageName}...\n`);
+
+    client = await StdioMcpClient.start(
+      { command: launch.command, args: launch.args, env: launch.env, cwd: launch.cacheDir },
+      { timeoutMs: options.timeout ?? DEFAULT_MCP_TIMEOUT_MS }
+    );
+    const init = await client.initialize();
+    const { capabilities } = init;
+
+    const result: InspectResult = {
+      package: launch.packageName,
+      protocolVersion: init.protocolVersion,
+      serverInfo: init.serverInfo,
+      capabilities,
+      instructions: init.instructions,
+      tools: capabilities.tools ? await client.listTools() : [],
+      prompts: capabilities.prompts ? await client.listPrompts() : [],
+      resources: capabilities.resources ? await client.listResources() : [],
+      resourceTemplates: capabilities.resources ? await listResourceTemplates(client) : [],
+      stdoutNoise: { lines: 0, sample: [] },
+    };
+    await client.close();
+    result.stdoutNoise = client.stdoutNoise;
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      printResult(result);
+    }
+  } catch (err) {
+    await client?.close();
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(exitCodeFor(err));
+  }
+}
@@ -0,0 +1,129 @@
+import { existsSync, readFileSync } from 'fs';
+import { RegistryClient } from '../../lib/api/registry-client.js';
+import {
+  assertMpakServer,
+  buildServerEntry,
+  defaultServerName,
+  formatClientConfig,
+  readClientConfig,
+  resolveClientTarget,
+  withoutServer,
+  withServer,
+  writeClientConfig,
+  type McpClientTarget,
+} from '../../lib/mcp-clients.js';
+import { formatDiff } from '../../utils/diff.js';
+import { NotFoundError, exitCodeFor } from '../../utils/errors.js';
+import { parsePackageSpec } from './run.js';
+
+export interface BundleInstallOptions {
+  client: string;
+  scope?: string;
+  name?: string;
+  force?: boolean;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+export type BundleUninstallOptions = BundleInstallOptions;
+
+/**
+ * Write a changed client config, or show the diff under --dry-run
+ */
+function applyChange(
+  target: McpClientTarget,
+  serverName: string,
+  config: Record<string, unknown>,
+  next: Record<string, unknown>,
+  action: 'installed' | 'uninstalled',
+  options: BundleInstallOptions
+): void {
+  const before = existsSync(target.path) ? readFileSync(target.path, 'utf8') : '';
+  const after = formatClientConfig(next);
+  const changed = JSON.stringify(next) !== JSON.stringify(config);
+  const diff = changed ? formatDiff(before, after, target.path) : '';
+
+  const summary = { client: target.client, scope: target.scope, path: target.path, server: serverName, changed };
+
+  if (options.dryRun) {
+    if (options.json) {
+      console.log(JSON.stringify({ dryRun: true, ...summary, diff }, null, 2));
+    } else {
+      console.log(changed ? diff : `No changes to ${target.path}`);
+    }
+    return;
+  }
+
+  const backup = changed ? writeClientConfig(target.path, next) : null;
+
+  if (options.json) {
+    console.log(JSON.stringify({ [action]: true, ...summary, backup }, null, 2));
+    return;
+  }
+
+  if (!changed) {
+    console.log(`${serverName} is already registered in ${target.label} (${target.path})`);
+    return;
+  }
+  console.log(
+    action === 'installed'
+      ? `\u2713 Registered ${serverName} in ${target.label} (${target.path})`
+      : `\u2713 Removed ${serverName} from ${target.label} (${target.path})`
+  );
+  if (backup) {
+    console.log(`  Original saved to ${backup}`);
+  }
+  console.log(`  Restart ${target.label} to apply.`);
+}
+
+/**
+ * Register a bundle as an MCP server in a client config, launched with
+ * `mpak run <package>`
+ * @example mpak bundle install @scope/name --client claude-desktop
+ * @example mpak bundle install @scope/name@^1 --client claude-code --scope user
+ */
+export async function handleBundleInstall(packageSpec: string, options: BundleInstallOptions): Promise<void> {
+  try {
+    const { name } = parsePackageSpec(packageSpec);
+    const target = resolveClientTarget(options.client, options.scope);
+
+    // Fail on typos now rather than when the client first launches the server
+    await new RegistryClient().getBundle(name);
+
+    const serverName = options.name ?? defaultServerName(name);
+    const config = readClientConfig(target.path);
+    if (!options.force) {
+      assertMpakServer(config, target, serverName, name);
+    }
+    const next = withServer(config, target, serverName, buildServerEntry(target.client, packageSpec));
+    applyChange(target, serverName, config, next, 'installed', options);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(exitCodeFor(err));
+  }
+}
+
+/**
+ * Remove a bundle's MCP server entry from a client config
+ * @example mpak bundle uninstall @scope/name --client claude-desktop
+ */
+export async function handleBundleUninstall(packageSpec: string, options: BundleUninstallOptions): Promise<void> {
+  try {
+    const { name } = parsePackageSpec(packageSpec);
+    const target = resolveClientTarget(options.client, options.scope);
+    const serverName = options.name ?? defaultServerName(name);
+
+    const config = readClientConfig(target.path);
+    const next = withoutServer(config, target, serverName);
+    if (!next) {
+      throw new NotFoundError(`${serverName} is not registered in ${target.label} (${target.path})`);
+    }
+    if (!options.force) {
+      assertMpakServer(config, target, serverName, name);
+    }
+    applyChange(target, serverName, config, next, 'uninstalled', options);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(exitCodeFor(err));
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  chmodSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  symlinkSync,
+  utimesSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { packBundle } from './pack.js';
+import { extractZip, readZipEntries } from '../../lib/zip.js';
+
+describe('packBundle', () => {
+  let testDir: string;
+  let bundleDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `bundle-pack-test-${Date.now()}`);
+    bundleDir = join(testDir, 'echo');
+    mkdirSync(join(bundleDir, 'server'), { recursive: true });
+    writeFileSync(
+      join(bundleDir, 'manifest.json'),
+      JSON.stringify({
+        manifest_version: '0.3',
+        name: '@test/echo',
+        version: '1.2.0',
+        description: 'Echo server',
+        server: {
+          type: 'node',
+          entry_point: 'server/index.js',
+          mcp_config: { command: 'node', args: ['${__dirname}/server/index.js'] },
+        },
+      })
+    );
+    writeFileSync(join(bundleDir, 'server', 'index.js'), 'console.log(1);');
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('fails for an invalid bundle', async () => {
+    rmSync(join(bundleDir, 'server', 'index.js'));
+
+    const result = await packBundle(bundleDir, { output: join(testDir, 'out.mcpb') });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Validation failed');
+  });
+
+  it('names the archive after the manifest and platform', async () => {
+    const cwd = process.cwd();
+    process.chdir(testDir);
+    try {
+      const result = await packBundle(bundleDir, { os: 'linux', arch: 'arm64' });
+      expect(result.success).toBe(true);
+      expect(result.path).toBe(join(testDir, 'test-echo-1.2.0-linux-arm64.mcpb'));
+      expect(result.os).toBe('linux');
+      expect(result.arch).toBe('arm64');
+      expect(result.sha256).toMatch(/^[a-f0-9]{64}$/);
+      expect(result.size).toBe(statSync(result.path!).size);
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+
+  it('stamps non-binary bundles as any-any by default', async () => {
+    const result = await packBundle(bundleDir, { output: join(testDir, 'out.mcpb') });
+    expect(result.os).toBe('any');
+    expect(result.arch).toBe('any');
+  });
+
+  it('produces byte-identical archives regardless of mtimes', async () => {
+    const first = await packBundle(bundleDir, { output: join(testDir, 'a.mcpb') });
+    utimesSync(join(bundleDir, 'server', 'index.js'), new Date(2001, 1, 1), new Date(2001, 1, 1));
+    const second = await packBundle(bundleDir, { output: join(testDir, 'b.mcpb') });
+
+    expect(first.sha256).toBe(second.sha256);
+    expect(readFileSync(join(testDir, 'a.mcpb')).equals(readFileSync(join(testDir, 'b.mcpb')))).toBe(
+      true
+    );
+  });
+
+  it('sorts entries and applies .mcpbignore and the default ignores', async () => {
+    mkdirSync(join(bundleDir, 'tests'));
+    mkdirSync(join(bundleDir, '.git'));
+    writeFileSync(join(bundleDir, 'tests', 'echo.test.js'), '');
+    writeFileSync(join(bundleDir, '.git', 'HEAD'), '');
+    writeFileSync(join(bundleDir, 'README.md'), '');
+    writeFileSync(join(bundleDir, 'NOTES.md'), '');
+    writeFileSync(join(bundleDir, '.mcpbignore'), 'tests/\n*.md\n!README.md\n');
+
+    const result = await packBundle(bundleDir, { output: join(testDir, 'out.mcpb') });
+    expect(result.success).toBe(true);
+
+    const names = readZipEntries(result.path!).map((entry) => entry.name);
+    expect(names).toEqual(['README.md', 'manifest.json', 'server/index.js']);
+    expect(result.files).toBe(3);
+  });
+
+  it('preserves executable bits and symlinks through extraction', async () => {
+    writeFileSync(join(bundleDir, 'server', 'run.sh'), '#!/bin/sh\n');
+    chmodSync(join(bundleDir, 'server', 'run.sh'), 0o755);
+    symlinkSync('index.js', join(bundleDir, 'server', 'main.js'));
+
+    const result = await packBundle(bundleDir, { output: join(testDir, 'out.mcpb') });
+    const extracted = join(testDir, 'extracted');
+    await extractZip(result.path!, extracted);
+
+    expect(statSync(join(extracted, 'server', 'run.sh')).mode & 0o777).toBe(0o755);
+    expect(statSync(join(extracted, 'server', 'index.js')).mode & 0o777).toBe(0o644);
+    expect(readFileSync(join(extracted, 'server', 'main.js'), 'utf8')).toBe('console.log(1);');
+  });
+
+  it('rejects symlinks pointing outside the bundle', async () => {
+    symlinkSync('../../outside', join(bundleDir, 'server', 'escape'));
+
+    const result = await packBundle(bundleDir, { output: join(testDir, 'out.mcpb') });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Symlink points outside the bundle');
+  });
+});
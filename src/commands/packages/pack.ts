@@ -0,0 +1,266 @@
+import {
+  createWriteStream,
+  existsSync,
+  lstatSync,
+  readdirSync,
+  readFileSync,
+  readlinkSync,
+  statSync,
+} from 'fs';
+import { basename, dirname, join, posix, resolve } from 'path';
+import archiver from 'archiver';
+import { RegistryClient } from '../../lib/api/registry-client.js';
+import { sha256File } from '../../lib/download.js';
+import { isIgnored, parseIgnoreFile, type IgnoreRule } from '../../utils/ignore.js';
+import { formatSize } from '../../utils/progress.js';
+import { validateBundleDirectory, formatBundleValidationResult } from './validate.js';
+
+export const MCPB_IGNORE_FILE = '.mcpbignore';
+
+/**
+ * Always excluded, before any .mcpbignore rules (which can re-include them)
+ */
+export const DEFAULT_MCPB_IGNORE = [
+  '.git/',
+  '.hg/',
+  '.svn/',
+  '.DS_Store',
+  'Thumbs.db',
+  MCPB_IGNORE_FILE,
+  '*.mcpb',
+  '.env',
+  '.env.*',
+  'npm-debug.log*',
+  'yarn-error.log*',
+  '__pycache__/',
+  '*.pyc',
+];
+
+/**
+ * Fixed timestamp for every entry so identical inputs give identical archives
+ */
+const ARCHIVE_DATE = new Date('1980-01-01T00:00:00Z');
+
+export interface BundlePackResult {
+  success: boolean;
+  path: string | null;
+  name: string | null;
+  version: string | null;
+  os: string | null;
+  arch: string | null;
+  files: number | null;
+  size: number | null;
+  sha256: string | null;
+  error: string | null;
+}
+
+export interface BundlePackOptions {
+  output?: string;
+  os?: string;
+  arch?: string;
+}
+
+export interface BundlePackEntry {
+  /** Archive path, `/`-separated */
+  name: string;
+  sourcePath: string;
+  symlink: boolean;
+  executable: boolean;
+}
+
+function failure(error: string, name: string | null = null, version: string | null = null): BundlePackResult {
+  return {
+    success: false,
+    path: null,
+    name,
+    version,
+    os: null,
+    arch: null,
+    files: null,
+    size: null,
+    sha256: null,
+    error,
+  };
+}
+
+/**
+ * Collect the files to pack, sorted by archive path, skipping ignored
+ * paths and never descending into ignored directories
+ */
+export function collectBundleFiles(bundleDir: string, rules: IgnoreRule[]): BundlePackEntry[] {
+  const root = resolve(bundleDir);
+  const entries: BundlePackEntry[] = [];
+
+  const walk = (dir: string, prefix: string): void => {
+    for (const name of readdirSync(dir)) {
+      const sourcePath = join(dir, name);
+      const archivePath = prefix ? `${prefix}/${name}` : name;
+      const stats = lstatSync(sourcePath);
+
+      if (stats.isDirectory()) {
+        if (!isIgnored(rules, archivePath, true)) {
+          walk(sourcePath, archivePath);
+        }
+        continue;
+      }
+      if (isIgnored(rules, archivePath, false)) {
+        continue;
+      }
+
+      if (stats.isSymbolicLink()) {
+        const target = readlinkSync(sourcePath);
+        const resolved = posix.normalize(posix.join(posix.dirname(archivePath), target.replace(/\\/g, '/')));
+        if (posix.isAbsolute(target) || resolved === '..' || resolved.startsWith('../')) {
+          throw new Error(`Symlink points outside the bundle: ${archivePath} -> ${target}`);
+        }
+        entries.push({ name: archivePath, sourcePath, symlink: true, executable: false });
+      } else if (stats.isFile()) {
+        entries.push({
+          name: archivePath,
+          sourcePath,
+          symlink: false,
+          executable: (stats.mode & 0o111) !== 0,
+        });
+      }
+    }
+  };
+
+  walk(root, '');
+  // Byte-order sort so the archive does not depend on locale or readdir order
+  return entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
+/**
+ * Default platform stamp: binary servers target the current platform,
+ * everything else is platform-independent
+ */
+function defaultPlatform(serverType: string): { os: string; arch: string } {
+  return serverType === 'binary' ? RegistryClient.detectPlatform() : { os: 'any', arch: 'any' };
+}
+
+/**
+ * Write entries to a deterministic zip (fixed dates, normalized modes)
+ */
+function writeArchive(entries: BundlePackEntry[], outputPath: string): Promise<number> {
+  return new Promise((resolvePromise, reject) => {
+    const output = createWriteStream(outputPath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+
+    output.on('close', () => resolvePromise(archive.pointer()));
+    output.on('error', reject);
+    archive.on('error', reject);
+    archive.on('warning', reject);
+    archive.pipe(output);
+
+    for (const entry of entries) {
+      if (entry.symlink) {
+        archive.file(entry.sourcePath, { name: entry.name, date: ARCHIVE_DATE });
+      } else {
+        archive.file(entry.sourcePath, {
+          name: entry.name,
+          date: ARCHIVE_DATE,
+          mode: entry.executable ? 0o755 : 0o644,
+        });
+      }
+    }
+
+    archive.finalize();
+  });
+}
+
+/**
+ * Create a .mcpb bundle from a bundle directory
+ */
+export async function packBundle(
+  bundlePath: string,
+  options: BundlePackOptions = {}
+): Promise<BundlePackResult> {
+  // Validate first
+  const validation = validateBundleDirectory(bundlePath);
+  if (!validation.valid || !validation.manifest) {
+    return failure(`Validation failed:\n${formatBundleValidationResult(validation)}`);
+  }
+
+  const { name, version } = validation.manifest;
+  const detected = defaultPlatform(validation.manifest.server.type);
+  const os = options.os || detected.os;
+  const arch = options.arch || detected.arch;
+
+  const ignorePath = join(bundlePath, MCPB_IGNORE_FILE);
+  const rules = parseIgnoreFile(
+    [...DEFAULT_MCPB_IGNORE, existsSync(ignorePath) ? readFileSync(ignorePath, 'utf-8') : ''].join('\n')
+  );
+
+  let entries: BundlePackEntry[];
+  try {
+    entries = collectBundleFiles(bundlePath, rules);
+  } catch (err) {
+    return failure(err instanceof Error ? err.message : String(err), name, version);
+  }
+  if (!entries.some((entry) => entry.name === 'manifest.json')) {
+    return failure(`manifest.json is excluded by ${MCPB_IGNORE_FILE}`, name, version);
+  }
+
+  // Determine output path
+  const bundleName = `${name.replace('@', '').replace('/', '-')}-${version}-${os}-${arch}.mcpb`;
+  const finalOutputPath = resolve(options.output || bundleName);
+  if (!existsSync(dirname(finalOutputPath)) || !statSync(dirname(finalOutputPath)).isDirectory()) {
+    return failure(`Output directory not found: ${dirname(finalOutputPath)}`, name, version);
+  }
+
+  try {
+    const size = await writeArchive(entries, finalOutputPath);
+    const sha256 = await sha256File(finalOutputPath);
+    return {
+      success: true,
+      path: finalOutputPath,
+      name,
+      version,
+      os,
+      arch,
+      files: entries.length,
+      size,
+      sha256,
+      error: null,
+    };
+  } catch (err) {
+    return failure(`Archive error: ${err instanceof Error ? err.message : err}`, name, version);
+  }
+}
+
+export interface BundlePackCommandOptions extends BundlePackOptions {
+  json?: boolean;
+}
+
+/**
+ * Handle the bundle pack command
+ */
+export async function handleBundlePack(
+  bundlePath: string,
+  options: BundlePackCommandOptions
+): Promise<void> {
+  if (!options.json) {
+    console.log('');
+    console.log(`Validating ${bundlePath}...`);
+  }
+
+  const result = await packBundle(bundlePath, options);
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else if (result.success) {
+    console.log(`\u2713 Valid: ${result.name}@${result.version}`);
+    console.log('');
+    console.log(`Creating bundle (${result.os}-${result.arch})...`);
+    console.log(
+      `\u2713 Created: ${basename(result.path!)} (${result.files} files, ${formatSize(result.size!)})`
+    );
+    console.log(`  SHA256: ${result.sha256}`);
+  } else {
+    console.log(result.error);
+  }
+
+  if (!result.success) {
+    process.exit(1);
+  }
+}
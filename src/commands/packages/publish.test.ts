@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { prepareBundleAnnounce, resolveReleaseTag } from './publish.js';
+
+describe('resolveReleaseTag', () => {
+  afterEach(() => {
+    delete process.env.GITHUB_REF_TYPE;
+    delete process.env.GITHUB_REF_NAME;
+  });
+
+  it('prefers the explicit tag', () => {
+    process.env.GITHUB_REF_TYPE = 'tag';
+    process.env.GITHUB_REF_NAME = 'release-1';
+    expect(resolveReleaseTag('1.0.0', 'custom')).toBe('custom');
+  });
+
+  it('uses the tag GitHub Actions is building', () => {
+    process.env.GITHUB_REF_TYPE = 'tag';
+    process.env.GITHUB_REF_NAME = 'release-1';
+    expect(resolveReleaseTag('1.0.0')).toBe('release-1');
+  });
+
+  it('ignores branch refs and falls back to v<version>', () => {
+    process.env.GITHUB_REF_TYPE = 'branch';
+    process.env.GITHUB_REF_NAME = 'main';
+    expect(resolveReleaseTag('1.0.0')).toBe('v1.0.0');
+  });
+});
+
+describe('prepareBundleAnnounce', () => {
+  let testDir: string;
+  let bundleDir: string;
+
+  function writeManifest(overrides: Record<string, unknown> = {}): void {
+    writeFileSync(
+      join(bundleDir, 'manifest.json'),
+      JSON.stringify({
+        manifest_version: '0.3',
+        name: '@test/echo',
+        version: '1.0.0',
+        description: 'Echo server',
+        server: { type: 'node', entry_point: 'server/index.js', mcp_config: { command: 'node' } },
+        screenshots: ['shot.png'],
+        ...overrides,
+      })
+    );
+  }
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `bundle-publish-test-${Date.now()}`);
+    bundleDir = join(testDir, 'echo');
+    mkdirSync(join(bundleDir, 'server'), { recursive: true });
+    writeFileSync(join(bundleDir, 'server', 'index.js'), 'console.log(1);');
+    writeManifest();
+    delete process.env.GITHUB_REF_TYPE;
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('packs a directory and builds the artifact block', async () => {
+    const output = join(testDir, 'test-echo-1.0.0-any-any.mcpb');
+    const { path, request } = await prepareBundleAnnounce(bundleDir, { output });
+
+    expect(path).toBe(output);
+    expect(request.name).toBe('@test/echo');
+    expect(request.version).toBe('1.0.0');
+    expect(request.release_tag).toBe('v1.0.0');
+    expect(request.prerelease).toBe(false);
+    expect(request.artifact).toMatchObject({
+      filename: 'test-echo-1.0.0-any-any.mcpb',
+      os: 'any',
+      arch: 'any',
+    });
+    expect(request.artifact.sha256).toMatch(/^[a-f0-9]{64}$/);
+    expect(request.artifact.size).toBeGreaterThan(0);
+    // Manifest is sent as published, including fields the CLI does not model
+    expect(request.manifest.screenshots).toEqual(['shot.png']);
+  });
+
+  it('takes the platform of an existing artifact from its filename', async () => {
+    const packed = join(testDir, 'packed.mcpb');
+    await prepareBundleAnnounce(bundleDir, { output: packed });
+    const artifact = join(testDir, 'echo-1.0.0-linux-arm64.mcpb');
+    renameSync(packed, artifact);
+
+    const { request } = await prepareBundleAnnounce(artifact);
+    expect(request.artifact.os).toBe('linux');
+    expect(request.artifact.arch).toBe('arm64');
+  });
+
+  it('requires --os/--arch for binary artifacts without a platform in the name', async () => {
+    writeManifest({
+      server: { type: 'binary', entry_point: 'server/index.js', mcp_config: {} },
+    });
+    const packed = join(testDir, 'packed.mcpb');
+    await prepareBundleAnnounce(bundleDir, { output: packed, os: 'linux', arch: 'x64' });
+
+    await expect(prepareBundleAnnounce(packed)).rejects.toThrow(/pass --os and --arch/);
+  });
+
+  it('marks prerelease versions', async () => {
+    writeManifest({ version: '2.0.0-beta.1' });
+    const { request } = await prepareBundleAnnounce(bundleDir, {
+      output: join(testDir, 'beta.mcpb'),
+    });
+    expect(request.prerelease).toBe(true);
+  });
+
+  it('rejects invalid bundles', async () => {
+    rmSync(join(bundleDir, 'server', 'index.js'));
+    await expect(
+      prepareBundleAnnounce(bundleDir, { output: join(testDir, 'x.mcpb') })
+    ).rejects.toThrow(/Validation failed/);
+  });
+});
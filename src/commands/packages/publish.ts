@@ -0,0 +1,151 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join, resolve } from 'path';
+import {
+  RegistryClient,
+  type BundleAnnounceRequest,
+} from '../../lib/api/registry-client.js';
+import { sha256File } from '../../lib/download.js';
+import { getOidcToken } from '../../lib/oidc.js';
+import { extractZip } from '../../lib/zip.js';
+import { formatSize } from '../../utils/progress.js';
+import { packBundle } from './pack.js';
+import { formatBundleValidationResult, validateBundleDirectory } from './validate.js';
+import { exitCodeFor } from '../../utils/errors.js';
+
+export interface BundlePublishOptions {
+  output?: string;
+  os?: string;
+  arch?: string;
+  releaseTag?: string;
+  prerelease?: boolean;
+  json?: boolean;
+}
+
+const ARTIFACT_PLATFORM_PATTERN = /-(darwin|linux|win32|any)-(x64|arm64|any)\.mcpb$/;
+
+/**
+ * Release tag for an announce: explicit option, the tag GitHub Actions is
+ * building, or v<version>
+ */
+export function resolveReleaseTag(version: string, releaseTag?: string): string {
+  if (releaseTag) return releaseTag;
+  if (process.env.GITHUB_REF_TYPE === 'tag' && process.env.GITHUB_REF_NAME) {
+    return process.env.GITHUB_REF_NAME;
+  }
+  return `v${version}`;
+}
+
+/**
+ * Build the announce request for a bundle directory (packed first) or an
+ * existing .mcpb artifact. The artifact file must be attached to the
+ * GitHub release under the same filename.
+ */
+export async function prepareBundleAnnounce(
+  bundlePath: string,
+  options: BundlePublishOptions = {}
+): Promise<{ path: string; request: BundleAnnounceRequest }> {
+  if (!existsSync(bundlePath)) {
+    throw new Error(`Path not found: ${bundlePath}`);
+  }
+
+  let artifactPath: string;
+  let platform: { os: string; arch: string } | null = null;
+
+  if (statSync(bundlePath).isDirectory()) {
+    const packed = await packBundle(bundlePath, options);
+    if (!packed.success) {
+      throw new Error(packed.error || 'Failed to pack bundle');
+    }
+    artifactPath = packed.path!;
+    platform = { os: packed.os!, arch: packed.arch! };
+  } else {
+    artifactPath = resolve(bundlePath);
+  }
+
+  // Validate the artifact itself and read its manifest as published
+  const extractDir = mkdtempSync(join(tmpdir(), 'mpak-publish-'));
+  let manifest: Record<string, unknown>;
+  let serverType: string;
+  try {
+    await extractZip(artifactPath, extractDir);
+    const validation = validateBundleDirectory(extractDir);
+    if (!validation.valid || !validation.manifest) {
+      throw new Error(`Validation failed:\n${formatBundleValidationResult({ ...validation, path: artifactPath })}`);
+    }
+    serverType = validation.manifest.server.type;
+    manifest = JSON.parse(readFileSync(join(extractDir, 'manifest.json'), 'utf-8'));
+  } finally {
+    rmSync(extractDir, { recursive: true, force: true });
+  }
+
+  if (!platform) {
+    const fromFilename = ARTIFACT_PLATFORM_PATTERN.exec(basename(artifactPath));
+    const os = options.os || fromFilename?.[1];
+    const arch = options.arch || fromFilename?.[2];
+    if ((!os || !arch) && serverType === 'binary') {
+      throw new Error(
+        'Cannot tell which platform this binary bundle targets; pass --os and --arch'
+      );
+    }
+    platform = { os: os || 'any', arch: arch || 'any' };
+  }
+
+  const version = String(manifest.version);
+  return {
+    path: artifactPath,
+    request: {
+      name: String(manifest.name),
+      version,
+      manifest,
+      release_tag: resolveReleaseTag(version, options.releaseTag),
+      prerelease: options.prerelease ?? version.includes('-'),
+      artifact: {
+        filename: basename(artifactPath),
+        os: platform.os,
+        arch: platform.arch,
+        sha256: await sha256File(artifactPath),
+        size: statSync(artifactPath).size,
+      },
+    },
+  };
+}
+
+/**
+ * Handle the bundle publish command
+ */
+export async function handleBundlePublish(
+  bundlePath: string,
+  options: BundlePublishOptions = {}
+): Promise<void> {
+  try {
+    const { request } = await prepareBundleAnnounce(bundlePath, options);
+    const { artifact } = request;
+
+    if (!options.json) {
+      console.log(`=> Publishing ${request.name}@${request.version} (${artifact.os}-${artifact.arch})`);
+      console.log(`   Artifact: ${artifact.filename} (${formatSize(artifact.size)})`);
+      console.log(`   SHA256: ${artifact.sha256}`);
+      console.log(`   Release: ${request.release_tag}${request.prerelease ? ' (prerelease)' : ''}`);
+    }
+
+    const token = await getOidcToken();
+    const client = new RegistryClient();
+    const result = await client.announceBundle(request, token);
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    console.log(`\n=> Announced ${result.package}@${result.version} (${result.status})`);
+    console.log(`   Artifact: ${result.artifact.os}-${result.artifact.arch} (${result.artifact.filename})`);
+    console.log(`   Total artifacts: ${result.total_artifacts}`);
+  } catch (error) {
+    console.error('\n=> Failed to publish bundle');
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+    process.exit(exitCodeFor(error));
+  }
+}
@@ -1,5 +1,7 @@
 import { resolve } from 'path';
 import { RegistryClient } from '../../lib/api/registry-client.js';
+import { resolveBundleVersion } from '../../lib/version-resolver.js';
+import { exitCodeFor } from '../../utils/errors.js';
 
 export interface PullOptions {
   output?: string;
@@ -44,9 +46,10 @@ export async function handlePull(
   options: PullOptions = {}
 ): Promise<void> {
   try {
-    const { name, version } = parsePackageSpec(packageSpec);
+    const { name, version: specVersion } = parsePackageSpec(packageSpec);
 
     const client = new RegistryClient();
+    const version = await resolveBundleVersion(client, name, specVersion);
 
     // Detect platform (or use explicit overrides)
     const detectedPlatform = RegistryClient.detectPlatform();
@@ -80,17 +83,20 @@ export async function handlePull(
 
     console.log(`\n=> Downloading to ${outputPath}...`);
 
-    // Download the bundle
-    await client.downloadBundle(downloadInfo.url, outputPath);
+    // Download the bundle (verified before it is written to outputPath)
+    await client.downloadBundle(downloadInfo.url, outputPath, {
+      sha256: bundle.sha256,
+      size: bundle.size,
+    });
 
     console.log(`\n=> Bundle downloaded successfully!`);
     console.log(`   File: ${outputPath}`);
-    console.log(`   SHA256: ${bundle.sha256.substring(0, 16)}...`);
+    console.log(`   SHA256: ${bundle.sha256.substring(0, 16)}... (verified)`);
   } catch (error) {
     console.error('\n=> Failed to pull bundle');
     if (error instanceof Error) {
       console.error(`   ${error.message}`);
     }
-    process.exit(1);
+    process.exit(exitCodeFor(error));
   }
 }
@@ -1,7 +1,18 @@
-import { describe, it, expect } from 'vitest';
-import { homedir } from 'os';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { homedir, tmpdir } from 'os';
 import { join } from 'path';
-import { parsePackageSpec, getCacheDir, resolveArgs, substituteUserConfig, substituteEnvVars, getLocalCacheDir, localBundleNeedsExtract } from './run.js';
+import {
+  gatherUserConfigValues,
+  parsePackageSpec,
+  resolveArgs,
+  substituteUserConfig,
+  substituteEnvVars,
+  localBundleNeedsExtract,
+} from './run.js';
+import { getCacheDir, getLocalCacheDir } from '../../lib/cache.js';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { SecretStore, type SecretBackend } from '../../utils/secrets.js';
 
 describe('parsePackageSpec', () => {
   describe('scoped packages', () => {
@@ -127,6 +138,21 @@ describe('resolveArgs', () => {
       `${winPath}\\dist\\index.js`,
     ]);
   });
+
+  it('substitutes user_config values', () => {
+    expect(
+      resolveArgs(['--root=${user_config.root}', '${user_config.missing}'], cacheDir, { root: '/data' })
+    ).toEqual(['--root=/data', '${user_config.missing}']);
+  });
+
+  it('expands a multiple-value placeholder into one arg per value', () => {
+    expect(
+      resolveArgs(['${__dirname}/index.js', '${user_config.dirs}'], cacheDir, { dirs: ['/a', '/b'] })
+    ).toEqual([`${cacheDir}/index.js`, '/a', '/b']);
+    expect(resolveArgs(['--dirs=${user_config.dirs}'], cacheDir, { dirs: ['/a', '/b'] })).toEqual([
+      '--dirs=/a,/b',
+    ]);
+  });
 });
 
 describe('substituteUserConfig', () => {
@@ -259,3 +285,53 @@ describe('localBundleNeedsExtract', () => {
     expect(localBundleNeedsExtract('/any/path.mcpb', '/tmp')).toBe(true);
   });
 });
+
+describe('gatherUserConfigValues', () => {
+  const values = new Map<string, string>();
+  const backend: SecretBackend = {
+    name: 'memory',
+    description: 'memory',
+    isAvailable: () => true,
+    get: async (account) => values.get(account),
+    set: async (account, value) => {
+      values.set(account, value);
+    },
+    delete: async (account) => values.delete(account),
+  };
+  const userConfig = { api_key: { type: 'string' as const, sensitive: true }, region: { type: 'string' as const } };
+  let dir: string;
+  let configManager: ConfigManager;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mpak-run-test-'));
+    configManager = new ConfigManager(dir);
+    configManager.setPackageConfigValue('@scope/pkg', 'api_key', 'sk-old');
+    configManager.setPackageConfigValue('@scope/pkg', 'region', 'eu');
+    values.clear();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('moves plaintext sensitive values out of config.json on first use', async () => {
+    const secrets = new SecretStore(configManager, [backend]);
+
+    expect(await gatherUserConfigValues('@scope/pkg', userConfig, configManager, secrets)).toEqual({
+      api_key: 'sk-old',
+      region: 'eu',
+    });
+    expect(readFileSync(join(dir, 'config.json'), 'utf8')).not.toContain('sk-old');
+    expect(values.get('@scope/pkg:api_key')).toBe('sk-old');
+  });
+
+  it('still runs when the secret store cannot be used', async () => {
+    const secrets = new SecretStore(configManager, [{ ...backend, isAvailable: () => false }]);
+
+    expect(await gatherUserConfigValues('@scope/pkg', userConfig, configManager, secrets)).toEqual({
+      api_key: 'sk-old',
+      region: 'eu',
+    });
+    expect(configManager.getPackageConfigValue('@scope/pkg', 'api_key')).toBe('sk-old');
+  });
+});
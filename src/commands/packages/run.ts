@@ -1,53 +1,94 @@
-import { spawn, spawnSync } from 'child_process';
-import { createInterface } from 'readline';
-import { existsSync, mkdirSync, readFileSync, writeFileSync, chmodSync, rmSync, statSync } from 'fs';
-import { createHash } from 'crypto';
+import { spawn, spawnSync, type ChildProcess } from 'child_process';
+import { existsSync, mkdirSync, readFileSync, chmodSync, rmSync, statSync } from 'fs';
 import { homedir } from 'os';
 import { join, dirname, resolve, basename } from 'path';
-import { RegistryClient } from '../../lib/api/registry-client.js';
+import { RegistryClient, type DownloadInfo } from '../../lib/api/registry-client.js';
+import { extractZip } from '../../lib/zip.js';
+import { resolveBundleVersion } from '../../lib/version-resolver.js';
+import {
+  BRIDGE_TOKEN_ENV_VAR,
+  MCP_PATH,
+  SSE_PATH,
+  startHttpBridge,
+  type HttpTransport,
+} from '../../lib/mcp/http-bridge.js';
+import type { McpServerCommand } from '../../lib/mcp/client.js';
+import { relayStdio } from '../../lib/mcp/relay.js';
+import { TRACE_ENV_VAR, TraceRecorder, resolveTracePath } from '../../lib/mcp/trace.js';
+import { startLogRotation } from '../../lib/daemon.js';
+import {
+  defaultUserConfigValue,
+  parseUserConfigValue,
+  promptUserConfigValue,
+  saveUserConfigValue,
+  type UserConfigValues,
+} from '../../lib/user-config.js';
+import {
+  DEFAULT_RESTART_LIMITS,
+  RESTART_POLICIES,
+  RestartTracker,
+  describeExit,
+  exitStatus,
+  type RestartPolicy,
+} from '../../lib/supervisor.js';
+import {
+  CACHE_META_FILE,
+  commitStagingDir,
+  getCacheMetadata,
+  getCurrentCacheDir,
+  getLocalCacheDir,
+  getStagingDir,
+  getVersionCacheDir,
+  hashCacheContents,
+  isLegacyCacheDir,
+  parseDuration,
+  writeCacheMetadata,
+  writeCurrentPointer,
+} from '../../lib/cache.js';
 import { ConfigManager } from '../../utils/config-manager.js';
+import { CLIError } from '../../utils/errors.js';
+import { findLockedArtifact, getProjectLockedBundle } from '../../utils/lockfile.js';
+import { confirm } from '../../utils/prompt.js';
+import { SecretStore } from '../../utils/secrets.js';
+import { z } from 'zod';
+import {
+  McpbManifestSchema,
+  McpbServerSchema,
+  McpbUserConfigFieldSchema,
+  type McpbUserConfigField,
+} from '../../schemas/generated/manifest.js';
 
 export interface RunOptions {
   update?: boolean;
   local?: string;  // Path to local .mcpb file
+  trace?: string;  // JSONL file (or directory) to record MCP traffic to
+  guardStdout?: boolean;  // Forward only JSON-RPC from the server's stdout
+  transport?: string;  // stdio (default), http or sse
+  port?: number;
+  host?: string;
+  authToken?: string;  // Bearer token HTTP clients must send
+  cors?: string;  // Comma-separated browser origins allowed over HTTP
+  timeout?: number;  // HTTP: time to wait for each server response (ms)
+  restart?: string;  // no (default), on-failure or always
+  maxRestarts?: number;  // Restarts allowed within restartWindow
+  restartWindow?: string;  // Duration such as 60s or 5m
+  logFile?: string;  // Set by `mpak start`: the daemon's log, rotated while serving
 }
 
-interface McpConfig {
-  command: string;
-  args: string[];
-  env?: Record<string, string>;
-}
+export const DEFAULT_HTTP_PORT = 8080;
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
 
 /**
- * User configuration field definition (MCPB v0.3 spec)
+ * How long a server gets to exit after a shutdown signal (or after its
+ * stdin closes) before it is killed
  */
-interface UserConfigField {
-  type: 'string' | 'number' | 'boolean';
-  title?: string;
-  description?: string;
-  sensitive?: boolean;
-  required?: boolean;
-  default?: string | number | boolean;
-}
+const SHUTDOWN_GRACE_MS = 5_000;
 
-interface McpbManifest {
-  manifest_version: string;
-  name: string;
-  version: string;
-  description: string;
-  user_config?: Record<string, UserConfigField>;
-  server: {
-    type: 'node' | 'python' | 'binary';
-    entry_point: string;
-    mcp_config: McpConfig;
-  };
-}
-
-interface CacheMetadata {
-  version: string;
-  pulledAt: string;
-  platform: { os: string; arch: string };
-}
+/**
+ * Signals passed on to the server. SIGHUP is only forwarded (servers may
+ * reload on it); the others also stop supervision.
+ */
+const FORWARDED_SIGNALS = ['SIGINT', 'SIGTERM', 'SIGQUIT', 'SIGHUP'] as const;
 
 /**
  * Parse package specification into name and version
@@ -72,87 +113,152 @@ export function parsePackageSpec(spec: string): { name: string; version?: string
 }
 
 /**
- * Get cache directory for a package
- * @example getCacheDir('@scope/name') => '~/.mpak/cache/scope-name'
+ * Download a bundle and extract it into its version cache directory. The
+ * download is verified against the registry digest; when expectedSha256 is
+ * given (e.g. from mpak.lock) the registry digest must also match it.
+ *
+ * Extraction goes to a staging directory that is renamed into place, so
+ * other versions of the bundle, and servers running from them, are never
+ * touched. With replace (--update) an existing copy of the same version is
+ * swapped out; otherwise an existing copy is kept.
  */
-export function getCacheDir(packageName: string): string {
-  const cacheBase = join(homedir(), '.mpak', 'cache');
-  // @scope/name -> scope/name
-  const safeName = packageName.replace('@', '').replace('/', '-');
-  return join(cacheBase, safeName);
-}
+export async function pullBundleToCache(
+  client: RegistryClient,
+  downloadInfo: DownloadInfo,
+  cacheDir: string,
+  expectedSha256?: string,
+  replace = false
+): Promise<void> {
+  const bundle = downloadInfo.bundle;
 
-/**
- * Read cache metadata
- */
-function getCacheMetadata(cacheDir: string): CacheMetadata | null {
-  const metaPath = join(cacheDir, '.mpak-meta.json');
-  if (!existsSync(metaPath)) {
-    return null;
+  if (expectedSha256 && bundle.sha256 !== expectedSha256) {
+    throw new Error(
+      `Digest drift for ${bundle.name}@${bundle.version}: mpak.lock has ${expectedSha256}, registry has ${bundle.sha256}`
+    );
+  }
+
+  // Caches from before versioned directories hold one bundle directly in
+  // the package directory; drop it rather than mixing the two layouts
+  const packageDir = dirname(cacheDir);
+  if (isLegacyCacheDir(packageDir)) {
+    rmSync(packageDir, { recursive: true, force: true });
   }
+
+  // Download to temp file (verified against the registry digest before it lands)
+  const tempPath = join(
+    homedir(), '.mpak', 'tmp', `${basename(packageDir)}-${bundle.version}-${Date.now()}.mcpb`
+  );
+  mkdirSync(dirname(tempPath), { recursive: true });
+  const stagingDir = getStagingDir(cacheDir);
+
   try {
-    return JSON.parse(readFileSync(metaPath, 'utf8'));
-  } catch {
-    return null;
+    process.stderr.write(`=> Pulling ${bundle.name}@${bundle.version}...\n`);
+    await client.downloadBundle(downloadInfo.url, tempPath, {
+      sha256: bundle.sha256,
+      size: bundle.size,
+    });
+
+    mkdirSync(stagingDir, { recursive: true });
+    await extractZip(tempPath, stagingDir);
+
+    // Write metadata
+    writeCacheMetadata(stagingDir, {
+      name: bundle.name,
+      version: bundle.version,
+      pulledAt: new Date().toISOString(),
+      platform: bundle.platform,
+      sha256: bundle.sha256,
+      contentSha256: hashCacheContents(stagingDir),
+    });
+
+    commitStagingDir(stagingDir, cacheDir, replace);
+  } finally {
+    // Cleanup temp file and any staging left by a failed extraction
+    rmSync(tempPath, { force: true });
+    rmSync(stagingDir, { recursive: true, force: true });
   }
-}
 
-/**
- * Write cache metadata
- */
-function writeCacheMetadata(cacheDir: string, metadata: CacheMetadata): void {
-  const metaPath = join(cacheDir, '.mpak-meta.json');
-  writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
+  process.stderr.write(`=> Cached ${bundle.name}@${bundle.version}\n`);
 }
 
 /**
- * Extract ZIP file to directory (simple implementation without external deps)
+ * The parts of manifest.json that starting a server depends on. The rest
+ * is checked strictly by `mpak bundle validate`; running only warns about it.
  */
-async function extractZip(zipPath: string, destDir: string): Promise<void> {
-  // Use native unzip command (available on macOS, Linux, and Windows with WSL)
-  const { execSync } = await import('child_process');
+const RunnableManifestSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().optional(),
+  server: McpbServerSchema,
+  user_config: z.record(z.string(), McpbUserConfigFieldSchema).optional(),
+});
 
-  // Ensure destination exists
-  mkdirSync(destDir, { recursive: true });
+export type RunnableManifest = z.infer<typeof RunnableManifestSchema>;
 
-  try {
-    execSync(`unzip -o -q "${zipPath}" -d "${destDir}"`, { stdio: 'pipe' });
-  } catch (error: any) {
-    throw new Error(`Failed to extract bundle: ${error.message}`);
-  }
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('\n  ');
 }
 
 /**
- * Read manifest from extracted bundle
+ * Read the manifest from an extracted bundle. Fails only on problems that
+ * keep the server from starting; anything else is a warning.
  */
-function readManifest(cacheDir: string): McpbManifest {
+function readManifest(cacheDir: string): RunnableManifest {
   const manifestPath = join(cacheDir, 'manifest.json');
   if (!existsSync(manifestPath)) {
     throw new Error(`Manifest not found in bundle: ${manifestPath}`);
   }
-  return JSON.parse(readFileSync(manifestPath, 'utf8'));
+  const raw: unknown = JSON.parse(readFileSync(manifestPath, 'utf8'));
+  const result = RunnableManifestSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(
+      `Invalid manifest.json in ${cacheDir}:\n  ${formatIssues(result.error)}\n` +
+        `Run "mpak bundle validate" on the bundle for details`
+    );
+  }
+  const strict = McpbManifestSchema.safeParse(raw);
+  if (!strict.success) {
+    process.stderr.write(
+      `=> Warning: manifest.json of ${result.data.name} does not match the MCPB spec ` +
+        `(run "mpak bundle validate" on the bundle for details):\n  ${formatIssues(strict.error)}\n`
+    );
+  }
+  return result.data;
 }
 
 /**
- * Resolve placeholders in args (e.g., ${__dirname})
+ * Resolve placeholders in args (${__dirname} and ${user_config.*}). An arg
+ * that is only a placeholder for a `multiple` field becomes one arg per value.
  * @example resolveArgs(['${__dirname}/index.js'], '/cache') => ['/cache/index.js']
+ * @example resolveArgs(['${user_config.dirs}'], '/cache', { dirs: ['/a', '/b'] }) => ['/a', '/b']
  */
-export function resolveArgs(args: string[], cacheDir: string): string[] {
-  return args.map(arg =>
-    arg.replace(/\$\{__dirname\}/g, cacheDir)
-  );
+export function resolveArgs(
+  args: string[],
+  cacheDir: string,
+  userConfigValues: UserConfigValues = {}
+): string[] {
+  return args.flatMap((arg) => {
+    const whole = /^\$\{user_config\.([^}]+)\}$/.exec(arg);
+    const value = whole ? userConfigValues[whole[1]] : undefined;
+    if (Array.isArray(value)) {
+      return value;
+    }
+    return [substituteUserConfig(arg.replace(/\$\{__dirname\}/g, cacheDir), userConfigValues)];
+  });
 }
 
 /**
- * Substitute ${user_config.*} placeholders in a string
+ * Substitute ${user_config.*} placeholders in a string (lists are joined
+ * with commas)
  * @example substituteUserConfig('${user_config.api_key}', { api_key: 'secret' }) => 'secret'
  */
 export function substituteUserConfig(
   value: string,
-  userConfigValues: Record<string, string>
+  userConfigValues: UserConfigValues
 ): string {
   return value.replace(/\$\{user_config\.([^}]+)\}/g, (match, key) => {
-    return userConfigValues[key] ?? match;
+    const resolved = userConfigValues[key];
+    if (resolved === undefined) return match;
+    return Array.isArray(resolved) ? resolved.join(',') : resolved;
   });
 }
 
@@ -161,7 +267,7 @@ export function substituteUserConfig(
  */
 export function substituteEnvVars(
   env: Record<string, string> | undefined,
-  userConfigValues: Record<string, string>
+  userConfigValues: UserConfigValues
 ): Record<string, string> {
   if (!env) return {};
   const result: Record<string, string> = {};
@@ -171,22 +277,12 @@ export function substituteEnvVars(
   return result;
 }
 
-/**
- * Get cache directory for a local bundle.
- * Uses hash of absolute path to avoid collisions.
- */
-export function getLocalCacheDir(bundlePath: string): string {
-  const absolutePath = resolve(bundlePath);
-  const hash = createHash('md5').update(absolutePath).digest('hex').slice(0, 12);
-  return join(homedir(), '.mpak', 'cache', '_local', hash);
-}
-
 /**
  * Check if local bundle needs re-extraction.
  * Returns true if cache doesn't exist or bundle was modified after extraction.
  */
 export function localBundleNeedsExtract(bundlePath: string, cacheDir: string): boolean {
-  const metaPath = join(cacheDir, '.mpak-meta.json');
+  const metaPath = join(cacheDir, CACHE_META_FILE);
   if (!existsSync(metaPath)) return true;
 
   try {
@@ -198,43 +294,6 @@ export function localBundleNeedsExtract(bundlePath: string, cacheDir: string): b
   }
 }
 
-/**
- * Prompt user for a config value (interactive terminal input)
- */
-async function promptForValue(
-  field: UserConfigField,
-  key: string
-): Promise<string> {
-  return new Promise((resolve) => {
-    const rl = createInterface({
-      input: process.stdin,
-      output: process.stderr,
-      terminal: true,
-    });
-
-    const label = field.title || key;
-    const hint = field.description ? ` (${field.description})` : '';
-    const defaultHint = field.default !== undefined ? ` [${field.default}]` : '';
-    const prompt = `=> ${label}${hint}${defaultHint}: `;
-
-    // For sensitive fields, we'd ideally hide input, but Node's readline
-    // doesn't support this natively. We'll just note it's sensitive.
-    if (field.sensitive) {
-      process.stderr.write(`=> (sensitive input)\n`);
-    }
-
-    rl.question(prompt, (answer) => {
-      rl.close();
-      // Use default if empty and default exists
-      if (!answer && field.default !== undefined) {
-        resolve(String(field.default));
-      } else {
-        resolve(answer);
-      }
-    });
-  });
-}
-
 /**
  * Check if we're in an interactive terminal
  */
@@ -246,23 +305,48 @@ function isInteractive(): boolean {
  * Gather user config values from stored config
  * Prompts for missing required values if interactive
  */
-async function gatherUserConfigValues(
+export async function gatherUserConfigValues(
   packageName: string,
-  userConfig: Record<string, UserConfigField>,
-  configManager: ConfigManager
-): Promise<Record<string, string>> {
-  const result: Record<string, string> = {};
-  const storedConfig = configManager.getPackageConfig(packageName) || {};
-  const missingRequired: Array<{ key: string; field: UserConfigField }> = [];
+  userConfig: Record<string, McpbUserConfigField>,
+  configManager: ConfigManager,
+  secrets: SecretStore = new SecretStore(configManager)
+): Promise<UserConfigValues> {
+  const result: UserConfigValues = {};
+
+  // Sensitive values saved before they were kept out of config.json move on
+  // first use; if the secret store can't be opened the run goes on regardless
+  const sensitiveKeys = Object.keys(userConfig).filter((key) => userConfig[key].sensitive);
+  try {
+    const migrated = await secrets.migrate(packageName, sensitiveKeys);
+    if (migrated.length > 0) {
+      process.stderr.write(`=> Moved ${migrated.join(', ')} for ${packageName} out of ~/.mpak/config.json\n`);
+    }
+  } catch (err) {
+    process.stderr.write(
+      `=> Warning: sensitive config for ${packageName} is still stored in plaintext: ${err instanceof Error ? err.message : String(err)}\n`
+    );
+  }
+
+  const storedConfig = await secrets.resolvePackageConfig(packageName);
+  const missingRequired: Array<{ key: string; field: McpbUserConfigField }> = [];
 
   for (const [key, field] of Object.entries(userConfig)) {
     // Priority: 1) stored config, 2) default value
     const storedValue = storedConfig[key];
+    const defaultValue = defaultUserConfigValue(field);
 
     if (storedValue !== undefined) {
-      result[key] = storedValue;
-    } else if (field.default !== undefined) {
-      result[key] = String(field.default);
+      // Stored values may predate the bundle's types, or name a path that has gone
+      const parsed = parseUserConfigValue(field, storedValue);
+      if (!parsed.valid) {
+        throw new CLIError(
+          `Invalid config for ${packageName}: ${key}: ${parsed.error}\n` +
+            `Run 'mpak configure ${packageName}' to fix it`
+        );
+      }
+      result[key] = parsed.value;
+    } else if (defaultValue !== undefined) {
+      result[key] = defaultValue;
     } else if (field.required) {
       missingRequired.push({ key, field });
     }
@@ -272,37 +356,24 @@ async function gatherUserConfigValues(
   if (missingRequired.length > 0) {
     if (!isInteractive()) {
       const missingKeys = missingRequired.map(m => m.key).join(', ');
-      process.stderr.write(`=> Error: Missing required config: ${missingKeys}\n`);
-      process.stderr.write(`=> Run 'mpak config set ${packageName} <key>=<value>' to set values\n`);
-      process.exit(1);
+      throw new CLIError(
+        `Missing required config for ${packageName}: ${missingKeys}\n` +
+          `Run 'mpak configure ${packageName}' or 'mpak config set ${packageName} <key>=<value>' to set values`
+      );
     }
 
     process.stderr.write(`=> Package requires configuration:\n`);
     for (const { key, field } of missingRequired) {
-      const value = await promptForValue(field, key);
-      if (!value && field.required) {
-        process.stderr.write(`=> Error: ${field.title || key} is required\n`);
-        process.exit(1);
+      const value = await promptUserConfigValue(key, field);
+      if (!value) {
+        throw new CLIError(`${field.title || key} is required`);
       }
       result[key] = value;
 
       // Offer to save the value
-      if (value) {
-        const rl = createInterface({
-          input: process.stdin,
-          output: process.stderr,
-          terminal: true,
-        });
-        await new Promise<void>((resolve) => {
-          rl.question(`=> Save ${field.title || key} for future runs? [Y/n]: `, (answer) => {
-            rl.close();
-            if (answer.toLowerCase() !== 'n') {
-              configManager.setPackageConfigValue(packageName, key, value);
-              process.stderr.write(`=> Saved to ~/.mpak/config.json\n`);
-            }
-            resolve();
-          });
-        });
+      if (await confirm(`=> Save ${field.title || key} for future runs?`)) {
+        const savedTo = await saveUserConfigValue(packageName, key, field, value, configManager, secrets);
+        process.stderr.write(`=> Saved to ${field.sensitive ? 'the ' : ''}${savedTo}\n`);
       }
     }
   }
@@ -324,20 +395,42 @@ function findPythonCommand(): string {
 }
 
 /**
- * Run a package from the registry or a local bundle file
+ * How to start a bundle's MCP server
  */
-export async function handleRun(
+export interface ServerLaunch {
+  packageName: string;
+  manifest: RunnableManifest;
+  /** Extracted bundle directory (also the server's working directory) */
+  cacheDir: string;
+  command: string;
+  args: string[];
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * A bundle extracted into the cache
+ */
+export interface ResolvedBundle {
+  packageName: string;
+  manifest: RunnableManifest;
+  cacheDir: string;
+}
+
+/**
+ * Resolve a package from the registry or a local bundle file to an extracted
+ * bundle, pulling it into the cache if needed
+ */
+export async function resolveBundle(
   packageSpec: string,
-  options: RunOptions = {}
-): Promise<void> {
+  options: Pick<RunOptions, 'local' | 'update'> = {}
+): Promise<ResolvedBundle> {
   // Validate that either --local or package spec is provided
   if (!options.local && !packageSpec) {
-    process.stderr.write(`=> Error: Either provide a package name or use --local <path>\n`);
-    process.exit(1);
+    throw new CLIError('Either provide a package name or use --local <path>');
   }
 
   let cacheDir: string;
-  let packageName: string;
+  let packageName: string | undefined;
 
   if (options.local) {
     // === LOCAL BUNDLE MODE ===
@@ -345,113 +438,101 @@ export async function handleRun(
 
     // Validate bundle exists
     if (!existsSync(bundlePath)) {
-      process.stderr.write(`=> Error: Bundle not found: ${bundlePath}\n`);
-      process.exit(1);
+      throw new CLIError(`Bundle not found: ${bundlePath}`);
     }
 
     // Validate .mcpb extension
     if (!bundlePath.endsWith('.mcpb')) {
-      process.stderr.write(`=> Error: Not an MCPB bundle: ${bundlePath}\n`);
-      process.exit(1);
+      throw new CLIError(`Not an MCPB bundle: ${bundlePath}`);
     }
 
     cacheDir = getLocalCacheDir(bundlePath);
     const needsExtract = options.update || localBundleNeedsExtract(bundlePath, cacheDir);
 
     if (needsExtract) {
-      // Clear old extraction
-      if (existsSync(cacheDir)) {
-        rmSync(cacheDir, { recursive: true, force: true });
-      }
-      mkdirSync(cacheDir, { recursive: true });
-
-      process.stderr.write(`=> Extracting ${basename(bundlePath)}...\n`);
-      await extractZip(bundlePath, cacheDir);
+      // Extract beside the old copy and swap it in, as registry pulls do,
+      // so a failed extraction or a concurrent run never sees a partial one
+      const stagingDir = getStagingDir(cacheDir);
+      try {
+        mkdirSync(stagingDir, { recursive: true });
+        process.stderr.write(`=> Extracting ${basename(bundlePath)}...\n`);
+        await extractZip(bundlePath, stagingDir);
 
-      // Write local metadata
-      writeFileSync(
-        join(cacheDir, '.mpak-meta.json'),
-        JSON.stringify({
+        // Write local metadata
+        writeCacheMetadata(stagingDir, {
           localPath: bundlePath,
           extractedAt: new Date().toISOString(),
-        })
-      );
-    }
-
-    // Read manifest to get package name for config lookup
-    const manifest = readManifest(cacheDir);
-    packageName = manifest.name;
-    process.stderr.write(`=> Running ${packageName} (local)\n`);
+        });
 
+        commitStagingDir(stagingDir, cacheDir, true);
+      } finally {
+        rmSync(stagingDir, { recursive: true, force: true });
+      }
+    }
   } else {
     // === REGISTRY MODE ===
-    const { name, version: requestedVersion } = parsePackageSpec(packageSpec);
+    const { name, version: specVersion } = parsePackageSpec(packageSpec);
     packageName = name;
     const client = new RegistryClient();
     const platform = RegistryClient.detectPlatform();
-    cacheDir = getCacheDir(name);
 
-    let needsPull = true;
-    let cachedMeta = getCacheMetadata(cacheDir);
-
-    // Check if we have a cached version
-    if (cachedMeta && !options.update) {
-      if (requestedVersion) {
-        // Specific version requested - check if cached version matches
-        needsPull = cachedMeta.version !== requestedVersion;
-      } else {
-        // Latest requested - use cache (user can --update to refresh)
-        needsPull = false;
+    // Inside a project, an unversioned run uses the version pinned in mpak.lock
+    let requestedVersion = await resolveBundleVersion(client, name, specVersion);
+    let lockedSha256: string | undefined;
+    if (!requestedVersion) {
+      const locked = getProjectLockedBundle(name);
+      if (locked) {
+        requestedVersion = locked.version;
+        lockedSha256 = findLockedArtifact(locked, platform)?.sha256;
+        process.stderr.write(`=> Using ${name}@${locked.version} from mpak.lock\n`);
       }
     }
 
-    if (needsPull) {
-      // Fetch download info
+    // Unversioned runs use the version the .current pointer names
+    // (user can --update to refresh)
+    const currentDir = requestedVersion || options.update ? null : getCurrentCacheDir(name);
+    const pinnedDir = requestedVersion ? getVersionCacheDir(name, requestedVersion, platform) : null;
+
+    if (currentDir) {
+      cacheDir = currentDir;
+    } else if (pinnedDir && getCacheMetadata(pinnedDir) && !options.update) {
+      cacheDir = pinnedDir;
+    } else {
       const downloadInfo = await client.getDownloadInfo(name, requestedVersion, platform);
       const bundle = downloadInfo.bundle;
+      cacheDir = getVersionCacheDir(name, bundle.version, platform);
 
-      // Check if cached version is already the latest
-      if (cachedMeta && cachedMeta.version === bundle.version && !options.update) {
-        needsPull = false;
+      if (options.update || !getCacheMetadata(cacheDir)) {
+        await pullBundleToCache(client, downloadInfo, cacheDir, lockedSha256, options.update);
       }
-
-      if (needsPull) {
-        // Download to temp file
-        const tempPath = join(homedir(), '.mpak', 'tmp', `${Date.now()}.mcpb`);
-        mkdirSync(dirname(tempPath), { recursive: true });
-
-        process.stderr.write(`=> Pulling ${name}@${bundle.version}...\n`);
-        await client.downloadBundle(downloadInfo.url, tempPath);
-
-        // Clear old cache and extract
-        if (existsSync(cacheDir)) {
-          rmSync(cacheDir, { recursive: true, force: true });
-        }
-        mkdirSync(cacheDir, { recursive: true });
-
-        await extractZip(tempPath, cacheDir);
-
-        // Write metadata
-        writeCacheMetadata(cacheDir, {
-          version: bundle.version,
-          pulledAt: new Date().toISOString(),
-          platform: bundle.platform,
-        });
-
-        // Cleanup temp file
-        rmSync(tempPath, { force: true });
-
-        process.stderr.write(`=> Cached ${name}@${bundle.version}\n`);
+      if (!requestedVersion) {
+        writeCurrentPointer(cacheDir, bundle.version);
       }
     }
   }
 
-  // Read manifest and execute
   const manifest = readManifest(cacheDir);
+  // A local bundle goes by the name in its manifest (used for config lookup)
+  return { packageName: packageName ?? manifest.name, manifest, cacheDir };
+}
+
+/**
+ * Resolve a bundle and the command that starts its server: pulls into the
+ * cache, gathers user_config and picks the runtime. Shared by `run` and
+ * every command that talks to a server.
+ */
+export async function prepareServer(
+  packageSpec: string,
+  options: RunOptions = {}
+): Promise<ServerLaunch> {
+  const { packageName, manifest, cacheDir } = await resolveBundle(packageSpec, options);
+  if (options.local) {
+    process.stderr.write(`=> Running ${packageName} (local)\n`);
+  }
   const { type, entry_point, mcp_config } = manifest.server;
 
   // Handle user_config substitution
-  let userConfigValues: Record<string, string> = {};
+  let userConfigValues: UserConfigValues = {};
   if (manifest.user_config && Object.keys(manifest.user_config).length > 0) {
     const configManager = new ConfigManager();
     userConfigValues = await gatherUserConfigValues(packageName, manifest.user_config, configManager);
@@ -469,7 +550,7 @@ export async function handleRun(
     case 'binary': {
       // For binary, the entry_point is the executable path relative to bundle
       command = join(cacheDir, entry_point);
-      args = resolveArgs(mcp_config.args || [], cacheDir);
+      args = resolveArgs(mcp_config.args || [], cacheDir, userConfigValues);
 
       // Ensure binary is executable
       try {
@@ -484,7 +565,7 @@ export async function handleRun(
       command = mcp_config.command || 'node';
       // Use mcp_config.args directly if provided, otherwise fall back to entry_point
       if (mcp_config.args && mcp_config.args.length > 0) {
-        args = resolveArgs(mcp_config.args, cacheDir);
+        args = resolveArgs(mcp_config.args, cacheDir, userConfigValues);
       } else {
         args = [join(cacheDir, entry_point)];
       }
@@ -497,7 +578,7 @@ export async function handleRun(
 
       // Use mcp_config.args directly if provided, otherwise fall back to entry_point
       if (mcp_config.args && mcp_config.args.length > 0) {
-        args = resolveArgs(mcp_config.args, cacheDir);
+        args = resolveArgs(mcp_config.args, cacheDir, userConfigValues);
       } else {
         args = [join(cacheDir, entry_point)];
       }
@@ -513,24 +594,221 @@ export async function handleRun(
       throw new Error(`Unsupported server type: ${type}`);
   }
 
-  // Spawn with stdio passthrough for MCP
-  const child = spawn(command, args, {
-    stdio: ['inherit', 'inherit', 'inherit'],
-    env,
-    cwd: cacheDir,
+  return { packageName, manifest, cacheDir, command, args, env };
+}
+
+/**
+ * Divert a server's non-JSON-RPC stdout to stderr, warning once
+ */
+function stdoutGuard(packageName: string): (_line: string) => void {
+  let warned = false;
+  return (line) => {
+    if (!warned) {
+      warned = true;
+      process.stderr.write(
+        `=> Warning: ${packageName} wrote output that is not JSON-RPC to stdout (it should log to stderr); ` +
+          'moving it to stderr\n'
+      );
+    }
+    process.stderr.write(`[${packageName} stdout] ${line}\n`);
+  };
+}
+
+/**
+ * An MCP server to serve over HTTP: its name and version for logs and
+ * /health, and how to start one process of it
+ */
+export interface HttpServeTarget {
+  name: string;
+  version?: string;
+  server: McpServerCommand;
+}
+
+/**
+ * Serve an MCP server over Streamable HTTP or HTTP+SSE until interrupted.
+ * Each client session gets its own server process.
+ */
+export async function serveOverHttp(
+  target: HttpServeTarget,
+  transport: HttpTransport,
+  options: Pick<RunOptions, 'port' | 'host' | 'authToken' | 'cors' | 'timeout' | 'logFile'>
+): Promise<void> {
+  const { name } = target;
+  const host = options.host || DEFAULT_HTTP_HOST;
+  const authToken = options.authToken || process.env[BRIDGE_TOKEN_ENV_VAR];
+  const bridge = await startHttpBridge({
+    transport,
+    port: options.port ?? DEFAULT_HTTP_PORT,
+    host,
+    packageName: name,
+    packageVersion: target.version,
+    server: target.server,
+    authToken,
+    corsOrigins: options.cors ? options.cors.split(',').map((origin) => origin.trim()).filter(Boolean) : [],
+    requestTimeoutMs: options.timeout,
   });
+  if (options.logFile) {
+    startLogRotation(options.logFile);
+  }
+
+  const label = transport === 'http' ? 'Streamable HTTP' : 'HTTP+SSE';
+  process.stderr.write(
+    `=> Serving ${name} over ${label} at ${bridge.url}${transport === 'http' ? MCP_PATH : SSE_PATH}\n`
+  );
+  if (!authToken && !['127.0.0.1', 'localhost', '::1'].includes(host)) {
+    process.stderr.write(`=> Warning: listening on ${host} without --auth-token; anyone who can reach it can use the server\n`);
+  }
 
-  // Forward signals
-  process.on('SIGINT', () => child.kill('SIGINT'));
-  process.on('SIGTERM', () => child.kill('SIGTERM'));
+  const shutdown = () => {
+    bridge.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
 
-  // Wait for exit
-  child.on('exit', (code) => {
-    process.exit(code ?? 0);
+/**
+ * Run a package from the registry or a local bundle file. In stdio mode the
+ * server runs in its own process group with stdin/stdout relayed through
+ * mpak (recording them with --trace or MPAK_TRACE, filtering them with
+ * --guard-stdout), and is restarted per --restart. --transport http or sse
+ * serves it over HTTP instead.
+ */
+export async function handleRun(
+  packageSpec: string,
+  options: RunOptions = {}
+): Promise<void> {
+  const transport = options.transport ?? 'stdio';
+  if (!['stdio', 'http', 'sse'].includes(transport)) {
+    throw new CLIError(`Unknown transport "${transport}". Use stdio, http or sse`);
+  }
+  const policy = (options.restart ?? 'no') as RestartPolicy;
+  if (!RESTART_POLICIES.includes(policy)) {
+    throw new CLIError(`Unknown restart policy "${options.restart}". Use ${RESTART_POLICIES.join(', ')}`);
+  }
+  if (transport !== 'stdio' && (options.trace || options.guardStdout || policy !== 'no')) {
+    throw new CLIError('--trace, --guard-stdout and --restart apply to the stdio transport');
+  }
+  const restarts = new RestartTracker(policy, {
+    ...DEFAULT_RESTART_LIMITS,
+    ...(options.maxRestarts !== undefined ? { maxRestarts: options.maxRestarts } : {}),
+    ...(options.restartWindow ? { windowMs: parseDuration(options.restartWindow) } : {}),
   });
 
-  child.on('error', (error) => {
-    process.stderr.write(`=> Failed to start server: ${error.message}\n`);
-    process.exit(1);
+  const { packageName, manifest, command, args, env, cacheDir } = await prepareServer(packageSpec, options);
+  if (transport !== 'stdio') {
+    const server = { command, args, env, cwd: cacheDir };
+    return serveOverHttp({ name: packageName, version: manifest.version, server }, transport as HttpTransport, options);
+  }
+
+  const traceTarget = options.trace || process.env[TRACE_ENV_VAR];
+  let recorder: TraceRecorder | undefined;
+  if (traceTarget) {
+    recorder = new TraceRecorder(resolveTracePath(traceTarget, packageName));
+    process.stderr.write(`=> Tracing MCP traffic to ${recorder.path}\n`);
+  }
+  const onInvalidLine = options.guardStdout ? stdoutGuard(packageName) : undefined;
+
+  // A process group lets shutdown reach whatever the server spawned
+  // (Windows has no process groups)
+  const useGroup = process.platform !== 'win32';
+  let child: ChildProcess;
+  let detachInput = () => {};
+  let restartTimer: NodeJS.Timeout | undefined;
+  let stopping = false;
+  let inputEnded = false;
+
+  const signalServer = (signal: NodeJS.Signals) => {
+    if (child.exitCode !== null || child.signalCode !== null) return;
+    try {
+      if (useGroup && child.pid !== undefined) process.kill(-child.pid, signal);
+      else child.kill(signal);
+    } catch {
+      // Already gone
+    }
+  };
+
+  const finish = (code: number | null, signal: string | null) => {
+    recorder?.close();
+    // Anything the server left running in its group goes with it
+    if (useGroup && child.pid !== undefined) {
+      try {
+        process.kill(-child.pid, 'SIGTERM');
+      } catch {
+        // Nothing left
+      }
+    }
+    process.exit(exitStatus(code, signal));
+  };
+
+  // Ask the server to stop, then kill its process group if it takes too long
+  const stop = (signal: NodeJS.Signals) => {
+    if (stopping) {
+      signalServer('SIGKILL');
+      return;
+    }
+    stopping = true;
+    if (restartTimer) {
+      clearTimeout(restartTimer);
+      finish(null, signal);
+    }
+    signalServer(signal);
+    setTimeout(() => {
+      process.stderr.write(`=> ${packageName} did not exit within ${SHUTDOWN_GRACE_MS / 1000}s; killing it\n`);
+      signalServer('SIGKILL');
+    }, SHUTDOWN_GRACE_MS).unref();
+  };
+
+  const onExit = (code: number | null, signal: string | null) => {
+    recorder?.exit(code, signal);
+    detachInput();
+    if (!stopping && !inputEnded) {
+      const decision = restarts.next(code);
+      if (decision.restart) {
+        process.stderr.write(
+          `=> ${packageName} ${describeExit(code, signal)}; restarting in ${decision.delayMs / 1000}s ` +
+            `(restart ${decision.attempt})\n`
+        );
+        restartTimer = setTimeout(() => {
+          restartTimer = undefined;
+          // The client may have gone while we waited
+          if (inputEnded) finish(code, signal);
+          else spawnServer();
+        }, decision.delayMs);
+        return;
+      }
+      if (policy !== 'no' && !(policy === 'on-failure' && code === 0)) {
+        process.stderr.write(`=> ${packageName} ${describeExit(code, signal)}; not restarting: ${decision.reason}\n`);
+      }
+    }
+    finish(code, signal);
+  };
+
+  const spawnServer = () => {
+    recorder?.start(packageName, command, args);
+    child = spawn(command, args, {
+      stdio: ['pipe', 'pipe', 'inherit'],
+      env,
+      cwd: cacheDir,
+      detached: useGroup,
+    });
+    detachInput = relayStdio(child, { recorder, onInvalidLine });
+
+    // 'close' also waits for the last relayed output
+    child.on('close', onExit);
+    child.on('error', (error) => {
+      process.stderr.write(`=> Failed to start server: ${error.message}\n`);
+      process.exit(1);
+    });
+  };
+
+  // Once the client closes stdin the server should exit; stop it if it doesn't
+  process.stdin.on('end', () => {
+    inputEnded = true;
+    setTimeout(() => stop('SIGTERM'), SHUTDOWN_GRACE_MS).unref();
   });
+  for (const signal of FORWARDED_SIGNALS) {
+    process.on(signal, () => (signal === 'SIGHUP' ? signalServer(signal) : stop(signal)));
+  }
+
+  spawnServer();
 }
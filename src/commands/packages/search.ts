@@ -1,4 +1,5 @@
 import { RegistryClient } from '../../lib/api/registry-client.js';
+import { exitCodeFor } from '../../utils/errors.js';
 
 export interface SearchOptions {
   type?: string;
@@ -78,6 +79,6 @@ export async function handleSearch(
     if (error instanceof Error) {
       console.error(`   ${error.message}`);
     }
-    process.exit(1);
+    process.exit(exitCodeFor(error));
   }
 }
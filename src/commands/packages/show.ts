@@ -1,4 +1,5 @@
 import { RegistryClient } from '../../lib/api/registry-client.js';
+import { exitCodeFor } from '../../utils/errors.js';
 
 export interface ShowOptions {
   json?: boolean;
@@ -123,6 +124,6 @@ export async function handleShow(
     if (error instanceof Error) {
       console.error(`   ${error.message}`);
     }
-    process.exit(1);
+    process.exit(exitCodeFor(error));
   }
 }
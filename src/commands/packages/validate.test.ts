@@ -0,0 +1,330 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createWriteStream, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import archiver from 'archiver';
+import {
+  validateBundle,
+  validateBundleDirectory,
+  formatBundleValidationResult,
+} from './validate.js';
+
+function baseManifest(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    manifest_version: '0.3',
+    name: '@test/echo',
+    version: '1.0.0',
+    description: 'Echo server',
+    author: { name: 'Test' },
+    license: 'MIT',
+    tools: [{ name: 'echo' }],
+    server: {
+      type: 'node',
+      entry_point: 'server/index.js',
+      mcp_config: { command: 'node', args: ['${__dirname}/server/index.js'] },
+    },
+    ...overrides,
+  };
+}
+
+describe('validateBundleDirectory', () => {
+  let testDir: string;
+  let bundleDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `bundle-validate-test-${Date.now()}`);
+    bundleDir = join(testDir, 'bundle');
+    mkdirSync(join(bundleDir, 'server'), { recursive: true });
+    writeFileSync(join(bundleDir, 'server', 'index.js'), 'console.log(1);');
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function writeManifest(manifest: unknown): void {
+    writeFileSync(join(bundleDir, 'manifest.json'), JSON.stringify(manifest));
+  }
+
+  describe('directory checks', () => {
+    it('fails for non-existent directory', () => {
+      const result = validateBundleDirectory('/non/existent/path');
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Directory not found: /non/existent/path');
+    });
+
+    it('fails when manifest.json is missing', () => {
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('manifest.json not found');
+    });
+
+    it('fails when manifest.json is not JSON', () => {
+      writeFileSync(join(bundleDir, 'manifest.json'), '{ nope');
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatch(/Failed to parse manifest.json/);
+    });
+  });
+
+  describe('schema validation', () => {
+    it('passes for a complete manifest', () => {
+      writeManifest(baseManifest());
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(true);
+      expect(result.name).toBe('@test/echo');
+      expect(result.version).toBe('1.0.0');
+      expect(result.errors).toHaveLength(0);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('reports missing required fields by path', () => {
+      writeManifest(baseManifest({ description: undefined, server: { type: 'node' } }));
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(false);
+      expect(result.errors.some((e) => e.startsWith('description:'))).toBe(true);
+      expect(result.errors.some((e) => e.startsWith('server.entry_point:'))).toBe(true);
+    });
+
+    it('requires manifest_version', () => {
+      writeManifest(baseManifest({ manifest_version: undefined }));
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('manifest_version: Required');
+    });
+
+    it('rejects unknown server types', () => {
+      writeManifest(
+        baseManifest({
+          server: { type: 'ruby', entry_point: 'server/index.js', mcp_config: {} },
+        })
+      );
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(false);
+      expect(result.errors.some((e) => e.startsWith('server.type:'))).toBe(true);
+    });
+
+    it('accepts legacy dxt_version with a warning', () => {
+      writeManifest(baseManifest({ manifest_version: undefined, dxt_version: '0.1' }));
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toContain('dxt_version is deprecated - use manifest_version');
+    });
+  });
+
+  describe('path checks', () => {
+    it('fails when the entry point is missing', () => {
+      writeManifest(
+        baseManifest({
+          server: { type: 'node', entry_point: 'dist/main.js', mcp_config: { command: 'node' } },
+        })
+      );
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('server.entry_point not found: dist/main.js');
+    });
+
+    it('fails when the entry point escapes the bundle', () => {
+      writeManifest(
+        baseManifest({
+          server: { type: 'node', entry_point: '../outside.js', mcp_config: { command: 'node' } },
+        })
+      );
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatch(/escapes the bundle/);
+    });
+
+    it('fails when a ${__dirname} argument references a missing path', () => {
+      writeManifest(
+        baseManifest({
+          server: {
+            type: 'node',
+            entry_point: 'server/index.js',
+            mcp_config: { command: 'node', args: ['${__dirname}/server/missing.js'] },
+          },
+        })
+      );
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatch(/references a missing path \(\/server\/missing.js\)/);
+    });
+
+    it('checks platform overrides too', () => {
+      writeManifest(
+        baseManifest({
+          server: {
+            type: 'node',
+            entry_point: 'server/index.js',
+            mcp_config: {
+              command: 'node',
+              args: ['${__dirname}/server/index.js'],
+              platform_overrides: { win32: { args: ['${__dirname}/server/win.js'] } },
+            },
+          },
+        })
+      );
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatch(/^server\.mcp_config\.platform_overrides\.win32:/);
+    });
+
+    it('warns when a binary entry point is not executable', () => {
+      writeFileSync(join(bundleDir, 'server', 'bin'), '#!/bin/sh\n', { mode: 0o644 });
+      writeManifest(
+        baseManifest({
+          server: { type: 'binary', entry_point: 'server/bin', mcp_config: {} },
+          compatibility: { platforms: ['linux'] },
+        })
+      );
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toContain('server.entry_point is not executable: server/bin');
+    });
+  });
+
+  describe('user_config checks', () => {
+    it('fails when env references an undeclared user_config key', () => {
+      writeManifest(
+        baseManifest({
+          server: {
+            type: 'node',
+            entry_point: 'server/index.js',
+            mcp_config: { command: 'node', env: { API_KEY: '${user_config.api_key}' } },
+          },
+        })
+      );
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatch(/user_config.api_key\}" is not declared/);
+    });
+
+    it('passes when referenced keys are declared', () => {
+      writeManifest(
+        baseManifest({
+          server: {
+            type: 'node',
+            entry_point: 'server/index.js',
+            mcp_config: { command: 'node', env: { API_KEY: '${user_config.api_key}' } },
+          },
+          user_config: { api_key: { type: 'string', title: 'API Key', sensitive: true } },
+        })
+      );
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(true);
+    });
+
+    it('fails when a default does not match the field type', () => {
+      writeManifest(
+        baseManifest({
+          user_config: { port: { type: 'number', title: 'Port', default: '8080' } },
+        })
+      );
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('user_config.port.default: expected number');
+    });
+  });
+
+  describe('warnings', () => {
+    it('warns about missing recommended fields', () => {
+      writeManifest(
+        baseManifest({ author: undefined, license: undefined, tools: undefined, version: 'v1' })
+      );
+      const result = validateBundleDirectory(bundleDir);
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toContain('No author field - consider adding for attribution');
+      expect(result.warnings).toContain('No license field - consider adding before publishing');
+      expect(result.warnings).toContain('No tools listed - consider adding for better discovery');
+      expect(result.warnings[0]).toMatch(/not semver/);
+    });
+  });
+});
+
+describe('validateBundle', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `bundle-validate-mcpb-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function writeMcpb(files: Record<string, string>): Promise<string> {
+    const mcpbPath = join(testDir, 'echo.mcpb');
+    return new Promise((resolve, reject) => {
+      const output = createWriteStream(mcpbPath);
+      const archive = archiver('zip');
+      output.on('close', () => resolve(mcpbPath));
+      archive.on('error', reject);
+      archive.pipe(output);
+      for (const [name, content] of Object.entries(files)) {
+        archive.append(content, { name });
+      }
+      archive.finalize();
+    });
+  }
+
+  it('validates a packed .mcpb file', async () => {
+    const mcpbPath = await writeMcpb({
+      'manifest.json': JSON.stringify(baseManifest()),
+      'server/index.js': 'console.log(1);',
+    });
+
+    const result = await validateBundle(mcpbPath);
+    expect(result.valid).toBe(true);
+    expect(result.path).toBe(mcpbPath);
+  });
+
+  it('reports missing entry points inside a .mcpb', async () => {
+    const mcpbPath = await writeMcpb({ 'manifest.json': JSON.stringify(baseManifest()) });
+
+    const result = await validateBundle(mcpbPath);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('server.entry_point not found: server/index.js');
+  });
+
+  it('fails for files that are not archives', async () => {
+    const notZip = join(testDir, 'broken.mcpb');
+    writeFileSync(notZip, 'not a zip');
+
+    const result = await validateBundle(notZip);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatch(/Failed to extract bundle/);
+  });
+});
+
+describe('formatBundleValidationResult', () => {
+  it('formats a valid result', () => {
+    const output = formatBundleValidationResult({
+      valid: true,
+      name: '@test/echo',
+      version: '1.0.0',
+      path: '/bundles/echo',
+      manifest: null,
+      errors: [],
+      warnings: ['No license field - consider adding before publishing'],
+    });
+
+    expect(output).toContain('✓ Valid: @test/echo@1.0.0');
+    expect(output).toContain('Warnings:');
+  });
+
+  it('formats an invalid result with the path', () => {
+    const output = formatBundleValidationResult({
+      valid: false,
+      name: null,
+      version: null,
+      path: '/bundles/echo',
+      manifest: null,
+      errors: ['manifest.json not found'],
+      warnings: [],
+    });
+
+    expect(output).toContain('✗ Invalid: /bundles/echo');
+    expect(output).toContain('✗ manifest.json not found');
+  });
+});
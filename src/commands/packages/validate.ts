@@ -0,0 +1,316 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { isAbsolute, join, relative, resolve } from 'path';
+import { extractZip } from '../../lib/zip.js';
+import {
+  McpbManifestSchema,
+  type McpbManifest,
+  type McpbMcpConfig,
+} from '../../schemas/generated/manifest.js';
+
+export interface BundleValidationResult {
+  valid: boolean;
+  name: string | null;
+  version: string | null;
+  path: string;
+  manifest: McpbManifest | null;
+  errors: string[];
+  warnings: string[];
+}
+
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?(\+[0-9A-Za-z.-]+)?$/;
+const DIRNAME_REF_PATTERN = /\$\{__dirname\}([^\s"'=:;,]*)/g;
+const USER_CONFIG_REF_PATTERN = /\$\{user_config\.([^}]+)\}/g;
+
+/**
+ * Every launch configuration in the manifest: the base mcp_config plus
+ * one per platform override, labelled for error messages
+ */
+function listMcpConfigs(manifest: McpbManifest): Array<{ label: string; config: McpbMcpConfig }> {
+  const { platform_overrides, ...base } = manifest.server.mcp_config;
+  const configs = [{ label: 'server.mcp_config', config: base }];
+  for (const [platform, config] of Object.entries(platform_overrides || {})) {
+    configs.push({ label: `server.mcp_config.platform_overrides.${platform}`, config });
+  }
+  return configs;
+}
+
+/**
+ * Strings in a launch configuration that may hold placeholders
+ */
+function configStrings(config: McpbMcpConfig): string[] {
+  return [
+    ...(config.command ? [config.command] : []),
+    ...(config.args || []),
+    ...Object.values(config.env || {}),
+  ];
+}
+
+/**
+ * Check that a bundle-relative path stays inside the bundle
+ */
+function isInside(bundleDir: string, target: string): boolean {
+  const rel = relative(bundleDir, target);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+/**
+ * Validate an extracted bundle directory against the MCPB manifest spec
+ */
+export function validateBundleDirectory(bundlePath: string): BundleValidationResult {
+  const result: BundleValidationResult = {
+    valid: true,
+    name: null,
+    version: null,
+    path: bundlePath,
+    manifest: null,
+    errors: [],
+    warnings: [],
+  };
+
+  if (!existsSync(bundlePath)) {
+    result.valid = false;
+    result.errors.push(`Directory not found: ${bundlePath}`);
+    return result;
+  }
+
+  if (!statSync(bundlePath).isDirectory()) {
+    result.valid = false;
+    result.errors.push(`Path is not a directory: ${bundlePath}`);
+    return result;
+  }
+
+  const manifestPath = join(bundlePath, 'manifest.json');
+  if (!existsSync(manifestPath)) {
+    result.valid = false;
+    result.errors.push('manifest.json not found');
+    return result;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(manifestPath, 'utf-8'));
+  } catch (err) {
+    result.valid = false;
+    result.errors.push(`Failed to parse manifest.json: ${err instanceof Error ? err.message : err}`);
+    return result;
+  }
+
+  const validation = McpbManifestSchema.safeParse(raw);
+  if (!validation.success) {
+    result.valid = false;
+    for (const issue of validation.error.issues) {
+      const path = issue.path.join('.');
+      result.errors.push(`${path}: ${issue.message}`);
+    }
+    return result;
+  }
+
+  const manifest = validation.data;
+  result.manifest = manifest;
+  result.name = manifest.name;
+  result.version = manifest.version;
+
+  const bundleDir = resolve(bundlePath);
+
+  // Entry point must ship inside the bundle
+  const entryPoint = resolve(bundleDir, manifest.server.entry_point);
+  if (!isInside(bundleDir, entryPoint)) {
+    result.errors.push(`server.entry_point escapes the bundle: ${manifest.server.entry_point}`);
+  } else if (!existsSync(entryPoint)) {
+    result.errors.push(`server.entry_point not found: ${manifest.server.entry_point}`);
+  } else if (
+    manifest.server.type === 'binary' &&
+    process.platform !== 'win32' &&
+    (statSync(entryPoint).mode & 0o111) === 0
+  ) {
+    result.warnings.push(`server.entry_point is not executable: ${manifest.server.entry_point}`);
+  }
+
+  // ${__dirname} paths and ${user_config.*} references in every launch config
+  const declaredConfig = new Set(Object.keys(manifest.user_config || {}));
+  for (const { label, config } of listMcpConfigs(manifest)) {
+    for (const value of configStrings(config)) {
+      for (const match of value.matchAll(DIRNAME_REF_PATTERN)) {
+        const referenced = match[1];
+        if (referenced.includes('${')) continue;
+        const target = join(bundleDir, referenced);
+        if (!isInside(bundleDir, target)) {
+          result.errors.push(`${label}: "${value}" points outside the bundle`);
+        } else if (!existsSync(target)) {
+          result.errors.push(`${label}: "${value}" references a missing path (${referenced || '/'})`);
+        }
+      }
+      for (const match of value.matchAll(USER_CONFIG_REF_PATTERN)) {
+        if (!declaredConfig.has(match[1])) {
+          result.errors.push(`${label}: "\${user_config.${match[1]}}" is not declared in user_config`);
+        }
+      }
+    }
+  }
+
+  // user_config defaults must match their declared type
+  for (const [key, field] of Object.entries(manifest.user_config || {})) {
+    if (field.default !== undefined) {
+      const expected = field.type === 'directory' || field.type === 'file' ? 'string' : field.type;
+      const defaults = Array.isArray(field.default) ? field.default : [field.default];
+      if (defaults.some((value) => typeof value !== expected)) {
+        result.errors.push(`user_config.${key}.default: expected ${expected}`);
+      }
+    }
+    if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+      result.errors.push(`user_config.${key}: min is greater than max`);
+    }
+    if (!field.title) {
+      result.warnings.push(`user_config.${key} has no title - it will be prompted for by key`);
+    }
+  }
+
+  result.valid = result.errors.length === 0;
+
+  // Recommendations
+  if (manifest.dxt_version && !manifest.manifest_version) {
+    result.warnings.push('dxt_version is deprecated - use manifest_version');
+  }
+  if (!SEMVER_PATTERN.test(manifest.version)) {
+    result.warnings.push(`Version "${manifest.version}" is not semver - required for registry publishing`);
+  }
+  if (!manifest.author) {
+    result.warnings.push('No author field - consider adding for attribution');
+  }
+  if (!manifest.license) {
+    result.warnings.push('No license field - consider adding before publishing');
+  }
+  if ((!manifest.tools || manifest.tools.length === 0) && !manifest.tools_generated) {
+    result.warnings.push('No tools listed - consider adding for better discovery');
+  }
+  if (manifest.server.type === 'binary' && !manifest.compatibility?.platforms) {
+    result.warnings.push('Binary server without compatibility.platforms - clients cannot tell which platforms it supports');
+  }
+  if (manifest.server.type === 'python' && !existsSync(join(bundleDir, 'deps'))) {
+    result.warnings.push('No deps/ directory - Python dependencies must be vendored into the bundle');
+  }
+
+  return result;
+}
+
+/**
+ * Validate a bundle directory or a packed .mcpb file.
+ * Packed bundles are extracted to a temporary directory first.
+ */
+export async function validateBundle(bundlePath: string): Promise<BundleValidationResult> {
+  if (!existsSync(bundlePath) || statSync(bundlePath).isDirectory()) {
+    return validateBundleDirectory(bundlePath);
+  }
+
+  const extractDir = mkdtempSync(join(tmpdir(), 'mpak-validate-'));
+  try {
+    try {
+      await extractZip(bundlePath, extractDir);
+    } catch (err) {
+      return {
+        valid: false,
+        name: null,
+        version: null,
+        path: bundlePath,
+        manifest: null,
+        errors: [`Failed to extract bundle: ${err instanceof Error ? err.message : err}`],
+        warnings: [],
+      };
+    }
+    return { ...validateBundleDirectory(extractDir), path: bundlePath };
+  } finally {
+    rmSync(extractDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Format validation result for CLI output
+ */
+export function formatBundleValidationResult(result: BundleValidationResult): string {
+  const lines: string[] = [];
+  const label = result.name ? `${result.name}@${result.version}` : result.path;
+
+  if (result.valid) {
+    lines.push(`\u2713 Valid: ${label}`);
+  } else {
+    lines.push(`\u2717 Invalid: ${label}`);
+  }
+
+  lines.push('');
+
+  if (result.manifest) {
+    const { manifest } = result;
+    lines.push('\u2713 manifest.json found');
+    lines.push('\u2713 Required fields');
+    lines.push(`  \u251c\u2500 manifest_version: ${manifest.manifest_version || manifest.dxt_version}`);
+    lines.push(`  \u251c\u2500 name: ${manifest.name}`);
+    lines.push(`  \u251c\u2500 version: ${manifest.version}`);
+    lines.push(
+      `  \u251c\u2500 description: ${manifest.description.slice(0, 60)}${manifest.description.length > 60 ? '...' : ''}`
+    );
+    lines.push(`  \u2514\u2500 server: ${manifest.server.type} (${manifest.server.entry_point})`);
+
+    const optionalFields: string[] = [];
+    if (manifest.author) optionalFields.push(`author: ${manifest.author.name}`);
+    if (manifest.license) optionalFields.push(`license: ${manifest.license}`);
+    if (manifest.tools && manifest.tools.length > 0)
+      optionalFields.push(`tools: ${manifest.tools.map((t) => t.name).join(', ')}`);
+    if (manifest.prompts && manifest.prompts.length > 0)
+      optionalFields.push(`prompts: ${manifest.prompts.length} defined`);
+    if (manifest.user_config && Object.keys(manifest.user_config).length > 0)
+      optionalFields.push(`user_config: ${Object.keys(manifest.user_config).join(', ')}`);
+    if (manifest.compatibility?.platforms)
+      optionalFields.push(`platforms: [${manifest.compatibility.platforms.join(', ')}]`);
+
+    if (optionalFields.length > 0) {
+      lines.push('');
+      lines.push('\u2713 Optional fields');
+      optionalFields.forEach((field, i) => {
+        const prefix = i === optionalFields.length - 1 ? '\u2514\u2500' : '\u251c\u2500';
+        lines.push(`  ${prefix} ${field}`);
+      });
+    }
+  }
+
+  if (result.errors.length > 0) {
+    lines.push('');
+    lines.push('Errors:');
+    result.errors.forEach((err) => lines.push(`  \u2717 ${err}`));
+  }
+
+  if (result.warnings.length > 0) {
+    lines.push('');
+    lines.push('Warnings:');
+    result.warnings.forEach((warn) => lines.push(`  \u26a0 ${warn}`));
+  }
+
+  return lines.join('\n');
+}
+
+export interface BundleValidateOptions {
+  json?: boolean;
+}
+
+/**
+ * Handle the bundle validate command
+ */
+export async function handleBundleValidate(
+  bundlePath: string,
+  options: BundleValidateOptions
+): Promise<void> {
+  const result = await validateBundle(bundlePath);
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log('');
+    console.log(`Validating ${bundlePath}...`);
+    console.log('');
+    console.log(formatBundleValidationResult(result));
+  }
+
+  if (!result.valid) {
+    process.exit(1);
+  }
+}
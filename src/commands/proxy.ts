@@ -0,0 +1,60 @@
+import { URL } from 'url';
+import { configureProxyFromEnv } from '../lib/api/http-client.js';
+import type { HttpTransport } from '../lib/mcp/http-bridge.js';
+import { runStdioProxy } from '../lib/mcp/stdio-proxy.js';
+import { CLIError, exitCodeFor } from '../utils/errors.js';
+
+export interface ProxyOptions {
+  transport?: string;
+  header?: string[];
+  token?: string;
+}
+
+/**
+ * Parse repeated --header "Name: value" options
+ * @example parseHeaders(['X-Api-Key: abc']) => { 'X-Api-Key': 'abc' }
+ */
+export function parseHeaders(pairs: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of pairs) {
+    const colon = pair.indexOf(':');
+    if (colon <= 0) {
+      throw new CLIError(`Invalid header "${pair}". Use "Name: value"`);
+    }
+    headers[pair.slice(0, colon).trim()] = pair.slice(colon + 1).trim();
+  }
+  return headers;
+}
+
+/**
+ * Expose a remote MCP server as a local stdio server, for clients that
+ * only launch commands
+ * @example mpak proxy https://example.com/mcp --token $TOKEN
+ * @example mpak proxy http://localhost:8080/sse --transport sse
+ */
+export async function handleProxy(url: string, options: ProxyOptions = {}): Promise<void> {
+  try {
+    const transport = options.transport ?? 'http';
+    if (transport !== 'http' && transport !== 'sse') {
+      throw new CLIError(`Unknown transport "${transport}". Use http or sse`);
+    }
+    try {
+      new URL(url);
+    } catch {
+      throw new CLIError(`Invalid URL: ${url}`);
+    }
+
+    const headers = parseHeaders(options.header ?? []);
+    const token = options.token || process.env.MPAK_PROXY_TOKEN;
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    configureProxyFromEnv();
+    process.stderr.write(`=> Proxying stdio to ${url}\n`);
+    await runStdioProxy({ url, transport: transport as HttpTransport, headers });
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(exitCodeFor(err));
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { completeReplLine, parseRawMessage, parseReplArgs, tokenize, type ReplState } from './repl.js';
+
+const state: ReplState = {
+  tools: [
+    {
+      name: 'search',
+      inputSchema: { type: 'object', properties: { query: { type: 'string' }, limit: { type: 'integer' } } },
+    },
+    { name: 'summarize', inputSchema: { type: 'object' } },
+  ],
+  prompts: [{ name: 'review' }],
+  resources: [{ uri: 'file:///notes.txt', name: 'notes' }],
+};
+
+describe('tokenize', () => {
+  it('splits on whitespace and groups quoted words', () => {
+    expect(tokenize('  call search  query="two words" tag=\'a b\' ')).toEqual([
+      'call',
+      'search',
+      'query=two words',
+      'tag=a b',
+    ]);
+  });
+
+  it('keeps empty quoted values', () => {
+    expect(tokenize('call search query=""')).toEqual(['call', 'search', 'query=']);
+  });
+});
+
+describe('completeReplLine', () => {
+  it('completes command names', () => {
+    expect(completeReplLine('pr', state)).toEqual([['prompts', 'prompt'], 'pr']);
+  });
+
+  it('completes tool, prompt and resource names', () => {
+    expect(completeReplLine('call s', state)).toEqual([['search', 'summarize'], 's']);
+    expect(completeReplLine('prompt ', state)).toEqual([['review'], '']);
+    expect(completeReplLine('read file', state)).toEqual([['file:///notes.txt'], 'file']);
+  });
+
+  it('completes tool argument names', () => {
+    expect(completeReplLine('call search query=x l', state)).toEqual([['limit='], 'l']);
+    expect(completeReplLine('call unknown ', state)).toEqual([[], '']);
+  });
+});
+
+describe('parseReplArgs', () => {
+  const schema = state.tools[0].inputSchema!;
+
+  it('accepts a JSON object', () => {
+    expect(parseReplArgs(' {"query": "cats", "limit": 2}', schema)).toEqual({ query: 'cats', limit: 2 });
+    expect(() => parseReplArgs('[1]', schema)).toThrow();
+  });
+
+  it('types key=value words by the schema', () => {
+    expect(parseReplArgs('query="big cats" limit=3', schema)).toEqual({ query: 'big cats', limit: 3 });
+  });
+});
+
+describe('parseRawMessage', () => {
+  it('treats messages as requests unless they are notifications without an id', () => {
+    expect(parseRawMessage('{"method":"tools/list"}')).toEqual({ method: 'tools/list', notification: false });
+    expect(parseRawMessage('{"jsonrpc":"2.0","method":"notifications/cancelled","params":{"requestId":1}}')).toEqual({
+      method: 'notifications/cancelled',
+      params: { requestId: 1 },
+      notification: true,
+    });
+  });
+
+  it('rejects anything that is not a message', () => {
+    expect(parseRawMessage('tools/list')).toBeNull();
+    expect(parseRawMessage('{"id":1}')).toBeNull();
+    expect(parseRawMessage('{"method":"x","params":[1]}')).toBeNull();
+  });
+});
@@ -0,0 +1,496 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { clearLine, createInterface, cursorTo, type Interface } from 'readline';
+import {
+  DEFAULT_MCP_TIMEOUT_MS,
+  McpError,
+  StdioMcpClient,
+  type McpCallToolResult,
+  type McpInitializeResult,
+  type McpPrompt,
+  type McpResource,
+  type McpTool,
+} from '../lib/mcp/client.js';
+import type { JsonRpcNotification } from '../lib/mcp/jsonrpc.js';
+import { coerceValue, parseToolArgs, validateToolArgs } from '../lib/mcp/tool-args.js';
+import { exitCodeFor } from '../utils/errors.js';
+import { printToolContent } from './call.js';
+import { describeType, formatSchemaProperties } from './packages/inspect.js';
+import { prepareServer } from './packages/run.js';
+
+export interface ReplOptions {
+  local?: string;
+  update?: boolean;
+  timeout?: number;
+}
+
+/**
+ * REPL commands, in the order `help` lists them
+ */
+export const REPL_COMMANDS: Array<[command: string, usage: string, description: string]> = [
+  ['tools', 'tools', 'List tools with their arguments'],
+  ['call', 'call <tool> [key=value ... | {json}]', 'Call a tool (prompts for arguments when none are given)'],
+  ['prompts', 'prompts', 'List prompts'],
+  ['prompt', 'prompt <name> [key=value ...]', 'Get a prompt'],
+  ['resources', 'resources', 'List resources'],
+  ['read', 'read <uri>', 'Read a resource'],
+  ['log', 'log <level>', 'Set the server log level (debug, info, warning, error, ...)'],
+  ['raw', 'raw [{json}]', 'Send a raw JSON-RPC message, or toggle raw mode without one'],
+  ['help', 'help', 'Show this help'],
+  ['exit', 'exit', 'Stop the server and quit (or Ctrl-D)'],
+];
+
+const HISTORY_SIZE = 1000;
+
+/**
+ * Completion data that changes as the server reports list changes
+ */
+export interface ReplState {
+  tools: McpTool[];
+  prompts: McpPrompt[];
+  resources: McpResource[];
+}
+
+/**
+ * Split a REPL line into words. Single and double quotes group words.
+ * @example tokenize('call search query="two words"') => ['call', 'search', 'query=two words']
+ */
+export function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let inToken = false;
+
+  for (const char of line) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) tokens.push(current);
+      current = '';
+      inToken = false;
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+  if (inToken) tokens.push(current);
+  return tokens;
+}
+
+/**
+ * Tab completion: command names, then tool/prompt names or resource URIs,
+ * then `key=` for a tool's arguments
+ */
+export function completeReplLine(line: string, state: ReplState): [string[], string] {
+  const words = line.split(/\s+/);
+  const word = words[words.length - 1];
+  const match = (candidates: string[]): [string[], string] => [candidates.filter((c) => c.startsWith(word)), word];
+
+  if (words.length === 1) {
+    return match(REPL_COMMANDS.map(([command]) => command));
+  }
+  const command = words[0];
+  if (words.length === 2) {
+    if (command === 'call') return match(state.tools.map((t) => t.name));
+    if (command === 'prompt') return match(state.prompts.map((p) => p.name));
+    if (command === 'read') return match(state.resources.map((r) => r.uri));
+    if (command === 'log') return match(['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency']);
+    return [[], word];
+  }
+  if (command === 'call') {
+    const tool = state.tools.find((t) => t.name === words[1]);
+    const properties = Object.keys((tool?.inputSchema?.properties as Record<string, unknown> | undefined) ?? {});
+    return match(properties.map((name) => `${name}=`));
+  }
+  return [[], word];
+}
+
+/**
+ * Arguments given after a tool or prompt name: a JSON object, or key=value words
+ */
+export function parseReplArgs(rest: string, schema: Record<string, unknown>): Record<string, unknown> {
+  const trimmed = rest.trim();
+  if (trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('Arguments must be a JSON object');
+    }
+    return parsed;
+  }
+  return parseToolArgs(tokenize(trimmed), schema);
+}
+
+/**
+ * A message typed in raw mode
+ * @example parseRawMessage('{"method":"tools/list"}') => { method: 'tools/list', notification: false }
+ */
+export function parseRawMessage(
+  text: string
+): { method: string; params?: Record<string, unknown>; notification: boolean } | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return null;
+
+  const { method, params, id } = parsed as Record<string, unknown>;
+  if (typeof method !== 'string') return null;
+  if (params !== undefined && (typeof params !== 'object' || params === null || Array.isArray(params))) return null;
+  return {
+    method,
+    params: params as Record<string, unknown> | undefined,
+    notification: id === undefined && method.startsWith('notifications/'),
+  };
+}
+
+/**
+ * Reads lines one at a time, whether typed at a terminal or piped in
+ * (piped lines that arrive while a command runs are queued, not dropped)
+ */
+class LineReader {
+  private readonly queue: string[] = [];
+  private waiting: ((_line: string | null) => void) | null = null;
+  private closed = false;
+
+  constructor(private readonly rl: Interface) {
+    rl.on('line', (line) => {
+      if (this.waiting) {
+        const resolve = this.waiting;
+        this.waiting = null;
+        resolve(line);
+      } else {
+        this.queue.push(line);
+      }
+    });
+    rl.on('close', () => {
+      this.closed = true;
+      this.waiting?.(null);
+      this.waiting = null;
+    });
+  }
+
+  /** Whether a prompt is on screen waiting for input */
+  get isWaiting(): boolean {
+    return this.waiting !== null;
+  }
+
+  /**
+   * Show a prompt and wait for a line (null at end of input)
+   */
+  ask(prompt: string): Promise<string | null> {
+    if (this.queue.length > 0) {
+      return Promise.resolve(this.queue.shift()!);
+    }
+    if (this.closed) {
+      return Promise.resolve(null);
+    }
+    this.rl.setPrompt(prompt);
+    this.rl.prompt();
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+    });
+  }
+}
+
+function getHistoryPath(): string {
+  return join(homedir(), '.mpak', 'repl_history');
+}
+
+/**
+ * Previous REPL input, newest first (the order readline wants)
+ */
+function loadHistory(): string[] {
+  const path = getHistoryPath();
+  if (!existsSync(path)) {
+    return [];
+  }
+  return readFileSync(path, 'utf8').split('\n').filter(Boolean).slice(-HISTORY_SIZE).reverse();
+}
+
+function saveHistoryLine(line: string): void {
+  try {
+    mkdirSync(dirname(getHistoryPath()), { recursive: true });
+    appendFileSync(getHistoryPath(), line + '\n');
+  } catch {
+    // History is a convenience; never fail a command over it
+  }
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function printHelp(): void {
+  const width = Math.max(...REPL_COMMANDS.map(([, usage]) => usage.length)) + 2;
+  for (const [, usage, description] of REPL_COMMANDS) {
+    console.log(`  ${usage.padEnd(width)}${description}`);
+  }
+}
+
+function formatNotification(notification: JsonRpcNotification): string {
+  const params = notification.params ?? {};
+  if (notification.method === 'notifications/message') {
+    const data = typeof params.data === 'string' ? params.data : JSON.stringify(params.data);
+    return `[${params.level ?? 'log'}]${params.logger ? ` ${params.logger}:` : ''} ${data}`;
+  }
+  const detail = Object.keys(params).length > 0 ? ` ${JSON.stringify(params)}` : '';
+  return `<- ${notification.method}${detail}`;
+}
+
+/**
+ * Interactive session with a running server
+ */
+class McpRepl {
+  private readonly state: ReplState = { tools: [], prompts: [], resources: [] };
+  private rawMode = false;
+  private rl!: Interface;
+  private reader!: LineReader;
+  private client!: StdioMcpClient;
+  private init!: McpInitializeResult;
+
+  async run(launch: Awaited<ReturnType<typeof prepareServer>>, options: ReplOptions): Promise<void> {
+    this.client = await StdioMcpClient.start(
+      { command: launch.command, args: launch.args, env: launch.env, cwd: launch.cacheDir },
+      {
+        timeoutMs: options.timeout ?? DEFAULT_MCP_TIMEOUT_MS,
+        // Server logs go straight to the terminal while the REPL runs
+        inheritStderr: true,
+        onNotification: (notification) => this.onNotification(notification),
+      }
+    );
+    this.init = await this.client.initialize();
+    await this.refreshLists();
+
+    const { serverInfo } = this.init;
+    console.log(`Connected to ${serverInfo.name} ${serverInfo.version} (MCP ${this.init.protocolVersion})`);
+    console.log(
+      `${this.state.tools.length} tool(s), ${this.state.prompts.length} prompt(s), ` +
+        `${this.state.resources.length} resource(s). Type "help" for commands.`
+    );
+
+    this.rl = createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      terminal: process.stdin.isTTY === true,
+      history: loadHistory(),
+      historySize: HISTORY_SIZE,
+      completer: (line: string) => completeReplLine(line, this.state),
+    });
+    this.rl.on('SIGINT', () => this.rl.close());
+    this.reader = new LineReader(this.rl);
+
+    for (;;) {
+      const line = await this.reader.ask(this.rawMode ? 'raw> ' : `${serverInfo.name}> `);
+      if (line === null) break;
+      if (!line.trim()) continue;
+      saveHistoryLine(line);
+
+      if (this.rawMode && line.trim() !== 'raw') {
+        await this.guard(() => this.sendRaw(line));
+        continue;
+      }
+      if (line.trim() === 'exit' || line.trim() === 'quit') break;
+      await this.guard(() => this.dispatch(line));
+    }
+
+    this.rl.close();
+    await this.client.close();
+  }
+
+  /**
+   * Run a command, printing errors instead of ending the session
+   */
+  private async guard(action: () => Promise<void>): Promise<void> {
+    try {
+      await action();
+    } catch (err) {
+      if (err instanceof McpError) {
+        console.log(`Error ${err.code}: ${err.message}`);
+      } else {
+        console.log(`Error: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+
+  private async dispatch(line: string): Promise<void> {
+    const trimmed = line.trim();
+    const space = trimmed.search(/\s/);
+    const command = space === -1 ? trimmed : trimmed.slice(0, space);
+    const rest = space === -1 ? '' : trimmed.slice(space + 1);
+
+    switch (command) {
+      case 'help':
+        return printHelp();
+      case 'tools':
+        for (const tool of this.state.tools) {
+          console.log(`${tool.name}${tool.description ? ` - ${tool.description.split('\n')[0]}` : ''}`);
+          for (const property of formatSchemaProperties(tool.inputSchema ?? {})) console.log(`    ${property}`);
+        }
+        return;
+      case 'prompts':
+        for (const prompt of this.state.prompts) {
+          const args = (prompt.arguments ?? []).map((a) => (a.required ? a.name : `[${a.name}]`)).join(' ');
+          console.log(`${prompt.name}${args ? ` ${args}` : ''}${prompt.description ? ` - ${prompt.description}` : ''}`);
+        }
+        return;
+      case 'resources':
+        for (const resource of this.state.resources) {
+          console.log(`${resource.uri}  ${resource.name}${resource.mimeType ? ` (${resource.mimeType})` : ''}`);
+        }
+        return;
+      case 'call':
+        return this.callTool(rest);
+      case 'prompt':
+        return this.getPrompt(rest);
+      case 'read':
+        printJson(await this.client.request('resources/read', { uri: rest.trim() }));
+        return;
+      case 'log':
+        await this.client.request('logging/setLevel', { level: rest.trim() });
+        console.log(`Log level set to ${rest.trim()}`);
+        return;
+      case 'raw':
+        if (rest) {
+          return this.sendRaw(rest);
+        }
+        this.rawMode = !this.rawMode;
+        console.log(
+          this.rawMode
+            ? 'Raw mode: each line is sent as a JSON-RPC message ("id" is assigned). Type "raw" to leave.'
+            : 'Left raw mode'
+        );
+        return;
+      default:
+        console.log(`Unknown command "${command}". Type "help" for commands.`);
+    }
+  }
+
+  private async callTool(rest: string): Promise<void> {
+    const [name] = tokenize(rest);
+    const tool = this.state.tools.find((t) => t.name === name);
+    if (!tool) {
+      console.log(name ? `Unknown tool "${name}"` : 'Usage: call <tool> [key=value ... | {json}]');
+      return;
+    }
+
+    const schema = tool.inputSchema ?? {};
+    const argText = rest.trim().slice(name.length);
+    const args = argText.trim() ? parseReplArgs(argText, schema) : await this.promptForArgs(schema);
+    if (!args) return;
+
+    const issues = validateToolArgs(args, schema);
+    if (issues.length > 0) {
+      console.log(`Invalid arguments:\n  ${issues.join('\n  ')}`);
+      return;
+    }
+
+    const result = await this.client.request<McpCallToolResult>('tools/call', { name, arguments: args });
+    if (result.isError) {
+      console.log('Tool returned an error:');
+    }
+    printToolContent(result.content ?? [], name, process.cwd(), (text) => console.log(text));
+    if (result.structuredContent && !(result.content ?? []).length) {
+      printJson(result.structuredContent);
+    }
+  }
+
+  /**
+   * Ask for each argument in the tool's input schema. Empty answers skip
+   * optional arguments. Returns null if input ends.
+   */
+  private async promptForArgs(schema: Record<string, unknown>): Promise<Record<string, unknown> | null> {
+    const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+    const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+    const args: Record<string, unknown> = {};
+
+    for (const [key, property] of Object.entries(properties)) {
+      const hint = [describeType(property), required.has(key) ? 'required' : 'optional'].join(', ');
+      if (typeof property.description === 'string') console.log(`  ${key}: ${property.description}`);
+      const answer = await this.reader.ask(`  ${key} (${hint}): `);
+      if (answer === null) return null;
+      if (answer === '' && !required.has(key)) continue;
+      args[key] = coerceValue(answer, property);
+    }
+    return args;
+  }
+
+  private async getPrompt(rest: string): Promise<void> {
+    const [name, ...pairs] = tokenize(rest);
+    if (!name) {
+      console.log('Usage: prompt <name> [key=value ...]');
+      return;
+    }
+    // Prompt arguments are always strings
+    const args: Record<string, string> = {};
+    for (const pair of pairs) {
+      const eq = pair.indexOf('=');
+      if (eq > 0) args[pair.slice(0, eq)] = pair.slice(eq + 1);
+    }
+    printJson(await this.client.request('prompts/get', { name, arguments: args }));
+  }
+
+  /**
+   * Send a JSON-RPC message typed by the user. The client assigns request
+   * ids, so `jsonrpc` and `id` may be left out; `notifications/*` methods
+   * are sent as notifications.
+   */
+  private async sendRaw(text: string): Promise<void> {
+    const message = parseRawMessage(text);
+    if (!message) {
+      console.log('Expected a JSON-RPC message, e.g. {"method": "tools/list"}');
+      return;
+    }
+    if (message.notification) {
+      this.client.notify(message.method, message.params);
+      console.log('(notification sent)');
+    } else {
+      printJson(await this.client.requestRaw(message.method, message.params));
+    }
+  }
+
+  private async refreshLists(): Promise<void> {
+    const { capabilities } = this.init;
+    this.state.tools = capabilities.tools ? await this.client.listTools() : [];
+    this.state.prompts = capabilities.prompts ? await this.client.listPrompts() : [];
+    this.state.resources = capabilities.resources ? await this.client.listResources() : [];
+  }
+
+  private onNotification(notification: JsonRpcNotification): void {
+    // Keep completion in step with the server's lists
+    if (notification.method.endsWith('/list_changed')) {
+      this.refreshLists().catch(() => {});
+    }
+
+    const text = formatNotification(notification);
+    if (this.reader?.isWaiting && process.stdout.isTTY) {
+      clearLine(process.stdout, 0);
+      cursorTo(process.stdout, 0);
+      console.log(text);
+      this.rl.prompt(true);
+    } else {
+      console.log(text);
+    }
+  }
+}
+
+/**
+ * Start a bundle and explore it interactively over MCP
+ * @example mpak repl @scope/name
+ * @example mpak repl --local ./my-bundle.mcpb
+ */
+export async function handleRepl(packageSpec: string, options: ReplOptions = {}): Promise<void> {
+  try {
+    const launch = await prepareServer(packageSpec, { local: options.local, update: options.update });
+    await new McpRepl().run(launch, options);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(exitCodeFor(err));
+  }
+}
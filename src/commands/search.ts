@@ -1,5 +1,6 @@
 import { RegistryClient } from '../lib/api/registry-client.js';
 import { searchSkills } from '../lib/api/skills-client.js';
+import { exitCodeFor } from '../utils/errors.js';
 
 export interface UnifiedSearchOptions {
   type?: 'bundle' | 'skill';
@@ -186,6 +187,6 @@ export async function handleUnifiedSearch(
     if (error instanceof Error) {
       console.error(`  ${error.message}`);
     }
-    process.exit(1);
+    process.exit(exitCodeFor(error));
   }
 }
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadGatewayConfig } from './serve.js';
+
+describe('loadGatewayConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mpak-serve-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(config: unknown): string {
+    const path = join(dir, 'servers.json');
+    writeFileSync(path, JSON.stringify(config));
+    return path;
+  }
+
+  it('resolves local bundles relative to the config file', () => {
+    const config = loadGatewayConfig(
+      write({
+        servers: {
+          github: { package: '@acme/github', tools: { deny: ['delete_*'] } },
+          notes: { local: 'bundles/notes.mcpb' },
+        },
+      })
+    );
+    expect(config.servers.github).toEqual({ package: '@acme/github', tools: { deny: ['delete_*'] } });
+    expect(config.servers.notes.local).toBe(join(dir, 'bundles/notes.mcpb'));
+  });
+
+  it('requires exactly one of package or local', () => {
+    expect(() => loadGatewayConfig(write({ servers: { a: {} } }))).toThrow('servers.a: Set either "package" or "local"');
+    expect(() => loadGatewayConfig(write({ servers: { a: { package: 'x', local: 'y' } } }))).toThrow(
+      'Set either "package" or "local"'
+    );
+  });
+
+  it('rejects names that would break namespacing', () => {
+    expect(() => loadGatewayConfig(write({ servers: { 'a__b': { package: 'x' } } }))).toThrow(/single "_"/);
+    expect(() => loadGatewayConfig(write({ servers: {} }))).toThrow('Add at least one server');
+    expect(() => loadGatewayConfig(join(dir, 'missing.json'))).toThrow(/Failed to read/);
+  });
+});
@@ -0,0 +1,205 @@
+import { readFileSync } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import { z } from 'zod';
+import { McpGateway, SERVER_NAME_PATTERN } from '../lib/mcp/gateway.js';
+import type { HttpTransport } from '../lib/mcp/http-bridge.js';
+import { LineBuffer, parseMessage, serializeMessage, type JsonRpcMessage } from '../lib/mcp/jsonrpc.js';
+import { CLIError, exitCodeFor } from '../utils/errors.js';
+import { prepareServer, serveOverHttp } from './packages/run.js';
+
+export interface ServeOptions {
+  config: string;
+  transport?: string;  // stdio (default), http or sse
+  port?: number;
+  host?: string;
+  authToken?: string;
+  cors?: string;
+  timeout?: number;  // Per-request timeout for each server (ms)
+  logFile?: string;  // Set by `mpak start`: the daemon's log, rotated while serving
+}
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const ToolFilterSchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+});
+
+/**
+ * One bundle behind the gateway: a registry package or a local .mcpb file
+ */
+export const GatewayServerSchema = z
+  .object({
+    package: z.string().min(1).optional(),
+    local: z.string().min(1).optional(),
+    tools: ToolFilterSchema.optional(),
+  })
+  .refine((server) => Boolean(server.package) !== Boolean(server.local), {
+    message: 'Set either "package" or "local"',
+  });
+
+/**
+ * servers.json - the bundles `mpak serve` aggregates, keyed by the name
+ * that prefixes their tools and prompts
+ */
+export const GatewayConfigSchema = z.object({
+  servers: z.record(z.string(), GatewayServerSchema).superRefine((servers, ctx) => {
+    const names = Object.keys(servers);
+    if (names.length === 0) {
+      ctx.addIssue({ code: 'custom', message: 'Add at least one server' });
+    }
+    for (const name of names.filter((name) => !SERVER_NAME_PATTERN.test(name))) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [name],
+        message: 'Server names may use letters, digits, "-" and single "_"',
+      });
+    }
+  }),
+});
+
+export type GatewayConfig = z.infer<typeof GatewayConfigSchema>;
+
+/**
+ * Read and validate a gateway config. Local bundle paths are relative to
+ * the config file.
+ */
+export function loadGatewayConfig(configPath: string): GatewayConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(configPath, 'utf8'));
+  } catch (err) {
+    throw new CLIError(`Failed to read ${configPath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const result = GatewayConfigSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new CLIError(`Invalid ${configPath}: ${issues}`);
+  }
+
+  for (const server of Object.values(result.data.servers)) {
+    if (server.local) {
+      server.local = resolve(dirname(configPath), server.local);
+    }
+  }
+  return result.data;
+}
+
+/**
+ * Start every server in the config behind a gateway. A server that fails to
+ * start is reported and left out.
+ */
+async function startGateway(config: GatewayConfig, gateway: McpGateway): Promise<void> {
+  const names = Object.keys(config.servers);
+  for (const name of names) {
+    const entry = config.servers[name];
+    try {
+      const launch = await prepareServer(entry.package ?? '', { local: entry.local });
+      await gateway.addServer(
+        name,
+        { command: launch.command, args: launch.args, env: launch.env, cwd: launch.cacheDir },
+        entry.tools
+      );
+    } catch (err) {
+      process.stderr.write(`=> ${name}: failed to start: ${err instanceof Error ? err.message : err}\n`);
+    }
+  }
+
+  if (gateway.servers.length === 0) {
+    throw new CLIError('No servers started');
+  }
+  process.stderr.write(
+    `=> Gateway ready: ${gateway.servers.length} of ${names.length} servers, ` +
+      `${gateway.tools.length} tools, ${gateway.prompts.length} prompts\n`
+  );
+}
+
+/**
+ * Speak MCP on stdin/stdout until stdin ends
+ */
+async function serveStdio(gateway: McpGateway): Promise<void> {
+  const write = (message: JsonRpcMessage) => process.stdout.write(serializeMessage(message));
+  const inFlight = new Set<Promise<void>>();
+
+  const onLine = (line: string) => {
+    if (!line.trim()) return;
+    const message = parseMessage(line);
+    if (!message) {
+      process.stderr.write(`=> Ignoring input that is not JSON-RPC: ${line.slice(0, 200)}\n`);
+      return;
+    }
+    const task = gateway
+      .handle(message)
+      .then((response) => {
+        if (response) write(response);
+      })
+      .finally(() => inFlight.delete(task));
+    inFlight.add(task);
+  };
+
+  const lines = new LineBuffer();
+  process.stdin.setEncoding('utf8');
+  await new Promise<void>((resolve) => {
+    process.stdin.on('data', (chunk: string) => lines.push(chunk).forEach(onLine));
+    process.stdin.on('end', () => {
+      lines.flush().forEach(onLine);
+      resolve();
+    });
+  });
+  while (inFlight.size > 0) {
+    await Promise.all([...inFlight]);
+  }
+}
+
+/**
+ * Launch the bundles in a config file and serve them as one MCP server:
+ * tools and prompts are namespaced as <server>__<name> and each call is
+ * routed to the bundle that owns it
+ * @example mpak serve --config servers.json
+ * @example mpak serve --config servers.json --transport http --port 8080
+ */
+export async function handleServe(options: ServeOptions): Promise<void> {
+  try {
+    const transport = options.transport ?? 'stdio';
+    if (!['stdio', 'http', 'sse'].includes(transport)) {
+      throw new CLIError(`Unknown transport "${transport}". Use stdio, http or sse`);
+    }
+    const configPath = resolve(options.config);
+    const config = loadGatewayConfig(configPath);
+
+    if (transport !== 'stdio') {
+      // Each HTTP session gets its own gateway: run this command again on stdio
+      const args = [...process.execArgv, process.argv[1], 'serve', '--config', configPath];
+      if (options.timeout) args.push('--timeout', String(options.timeout));
+      await serveOverHttp(
+        { name: `gateway (${basename(configPath)})`, server: { command: process.execPath, args, env: process.env } },
+        transport as HttpTransport,
+        options
+      );
+      return;
+    }
+
+    const gateway = new McpGateway({
+      timeoutMs: options.timeout,
+      onMessage: (message) => process.stdout.write(serializeMessage(message)),
+    });
+    const shutdown = () => {
+      gateway.close().then(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    await startGateway(config, gateway);
+    await serveStdio(gateway);
+    await gateway.close();
+    process.exit(0);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(exitCodeFor(err));
+  }
+}
@@ -5,3 +5,4 @@ export { handleSkillShow } from './show.js';
 export { handleSkillPull } from './pull.js';
 export { handleSkillInstall } from './install.js';
 export { handleSkillList } from './list.js';
+export { handleSkillPublish } from './publish.js';
@@ -1,13 +1,18 @@
-import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { existsSync, mkdirSync, rmSync } from 'fs';
 import { join, basename } from 'path';
 import { homedir, tmpdir } from 'os';
 import { getSkillDownloadInfo, downloadSkillBundle } from '../../lib/api/skills-client.js';
-import { execSync } from 'child_process';
+import { resolveSkillVersion } from '../../lib/version-resolver.js';
+import type { ExpectedDigest } from '../../lib/download.js';
+import { extractZip } from '../../lib/zip.js';
+import { writeSkillMetadata, type InstalledSkillMetadata } from '../../lib/installed-skills.js';
+import { LATEST_SPECIFIER, getProjectLockedSkill } from '../../utils/lockfile.js';
+import { exitCodeFor } from '../../utils/errors.js';
 
 /**
  * Get the Claude Code skills directory
  */
-function getSkillsDir(): string {
+export function getSkillsDir(): string {
   return join(homedir(), '.claude', 'skills');
 }
 
@@ -33,11 +38,55 @@ function parseSkillSpec(spec: string): { name: string; version?: string } {
  * Extract skill name from scoped name
  * @scope/skill-name -> skill-name
  */
-function getShortName(scopedName: string): string {
+export function getShortName(scopedName: string): string {
   const parts = scopedName.replace('@', '').split('/');
   return parts[parts.length - 1];
 }
 
+/**
+ * Download a .skill bundle and extract it into the skills directory,
+ * replacing any existing installation of the same skill, and record what
+ * was installed (read by `mpak outdated`)
+ */
+export async function downloadAndExtractSkill(
+  downloadUrl: string,
+  expected: ExpectedDigest,
+  skillsDir: string,
+  installPath: string,
+  record: Omit<InstalledSkillMetadata, 'installedAt'>
+): Promise<void> {
+  // Ensure skills directory exists
+  if (!existsSync(skillsDir)) {
+    mkdirSync(skillsDir, { recursive: true });
+  }
+
+  // Download to temp file
+  const tempPath = join(tmpdir(), `skill-${Date.now()}.skill`);
+
+  try {
+    await downloadSkillBundle(downloadUrl, tempPath, expected);
+
+    // Remove existing installation
+    if (existsSync(installPath)) {
+      rmSync(installPath, { recursive: true });
+    }
+
+    // The .skill bundle contains: skillName/SKILL.md, skillName/...
+    // We extract to the skills directory
+    try {
+      await extractZip(tempPath, skillsDir);
+    } catch (err) {
+      throw new Error(`Failed to extract skill bundle: ${err instanceof Error ? err.message : err}`);
+    }
+    if (existsSync(installPath)) {
+      writeSkillMetadata(installPath, { ...record, installedAt: new Date().toISOString() });
+    }
+  } finally {
+    // Clean up temp file
+    rmSync(tempPath, { force: true });
+  }
+}
+
 export interface InstallOptions {
   force?: boolean;
   json?: boolean;
@@ -48,10 +97,31 @@ export interface InstallOptions {
  */
 export async function handleSkillInstall(skillSpec: string, options: InstallOptions): Promise<void> {
   try {
-    const { name, version } = parseSkillSpec(skillSpec);
+    const { name, version: specVersion } = parseSkillSpec(skillSpec);
+
+    // Inside a project, an unversioned install uses the version pinned in mpak.lock
+    let version = await resolveSkillVersion(name, specVersion);
+    let specifier = specVersion ?? LATEST_SPECIFIER;
+    let lockedSha256: string | undefined;
+    if (!version) {
+      const locked = getProjectLockedSkill(name);
+      if (locked) {
+        version = locked.version;
+        specifier = locked.specifier;
+        lockedSha256 = locked.sha256;
+        if (!options.json) {
+          console.log(`Using ${name}@${locked.version} from mpak.lock`);
+        }
+      }
+    }
 
     // Get download info
     const downloadInfo = await getSkillDownloadInfo(name, version);
+    if (lockedSha256 && downloadInfo.skill.sha256 !== lockedSha256) {
+      throw new Error(
+        `Digest drift for ${name}@${downloadInfo.skill.version}: mpak.lock has ${lockedSha256}, registry has ${downloadInfo.skill.sha256}`
+      );
+    }
     const shortName = getShortName(downloadInfo.skill.name);
     const skillsDir = getSkillsDir();
     const installPath = join(skillsDir, shortName);
@@ -65,37 +135,22 @@ export async function handleSkillInstall(skillSpec: string, options: InstallOpti
 
     console.log(`Pulling ${downloadInfo.skill.name}@${downloadInfo.skill.version}...`);
 
-    // Download the bundle
-    const buffer = await downloadSkillBundle(downloadInfo.url, downloadInfo.skill.sha256);
+    // Download and extract the bundle
+    await downloadAndExtractSkill(
+      downloadInfo.url,
+      { sha256: downloadInfo.skill.sha256, size: downloadInfo.skill.size },
+      skillsDir,
+      installPath,
+      {
+        name: downloadInfo.skill.name,
+        version: downloadInfo.skill.version,
+        specifier,
+        sha256: downloadInfo.skill.sha256,
+      }
+    );
 
     console.log(`Downloaded ${basename(downloadInfo.skill.name)}-${downloadInfo.skill.version}.skill (${formatSize(downloadInfo.skill.size)})`);
 
-    // Ensure skills directory exists
-    if (!existsSync(skillsDir)) {
-      mkdirSync(skillsDir, { recursive: true });
-    }
-
-    // Write to temp file
-    const tempPath = join(tmpdir(), `skill-${Date.now()}.skill`);
-    writeFileSync(tempPath, buffer);
-
-    // Remove existing installation if force
-    if (existsSync(installPath)) {
-      rmSync(installPath, { recursive: true });
-    }
-
-    // Extract using unzip
-    // The .skill bundle contains: skillName/SKILL.md, skillName/...
-    // We extract to the skills directory
-    try {
-      execSync(`unzip -o "${tempPath}" -d "${skillsDir}"`, { stdio: 'pipe' });
-    } catch (err) {
-      throw new Error(`Failed to extract skill bundle: ${err}`);
-    } finally {
-      // Clean up temp file
-      rmSync(tempPath, { force: true });
-    }
-
     if (options.json) {
       console.log(
         JSON.stringify(
@@ -118,7 +173,7 @@ export async function handleSkillInstall(skillSpec: string, options: InstallOpti
     }
   } catch (err) {
     console.error(`Error: ${err instanceof Error ? err.message : err}`);
-    process.exit(1);
+    process.exit(exitCodeFor(err));
   }
 }
 
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { prepareSkillAnnounce } from './publish.js';
+
+describe('prepareSkillAnnounce', () => {
+  let testDir: string;
+  let skillDir: string;
+
+  function writeSkill(version?: string): void {
+    writeFileSync(
+      join(skillDir, 'SKILL.md'),
+      `---
+name: test-skill
+description: A test skill for publishing
+${version ? `metadata:\n  version: "${version}"\n` : ''}---
+# Test Skill`
+    );
+  }
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `skill-publish-test-${Date.now()}`);
+    skillDir = join(testDir, 'test-skill');
+    mkdirSync(skillDir, { recursive: true });
+    delete process.env.GITHUB_REF_TYPE;
+    delete process.env.GITHUB_REPOSITORY_OWNER;
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+    delete process.env.GITHUB_REPOSITORY_OWNER;
+  });
+
+  it('packs a directory and builds a scoped announce request', async () => {
+    writeSkill('1.2.0');
+    const output = join(testDir, 'test-skill-1.2.0.skill');
+
+    const { path, request } = await prepareSkillAnnounce(skillDir, { output, scope: '@Acme' });
+
+    expect(path).toBe(output);
+    expect(request.name).toBe('@acme/test-skill');
+    expect(request.version).toBe('1.2.0');
+    expect(request.skill.name).toBe('test-skill');
+    expect(request.release_tag).toBe('v1.2.0');
+    expect(request.artifact.filename).toBe('test-skill-1.2.0.skill');
+    expect(request.artifact.sha256).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('accepts an existing .skill artifact', async () => {
+    writeSkill('1.2.0');
+    const output = join(testDir, 'test-skill-1.2.0.skill');
+    await prepareSkillAnnounce(skillDir, { output, scope: 'acme' });
+
+    process.env.GITHUB_REPOSITORY_OWNER = 'NimbleBrainInc';
+    const { request } = await prepareSkillAnnounce(output);
+    expect(request.name).toBe('@nimblebraininc/test-skill');
+  });
+
+  it('requires a scope', async () => {
+    writeSkill('1.2.0');
+    await expect(prepareSkillAnnounce(skillDir)).rejects.toThrow(/pass --scope/);
+  });
+
+  it('requires metadata.version', async () => {
+    writeSkill();
+    await expect(
+      prepareSkillAnnounce(skillDir, { output: join(testDir, 'x.skill'), scope: 'acme' })
+    ).rejects.toThrow(/metadata.version is required/);
+  });
+});
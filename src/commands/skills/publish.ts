@@ -0,0 +1,130 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join, resolve } from 'path';
+import { announceSkill } from '../../lib/api/skills-client.js';
+import { sha256File } from '../../lib/download.js';
+import { getOidcToken } from '../../lib/oidc.js';
+import { extractZip } from '../../lib/zip.js';
+import { formatSize } from '../../utils/progress.js';
+import { resolveReleaseTag } from '../packages/publish.js';
+import type { SkillAnnounceRequest } from '../../schemas/generated/skill.js';
+import { packSkill } from './pack.js';
+import { formatValidationResult, validateSkillDirectory } from './validate.js';
+import { exitCodeFor } from '../../utils/errors.js';
+
+export interface SkillPublishOptions {
+  output?: string;
+  scope?: string;
+  releaseTag?: string;
+  prerelease?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Build the announce request for a skill directory (packed first) or an
+ * existing .skill artifact. The artifact file must be attached to the
+ * GitHub release under the same filename.
+ */
+export async function prepareSkillAnnounce(
+  skillPath: string,
+  options: SkillPublishOptions = {}
+): Promise<{ path: string; request: SkillAnnounceRequest }> {
+  if (!existsSync(skillPath)) {
+    throw new Error(`Path not found: ${skillPath}`);
+  }
+
+  const scope = (options.scope || process.env.GITHUB_REPOSITORY_OWNER || '')
+    .replace(/^@/, '')
+    .toLowerCase();
+  if (!scope) {
+    throw new Error('Cannot tell which scope to publish under; pass --scope');
+  }
+
+  let artifactPath: string;
+  if (statSync(skillPath).isDirectory()) {
+    const packed = await packSkill(skillPath, options.output);
+    if (!packed.success) {
+      throw new Error(packed.error || 'Failed to pack skill');
+    }
+    artifactPath = packed.path!;
+  } else {
+    artifactPath = resolve(skillPath);
+  }
+
+  // Validate the artifact itself: a .skill holds a single <name>/ directory
+  const extractDir = mkdtempSync(join(tmpdir(), 'mpak-publish-'));
+  let validation: ReturnType<typeof validateSkillDirectory>;
+  try {
+    await extractZip(artifactPath, extractDir);
+    const dirs = readdirSync(extractDir).filter((entry) =>
+      statSync(join(extractDir, entry)).isDirectory()
+    );
+    if (dirs.length !== 1) {
+      throw new Error(`Expected a single skill directory in ${basename(artifactPath)}`);
+    }
+    validation = validateSkillDirectory(join(extractDir, dirs[0]));
+  } finally {
+    rmSync(extractDir, { recursive: true, force: true });
+  }
+
+  if (!validation.valid || !validation.frontmatter) {
+    throw new Error(`Validation failed:\n${formatValidationResult(validation)}`);
+  }
+
+  const version = validation.frontmatter.metadata?.version;
+  if (!version) {
+    throw new Error('metadata.version is required to publish a skill');
+  }
+
+  return {
+    path: artifactPath,
+    request: {
+      name: `@${scope}/${validation.frontmatter.name}`,
+      version,
+      skill: validation.frontmatter,
+      release_tag: resolveReleaseTag(version, options.releaseTag),
+      prerelease: options.prerelease ?? version.includes('-'),
+      artifact: {
+        filename: basename(artifactPath),
+        sha256: await sha256File(artifactPath),
+        size: statSync(artifactPath).size,
+      },
+    },
+  };
+}
+
+/**
+ * Handle the skill publish command
+ */
+export async function handleSkillPublish(
+  skillPath: string,
+  options: SkillPublishOptions = {}
+): Promise<void> {
+  try {
+    const { request } = await prepareSkillAnnounce(skillPath, options);
+    const { artifact } = request;
+
+    if (!options.json) {
+      console.log(`=> Publishing ${request.name}@${request.version}`);
+      console.log(`   Artifact: ${artifact.filename} (${formatSize(artifact.size)})`);
+      console.log(`   SHA256: ${artifact.sha256}`);
+      console.log(`   Release: ${request.release_tag}${request.prerelease ? ' (prerelease)' : ''}`);
+    }
+
+    const token = await getOidcToken();
+    const result = await announceSkill(request, token);
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    console.log(`\n=> Announced ${result.skill}@${result.version} (${result.status})`);
+  } catch (error) {
+    console.error('\n=> Failed to publish skill');
+    if (error instanceof Error) {
+      console.error(`   ${error.message}`);
+    }
+    process.exit(exitCodeFor(error));
+  }
+}
@@ -1,6 +1,7 @@
-import { writeFileSync } from 'fs';
 import { basename, join } from 'path';
 import { getSkillDownloadInfo, downloadSkillBundle } from '../../lib/api/skills-client.js';
+import { resolveSkillVersion } from '../../lib/version-resolver.js';
+import { exitCodeFor } from '../../utils/errors.js';
 
 /**
  * Parse skill spec into name and version
@@ -37,7 +38,8 @@ export interface PullOptions {
  */
 export async function handleSkillPull(skillSpec: string, options: PullOptions): Promise<void> {
   try {
-    const { name, version } = parseSkillSpec(skillSpec);
+    const { name, version: specVersion } = parseSkillSpec(skillSpec);
+    const version = await resolveSkillVersion(name, specVersion);
 
     // Get download info
     const downloadInfo = await getSkillDownloadInfo(name, version);
@@ -46,15 +48,15 @@ export async function handleSkillPull(skillSpec: string, options: PullOptions):
       `Pulling ${downloadInfo.skill.name}@${downloadInfo.skill.version}...`
     );
 
-    // Download the bundle
-    const buffer = await downloadSkillBundle(downloadInfo.url, downloadInfo.skill.sha256);
-
     // Determine output path
     const filename = `${basename(downloadInfo.skill.name.replace('@', '').replace('/', '-'))}-${downloadInfo.skill.version}.skill`;
     const outputPath = options.output || join(process.cwd(), filename);
 
-    // Write to disk
-    writeFileSync(outputPath, buffer);
+    // Download the bundle (verified before it is written to outputPath)
+    await downloadSkillBundle(downloadInfo.url, outputPath, {
+      sha256: downloadInfo.skill.sha256,
+      size: downloadInfo.skill.size,
+    });
 
     if (options.json) {
       console.log(
@@ -77,7 +79,7 @@ export async function handleSkillPull(skillSpec: string, options: PullOptions):
     }
   } catch (err) {
     console.error(`Error: ${err instanceof Error ? err.message : err}`);
-    process.exit(1);
+    process.exit(exitCodeFor(err));
   }
 }
 
@@ -1,4 +1,5 @@
 import { searchSkills } from '../../lib/api/skills-client.js';
+import { exitCodeFor } from '../../utils/errors.js';
 
 export interface SearchOptions {
   tags?: string;
@@ -68,6 +69,6 @@ export async function handleSkillSearch(query: string, options: SearchOptions):
     }
   } catch (err) {
     console.error(`Error: ${err instanceof Error ? err.message : err}`);
-    process.exit(1);
+    process.exit(exitCodeFor(err));
   }
 }
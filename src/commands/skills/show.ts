@@ -1,4 +1,5 @@
 import { getSkillDetails } from '../../lib/api/skills-client.js';
+import { exitCodeFor } from '../../utils/errors.js';
 
 export interface ShowOptions {
   json?: boolean;
@@ -67,6 +68,6 @@ export async function handleSkillShow(name: string, options: ShowOptions): Promi
     console.log(`Install: mpak skill install ${skill.name}`);
   } catch (err) {
     console.error(`Error: ${err instanceof Error ? err.message : err}`);
-    process.exit(1);
+    process.exit(exitCodeFor(err));
   }
 }
@@ -0,0 +1,90 @@
+import { existsSync } from 'fs';
+import { readTrace, summarizeTrace, type TraceCall, type TraceSummary } from '../lib/mcp/trace.js';
+import { NotFoundError, exitCodeFor } from '../utils/errors.js';
+
+export interface TraceViewOptions {
+  slow?: number;
+  limit?: number;
+  json?: boolean;
+}
+
+export const DEFAULT_SLOW_MS = 1000;
+
+function formatMs(ms: number | null | undefined): string {
+  if (ms === null || ms === undefined) return '-';
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function formatCall(call: TraceCall): string {
+  const source = call.from === 'server' ? ' (from server)' : '';
+  return `  ${call.ts}  ${call.label}${source}`;
+}
+
+function printSummary(path: string, summary: TraceSummary, slowMs: number, limit: number): void {
+  console.log(
+    `\n${path}: ${summary.sessions} session(s), ${summary.messages} message(s) over ${formatMs(summary.durationMs)}`
+  );
+
+  if (summary.methods.length > 0) {
+    const methodWidth = Math.max(20, ...summary.methods.map((m) => m.method.length)) + 2;
+    console.log('');
+    console.log('METHOD'.padEnd(methodWidth) + 'CALLS'.padEnd(8) + 'ERRORS'.padEnd(8) + 'AVG'.padEnd(10) + 'MAX');
+    for (const stats of summary.methods) {
+      console.log(
+        stats.method.padEnd(methodWidth) +
+          String(stats.calls).padEnd(8) +
+          String(stats.errors).padEnd(8) +
+          formatMs(stats.avgMs).padEnd(10) +
+          formatMs(stats.maxMs)
+      );
+    }
+  }
+
+  const section = (title: string, calls: TraceCall[], describe: (_call: TraceCall) => string) => {
+    if (calls.length === 0) return;
+    console.log(`\n${title} (${calls.length}):`);
+    for (const call of calls.slice(0, limit)) {
+      console.log(`${formatCall(call)}  ${describe(call)}`);
+    }
+    if (calls.length > limit) {
+      console.log(`  ... ${calls.length - limit} more`);
+    }
+  };
+
+  section(`Slow calls, ${formatMs(slowMs)} or more`, summary.slow, (call) => formatMs(call.latencyMs));
+  section('Errors', summary.errors, (call) =>
+    call.error?.code !== undefined ? `${call.error.code} ${call.error.message}` : (call.error?.message ?? '')
+  );
+  section('Unanswered requests', summary.unanswered, () => 'no response');
+
+  if (summary.invalidLines > 0) {
+    console.log(`\n\u2717 ${summary.invalidLines} line(s) on stdio were not JSON-RPC (is the server logging to stdout?)`);
+  }
+  if (summary.slow.length === 0 && summary.errors.length === 0 && summary.unanswered.length === 0) {
+    console.log(`\n\u2713 No slow calls or errors`);
+  }
+  console.log('');
+}
+
+/**
+ * Summarize a trace recorded by `mpak run --trace`
+ * @example mpak trace view trace.jsonl --slow 500
+ */
+export async function handleTraceView(path: string, options: TraceViewOptions = {}): Promise<void> {
+  try {
+    if (!existsSync(path)) {
+      throw new NotFoundError(`Trace file not found: ${path}`);
+    }
+    const slowMs = options.slow ?? DEFAULT_SLOW_MS;
+    const summary = summarizeTrace(readTrace(path), slowMs);
+
+    if (options.json) {
+      console.log(JSON.stringify(summary, null, 2));
+      return;
+    }
+    printSummary(path, summary, slowMs, options.limit ?? 20);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : err}`);
+    process.exit(exitCodeFor(err));
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { getUserProfile } from './auth-client.js';
+import { AuthError } from '../../utils/errors.js';
+
+const profile = {
+  id: 'user_1',
+  email: 'dev@example.com',
+  emailVerified: true,
+  username: 'dev',
+  name: 'Dev',
+  avatarUrl: null,
+  githubUsername: 'dev-gh',
+  githubLinked: true,
+  verified: true,
+  publishedBundles: 3,
+  totalDownloads: 1200,
+  createdAt: '2025-01-01T00:00:00Z',
+  lastLoginAt: null,
+};
+
+describe('getUserProfile', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/internal/auth/me' && req.headers.authorization === 'Bearer good') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(profile));
+        return;
+      }
+      res.writeHead(401);
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('returns the profile for a valid token', async () => {
+    const result = await getUserProfile(baseUrl, 'good');
+    expect(result.username).toBe('dev');
+    expect(result.publishedBundles).toBe(3);
+  });
+
+  it('throws AuthError for rejected tokens', async () => {
+    await expect(getUserProfile(baseUrl, 'bad')).rejects.toBeInstanceOf(AuthError);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Auth API client for mpak registry
+ */
+
+import { UserProfileSchema, type UserProfile } from '../../schemas/generated/auth.js';
+import { AuthError } from '../../utils/errors.js';
+import { HttpClient } from './http-client.js';
+
+/**
+ * Fetch the profile of the user a token belongs to
+ * @throws AuthError when the registry rejects the token
+ */
+export async function getUserProfile(registryUrl: string, token: string): Promise<UserProfile> {
+  let body: unknown;
+  try {
+    body = await new HttpClient({ baseUrl: registryUrl, token }).get('/internal/auth/me');
+  } catch (error) {
+    if (error instanceof AuthError) {
+      throw new AuthError('Token was rejected by the registry (invalid or expired)', error.status, error.code);
+    }
+    throw error;
+  }
+
+  const parsed = UserProfileSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new Error('Unexpected user profile response from the registry');
+  }
+  return parsed.data;
+}
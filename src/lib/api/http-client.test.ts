@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { HttpClient, parseErrorBody, resolveTimeout, getUserAgent } from './http-client.js';
+import {
+  ApiError,
+  AuthError,
+  ExitCode,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+} from '../../utils/errors.js';
+
+type Handler = (_req: IncomingMessage, _res: ServerResponse) => void;
+
+async function rejection(promise: Promise<unknown>): Promise<ApiError> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as ApiError;
+  }
+  throw new Error('Expected the request to fail');
+}
+
+function json(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+describe('parseErrorBody', () => {
+  it('reads nested error objects', () => {
+    expect(parseErrorBody({ error: { message: 'Nope', code: 'NOPE' } })).toEqual({
+      message: 'Nope',
+      code: 'NOPE',
+    });
+  });
+
+  it('reads string errors and top-level messages', () => {
+    expect(parseErrorBody({ error: 'Bad request' })).toEqual({ message: 'Bad request', code: undefined });
+    expect(parseErrorBody({ message: 'Invalid', code: 'VALIDATION' })).toEqual({
+      message: 'Invalid',
+      code: 'VALIDATION',
+    });
+  });
+
+  it('ignores non-object bodies', () => {
+    expect(parseErrorBody(undefined)).toEqual({});
+    expect(parseErrorBody('oops')).toEqual({});
+  });
+});
+
+describe('resolveTimeout', () => {
+  beforeEach(() => {
+    delete process.env.MPAK_HTTP_TIMEOUT;
+  });
+
+  it('uses MPAK_HTTP_TIMEOUT when valid', () => {
+    process.env.MPAK_HTTP_TIMEOUT = '5000';
+    expect(resolveTimeout()).toBe(5000);
+    process.env.MPAK_HTTP_TIMEOUT = 'soon';
+    expect(resolveTimeout()).toBe(30_000);
+    delete process.env.MPAK_HTTP_TIMEOUT;
+  });
+
+  it('prefers the explicit option', () => {
+    expect(resolveTimeout(100)).toBe(100);
+  });
+});
+
+describe('HttpClient', () => {
+  let server: Server;
+  let baseUrl: string;
+  let handler: Handler;
+  let requests: IncomingMessage[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push(req);
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  function client(options: { token?: string | null; timeoutMs?: number } = {}): HttpClient {
+    return new HttpClient({ baseUrl: `${baseUrl}/`, token: null, retryDelayMs: 1, ...options });
+  }
+
+  it('sends the user agent, token and query parameters', async () => {
+    handler = (_req, res) => json(res, 200, { ok: true });
+
+    const result = await client({ token: 'secret' }).get<{ ok: boolean }>('/v1/things', {
+      query: { q: 'echo', limit: 5, type: undefined, sort: '' },
+    });
+
+    expect(result).toEqual({ ok: true });
+    expect(requests[0].url).toBe('/v1/things?q=echo&limit=5');
+    expect(requests[0].headers['user-agent']).toBe(getUserAgent());
+    expect(requests[0].headers.authorization).toBe('Bearer secret');
+  });
+
+  it('lets a per-request token override the stored one', async () => {
+    handler = (_req, res) => json(res, 200, {});
+
+    await client({ token: 'stored' }).post('/v1/announce', { a: 1 }, { token: 'oidc' });
+
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].headers.authorization).toBe('Bearer oidc');
+    expect(requests[0].headers['content-type']).toBe('application/json');
+  });
+
+  it('maps 404 to NotFoundError with the caller message', async () => {
+    handler = (_req, res) => json(res, 404, { error: { message: 'not here', code: 'NOT_FOUND' } });
+
+    const error = await rejection(
+      client().get('/v1/bundles/@a/b', { notFoundMessage: 'Bundle not found: @a/b' })
+    );
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('Bundle not found: @a/b');
+    expect(error.code).toBe('NOT_FOUND');
+    expect(error.exitCode).toBe(ExitCode.NOT_FOUND);
+  });
+
+  it('maps 401 and 403 to AuthError', async () => {
+    handler = (_req, res) => json(res, 401, { error: 'Invalid token' });
+    const unauthorized = await rejection(client().get('/x'));
+    expect(unauthorized).toBeInstanceOf(AuthError);
+    expect(unauthorized.message).toContain('mpak login');
+    expect(unauthorized.exitCode).toBe(ExitCode.AUTH);
+
+    handler = (_req, res) => json(res, 403, { message: 'Not your scope' });
+    const forbidden = await rejection(client().get('/x'));
+    expect(forbidden).toBeInstanceOf(AuthError);
+    expect(forbidden.message).toBe('Not your scope');
+  });
+
+  it('maps other 4xx to ApiError with the body message', async () => {
+    handler = (_req, res) => json(res, 400, { error: { message: 'Bad version', code: 'VALIDATION' } });
+
+    const error = await rejection(client().post('/x', {}));
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.message).toBe('Bad version');
+    expect(error.status).toBe(400);
+    expect(error.exitCode).toBe(ExitCode.GENERAL);
+  });
+
+  it('retries GET requests on 5xx', async () => {
+    let calls = 0;
+    handler = (_req, res) => {
+      calls++;
+      if (calls < 3) json(res, 503, { error: 'busy' });
+      else json(res, 200, { ok: true });
+    };
+
+    await expect(client().get('/x')).resolves.toEqual({ ok: true });
+    expect(calls).toBe(3);
+  });
+
+  it('gives up with ServerError after retries', async () => {
+    handler = (_req, res) => json(res, 500, { error: 'boom' });
+
+    const error = await rejection(client().get('/x'));
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error.exitCode).toBe(ExitCode.SERVER);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('honours Retry-After on 429 and then raises RateLimitError', async () => {
+    handler = (_req, res) => {
+      res.writeHead(429, { 'Retry-After': '0' });
+      res.end();
+    };
+
+    const error = await rejection(client().get('/x'));
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.exitCode).toBe(ExitCode.RATE_LIMITED);
+  });
+
+  it('does not retry POST requests', async () => {
+    handler = (_req, res) => json(res, 502, {});
+
+    await expect(client().post('/x', {})).rejects.toBeInstanceOf(ServerError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('raises NetworkError on timeout', async () => {
+    handler = (_req, res) => setTimeout(() => json(res, 200, {}), 500);
+
+    const slow = new HttpClient({ baseUrl, token: null, timeoutMs: 50, retries: 0 });
+    const error = await rejection(slow.get('/slow'));
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toContain('timed out');
+    expect(error.exitCode).toBe(ExitCode.NETWORK);
+  });
+
+  it('raises NetworkError when the registry is unreachable', async () => {
+    // Grab a free port, then close it so nothing is listening
+    const probe = createServer();
+    await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+    const { port } = probe.address() as AddressInfo;
+    await new Promise<void>((resolve) => probe.close(() => resolve()));
+
+    const offline = new HttpClient({ baseUrl: `http://127.0.0.1:${port}`, token: null, retries: 0 });
+    const error = await rejection(offline.get('/x'));
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toContain('ECONNREFUSED');
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Shared HTTP client for the mpak registry API
+ */
+
+import { URL } from 'url';
+import { EnvHttpProxyAgent, setGlobalDispatcher } from 'undici';
+import { ConfigManager } from '../../utils/config-manager.js';
+import { CredentialStore, normalizeRegistryUrl } from '../../utils/credentials.js';
+import {
+  ApiError,
+  AuthError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+} from '../../utils/errors.js';
+import { getVersion } from '../../utils/version.js';
+
+/**
+ * Default per-request timeout
+ */
+export const DEFAULT_HTTP_TIMEOUT_MS = 30_000;
+
+/**
+ * Default number of retries after the first attempt (GET requests only)
+ */
+export const DEFAULT_HTTP_RETRIES = 2;
+
+/**
+ * Default base delay for exponential backoff
+ */
+export const DEFAULT_HTTP_RETRY_DELAY_MS = 500;
+
+/**
+ * Upper bound for a server-requested Retry-After delay
+ */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+export type QueryValue = string | number | undefined;
+
+export interface HttpClientOptions {
+  /** Registry URL (defaults to ConfigManager.getRegistryUrl()) */
+  baseUrl?: string;
+  /** Bearer token (defaults to the stored token for the registry; null sends none) */
+  token?: string | null;
+  /** Per-request timeout in ms (defaults to MPAK_HTTP_TIMEOUT or 30000) */
+  timeoutMs?: number;
+  /** Retries after the first attempt for GET requests */
+  retries?: number;
+  /** Base backoff delay in ms, doubled after every failed attempt */
+  retryDelayMs?: number;
+}
+
+export interface RequestOptions {
+  /** Query parameters; undefined and empty values are skipped */
+  query?: Record<string, QueryValue>;
+  /** Bearer token for this request only (e.g. an OIDC token) */
+  token?: string;
+  /** Message for a 404 instead of the one in the error body */
+  notFoundMessage?: string;
+}
+
+let proxyConfigured = false;
+
+/**
+ * Route fetch() through HTTPS_PROXY / HTTP_PROXY when set, honouring
+ * NO_PROXY. Node's built-in fetch ignores these variables on its own.
+ */
+export function configureProxyFromEnv(): void {
+  if (proxyConfigured) return;
+  proxyConfigured = true;
+
+  const env = process.env;
+  if (env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy) {
+    setGlobalDispatcher(new EnvHttpProxyAgent());
+  }
+}
+
+/**
+ * User-Agent sent with every request
+ * @example getUserAgent() => 'mpak-cli/0.1.0 (node v20.19.5; linux x64)'
+ */
+export function getUserAgent(): string {
+  return `mpak-cli/${getVersion()} (node ${process.version}; ${process.platform} ${process.arch})`;
+}
+
+/**
+ * Resolve the request timeout from options, MPAK_HTTP_TIMEOUT, or the default
+ */
+export function resolveTimeout(timeoutMs?: number): number {
+  if (timeoutMs !== undefined) return timeoutMs;
+  const fromEnv = parseInt(process.env.MPAK_HTTP_TIMEOUT || '', 10);
+  return Number.isNaN(fromEnv) || fromEnv <= 0 ? DEFAULT_HTTP_TIMEOUT_MS : fromEnv;
+}
+
+/**
+ * Backoff delay before retry number `attempt` (0-based), with jitter
+ * @example backoffDelay(0, 1000) => ~1000, backoffDelay(2, 1000) => ~4000
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number): number {
+  const delay = baseDelayMs * 2 ** attempt;
+  return delay + Math.floor(Math.random() * baseDelayMs * 0.25);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or HTTP date)
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  const delay = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000;
+  if (Number.isNaN(delay)) return undefined;
+  return Math.min(Math.max(delay, 0), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Extract message and code from the registry's error body shapes:
+ * `{ error: { message, code } }`, `{ error: "..." }` and `{ message, code }`
+ */
+export function parseErrorBody(body: unknown): { message?: string; code?: string } {
+  if (typeof body !== 'object' || body === null) {
+    return {};
+  }
+  const { error, message, code } = body as Record<string, unknown>;
+
+  if (typeof error === 'object' && error !== null) {
+    const nested = error as Record<string, unknown>;
+    return {
+      message: typeof nested.message === 'string' ? nested.message : undefined,
+      code: typeof nested.code === 'string' ? nested.code : undefined,
+    };
+  }
+  return {
+    message: typeof error === 'string' ? error : typeof message === 'string' ? message : undefined,
+    code: typeof code === 'string' ? code : undefined,
+  };
+}
+
+/**
+ * Map an unsuccessful response to a typed error
+ */
+export async function toApiError(response: Response, notFoundMessage?: string): Promise<ApiError> {
+  const text = await response.text().catch(() => '');
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    body = undefined;
+  }
+  const parsed = parseErrorBody(body);
+  const status = response.status;
+  const message = parsed.message || `${status} ${response.statusText}`.trim();
+
+  if (status === 404) {
+    return new NotFoundError(notFoundMessage ?? message, parsed.code);
+  }
+  if (status === 401) {
+    return new AuthError(
+      `${parsed.message || 'Authentication required'}. Run "mpak login" to authenticate.`,
+      status,
+      parsed.code
+    );
+  }
+  if (status === 403) {
+    return new AuthError(parsed.message || 'Permission denied', status, parsed.code);
+  }
+  if (status === 429) {
+    return new RateLimitError(parsed.message || 'Rate limited by the registry, try again later', parsed.code);
+  }
+  if (status >= 500) {
+    return new ServerError(`Registry error: ${message}`, status, parsed.code);
+  }
+  return new ApiError(message, status, parsed.code);
+}
+
+/**
+ * Map a fetch() rejection (DNS, connection, proxy, timeout) to a NetworkError
+ */
+function toNetworkError(error: unknown, url: URL, timeoutMs: number): NetworkError {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return new NetworkError(`Request to ${url.host} timed out after ${timeoutMs / 1000}s`);
+  }
+  // fetch() reports network failures as TypeError('fetch failed') with the cause attached
+  const cause = error instanceof Error ? (error.cause as NodeJS.ErrnoException | undefined) : undefined;
+  const reason = cause?.code ?? cause?.message ?? (error instanceof Error ? error.message : String(error));
+  return new NetworkError(`Could not reach ${url.origin} (${reason})`);
+}
+
+/**
+ * JSON client for the registry.
+ *
+ * Resolves the registry URL and token the same way for every caller,
+ * applies a timeout, a User-Agent and proxy settings to each request, and
+ * retries GET requests on network errors, 429 and 5xx. Failures surface as
+ * typed CLIErrors (NotFoundError, AuthError, ...) with stable exit codes.
+ */
+export class HttpClient {
+  readonly baseUrl: string;
+  private readonly token: string | undefined;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+
+  constructor(options: HttpClientOptions = {}) {
+    this.baseUrl = normalizeRegistryUrl(options.baseUrl ?? new ConfigManager().getRegistryUrl());
+    this.token =
+      options.token === undefined
+        ? new CredentialStore().getToken(this.baseUrl)
+        : (options.token ?? undefined);
+    this.timeoutMs = resolveTimeout(options.timeoutMs);
+    this.retries = options.retries ?? DEFAULT_HTTP_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_HTTP_RETRY_DELAY_MS;
+    configureProxyFromEnv();
+  }
+
+  get<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    return this.request<T>('GET', path, undefined, options);
+  }
+
+  post<T>(path: string, body: unknown, options: RequestOptions = {}): Promise<T> {
+    return this.request<T>('POST', path, body, options);
+  }
+
+  private buildUrl(path: string, query?: Record<string, QueryValue>): URL {
+    const url = new URL(`${this.baseUrl}${path}`);
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined && value !== '') {
+        url.searchParams.set(key, String(value));
+      }
+    }
+    return url;
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    body: unknown,
+    options: RequestOptions
+  ): Promise<T> {
+    const url = this.buildUrl(path, options.query);
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'User-Agent': getUserAgent(),
+    };
+    const token = options.token ?? this.token;
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    // Only idempotent requests are retried
+    const retries = method === 'GET' ? this.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+      } catch (error) {
+        if (attempt < retries) {
+          await sleep(backoffDelay(attempt, this.retryDelayMs));
+          continue;
+        }
+        throw toNetworkError(error, url, this.timeoutMs);
+      }
+
+      if (response.ok) {
+        const text = await response.text();
+        return (text ? JSON.parse(text) : undefined) as T;
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (retryable && attempt < retries) {
+        const delay =
+          parseRetryAfter(response.headers.get('retry-after')) ??
+          backoffDelay(attempt, this.retryDelayMs);
+        await response.body?.cancel();
+        await sleep(delay);
+        continue;
+      }
+
+      throw await toApiError(response, options.notFoundMessage);
+    }
+  }
+}
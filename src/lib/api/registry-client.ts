@@ -1,4 +1,6 @@
-import { ConfigManager } from '../../utils/config-manager.js';
+import { basename } from 'path';
+import { downloadFile, type DownloadOptions, type ExpectedDigest } from '../download.js';
+import { HttpClient, type HttpClientOptions } from './http-client.js';
 import type { paths } from './schema.js';
 
 // =============================================================================
@@ -8,11 +10,16 @@ import type { paths } from './schema.js';
 // Helper to extract response type from path
 type ResponseOf<T> = T extends { responses: { 200: { content: { 'application/json': infer R } } } } ? R : never;
 
+// Helper to extract JSON request body type from path
+type RequestOf<T> = T extends { requestBody: { content: { 'application/json': infer R } } } ? R : never;
+
 // V1 API Response Types
 export type BundleSearchResponse = ResponseOf<paths['/v1/bundles/search']['get']>;
 export type BundleDetailResponse = ResponseOf<paths['/v1/bundles/@{scope}/{package}']['get']>;
 export type VersionsResponse = ResponseOf<paths['/v1/bundles/@{scope}/{package}/versions']['get']>;
 export type DownloadInfoResponse = ResponseOf<paths['/v1/bundles/@{scope}/{package}/versions/{version}/download']['get']>;
+export type BundleAnnounceRequest = RequestOf<paths['/v1/bundles/announce']['post']>;
+export type BundleAnnounceResponse = ResponseOf<paths['/v1/bundles/announce']['post']>;
 
 // Convenience aliases
 export type Bundle = BundleSearchResponse['bundles'][number];
@@ -33,14 +40,21 @@ export interface Platform {
 /**
  * Client for interacting with the mpak registry v1 API
  *
- * All methods use the public /v1/bundles API (unauthenticated)
+ * All methods use the public /v1/bundles API through the shared
+ * HttpClient. Requests carry the token from `mpak login` when there is
+ * one; announceBundle uses an OIDC token instead.
  */
 export class RegistryClient {
-  private baseUrl: string;
+  private http: HttpClient;
+
+  constructor(options: HttpClientOptions = {}) {
+    this.http = new HttpClient(options);
+  }
 
-  constructor() {
-    const configManager = new ConfigManager();
-    this.baseUrl = configManager.getRegistryUrl();
+  private static assertScoped(packageName: string): void {
+    if (!packageName.startsWith('@')) {
+      throw new Error('Package name must be scoped (e.g., @username/package-name)');
+    }
   }
 
   /**
@@ -52,75 +66,35 @@ export class RegistryClient {
     limit?: number;
     offset?: number;
   } = {}): Promise<BundleSearchResponse> {
-    const params = new URLSearchParams();
-    if (query) params.set('q', query);
-    if (options.type) params.set('type', options.type);
-    if (options.sort) params.set('sort', options.sort);
-    if (options.limit) params.set('limit', options.limit.toString());
-    if (options.offset) params.set('offset', options.offset.toString());
-
-    const url = `${this.baseUrl}/v1/bundles/search?${params.toString()}`;
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      const error: any = await response.json().catch(() => ({ error: response.statusText }));
-      const errorMessage = typeof error.error === 'string'
-        ? error.error
-        : error.error?.message || `Failed to search bundles: ${response.statusText}`;
-      throw new Error(errorMessage);
-    }
-
-    return response.json() as Promise<BundleSearchResponse>;
+    return this.http.get<BundleSearchResponse>('/v1/bundles/search', {
+      query: {
+        q: query,
+        type: options.type,
+        sort: options.sort,
+        limit: options.limit || undefined,
+        offset: options.offset || undefined,
+      },
+    });
   }
 
   /**
    * Get bundle details
    */
   async getBundle(packageName: string): Promise<BundleDetail> {
-    if (!packageName.startsWith('@')) {
-      throw new Error('Package name must be scoped (e.g., @username/package-name)');
-    }
-
-    const url = `${this.baseUrl}/v1/bundles/${packageName}`;
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error(`Bundle not found: ${packageName}`);
-      }
-      const error: any = await response.json().catch(() => ({ error: response.statusText }));
-      const errorMessage = typeof error.error === 'string'
-        ? error.error
-        : error.error?.message || `Failed to get bundle details: ${response.statusText}`;
-      throw new Error(errorMessage);
-    }
-
-    return response.json() as Promise<BundleDetail>;
+    RegistryClient.assertScoped(packageName);
+    return this.http.get<BundleDetail>(`/v1/bundles/${packageName}`, {
+      notFoundMessage: `Bundle not found: ${packageName}`,
+    });
   }
 
   /**
    * Get versions with platform info
    */
   async getVersions(packageName: string): Promise<VersionsResponse> {
-    if (!packageName.startsWith('@')) {
-      throw new Error('Package name must be scoped (e.g., @username/package-name)');
-    }
-
-    const url = `${this.baseUrl}/v1/bundles/${packageName}/versions`;
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error(`Bundle not found: ${packageName}`);
-      }
-      const error: any = await response.json().catch(() => ({ error: response.statusText }));
-      const errorMessage = typeof error.error === 'string'
-        ? error.error
-        : error.error?.message || `Failed to get versions: ${response.statusText}`;
-      throw new Error(errorMessage);
-    }
-
-    return response.json() as Promise<VersionsResponse>;
+    RegistryClient.assertScoped(packageName);
+    return this.http.get<VersionsResponse>(`/v1/bundles/${packageName}/versions`, {
+      notFoundMessage: `Bundle not found: ${packageName}`,
+    });
   }
 
   /**
@@ -166,58 +140,48 @@ export class RegistryClient {
    * Get download info for a bundle version
    */
   async getDownloadInfo(packageName: string, version?: string, platform?: Platform): Promise<DownloadInfo> {
-    if (!packageName.startsWith('@')) {
-      throw new Error('Package name must be scoped (e.g., @username/package-name)');
-    }
-
+    RegistryClient.assertScoped(packageName);
     const versionPath = version ? `/versions/${version}` : '/versions/latest';
-    const params = new URLSearchParams();
 
-    if (platform) {
-      params.set('os', platform.os);
-      params.set('arch', platform.arch);
-    }
-
-    const queryString = params.toString();
-    const url = `${this.baseUrl}/v1/bundles/${packageName}${versionPath}/download${queryString ? `?${queryString}` : ''}`;
-
-    const response = await fetch(url, {
-      headers: {
-        Accept: 'application/json',
-      },
+    return this.http.get<DownloadInfo>(`/v1/bundles/${packageName}${versionPath}/download`, {
+      query: { os: platform?.os, arch: platform?.arch },
+      notFoundMessage: version
+        ? `Bundle version not found: ${packageName}@${version}`
+        : `Bundle not found: ${packageName}`,
     });
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error(version
-          ? `Bundle version not found: ${packageName}@${version}`
-          : `Bundle not found: ${packageName}`
-        );
-      }
-      const error: any = await response.json().catch(() => ({ error: response.statusText }));
-      const errorMessage = typeof error.error === 'string'
-        ? error.error
-        : error.error?.message || `Failed to get download info: ${response.statusText}`;
-      throw new Error(errorMessage);
-    }
-
-    return response.json() as Promise<DownloadInfo>;
   }
 
   /**
-   * Download a bundle to a file
+   * Download a bundle to a file.
+   *
+   * Streams to disk with resume and retry (see downloadFile). When the
+   * expected digest is given, the file is verified before it is moved to
+   * outputPath, so a failed or mismatched download never leaves a partial
+   * or untrusted bundle behind.
    */
-  async downloadBundle(downloadUrl: string, outputPath: string): Promise<void> {
-    const response = await fetch(downloadUrl);
-
-    if (!response.ok) {
-      throw new Error(`Failed to download bundle: ${response.statusText}`);
-    }
-
-    const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+  async downloadBundle(
+    downloadUrl: string,
+    outputPath: string,
+    expected?: ExpectedDigest,
+    options: Omit<DownloadOptions, 'expected'> = {}
+  ): Promise<void> {
+    await downloadFile(downloadUrl, outputPath, {
+      label: basename(outputPath),
+      ...options,
+      expected,
+    });
+  }
 
-    const fs = await import('fs');
-    fs.writeFileSync(outputPath, buffer);
+  /**
+   * Announce a bundle artifact attached to a GitHub release (OIDC only).
+   * Idempotent: announcing each platform artifact of a version adds it.
+   */
+  async announceBundle(
+    request: BundleAnnounceRequest,
+    oidcToken: string
+  ): Promise<BundleAnnounceResponse> {
+    return this.http.post<BundleAnnounceResponse>('/v1/bundles/announce', request, {
+      token: oidcToken,
+    });
   }
 }
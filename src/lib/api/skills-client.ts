@@ -6,13 +6,12 @@ import type {
   SkillSearchResponse,
   SkillDetail,
   SkillDownloadInfo,
+  SkillAnnounceRequest,
+  SkillAnnounceResponse,
 } from '../../schemas/generated/skill.js';
-
-const DEFAULT_REGISTRY_URL = 'https://api.mpak.dev';
-
-function getRegistryUrl(): string {
-  return process.env.MPAK_REGISTRY_URL || DEFAULT_REGISTRY_URL;
-}
+import { basename } from 'path';
+import { downloadFile, type ExpectedDigest } from '../download.js';
+import { HttpClient } from './http-client.js';
 
 /**
  * Parse a scoped name into scope and name parts
@@ -41,54 +40,29 @@ export interface SkillSearchOptions {
  * Search for skills in the registry
  */
 export async function searchSkills(options: SkillSearchOptions): Promise<SkillSearchResponse> {
-  const baseUrl = getRegistryUrl();
-  const params = new URLSearchParams();
-
-  if (options.q) params.set('q', options.q);
-  if (options.tags) params.set('tags', options.tags);
-  if (options.category) params.set('category', options.category);
-  if (options.surface) params.set('surface', options.surface);
-  if (options.sort) params.set('sort', options.sort);
-  if (options.limit) params.set('limit', options.limit.toString());
-  if (options.offset) params.set('offset', options.offset.toString());
-
-  const url = `${baseUrl}/v1/skills/search?${params.toString()}`;
-
-  const response = await fetch(url, {
-    headers: { Accept: 'application/json' },
+  return new HttpClient().get<SkillSearchResponse>('/v1/skills/search', {
+    query: {
+      q: options.q,
+      tags: options.tags,
+      category: options.category,
+      surface: options.surface,
+      sort: options.sort,
+      limit: options.limit || undefined,
+      offset: options.offset || undefined,
+    },
   });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Search failed (${response.status}): ${text}`);
-  }
-
-  return response.json() as Promise<SkillSearchResponse>;
 }
 
 /**
  * Get skill details from the registry
  */
 export async function getSkillDetails(name: string): Promise<SkillDetail> {
-  const baseUrl = getRegistryUrl();
   const { scope, skillName } = parseScopedName(name);
 
   // Server expects: /v1/skills/@scope/name
-  const url = `${baseUrl}/v1/skills/@${scope}/${skillName}`;
-
-  const response = await fetch(url, {
-    headers: { Accept: 'application/json' },
+  return new HttpClient().get<SkillDetail>(`/v1/skills/@${scope}/${skillName}`, {
+    notFoundMessage: `Skill not found: ${name}`,
   });
-
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error(`Skill not found: ${name}`);
-    }
-    const text = await response.text();
-    throw new Error(`Failed to get skill details (${response.status}): ${text}`);
-  }
-
-  return response.json() as Promise<SkillDetail>;
 }
 
 /**
@@ -98,51 +72,37 @@ export async function getSkillDownloadInfo(
   name: string,
   version?: string
 ): Promise<SkillDownloadInfo> {
-  const baseUrl = getRegistryUrl();
   const { scope, skillName } = parseScopedName(name);
 
   // Server expects: /v1/skills/@scope/name/download or /v1/skills/@scope/name/versions/x.y.z/download
   const versionPath = version ? `/versions/${version}` : '';
-  const url = `${baseUrl}/v1/skills/@${scope}/${skillName}${versionPath}/download`;
-
-  const response = await fetch(url, {
-    headers: { Accept: 'application/json' },
+  return new HttpClient().get<SkillDownloadInfo>(`/v1/skills/@${scope}/${skillName}${versionPath}/download`, {
+    notFoundMessage: `Skill not found: ${name}${version ? `@${version}` : ''}`,
   });
-
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error(`Skill not found: ${name}${version ? `@${version}` : ''}`);
-    }
-    const text = await response.text();
-    throw new Error(`Failed to get download info (${response.status}): ${text}`);
-  }
-
-  return response.json() as Promise<SkillDownloadInfo>;
 }
 
 /**
- * Download a skill bundle
+ * Download a skill bundle to a file, verifying its SHA256 if provided
  */
 export async function downloadSkillBundle(
   downloadUrl: string,
-  expectedSha256?: string
-): Promise<Buffer> {
-  const response = await fetch(downloadUrl);
-
-  if (!response.ok) {
-    throw new Error(`Download failed (${response.status})`);
-  }
-
-  const buffer = Buffer.from(await response.arrayBuffer());
-
-  // Verify SHA256 if provided
-  if (expectedSha256) {
-    const { createHash } = await import('crypto');
-    const hash = createHash('sha256').update(buffer).digest('hex');
-    if (hash !== expectedSha256) {
-      throw new Error(`SHA256 mismatch: expected ${expectedSha256}, got ${hash}`);
-    }
-  }
+  outputPath: string,
+  expected?: ExpectedDigest
+): Promise<void> {
+  await downloadFile(downloadUrl, outputPath, {
+    label: basename(outputPath),
+    expected,
+  });
+}
 
-  return buffer;
+/**
+ * Announce a skill attached to a GitHub release (OIDC only)
+ */
+export async function announceSkill(
+  request: SkillAnnounceRequest,
+  oidcToken: string
+): Promise<SkillAnnounceResponse> {
+  return new HttpClient().post<SkillAnnounceResponse>('/v1/skills/announce', request, {
+    token: oidcToken,
+  });
 }
@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  commitStagingDir,
+  findCacheEntries,
+  findSensitiveConfigKeys,
+  findStaleEntries,
+  getCacheDir,
+  getCurrentCacheDir,
+  getLocalCacheDir,
+  getStagingDir,
+  getVersionCacheDir,
+  hashCacheContents,
+  listCacheEntries,
+  parseDuration,
+  removeCacheEntry,
+  verifyCacheEntry,
+  writeCacheMetadata,
+  writeCurrentPointer,
+  type CacheEntry,
+} from './cache.js';
+import type { RegistryClient } from './api/registry-client.js';
+import { NotFoundError } from '../utils/errors.js';
+
+function fakeClient(getDownloadInfo: () => Promise<unknown>): RegistryClient {
+  return { getDownloadInfo } as unknown as RegistryClient;
+}
+
+describe('parseDuration', () => {
+  it('parses minutes, hours, days and weeks', () => {
+    expect(parseDuration('45s')).toBe(45_000);
+    expect(parseDuration('90m')).toBe(90 * 60_000);
+    expect(parseDuration('12h')).toBe(12 * 3_600_000);
+    expect(parseDuration('30d')).toBe(30 * 86_400_000);
+    expect(parseDuration('2w')).toBe(14 * 86_400_000);
+  });
+
+  it('rejects invalid durations', () => {
+    expect(() => parseDuration('30')).toThrow('Invalid duration');
+    expect(() => parseDuration('soon')).toThrow('Invalid duration');
+  });
+});
+
+describe('cache entries', () => {
+  let cacheBase: string;
+
+  beforeEach(() => {
+    cacheBase = join(tmpdir(), `mpak-cache-test-${Date.now()}`);
+    mkdirSync(cacheBase, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(cacheBase, { recursive: true, force: true });
+  });
+
+  function addRegistryBundle(name: string, version: string, pulledAt: string): string {
+    const dir = getVersionCacheDir(name, version, { os: 'linux', arch: 'x64' }, cacheBase);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'manifest.json'), JSON.stringify({ name, version }));
+    writeFileSync(join(dir, 'index.js'), 'console.log("hi")');
+    writeCacheMetadata(dir, {
+      name,
+      version,
+      pulledAt,
+      platform: { os: 'linux', arch: 'x64' },
+      sha256: 'a'.repeat(64),
+      contentSha256: hashCacheContents(dir),
+    });
+    return dir;
+  }
+
+  it('lists registry and local bundles sorted by name', () => {
+    addRegistryBundle('@scope/zeta', '2.0.0', '2026-01-01T00:00:00.000Z');
+    addRegistryBundle('@scope/alpha', '1.0.0', '2026-02-01T00:00:00.000Z');
+    const localDir = getLocalCacheDir('/tmp/dev.mcpb', cacheBase);
+    mkdirSync(localDir, { recursive: true });
+    writeFileSync(join(localDir, 'manifest.json'), JSON.stringify({ name: '@me/dev', version: '0.0.1' }));
+    writeCacheMetadata(localDir, { localPath: '/tmp/dev.mcpb', extractedAt: '2026-03-01T00:00:00.000Z' });
+
+    const entries = listCacheEntries(cacheBase);
+
+    expect(entries.map((e) => e.name)).toEqual(['@me/dev', '@scope/alpha', '@scope/zeta']);
+    expect(entries[0]).toMatchObject({ source: 'local', version: '0.0.1', localPath: '/tmp/dev.mcpb' });
+    expect(entries[1]).toMatchObject({
+      source: 'registry',
+      version: '1.0.0',
+      platform: { os: 'linux', arch: 'x64' },
+      pulledAt: '2026-02-01T00:00:00.000Z',
+    });
+    expect(entries[1].size).toBeGreaterThan(0);
+  });
+
+  it('keeps versions of a package side by side and marks the current one', () => {
+    addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z');
+    const current = addRegistryBundle('@scope/a', '2.0.0', '2026-02-01T00:00:00.000Z');
+    writeCurrentPointer(current, '2.0.0');
+
+    const entries = listCacheEntries(cacheBase);
+
+    expect(entries.map((e) => [e.version, e.current])).toEqual([
+      ['1.0.0', false],
+      ['2.0.0', true],
+    ]);
+    expect(getCurrentCacheDir('@scope/a', cacheBase)).toBe(current);
+  });
+
+  it('ignores a current pointer to a removed version', () => {
+    const dir = addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z');
+    writeCurrentPointer(dir, '1.0.0');
+    rmSync(dir, { recursive: true });
+
+    expect(getCurrentCacheDir('@scope/a', cacheBase)).toBeNull();
+  });
+
+  it('finds sensitive user_config keys in any cached copy of a package', () => {
+    const withConfig = (dir: string, name: string, user_config: Record<string, unknown>) =>
+      writeFileSync(join(dir, 'manifest.json'), JSON.stringify({ name, version: '1.0.0', user_config }));
+    withConfig(addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z'), '@scope/a', {
+      api_key: { type: 'string', sensitive: true },
+      region: { type: 'string' },
+    });
+    withConfig(addRegistryBundle('@scope/a', '2.0.0', '2026-02-01T00:00:00.000Z'), '@scope/a', {
+      token: { type: 'string', sensitive: true },
+    });
+    const localDir = getLocalCacheDir('/tmp/dev.mcpb', cacheBase);
+    mkdirSync(localDir, { recursive: true });
+    withConfig(localDir, '@scope/a', { password: { type: 'string', sensitive: true } });
+    withConfig(addRegistryBundle('@scope/b', '1.0.0', '2026-01-01T00:00:00.000Z'), '@scope/b', {
+      other: { type: 'string', sensitive: true },
+    });
+
+    expect(findSensitiveConfigKeys('@scope/a', cacheBase)).toEqual(['api_key', 'password', 'token']);
+    expect(findSensitiveConfigKeys('@scope/missing', cacheBase)).toEqual([]);
+  });
+
+  it('skips staging directories', () => {
+    const dir = addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z');
+    mkdirSync(getStagingDir(dir));
+
+    expect(listCacheEntries(cacheBase)).toHaveLength(1);
+  });
+
+  it('removes the package directory with its last version', () => {
+    const first = addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z');
+    const second = addRegistryBundle('@scope/a', '2.0.0', '2026-01-01T00:00:00.000Z');
+    writeCurrentPointer(second, '2.0.0');
+    const [one, two] = listCacheEntries(cacheBase);
+
+    removeCacheEntry(one, cacheBase);
+    expect(existsSync(first)).toBe(false);
+    expect(existsSync(second)).toBe(true);
+
+    removeCacheEntry(two, cacheBase);
+    expect(existsSync(getCacheDir('@scope/a', cacheBase))).toBe(false);
+  });
+
+  it('lists legacy single-directory caches', () => {
+    const dir = join(cacheBase, 'scope-old');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'manifest.json'), JSON.stringify({ name: '@scope/old' }));
+    writeFileSync(
+      join(dir, '.mpak-meta.json'),
+      JSON.stringify({ version: '1.0.0', pulledAt: '2026-01-01T00:00:00.000Z', platform: { os: 'any', arch: 'any' } })
+    );
+
+    expect(listCacheEntries(cacheBase)[0].name).toBe('@scope/old');
+  });
+
+  it('returns no entries when the cache does not exist', () => {
+    expect(listCacheEntries(join(cacheBase, 'missing'))).toEqual([]);
+  });
+
+  it('finds entries by name and version', () => {
+    addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z');
+    const entries = listCacheEntries(cacheBase);
+
+    expect(findCacheEntries(entries, '@scope/a')).toHaveLength(1);
+    expect(findCacheEntries(entries, '@scope/a', '1.0.0')).toHaveLength(1);
+    expect(findCacheEntries(entries, '@scope/a', '2.0.0')).toHaveLength(0);
+  });
+
+  it('finds entries pulled before the cutoff', () => {
+    addRegistryBundle('@scope/old', '1.0.0', '2026-01-01T00:00:00.000Z');
+    addRegistryBundle('@scope/new', '1.0.0', '2026-03-01T00:00:00.000Z');
+    const now = new Date('2026-03-10T00:00:00.000Z').getTime();
+
+    const stale = findStaleEntries(listCacheEntries(cacheBase), parseDuration('30d'), now);
+
+    expect(stale.map((e) => e.name)).toEqual(['@scope/old']);
+  });
+
+  describe('commitStagingDir', () => {
+    function stage(target: string, content: string): string {
+      const staging = getStagingDir(target);
+      mkdirSync(staging, { recursive: true });
+      writeFileSync(join(staging, 'index.js'), content);
+      return staging;
+    }
+
+    it('moves the staging directory into place', () => {
+      const target = getVersionCacheDir('@scope/a', '1.0.0', { os: 'linux', arch: 'x64' }, cacheBase);
+      const staging = stage(target, 'new');
+
+      commitStagingDir(staging, target);
+
+      expect(readFileSync(join(target, 'index.js'), 'utf8')).toBe('new');
+      expect(existsSync(staging)).toBe(false);
+    });
+
+    it('keeps an existing directory unless replacing', () => {
+      const target = addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z');
+
+      commitStagingDir(stage(target, 'second'), target);
+      expect(readFileSync(join(target, 'index.js'), 'utf8')).toBe('console.log("hi")');
+
+      commitStagingDir(stage(target, 'third'), target, true);
+      expect(readFileSync(join(target, 'index.js'), 'utf8')).toBe('third');
+      expect(readdirSync(getCacheDir('@scope/a', cacheBase))).toEqual(['1.0.0-linux-x64']);
+    });
+  });
+
+  describe('hashCacheContents', () => {
+    it('changes when a file changes but ignores metadata and __pycache__', () => {
+      const dir = addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z');
+      const before = hashCacheContents(dir);
+
+      mkdirSync(join(dir, '__pycache__'));
+      writeFileSync(join(dir, '__pycache__', 'x.pyc'), 'bytecode');
+      writeFileSync(join(dir, '.mpak-meta.json'), '{}');
+      expect(hashCacheContents(dir)).toBe(before);
+
+      writeFileSync(join(dir, 'index.js'), 'console.log("tampered")');
+      expect(hashCacheContents(dir)).not.toBe(before);
+    });
+  });
+
+  describe('verifyCacheEntry', () => {
+    function entryFor(name: string): CacheEntry {
+      return findCacheEntries(listCacheEntries(cacheBase), name)[0];
+    }
+
+    it('passes when files and the registry digest match', async () => {
+      addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z');
+      const client = fakeClient(async () => ({ bundle: { sha256: 'a'.repeat(64) } }));
+
+      const result = await verifyCacheEntry(entryFor('@scope/a'), client);
+
+      expect(result.status).toBe('ok');
+    });
+
+    it('reports modified files without asking the registry', async () => {
+      const dir = addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z');
+      writeFileSync(join(dir, 'index.js'), 'tampered');
+      const client = fakeClient(async () => {
+        throw new Error('should not be called');
+      });
+
+      expect((await verifyCacheEntry(entryFor('@scope/a'), client)).status).toBe('modified');
+    });
+
+    it('reports a registry digest mismatch', async () => {
+      addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z');
+      const client = fakeClient(async () => ({ bundle: { sha256: 'b'.repeat(64) } }));
+
+      expect((await verifyCacheEntry(entryFor('@scope/a'), client)).status).toBe('mismatch');
+    });
+
+    it('reports versions missing from the registry', async () => {
+      addRegistryBundle('@scope/a', '1.0.0', '2026-01-01T00:00:00.000Z');
+      const client = fakeClient(async () => {
+        throw new NotFoundError('gone');
+      });
+
+      expect((await verifyCacheEntry(entryFor('@scope/a'), client)).status).toBe('not-found');
+    });
+
+    it('skips bundles without recorded digests', async () => {
+      const dir = join(cacheBase, 'scope-old');
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(join(dir, 'manifest.json'), JSON.stringify({ name: '@scope/old' }));
+      writeFileSync(
+        join(dir, '.mpak-meta.json'),
+        JSON.stringify({ version: '1.0.0', pulledAt: '2026-01-01T00:00:00.000Z', platform: { os: 'any', arch: 'any' } })
+      );
+      const client = fakeClient(async () => ({}));
+
+      expect((await verifyCacheEntry(entryFor('@scope/old'), client)).status).toBe('skipped');
+    });
+  });
+});
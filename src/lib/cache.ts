@@ -0,0 +1,493 @@
+import { createHash } from 'crypto';
+import {
+  existsSync,
+  lstatSync,
+  readdirSync,
+  readFileSync,
+  readlinkSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join, resolve } from 'path';
+import { RegistryClient } from './api/registry-client.js';
+import { CLIError, NotFoundError } from '../utils/errors.js';
+
+/**
+ * Metadata file written into every cache directory
+ */
+export const CACHE_META_FILE = '.mpak-meta.json';
+
+/**
+ * Directory holding local (--local) bundle extractions, keyed by path hash
+ */
+export const LOCAL_CACHE_DIR = '_local';
+
+/**
+ * Pointer file in a package directory naming the version unversioned runs use
+ */
+export const CURRENT_POINTER_FILE = '.current';
+
+/**
+ * Metadata for a bundle pulled from the registry
+ */
+export interface CacheMetadata {
+  /** Package name (missing in caches written by older versions) */
+  name?: string;
+  version: string;
+  pulledAt: string;
+  platform: { os: string; arch: string };
+  /** Registry digest of the .mcpb archive */
+  sha256?: string;
+  /** Digest of the extracted files (see hashCacheContents) */
+  contentSha256?: string;
+}
+
+/**
+ * Metadata for a local bundle extracted by `run --local`
+ */
+export interface LocalCacheMetadata {
+  localPath: string;
+  extractedAt: string;
+}
+
+/**
+ * Contents of the .current pointer file
+ */
+export interface CurrentPointer {
+  version: string;
+  /** Version directory name inside the package directory */
+  dir: string;
+}
+
+/**
+ * A cached bundle, as shown by `mpak cache list`
+ */
+export interface CacheEntry {
+  name: string;
+  version: string | null;
+  platform: { os: string; arch: string } | null;
+  source: 'registry' | 'local';
+  /** When the bundle was pulled or extracted */
+  pulledAt: string;
+  /** Disk usage in bytes */
+  size: number;
+  path: string;
+  sha256: string | null;
+  /** Whether unversioned runs use this entry */
+  current: boolean;
+  /** Source .mcpb for local bundles */
+  localPath?: string;
+}
+
+export type CacheVerifyStatus = 'ok' | 'modified' | 'mismatch' | 'not-found' | 'skipped' | 'error';
+
+export interface CacheVerifyResult {
+  name: string;
+  version: string | null;
+  path: string;
+  status: CacheVerifyStatus;
+  message?: string;
+}
+
+/**
+ * Root of the bundle cache (~/.mpak/cache)
+ */
+export function getCacheBase(): string {
+  return join(homedir(), '.mpak', 'cache');
+}
+
+/**
+ * Get cache directory for a package (holds one directory per cached version)
+ * @example getCacheDir('@scope/name') => '~/.mpak/cache/scope-name'
+ */
+export function getCacheDir(packageName: string, cacheBase: string = getCacheBase()): string {
+  // @scope/name -> scope/name
+  const safeName = packageName.replace('@', '').replace('/', '-');
+  return join(cacheBase, safeName);
+}
+
+/**
+ * Get cache directory for one version of a package on one platform
+ * @example getVersionCacheDir('@scope/name', '1.2.0', { os: 'linux', arch: 'x64' })
+ *   => '~/.mpak/cache/scope-name/1.2.0-linux-x64'
+ */
+export function getVersionCacheDir(
+  packageName: string,
+  version: string,
+  platform: { os: string; arch: string },
+  cacheBase: string = getCacheBase()
+): string {
+  return join(getCacheDir(packageName, cacheBase), `${version}-${platform.os}-${platform.arch}`);
+}
+
+/**
+ * Get cache directory for a local bundle.
+ * Uses hash of absolute path to avoid collisions.
+ */
+export function getLocalCacheDir(bundlePath: string, cacheBase: string = getCacheBase()): string {
+  const absolutePath = resolve(bundlePath);
+  const hash = createHash('md5').update(absolutePath).digest('hex').slice(0, 12);
+  return join(cacheBase, LOCAL_CACHE_DIR, hash);
+}
+
+function readJson(path: string): Record<string, unknown> | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf8'));
+    return typeof parsed === 'object' && parsed !== null ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read cache metadata
+ */
+export function getCacheMetadata(cacheDir: string): CacheMetadata | null {
+  return readJson(join(cacheDir, CACHE_META_FILE)) as CacheMetadata | null;
+}
+
+/**
+ * Write cache metadata
+ */
+export function writeCacheMetadata(cacheDir: string, metadata: CacheMetadata | LocalCacheMetadata): void {
+  writeFileSync(join(cacheDir, CACHE_META_FILE), JSON.stringify(metadata, null, 2));
+}
+
+/**
+ * Whether a package directory uses the pre-versioning layout (the bundle
+ * extracted directly into it)
+ */
+export function isLegacyCacheDir(packageDir: string): boolean {
+  return existsSync(join(packageDir, CACHE_META_FILE));
+}
+
+export function readCurrentPointer(packageDir: string): CurrentPointer | null {
+  const pointer = readJson(join(packageDir, CURRENT_POINTER_FILE));
+  if (typeof pointer?.version !== 'string' || typeof pointer.dir !== 'string') {
+    return null;
+  }
+  return { version: pointer.version, dir: pointer.dir };
+}
+
+/**
+ * Point unversioned runs at a version directory (atomic replace)
+ */
+export function writeCurrentPointer(versionDir: string, version: string): void {
+  const packageDir = dirname(versionDir);
+  const pointerPath = join(packageDir, CURRENT_POINTER_FILE);
+  const tempPath = `${pointerPath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, JSON.stringify({ version, dir: basename(versionDir) }, null, 2));
+  renameSync(tempPath, pointerPath);
+}
+
+/**
+ * Version directory the .current pointer names, if it is still cached
+ */
+export function getCurrentCacheDir(packageName: string, cacheBase: string = getCacheBase()): string | null {
+  const packageDir = getCacheDir(packageName, cacheBase);
+  const pointer = readCurrentPointer(packageDir);
+  if (!pointer) {
+    return null;
+  }
+  const versionDir = join(packageDir, pointer.dir);
+  return getCacheMetadata(versionDir) ? versionDir : null;
+}
+
+/**
+ * Directory next to a cache directory to extract into before it is swapped
+ * in. Hidden, so listing skips it, and on the same filesystem, so the swap
+ * is a rename.
+ */
+export function getStagingDir(cacheDir: string): string {
+  return join(dirname(cacheDir), `.staging-${basename(cacheDir)}-${process.pid}-${Date.now()}`);
+}
+
+/**
+ * Move a fully extracted staging directory into place with renames, so
+ * cacheDir never holds a partial extraction.
+ *
+ * Without replace, a cacheDir that already exists (e.g. another process
+ * finished the same pull first) is kept and the staging directory dropped.
+ * With replace, the old directory is renamed aside and removed after the
+ * swap; processes still running from it keep their open files.
+ */
+export function commitStagingDir(stagingDir: string, cacheDir: string, replace = false): void {
+  if (existsSync(cacheDir)) {
+    if (!replace) {
+      rmSync(stagingDir, { recursive: true, force: true });
+      return;
+    }
+    const retired = join(dirname(cacheDir), `.old-${basename(cacheDir)}-${process.pid}-${Date.now()}`);
+    renameSync(cacheDir, retired);
+    try {
+      renameSync(stagingDir, cacheDir);
+    } catch (error) {
+      renameSync(retired, cacheDir);
+      throw error;
+    }
+    rmSync(retired, { recursive: true, force: true });
+    return;
+  }
+
+  try {
+    renameSync(stagingDir, cacheDir);
+  } catch (error) {
+    // Lost a race with another pull of the same version: keep theirs
+    const code = (error as NodeJS.ErrnoException).code;
+    if ((code === 'ENOTEMPTY' || code === 'EEXIST') && getCacheMetadata(cacheDir)) {
+      rmSync(stagingDir, { recursive: true, force: true });
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Digest of an extracted bundle: every file path with the SHA256 of its
+ * content (symlinks by target), in byte order. Skips the metadata file and
+ * __pycache__ directories, which Python writes next to the sources at runtime.
+ */
+export function hashCacheContents(cacheDir: string): string {
+  const lines: string[] = [];
+
+  const walk = (dir: string, prefix: string): void => {
+    for (const name of readdirSync(dir)) {
+      const path = join(dir, name);
+      const relPath = prefix ? `${prefix}/${name}` : name;
+      const stats = lstatSync(path);
+
+      if (stats.isDirectory()) {
+        if (name !== '__pycache__') walk(path, relPath);
+      } else if (stats.isSymbolicLink()) {
+        lines.push(`${relPath}\0->${readlinkSync(path)}`);
+      } else if (stats.isFile() && relPath !== CACHE_META_FILE) {
+        lines.push(`${relPath}\0${createHash('sha256').update(readFileSync(path)).digest('hex')}`);
+      }
+    }
+  };
+
+  walk(cacheDir, '');
+  lines.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash('sha256').update(lines.join('\n')).digest('hex');
+}
+
+/**
+ * Total size of the files under a directory, in bytes
+ */
+export function directorySize(dir: string): number {
+  let total = 0;
+  for (const name of readdirSync(dir)) {
+    const stats = lstatSync(join(dir, name));
+    total += stats.isDirectory() ? directorySize(join(dir, name)) : stats.size;
+  }
+  return total;
+}
+
+function readManifestField(cacheDir: string, field: 'name' | 'version'): string | undefined {
+  const manifest = readJson(join(cacheDir, 'manifest.json'));
+  return typeof manifest?.[field] === 'string' ? manifest[field] : undefined;
+}
+
+function subdirectories(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir).filter(
+    (name) => !name.startsWith('.') && lstatSync(join(dir, name)).isDirectory()
+  );
+}
+
+function toRegistryEntry(cacheDir: string, dirName: string, current: boolean): CacheEntry {
+  const meta = getCacheMetadata(cacheDir);
+  return {
+    name: meta?.name ?? readManifestField(cacheDir, 'name') ?? dirName,
+    version: meta?.version ?? readManifestField(cacheDir, 'version') ?? null,
+    platform: meta?.platform ?? null,
+    source: 'registry',
+    pulledAt: meta?.pulledAt ?? statSync(cacheDir).mtime.toISOString(),
+    size: directorySize(cacheDir),
+    path: cacheDir,
+    sha256: meta?.sha256 ?? null,
+    current,
+  };
+}
+
+function toLocalEntry(cacheDir: string, dirName: string): CacheEntry {
+  const meta = readJson(join(cacheDir, CACHE_META_FILE)) as Partial<LocalCacheMetadata> | null;
+  return {
+    name: readManifestField(cacheDir, 'name') ?? dirName,
+    version: readManifestField(cacheDir, 'version') ?? null,
+    platform: null,
+    source: 'local',
+    pulledAt: meta?.extractedAt ?? statSync(cacheDir).mtime.toISOString(),
+    size: directorySize(cacheDir),
+    path: cacheDir,
+    sha256: null,
+    current: false,
+    localPath: meta?.localPath,
+  };
+}
+
+/**
+ * All cached bundles: registry pulls and local extractions, sorted by name
+ */
+export function listCacheEntries(cacheBase: string = getCacheBase()): CacheEntry[] {
+  const entries: CacheEntry[] = [];
+
+  for (const dirName of subdirectories(cacheBase)) {
+    if (dirName === LOCAL_CACHE_DIR) {
+      const localBase = join(cacheBase, LOCAL_CACHE_DIR);
+      for (const hash of subdirectories(localBase)) {
+        entries.push(toLocalEntry(join(localBase, hash), hash));
+      }
+      continue;
+    }
+
+    const packageDir = join(cacheBase, dirName);
+    if (isLegacyCacheDir(packageDir)) {
+      entries.push(toRegistryEntry(packageDir, dirName, true));
+      continue;
+    }
+    const pointer = readCurrentPointer(packageDir);
+    for (const versionDir of subdirectories(packageDir)) {
+      const path = join(packageDir, versionDir);
+      if (getCacheMetadata(path)) {
+        entries.push(toRegistryEntry(path, dirName, pointer?.dir === versionDir));
+      }
+    }
+  }
+
+  return entries.sort(
+    (a, b) => a.name.localeCompare(b.name) || (a.version ?? '').localeCompare(b.version ?? '')
+  );
+}
+
+/**
+ * user_config keys that any cached copy of a package (registry versions or
+ * local bundles) marks sensitive, for commands that store values without
+ * resolving the bundle
+ */
+export function findSensitiveConfigKeys(packageName: string, cacheBase: string = getCacheBase()): string[] {
+  const packageDir = getCacheDir(packageName, cacheBase);
+  const localBase = join(cacheBase, LOCAL_CACHE_DIR);
+  const bundleDirs = [
+    packageDir,
+    ...subdirectories(packageDir).map((dir) => join(packageDir, dir)),
+    ...subdirectories(localBase).map((dir) => join(localBase, dir)),
+  ];
+
+  const keys = new Set<string>();
+  for (const bundleDir of bundleDirs) {
+    const manifest = readJson(join(bundleDir, 'manifest.json'));
+    if (manifest?.name !== packageName || typeof manifest.user_config !== 'object' || manifest.user_config === null) {
+      continue;
+    }
+    for (const [key, field] of Object.entries(manifest.user_config as Record<string, { sensitive?: unknown }>)) {
+      if (field?.sensitive === true) keys.add(key);
+    }
+  }
+  return [...keys].sort();
+}
+
+/**
+ * Entries for a package, optionally only one version
+ */
+export function findCacheEntries(entries: CacheEntry[], name: string, version?: string): CacheEntry[] {
+  return entries.filter((entry) => entry.name === name && (!version || entry.version === version));
+}
+
+/**
+ * Entries pulled before now - maxAgeMs
+ */
+export function findStaleEntries(entries: CacheEntry[], maxAgeMs: number, now: number = Date.now()): CacheEntry[] {
+  const cutoff = now - maxAgeMs;
+  return entries.filter((entry) => new Date(entry.pulledAt).getTime() < cutoff);
+}
+
+/**
+ * Remove a cached bundle, and its package directory once no versions remain
+ */
+export function removeCacheEntry(entry: CacheEntry, cacheBase: string = getCacheBase()): void {
+  rmSync(entry.path, { recursive: true, force: true });
+
+  const packageDir = dirname(entry.path);
+  if (
+    entry.source === 'registry' &&
+    resolve(packageDir) !== resolve(cacheBase) &&
+    readdirSync(packageDir).every((name) => name === CURRENT_POINTER_FILE)
+  ) {
+    rmSync(packageDir, { recursive: true, force: true });
+  }
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1_000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parse a duration such as 30d, 12h, 2w, 90m or 45s into milliseconds
+ * @example parseDuration('30d') => 2592000000
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+)\s*([smhdw])$/.exec(value.trim());
+  if (!match) {
+    throw new CLIError(`Invalid duration "${value}". Use a number followed by s, m, h, d or w (e.g. 30d)`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Re-check a cached bundle: the extracted files against the digest recorded
+ * at pull time, and the recorded archive digest against the registry
+ */
+export async function verifyCacheEntry(
+  entry: CacheEntry,
+  client: RegistryClient
+): Promise<CacheVerifyResult> {
+  const result = { name: entry.name, version: entry.version, path: entry.path };
+
+  if (entry.source === 'local') {
+    return { ...result, status: 'skipped', message: `local bundle (${entry.localPath ?? 'unknown source'})` };
+  }
+
+  const meta = getCacheMetadata(entry.path);
+  if (!meta?.sha256 || !meta.contentSha256 || !entry.version || !entry.platform) {
+    return {
+      ...result,
+      status: 'skipped',
+      message: `no digest recorded; re-pull with "mpak run ${entry.name} --update"`,
+    };
+  }
+
+  if (hashCacheContents(entry.path) !== meta.contentSha256) {
+    return { ...result, status: 'modified', message: 'cached files were modified after extraction' };
+  }
+
+  try {
+    const downloadInfo = await client.getDownloadInfo(entry.name, entry.version, entry.platform);
+    if (downloadInfo.bundle.sha256 !== meta.sha256) {
+      return {
+        ...result,
+        status: 'mismatch',
+        message: `registry digest ${downloadInfo.bundle.sha256} does not match cached ${meta.sha256}`,
+      };
+    }
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return { ...result, status: 'not-found', message: 'version is no longer in the registry' };
+    }
+    return { ...result, status: 'error', message: error instanceof Error ? error.message : String(error) };
+  }
+
+  return { ...result, status: 'ok' };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import {
+  daemonNameFor,
+  formatUptime,
+  getDaemonPaths,
+  isDaemonProcess,
+  isProcessAlive,
+  processStartTime,
+  readLastLines,
+  rotateLog,
+  type DaemonState,
+} from './daemon.js';
+
+describe('daemonNameFor', () => {
+  it('uses the unscoped package name or the file name', () => {
+    expect(daemonNameFor('package', '@nimblebraininc/echo')).toBe('echo');
+    expect(daemonNameFor('package', '@nimblebraininc/echo@^1.0.0')).toBe('echo');
+    expect(daemonNameFor('package', 'plain@2.0.0')).toBe('plain');
+    expect(daemonNameFor('local', '/bundles/notes.mcpb')).toBe('notes');
+    expect(daemonNameFor('gateway', '/work/servers.json')).toBe('servers');
+  });
+});
+
+describe('getDaemonPaths', () => {
+  it('keeps everything under ~/.mpak/run', () => {
+    const run = join(homedir(), '.mpak', 'run');
+    expect(getDaemonPaths('echo')).toEqual({
+      pid: join(run, 'echo.pid'),
+      state: join(run, 'echo.json'),
+      log: join(run, 'echo.log'),
+    });
+  });
+
+  it('rejects names that would leave the run directory', () => {
+    expect(() => getDaemonPaths('../../etc/x')).toThrow('Invalid name "../../etc/x"');
+    expect(() => getDaemonPaths('.hidden')).toThrow('Invalid name');
+  });
+});
+
+describe('isProcessAlive', () => {
+  it('finds this process', () => {
+    expect(isProcessAlive(process.pid)).toBe(true);
+  });
+});
+
+describe.runIf(process.platform === 'linux')('isDaemonProcess', () => {
+  const startedAt = Date.now() - process.uptime() * 1000;
+  const state = (recorded: number): DaemonState => ({
+    name: 'echo',
+    kind: 'package',
+    target: '@nimblebraininc/echo',
+    pid: process.pid,
+    transport: 'http',
+    host: '127.0.0.1',
+    port: 8080,
+    startedAt: new Date(recorded).toISOString(),
+    args: [],
+  });
+
+  it('reads the process start time from /proc', () => {
+    expect(Math.abs(processStartTime(process.pid)! - startedAt)).toBeLessThan(2_000);
+  });
+
+  it('tells a reused pid from the daemon that was started', () => {
+    expect(isDaemonProcess(state(startedAt))).toBe(true);
+    expect(isDaemonProcess(state(startedAt - 3_600_000))).toBe(false);
+  });
+});
+
+describe('formatUptime', () => {
+  it('shows the two largest units', () => {
+    expect(formatUptime(12_000)).toBe('12s');
+    expect(formatUptime(125_000)).toBe('2m 5s');
+    expect(formatUptime(3_725_000)).toBe('1h 2m');
+    expect(formatUptime(93_784_000)).toBe('1d 2h');
+  });
+});
+
+describe('log files', () => {
+  let dir: string;
+  let log: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mpak-daemon-test-'));
+    log = join(dir, 'echo.log');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('rotates by copying and truncating, keeping a fixed number of files', () => {
+    writeFileSync(log, 'small\n');
+    expect(rotateLog(log, 100, 2)).toBe(false);
+
+    for (const generation of ['first', 'second', 'third']) {
+      writeFileSync(log, `${generation}\n`.repeat(20));
+      expect(rotateLog(log, 100, 2)).toBe(true);
+      expect(readFileSync(log, 'utf8')).toBe('');
+    }
+    expect(readFileSync(`${log}.1`, 'utf8')).toMatch(/^third/);
+    expect(readFileSync(`${log}.2`, 'utf8')).toMatch(/^second/);
+    expect(existsSync(`${log}.3`)).toBe(false);
+  });
+
+  it('reads the last lines', () => {
+    writeFileSync(log, 'a\nb\nc\nd\n');
+    expect(readLastLines(log, 2)).toEqual(['c', 'd']);
+    expect(readLastLines(log, 10)).toEqual(['a', 'b', 'c', 'd']);
+    expect(readLastLines(join(dir, 'missing.log'), 5)).toEqual([]);
+  });
+});
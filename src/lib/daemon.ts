@@ -0,0 +1,276 @@
+import {
+  closeSync,
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  truncateSync,
+  writeFileSync,
+} from 'fs';
+import { homedir } from 'os';
+import { basename, join } from 'path';
+import { CLIError } from '../utils/errors.js';
+import type { HttpTransport } from './mcp/http-bridge.js';
+
+/**
+ * Rotate a daemon log once it grows past this size
+ */
+export const MAX_LOG_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Rotated logs kept next to the current one (<name>.log.1 is the newest)
+ */
+export const LOG_FILES_KEPT = 3;
+
+/**
+ * How often a daemon checks the size of its log
+ */
+const LOG_ROTATE_INTERVAL_MS = 10_000;
+
+/**
+ * Daemon names: used for file names under ~/.mpak/run
+ */
+export const DAEMON_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Largest gap allowed between a daemon's recorded startedAt and the start
+ * time of the process behind its pid
+ */
+const START_TIME_TOLERANCE_MS = 5_000;
+
+/**
+ * Clock ticks per second in /proc/<pid>/stat (USER_HZ, 100 on every
+ * mainstream Linux build)
+ */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+/**
+ * A server started in the background by `mpak start`
+ */
+export interface DaemonState {
+  name: string;
+  /** What it serves: a package spec, a local bundle or a gateway config */
+  kind: 'package' | 'local' | 'gateway';
+  target: string;
+  /** Bundle version, once the daemon has reported it */
+  version?: string;
+  pid: number;
+  transport: HttpTransport;
+  host: string;
+  port: number;
+  startedAt: string;
+  /** mpak arguments the daemon runs with (reused by restart) */
+  args: string[];
+  /** Bearer token clients must send (kept here rather than in args, which ps shows) */
+  authToken?: string;
+}
+
+/**
+ * State directory for background servers (~/.mpak/run)
+ */
+export function getRunDir(): string {
+  return join(homedir(), '.mpak', 'run');
+}
+
+/**
+ * Files that belong to a daemon
+ * @example getDaemonPaths('echo').log => '~/.mpak/run/echo.log'
+ */
+export function getDaemonPaths(name: string): { pid: string; state: string; log: string } {
+  // Names become file names; anything else could point outside the run dir
+  if (!DAEMON_NAME_PATTERN.test(name)) {
+    throw new CLIError(`Invalid name "${name}". Use letters, digits, ".", "-" and "_"`);
+  }
+  const dir = getRunDir();
+  return {
+    pid: join(dir, `${name}.pid`),
+    state: join(dir, `${name}.json`),
+    log: join(dir, `${name}.log`),
+  };
+}
+
+/**
+ * Default daemon name for what it serves
+ * @example daemonNameFor('package', '@nimblebraininc/echo@1.0.0') => 'echo'
+ * @example daemonNameFor('gateway', './servers.json') => 'servers'
+ */
+export function daemonNameFor(kind: DaemonState['kind'], target: string): string {
+  if (kind === 'package') {
+    const unscoped = target.startsWith('@') ? target.slice(target.indexOf('/') + 1) : target;
+    return unscoped.split('@')[0];
+  }
+  return basename(target).replace(/\.(mcpb|json)$/, '');
+}
+
+export function readDaemonState(name: string): DaemonState | null {
+  const { state } = getDaemonPaths(name);
+  if (!existsSync(state)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(state, 'utf8')) as DaemonState;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a daemon's state and pidfile (private to the user: the state may
+ * hold an auth token)
+ */
+export function writeDaemonState(state: DaemonState): void {
+  mkdirSync(getRunDir(), { recursive: true, mode: 0o700 });
+  const paths = getDaemonPaths(state.name);
+  writeFileSync(paths.state, JSON.stringify(state, null, 2) + '\n', { mode: 0o600 });
+  writeFileSync(paths.pid, `${state.pid}\n`);
+}
+
+/**
+ * Forget a daemon (its logs are kept)
+ */
+export function removeDaemonState(name: string): void {
+  const paths = getDaemonPaths(name);
+  rmSync(paths.state, { force: true });
+  rmSync(paths.pid, { force: true });
+}
+
+/**
+ * Every daemon with a state file, by name
+ */
+export function listDaemons(): DaemonState[] {
+  const dir = getRunDir();
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => file.slice(0, -'.json'.length))
+    .filter((name) => DAEMON_NAME_PATTERN.test(name))
+    .map((name) => readDaemonState(name))
+    .filter((state): state is DaemonState => state !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Whether a process exists (EPERM means it does, owned by someone else)
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * When a process started (ms since the epoch), read from /proc
+ * @returns undefined where /proc is not available (macOS, Windows)
+ */
+export function processStartTime(pid: number): number | undefined {
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf8');
+    // Fields from the 3rd on follow the command name, which may contain spaces
+    // and parentheses; starttime is the 22nd, in clock ticks since boot
+    const startTicks = Number(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[19]);
+    const bootTime = Number(/^btime (\d+)$/m.exec(readFileSync('/proc/stat', 'utf8'))?.[1]);
+    if (!Number.isFinite(startTicks) || !Number.isFinite(bootTime)) {
+      return undefined;
+    }
+    return bootTime * 1000 + (startTicks / CLOCK_TICKS_PER_SECOND) * 1000;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the process behind a daemon's pid is the one mpak started, judged
+ * by its start time (a pid from a stale state file may have been reused)
+ * @returns undefined if the start time can't be read
+ */
+export function isDaemonProcess(state: DaemonState): boolean | undefined {
+  if (!isProcessAlive(state.pid)) {
+    return false;
+  }
+  const startTime = processStartTime(state.pid);
+  if (startTime === undefined) {
+    return undefined;
+  }
+  return Math.abs(startTime - Date.parse(state.startedAt)) <= START_TIME_TOLERANCE_MS;
+}
+
+/**
+ * Rotate a log the daemon and its servers still have open: copy it to
+ * <log>.1 (shifting older copies up) and truncate it in place. Writers use
+ * append mode, so they carry on at the start of the emptied file.
+ * @returns true if the log was rotated
+ */
+export function rotateLog(path: string, maxBytes = MAX_LOG_BYTES, keep = LOG_FILES_KEPT): boolean {
+  if (!existsSync(path) || statSync(path).size <= maxBytes) {
+    return false;
+  }
+  rmSync(`${path}.${keep}`, { force: true });
+  for (let i = keep - 1; i >= 1; i--) {
+    if (existsSync(`${path}.${i}`)) renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+  }
+  copyFileSync(path, `${path}.1`);
+  truncateSync(path, 0);
+  return true;
+}
+
+/**
+ * Check the log periodically while a daemon runs
+ */
+export function startLogRotation(path: string): void {
+  setInterval(() => {
+    try {
+      rotateLog(path);
+    } catch {
+      // Try again next time
+    }
+  }, LOG_ROTATE_INTERVAL_MS).unref();
+}
+
+/**
+ * The last lines of a file (reads at most the final 1 MB)
+ */
+export function readLastLines(path: string, count: number): string[] {
+  if (!existsSync(path) || count <= 0) {
+    return [];
+  }
+  const size = statSync(path).size;
+  const length = Math.min(size, 1024 * 1024);
+  const buffer = Buffer.alloc(length);
+  const fd = openSync(path, 'r');
+  try {
+    readSync(fd, buffer, 0, length, size - length);
+  } finally {
+    closeSync(fd);
+  }
+  const lines = buffer.toString('utf8').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  // The first line may have been cut by the 1 MB window
+  if (length < size) lines.shift();
+  return lines.slice(-count);
+}
+
+/**
+ * Format how long a daemon has been up
+ * @example formatUptime(93_784_000) => '1d 2h'
+ */
+export function formatUptime(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(seconds / 86_400);
+  const hours = Math.floor((seconds % 86_400) / 3_600);
+  const minutes = Math.floor((seconds % 3_600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
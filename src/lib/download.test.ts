@@ -0,0 +1,285 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import {
+  createServer,
+  type Server,
+  type IncomingMessage,
+  type RequestListener,
+  type ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import { createHash, randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  downloadFile,
+  verifyDigest,
+  backoffDelay,
+  resolveRetries,
+  getPartPath,
+  lockPartFile,
+  DownloadError,
+} from './download.js';
+import { IntegrityError } from '../utils/errors.js';
+
+describe('verifyDigest', () => {
+  const sha256 = 'a'.repeat(64);
+
+  it('accepts matching content', () => {
+    expect(() => verifyDigest('a.mcpb', { sha256, size: 10 }, { sha256, size: 10 })).not.toThrow();
+  });
+
+  it('reports truncated downloads as corrupted', () => {
+    try {
+      verifyDigest('a.mcpb', { sha256: 'b'.repeat(64), size: 5 }, { sha256, size: 10 });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(IntegrityError);
+      expect((error as IntegrityError).kind).toBe('corrupted');
+      expect((error as IntegrityError).message).toContain('received 5 of 10 bytes');
+    }
+  });
+
+  it('reports same-size content changes as tampering', () => {
+    try {
+      verifyDigest('a.mcpb', { sha256: 'b'.repeat(64), size: 10 }, { sha256, size: 10 });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(IntegrityError);
+      expect((error as IntegrityError).kind).toBe('tampered');
+      expect((error as IntegrityError).expectedSha256).toBe(sha256);
+    }
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles the delay for every attempt', () => {
+    expect(backoffDelay(0, 100)).toBeGreaterThanOrEqual(100);
+    expect(backoffDelay(0, 100)).toBeLessThan(200);
+    expect(backoffDelay(3, 100)).toBeGreaterThanOrEqual(800);
+    expect(backoffDelay(3, 100)).toBeLessThan(900);
+  });
+});
+
+describe('resolveRetries', () => {
+  afterEach(() => {
+    delete process.env.MPAK_DOWNLOAD_RETRIES;
+  });
+
+  it('prefers the explicit option', () => {
+    process.env.MPAK_DOWNLOAD_RETRIES = '7';
+    expect(resolveRetries(1)).toBe(1);
+  });
+
+  it('reads MPAK_DOWNLOAD_RETRIES', () => {
+    process.env.MPAK_DOWNLOAD_RETRIES = '7';
+    expect(resolveRetries()).toBe(7);
+  });
+
+  it('falls back to the default for invalid values', () => {
+    process.env.MPAK_DOWNLOAD_RETRIES = 'lots';
+    expect(resolveRetries()).toBe(3);
+  });
+});
+
+describe('downloadFile', () => {
+  const content = randomBytes(64 * 1024);
+  const sha256 = createHash('sha256').update(content).digest('hex');
+  const expected = { sha256, size: content.length };
+
+  let server: Server;
+  let baseUrl: string;
+  let handler: RequestListener;
+  let requests: Array<{ url: string; range?: string }>;
+  let testDir: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push({ url: req.url || '', range: req.headers.range });
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    testDir = join(tmpdir(), `mpak-download-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    rmSync(getPartPath('', expected), { force: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+    rmSync(getPartPath('', expected), { force: true });
+  });
+
+  /** Serve `content`, honouring Range requests */
+  function serveContent(req: IncomingMessage, res: ServerResponse): void {
+    const match = /^bytes=(\d+)-$/.exec(req.headers.range || '');
+    if (match) {
+      const start = parseInt(match[1], 10);
+      res.writeHead(206, { 'Content-Length': content.length - start });
+      res.end(content.subarray(start));
+    } else {
+      res.writeHead(200, { 'Content-Length': content.length });
+      res.end(content);
+    }
+  }
+
+  it('streams a file and verifies it', async () => {
+    handler = serveContent;
+    const output = join(testDir, 'bundle.mcpb');
+
+    await downloadFile(`${baseUrl}/bundle`, output, { expected, progress: false });
+
+    expect(readFileSync(output).equals(content)).toBe(true);
+    expect(existsSync(getPartPath('', expected))).toBe(false);
+  });
+
+  it('retries 5xx responses with backoff', async () => {
+    let calls = 0;
+    handler = (req, res) => {
+      calls++;
+      if (calls === 1) {
+        res.writeHead(503);
+        res.end();
+        return;
+      }
+      serveContent(req, res);
+    };
+    const output = join(testDir, 'bundle.mcpb');
+
+    await downloadFile(`${baseUrl}/bundle`, output, {
+      expected,
+      progress: false,
+      retryDelayMs: 1,
+    });
+
+    expect(calls).toBe(2);
+    expect(readFileSync(output).equals(content)).toBe(true);
+  });
+
+  it('does not retry 4xx responses', async () => {
+    handler = (_req, res) => {
+      res.writeHead(404);
+      res.end();
+    };
+
+    await expect(
+      downloadFile(`${baseUrl}/missing`, join(testDir, 'x.mcpb'), {
+        expected,
+        progress: false,
+        retryDelayMs: 1,
+      })
+    ).rejects.toBeInstanceOf(DownloadError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('resumes a partial .part file with a Range request', async () => {
+    handler = serveContent;
+    const half = content.length / 2;
+    const partPath = getPartPath('', expected);
+    mkdirSync(join(partPath, '..'), { recursive: true });
+    writeFileSync(partPath, content.subarray(0, half));
+    const output = join(testDir, 'bundle.mcpb');
+
+    await downloadFile(`${baseUrl}/bundle`, output, { expected, progress: false });
+
+    expect(requests[0].range).toBe(`bytes=${half}-`);
+    expect(readFileSync(output).equals(content)).toBe(true);
+  });
+
+  it('restarts when the server ignores the Range header', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { 'Content-Length': content.length });
+      res.end(content);
+    };
+    const partPath = getPartPath('', expected);
+    mkdirSync(join(partPath, '..'), { recursive: true });
+    writeFileSync(partPath, Buffer.from('stale bytes'));
+    const output = join(testDir, 'bundle.mcpb');
+
+    await downloadFile(`${baseUrl}/bundle`, output, { expected, progress: false });
+
+    expect(readFileSync(output).equals(content)).toBe(true);
+  });
+
+  it('abandons and retries an attempt that stops receiving data', async () => {
+    let calls = 0;
+    handler = (req, res) => {
+      calls++;
+      if (calls === 1) {
+        res.writeHead(200, { 'Content-Length': content.length });
+        res.write(content.subarray(0, 1024));
+        return;  // never finishes
+      }
+      serveContent(req, res);
+    };
+    const output = join(testDir, 'bundle.mcpb');
+
+    await downloadFile(`${baseUrl}/bundle`, output, {
+      expected,
+      progress: false,
+      retryDelayMs: 1,
+      idleTimeoutMs: 200,
+    });
+
+    expect(calls).toBe(2);
+    expect(requests[1].range).toBe('bytes=1024-');
+    expect(readFileSync(output).equals(content)).toBe(true);
+  });
+
+  it('uses its own .part file while another process holds the lock', async () => {
+    handler = serveContent;
+    const partPath = getPartPath('', expected);
+    mkdirSync(join(partPath, '..'), { recursive: true });
+    writeFileSync(partPath, content.subarray(0, 100));
+    const unlock = lockPartFile(partPath)!;
+    const output = join(testDir, 'bundle.mcpb');
+
+    try {
+      // The lock holder is this process, so it counts as running
+      expect(lockPartFile(partPath)).toBeNull();
+      await downloadFile(`${baseUrl}/bundle`, output, { expected, progress: false });
+    } finally {
+      unlock();
+    }
+
+    expect(requests[0].range).toBeUndefined();
+    expect(readFileSync(output).equals(content)).toBe(true);
+    // The other download's partial file is left alone
+    expect(readFileSync(partPath)).toHaveLength(100);
+  });
+
+  it('takes over a lock left by a process that has exited', () => {
+    const partPath = getPartPath('', expected);
+    mkdirSync(join(partPath, '..'), { recursive: true });
+    writeFileSync(`${partPath}.lock`, '999999999');
+
+    const unlock = lockPartFile(partPath);
+    expect(unlock).not.toBeNull();
+    unlock!();
+    expect(existsSync(`${partPath}.lock`)).toBe(false);
+  });
+
+  it('rejects mismatched content and leaves no output or partial file', async () => {
+    handler = (_req, res) => {
+      const tampered = Buffer.from(content);
+      tampered[0] ^= 0xff;
+      res.writeHead(200, { 'Content-Length': tampered.length });
+      res.end(tampered);
+    };
+    const output = join(testDir, 'bundle.mcpb');
+
+    await expect(
+      downloadFile(`${baseUrl}/bundle`, output, { expected, progress: false })
+    ).rejects.toMatchObject({ name: 'IntegrityError', kind: 'tampered' });
+    expect(existsSync(output)).toBe(false);
+    expect(existsSync(getPartPath('', expected))).toBe(false);
+  });
+});
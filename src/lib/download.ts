@@ -0,0 +1,404 @@
+import {
+  closeSync,
+  copyFileSync,
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeSync,
+} from 'fs';
+import { createHash } from 'crypto';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { IntegrityError } from '../utils/errors.js';
+import { ProgressBar } from '../utils/progress.js';
+import { backoffDelay, configureProxyFromEnv, getUserAgent, sleep } from './api/http-client.js';
+import { isProcessAlive } from './daemon.js';
+
+export { backoffDelay };
+
+/**
+ * Default number of retries after the first attempt
+ */
+export const DEFAULT_DOWNLOAD_RETRIES = 3;
+
+/**
+ * Default base delay for exponential backoff
+ */
+export const DEFAULT_RETRY_DELAY_MS = 1000;
+
+/**
+ * Default time an attempt may go without receiving data before it is
+ * abandoned (and retried)
+ */
+export const DEFAULT_IDLE_TIMEOUT_MS = 30_000;
+
+export interface ExpectedDigest {
+  sha256: string;
+  size?: number;
+}
+
+export interface DownloadOptions {
+  /** Verify the finished file against this digest before moving it into place */
+  expected?: ExpectedDigest;
+  /** Label for the progress bar (defaults to no label) */
+  label?: string;
+  /** Show a progress bar on stderr (defaults to stderr being a TTY) */
+  progress?: boolean;
+  /** Retries after the first attempt (defaults to MPAK_DOWNLOAD_RETRIES or 3) */
+  retries?: number;
+  /** Base backoff delay in ms, doubled after every failed attempt */
+  retryDelayMs?: number;
+  /** Abandon an attempt that receives no data for this long (defaults to 30s) */
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Error for a failed HTTP download. 5xx responses are retryable.
+ */
+export class DownloadError extends Error {
+  public readonly status: number | undefined;
+  public readonly retryable: boolean;
+
+  constructor(message: string, status?: number, retryable = false) {
+    super(message);
+    this.name = 'DownloadError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Directory holding partial downloads (~/.mpak/tmp)
+ */
+export function getDownloadTmpDir(): string {
+  return join(homedir(), '.mpak', 'tmp');
+}
+
+/**
+ * Location of the resumable .part file for a download.
+ *
+ * Keyed by the expected digest when known, so a download can resume even
+ * though presigned registry URLs change between attempts.
+ */
+export function getPartPath(url: string, expected?: ExpectedDigest): string {
+  const key = expected?.sha256 ?? createHash('sha256').update(url.split('?')[0]).digest('hex');
+  return join(getDownloadTmpDir(), `${key.slice(0, 32)}.part`);
+}
+
+/**
+ * Claim a .part file for this process with an exclusive lock file next to
+ * it, so two processes pulling the same artifact never append to the same
+ * file. A lock left behind by a process that has exited is taken over.
+ * @returns a function releasing the lock, or null if a running process holds it
+ */
+export function lockPartFile(partPath: string): (() => void) | null {
+  const lockPath = `${partPath}.lock`;
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const fd = openSync(lockPath, 'wx');
+      writeSync(fd, String(process.pid));
+      closeSync(fd);
+      return () => rmSync(lockPath, { force: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      let holder = NaN;
+      try {
+        holder = parseInt(readFileSync(lockPath, 'utf8'), 10);
+      } catch {
+        // Removed in the meantime
+      }
+      if (holder > 0 && isProcessAlive(holder)) {
+        return null;
+      }
+      rmSync(lockPath, { force: true });
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolve the retry count from options, MPAK_DOWNLOAD_RETRIES, or the default
+ */
+export function resolveRetries(retries?: number): number {
+  if (retries !== undefined) return retries;
+  const fromEnv = parseInt(process.env.MPAK_DOWNLOAD_RETRIES || '', 10);
+  return Number.isNaN(fromEnv) || fromEnv < 0 ? DEFAULT_DOWNLOAD_RETRIES : fromEnv;
+}
+
+/**
+ * Compute the SHA256 hex digest of a file (streamed)
+ */
+export function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    const stream = createReadStream(filePath);
+    stream.on('data', (chunk) => hash.update(chunk));
+    stream.on('end', () => resolve(hash.digest('hex')));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Compare a downloaded artifact against the registry digest
+ * @throws IntegrityError distinguishing truncated downloads from modified content
+ */
+export function verifyDigest(
+  subject: string,
+  actual: { sha256: string; size: number },
+  expected: ExpectedDigest
+): void {
+  if (actual.sha256 === expected.sha256) {
+    return;
+  }
+
+  if (expected.size !== undefined && actual.size !== expected.size) {
+    throw new IntegrityError(
+      subject,
+      'corrupted',
+      expected.sha256,
+      actual.sha256,
+      `received ${actual.size} of ${expected.size} bytes`
+    );
+  }
+  throw new IntegrityError(subject, 'tampered', expected.sha256, actual.sha256);
+}
+
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'ERR_STREAM_PREMATURE_CLOSE',
+]);
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof DownloadError) return error.retryable;
+  // fetch() reports network failures as TypeError('fetch failed')
+  if (error instanceof TypeError) return true;
+  const code = (error as NodeJS.ErrnoException)?.code;
+  return code !== undefined && RETRYABLE_ERROR_CODES.has(code);
+}
+
+/**
+ * Move a finished download into place. Falls back to copy + rename when
+ * the destination is on another filesystem, so the destination path only
+ * ever holds a complete file.
+ */
+function moveIntoPlace(source: string, destination: string): void {
+  mkdirSync(dirname(destination), { recursive: true });
+  try {
+    renameSync(source, destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    const staging = `${destination}.${process.pid}.tmp`;
+    try {
+      copyFileSync(source, staging);
+      renameSync(staging, destination);
+    } finally {
+      rmSync(staging, { force: true });
+    }
+    rmSync(source, { force: true });
+  }
+}
+
+/**
+ * Perform one HTTP attempt, appending to the .part file from its current size
+ */
+async function attemptDownload(
+  url: string,
+  partPath: string,
+  bar: ProgressBar,
+  idleTimeoutMs: number
+): Promise<void> {
+  // Abort when no data arrives for idleTimeoutMs, while waiting for the
+  // response as well as between chunks of the body
+  const controller = new AbortController();
+  let idleTimer: NodeJS.Timeout | undefined;
+  const resetIdleTimer = (): void => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => controller.abort(), idleTimeoutMs);
+  };
+
+  resetIdleTimer();
+  try {
+    await receive(url, partPath, bar, controller.signal, resetIdleTimer);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new DownloadError(`Download stalled: no data for ${idleTimeoutMs / 1000}s`, undefined, true);
+    }
+    throw error;
+  } finally {
+    clearTimeout(idleTimer);
+  }
+}
+
+async function receive(
+  url: string,
+  partPath: string,
+  bar: ProgressBar,
+  signal: AbortSignal,
+  onData: () => void
+): Promise<void> {
+  const offset = existsSync(partPath) ? statSync(partPath).size : 0;
+  const headers: Record<string, string> = { 'User-Agent': getUserAgent() };
+  if (offset > 0) {
+    headers.Range = `bytes=${offset}-`;
+  }
+
+  const response = await fetch(url, { headers, signal });
+
+  if (response.status === 416) {
+    // Range not satisfiable: the partial file is stale or already complete
+    // with different content. Start over on the next attempt.
+    rmSync(partPath, { force: true });
+    throw new DownloadError('Partial download is no longer valid, restarting', 416, true);
+  }
+
+  if (!response.ok) {
+    throw new DownloadError(
+      `Download failed (${response.status} ${response.statusText})`,
+      response.status,
+      response.status >= 500 || response.status === 429
+    );
+  }
+
+  if (!response.body) {
+    throw new DownloadError('Download failed: empty response body', response.status, true);
+  }
+
+  // 206 means the server honoured the Range header; 200 means it resent everything
+  const resumed = response.status === 206 && offset > 0;
+  const startAt = resumed ? offset : 0;
+  const contentLength = parseInt(response.headers.get('content-length') || '', 10);
+  bar.setTotal(Number.isNaN(contentLength) ? undefined : startAt + contentLength, startAt);
+
+  let received = startAt;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      onData();
+      bar.update(received);
+      callback(null, chunk);
+    },
+  });
+
+  await pipeline(
+    Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]),
+    counter,
+    createWriteStream(partPath, { flags: resumed ? 'a' : 'w' }),
+    { signal }
+  );
+}
+
+/**
+ * Stream a URL to a file with resume and retry.
+ *
+ * Bytes are written to a .part file in ~/.mpak/tmp. A failed attempt keeps
+ * the partial file and the next attempt (or the next command run) resumes
+ * it with an HTTP Range request. Network errors, stalls and 5xx responses
+ * are retried with exponential backoff. If another process is already
+ * downloading the same artifact, this one uses a .part file of its own.
+ * The finished file is verified against the expected digest before it is
+ * moved to outputPath, so outputPath never holds a partial or unverified
+ * file.
+ */
+export async function downloadFile(
+  url: string,
+  outputPath: string,
+  options: DownloadOptions = {}
+): Promise<void> {
+  const sharedPartPath = getPartPath(url, options.expected);
+  configureProxyFromEnv();
+  mkdirSync(dirname(sharedPartPath), { recursive: true });
+
+  const unlock = lockPartFile(sharedPartPath);
+  const partPath = unlock ? sharedPartPath : sharedPartPath.replace(/\.part$/, `.${process.pid}.part`);
+  try {
+    await downloadToPart(url, partPath, outputPath, options);
+  } finally {
+    if (unlock) {
+      unlock();
+    } else {
+      // Nobody else can resume a file named after this process
+      rmSync(partPath, { force: true });
+    }
+  }
+}
+
+/**
+ * Download into a .part file, verify it and move it to outputPath
+ */
+async function downloadToPart(
+  url: string,
+  partPath: string,
+  outputPath: string,
+  options: DownloadOptions
+): Promise<void> {
+  const retries = resolveRetries(options.retries);
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+
+  // A leftover .part that is already larger than the artifact can't be resumed
+  if (options.expected?.size !== undefined && existsSync(partPath)) {
+    if (statSync(partPath).size > options.expected.size) {
+      rmSync(partPath, { force: true });
+    }
+  }
+
+  const bar = new ProgressBar(
+    options.label ?? '',
+    options.expected?.size,
+    0,
+    options.progress ?? process.stderr.isTTY === true
+  );
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const alreadyComplete =
+        options.expected?.size !== undefined &&
+        existsSync(partPath) &&
+        statSync(partPath).size === options.expected.size;
+      if (!alreadyComplete) {
+        await attemptDownload(url, partPath, bar, idleTimeoutMs);
+      }
+      break;
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        bar.finish();
+        throw error;
+      }
+      const delay = backoffDelay(attempt, retryDelayMs);
+      const reason = error instanceof Error ? error.message : String(error);
+      bar.finish();
+      process.stderr.write(
+        `=> ${reason}; retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${retries})\n`
+      );
+      await sleep(delay);
+    }
+  }
+  bar.finish();
+
+  if (options.expected) {
+    const actual = { sha256: await sha256File(partPath), size: statSync(partPath).size };
+    try {
+      verifyDigest(options.label || outputPath, actual, options.expected);
+    } catch (error) {
+      // Never resume from bytes that failed verification
+      rmSync(partPath, { force: true });
+      throw error;
+    }
+  }
+
+  moveIntoPlace(partPath, outputPath);
+}
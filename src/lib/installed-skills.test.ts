@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  SKILL_META_FILE,
+  listTrackedSkills,
+  readSkillMetadata,
+  writeSkillMetadata,
+  type InstalledSkillMetadata,
+} from './installed-skills.js';
+
+function metadata(name: string, version = '1.0.0'): InstalledSkillMetadata {
+  return { name, version, specifier: 'latest', sha256: 'a'.repeat(64), installedAt: '2026-01-01T00:00:00.000Z' };
+}
+
+describe('installed skills', () => {
+  let skillsDir: string;
+
+  beforeEach(() => {
+    skillsDir = mkdtempSync(join(tmpdir(), 'mpak-skills-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(skillsDir, { recursive: true, force: true });
+  });
+
+  function addSkill(dirName: string, meta?: InstalledSkillMetadata): string {
+    const dir = join(skillsDir, dirName);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'SKILL.md'), `# ${dirName}\n`);
+    if (meta) writeSkillMetadata(dir, meta);
+    return dir;
+  }
+
+  it('round-trips install metadata', () => {
+    const dir = addSkill('review', metadata('@scope/review', '1.2.0'));
+    expect(readSkillMetadata(dir)).toEqual(metadata('@scope/review', '1.2.0'));
+  });
+
+  it('ignores missing, malformed and incomplete metadata', () => {
+    expect(readSkillMetadata(addSkill('manual'))).toBeNull();
+
+    const broken = addSkill('broken');
+    writeFileSync(join(broken, SKILL_META_FILE), '{ not json');
+    expect(readSkillMetadata(broken)).toBeNull();
+
+    const partial = addSkill('partial');
+    writeFileSync(join(partial, SKILL_META_FILE), JSON.stringify({ name: '@scope/partial' }));
+    expect(readSkillMetadata(partial)).toBeNull();
+  });
+
+  it('lists only skills mpak installed, sorted by name', () => {
+    addSkill('zeta', metadata('@scope/zeta'));
+    addSkill('alpha', metadata('@scope/alpha'));
+    addSkill('manual');
+    addSkill('.staging-alpha', metadata('@scope/alpha', '2.0.0'));
+    writeFileSync(join(skillsDir, 'notes.txt'), 'not a skill');
+
+    const skills = listTrackedSkills(skillsDir);
+    expect(skills.map((skill) => skill.name)).toEqual(['@scope/alpha', '@scope/zeta']);
+    expect(skills[0].path).toBe(join(skillsDir, 'alpha'));
+  });
+
+  it('returns nothing when the skills directory does not exist', () => {
+    expect(listTrackedSkills(join(skillsDir, 'missing'))).toEqual([]);
+  });
+});
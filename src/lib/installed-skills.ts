@@ -0,0 +1,76 @@
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Metadata file mpak writes into every skill it installs
+ */
+export const SKILL_META_FILE = '.mpak-skill.json';
+
+/**
+ * What mpak recorded when it installed a skill
+ */
+export interface InstalledSkillMetadata {
+  /** Scoped registry name (@scope/skill) */
+  name: string;
+  version: string;
+  /** Version spec the skill was installed with (`latest`, `^1.2`, `1.2.0`) */
+  specifier: string;
+  sha256: string;
+  installedAt: string;
+}
+
+/**
+ * A skill installed by mpak, with the directory it lives in
+ */
+export interface TrackedSkill extends InstalledSkillMetadata {
+  path: string;
+}
+
+/**
+ * Read the install metadata of a skill directory (null for skills mpak
+ * didn't install, or installed before versions were tracked)
+ */
+export function readSkillMetadata(skillDir: string): InstalledSkillMetadata | null {
+  const metaPath = join(skillDir, SKILL_META_FILE);
+  if (!existsSync(metaPath)) {
+    return null;
+  }
+  try {
+    const meta = JSON.parse(readFileSync(metaPath, 'utf8'));
+    if (typeof meta?.name !== 'string' || typeof meta.version !== 'string') {
+      return null;
+    }
+    return meta as InstalledSkillMetadata;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write install metadata into a skill directory
+ */
+export function writeSkillMetadata(skillDir: string, metadata: InstalledSkillMetadata): void {
+  writeFileSync(join(skillDir, SKILL_META_FILE), JSON.stringify(metadata, null, 2));
+}
+
+/**
+ * List the skills in a skills directory that carry mpak install metadata
+ */
+export function listTrackedSkills(skillsDir: string): TrackedSkill[] {
+  if (!existsSync(skillsDir)) {
+    return [];
+  }
+
+  const skills: TrackedSkill[] = [];
+  for (const entry of readdirSync(skillsDir)) {
+    if (entry.startsWith('.')) continue;
+    const path = join(skillsDir, entry);
+    if (!statSync(path).isDirectory()) continue;
+
+    const meta = readSkillMetadata(path);
+    if (meta) {
+      skills.push({ ...meta, path });
+    }
+  }
+  return skills.sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmodSync, existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { homedir, tmpdir } from 'os';
+import {
+  BACKUP_SUFFIX,
+  assertMpakServer,
+  buildServerEntry,
+  defaultServerName,
+  isMpakServerEntry,
+  readClientConfig,
+  resolveClientTarget,
+  withoutServer,
+  withServer,
+  writeClientConfig,
+} from './mcp-clients.js';
+
+describe('resolveClientTarget', () => {
+  it('uses each client\'s default scope', () => {
+    expect(resolveClientTarget('claude-code', undefined, '/repo')).toMatchObject({
+      scope: 'project',
+      path: join('/repo', '.mcp.json'),
+      serversKey: 'mcpServers',
+    });
+    expect(resolveClientTarget('cursor', undefined, '/repo').path).toBe(join(homedir(), '.cursor', 'mcp.json'));
+    expect(resolveClientTarget('vscode', 'project', '/repo')).toMatchObject({
+      path: join('/repo', '.vscode', 'mcp.json'),
+      serversKey: 'servers',
+    });
+    expect(resolveClientTarget('claude-desktop', undefined).path).toMatch(/claude_desktop_config\.json$/);
+  });
+
+  it('rejects unknown clients and unsupported scopes', () => {
+    expect(() => resolveClientTarget('emacs', undefined)).toThrow('Unknown client "emacs"');
+    expect(() => resolveClientTarget('cursor', 'global')).toThrow('Invalid scope "global"');
+    expect(() => resolveClientTarget('claude-desktop', 'project')).toThrow('Claude Desktop has no project scope');
+  });
+});
+
+describe('server entries', () => {
+  const target = resolveClientTarget('claude-code', 'project', '/repo');
+
+  it('launches the bundle through mpak run', () => {
+    expect(defaultServerName('@scope/echo')).toBe('echo');
+    expect(buildServerEntry('claude-desktop', '@scope/echo@^1')).toEqual({
+      command: 'mpak',
+      args: ['run', '@scope/echo@^1'],
+    });
+    expect(buildServerEntry('vscode', '@scope/echo')).toMatchObject({ type: 'stdio' });
+  });
+
+  it('adds and removes a server without touching other settings', () => {
+    const config = { theme: 'dark', mcpServers: { other: { command: 'node', args: ['x.js'] } } };
+
+    const added = withServer(config, target, 'echo', buildServerEntry('claude-code', '@scope/echo'));
+    expect(added).toEqual({
+      theme: 'dark',
+      mcpServers: {
+        other: { command: 'node', args: ['x.js'] },
+        echo: { command: 'mpak', args: ['run', '@scope/echo'] },
+      },
+    });
+    expect(config.mcpServers).not.toHaveProperty('echo');
+
+    expect(withoutServer(added, target, 'echo')).toEqual(config);
+    expect(withoutServer(config, target, 'echo')).toBeNull();
+  });
+
+  it('recognizes the entries mpak wrote for a package', () => {
+    expect(isMpakServerEntry(buildServerEntry('vscode', '@scope/echo'), '@scope/echo')).toBe(true);
+    expect(isMpakServerEntry(buildServerEntry('cursor', '@scope/echo@^1'), '@scope/echo')).toBe(true);
+    expect(isMpakServerEntry(buildServerEntry('cursor', '@scope/echo-two'), '@scope/echo')).toBe(false);
+    expect(isMpakServerEntry({ command: 'mpak', args: ['run', '@scope/echo', '--update'] }, '@scope/echo')).toBe(false);
+    expect(isMpakServerEntry({ command: 'node', args: ['echo.js'] }, '@scope/echo')).toBe(false);
+    expect(isMpakServerEntry('echo', '@scope/echo')).toBe(false);
+  });
+
+  it('refuses to replace or remove a server mpak did not add', () => {
+    const handWritten = { mcpServers: { echo: { command: 'node', args: ['echo.js'] } } };
+    expect(() => assertMpakServer(handWritten, target, 'echo', '@scope/echo')).toThrow('was not added by mpak');
+
+    const otherPackage = { mcpServers: { echo: buildServerEntry('claude-code', '@other/echo') } };
+    expect(() => assertMpakServer(otherPackage, target, 'echo', '@scope/echo')).toThrow('was not added by mpak');
+
+    const ours = { mcpServers: { echo: buildServerEntry('claude-code', '@scope/echo@1.0.0') } };
+    expect(() => assertMpakServer(ours, target, 'echo', '@scope/echo')).not.toThrow();
+    expect(() => assertMpakServer({}, target, 'echo', '@scope/echo')).not.toThrow();
+  });
+
+  it('rejects a malformed server map', () => {
+    expect(() => withServer({ mcpServers: [] }, target, 'echo', buildServerEntry('claude-code', '@scope/echo'))).toThrow(
+      '"mcpServers" in'
+    );
+  });
+});
+
+describe('client config files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `mpak-clients-test-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('treats missing and empty files as empty configs', () => {
+    expect(readClientConfig(join(dir, 'missing.json'))).toEqual({});
+    writeFileSync(join(dir, 'empty.json'), '\n');
+    expect(readClientConfig(join(dir, 'empty.json'))).toEqual({});
+  });
+
+  it('refuses to overwrite a file it cannot parse', () => {
+    writeFileSync(join(dir, 'bad.json'), '{ // comment\n}');
+    expect(() => readClientConfig(join(dir, 'bad.json'))).toThrow('Cannot parse');
+  });
+
+  it('backs up the original file once', () => {
+    const path = join(dir, 'nested', 'config.json');
+    expect(writeClientConfig(path, { a: 1 })).toBeNull();
+
+    expect(writeClientConfig(path, { a: 2 })).toBe(path + BACKUP_SUFFIX);
+    expect(writeClientConfig(path, { a: 3 })).toBeNull();
+
+    expect(JSON.parse(readFileSync(path + BACKUP_SUFFIX, 'utf8'))).toEqual({ a: 1 });
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({ a: 3 });
+    expect(existsSync(`${path}.${process.pid}.tmp`)).toBe(false);
+  });
+
+  it('keeps the permissions of an existing file', () => {
+    const path = join(dir, 'config.json');
+    writeFileSync(path, '{}');
+    chmodSync(path, 0o600);
+
+    writeClientConfig(path, { a: 1 });
+
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+  });
+});
@@ -0,0 +1,289 @@
+import { chmodSync, copyFileSync, existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { CLIError } from '../utils/errors.js';
+
+/**
+ * MCP clients mpak can register bundles with
+ */
+export const MCP_CLIENTS = ['claude-desktop', 'claude-code', 'cursor', 'vscode'] as const;
+
+export type McpClientId = (typeof MCP_CLIENTS)[number];
+
+export type McpClientScope = 'user' | 'project';
+
+/**
+ * Suffix of the copy kept of a client config before mpak first changes it
+ */
+export const BACKUP_SUFFIX = '.mpak-backup';
+
+/**
+ * Where a client keeps its MCP servers, and how it expects them written
+ */
+interface McpClientDefinition {
+  label: string;
+  /** Top-level key holding the server map */
+  serversKey: 'mcpServers' | 'servers';
+  /** Scope used when --scope is not given */
+  defaultScope: McpClientScope;
+  /** Config path per scope (undefined when the client has no such scope) */
+  paths: Partial<Record<McpClientScope, (_cwd: string) => string>>;
+  /** Extra fields every server entry needs */
+  entryFields?: Record<string, string>;
+}
+
+/**
+ * Per-user application config directory (where Claude Desktop and VS Code
+ * keep their settings)
+ */
+function appConfigDir(): string {
+  if (process.platform === 'darwin') {
+    return join(homedir(), 'Library', 'Application Support');
+  }
+  if (process.platform === 'win32') {
+    return process.env.APPDATA || join(homedir(), 'AppData', 'Roaming');
+  }
+  return process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+}
+
+const CLIENTS: Record<McpClientId, McpClientDefinition> = {
+  'claude-desktop': {
+    label: 'Claude Desktop',
+    serversKey: 'mcpServers',
+    defaultScope: 'user',
+    paths: {
+      user: () => join(appConfigDir(), 'Claude', 'claude_desktop_config.json'),
+    },
+  },
+  'claude-code': {
+    label: 'Claude Code',
+    serversKey: 'mcpServers',
+    defaultScope: 'project',
+    paths: {
+      user: () => join(homedir(), '.claude.json'),
+      project: (cwd) => join(cwd, '.mcp.json'),
+    },
+  },
+  cursor: {
+    label: 'Cursor',
+    serversKey: 'mcpServers',
+    defaultScope: 'user',
+    paths: {
+      user: () => join(homedir(), '.cursor', 'mcp.json'),
+      project: (cwd) => join(cwd, '.cursor', 'mcp.json'),
+    },
+  },
+  vscode: {
+    label: 'VS Code',
+    serversKey: 'servers',
+    defaultScope: 'user',
+    paths: {
+      user: () => join(appConfigDir(), 'Code', 'User', 'mcp.json'),
+      project: (cwd) => join(cwd, '.vscode', 'mcp.json'),
+    },
+    entryFields: { type: 'stdio' },
+  },
+};
+
+/**
+ * A server entry in a client config
+ */
+export interface McpServerEntry {
+  command: string;
+  args: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * The config file a bundle is registered in
+ */
+export interface McpClientTarget {
+  client: McpClientId;
+  label: string;
+  scope: McpClientScope;
+  path: string;
+  serversKey: McpClientDefinition['serversKey'];
+}
+
+/**
+ * Resolve the config file for a client and scope
+ * @example resolveClientTarget('claude-code', undefined, '/repo') => { path: '/repo/.mcp.json', ... }
+ */
+export function resolveClientTarget(
+  client: string,
+  scope: string | undefined,
+  cwd: string = process.cwd()
+): McpClientTarget {
+  if (!(MCP_CLIENTS as readonly string[]).includes(client)) {
+    throw new CLIError(`Unknown client "${client}". Supported clients: ${MCP_CLIENTS.join(', ')}`);
+  }
+  const definition = CLIENTS[client as McpClientId];
+
+  const resolvedScope = (scope ?? definition.defaultScope) as McpClientScope;
+  if (resolvedScope !== 'user' && resolvedScope !== 'project') {
+    throw new CLIError(`Invalid scope "${scope}". Use "user" or "project"`);
+  }
+  const pathFor = definition.paths[resolvedScope];
+  if (!pathFor) {
+    throw new CLIError(`${definition.label} has no ${resolvedScope} scope`);
+  }
+
+  return {
+    client: client as McpClientId,
+    label: definition.label,
+    scope: resolvedScope,
+    path: pathFor(cwd),
+    serversKey: definition.serversKey,
+  };
+}
+
+/**
+ * Server name used in client configs (the unscoped package name)
+ * @example defaultServerName('@scope/echo') => 'echo'
+ */
+export function defaultServerName(packageName: string): string {
+  return packageName.split('/').pop()!;
+}
+
+/**
+ * The server entry that launches a bundle through `mpak run`
+ */
+export function buildServerEntry(client: McpClientId, packageSpec: string): McpServerEntry {
+  return {
+    ...CLIENTS[client].entryFields,
+    command: 'mpak',
+    args: ['run', packageSpec],
+  };
+}
+
+/**
+ * Read a client config. A missing file is an empty config.
+ */
+export function readClientConfig(path: string): Record<string, unknown> {
+  if (!existsSync(path)) {
+    return {};
+  }
+  const content = readFileSync(path, 'utf8');
+  if (content.trim() === '') {
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    throw new CLIError(
+      `Cannot parse ${path}: ${err instanceof Error ? err.message : err}. Fix the file (comments are not supported) and try again`
+    );
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new CLIError(`${path} does not contain a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function getServers(config: Record<string, unknown>, target: McpClientTarget): Record<string, unknown> {
+  const servers = config[target.serversKey];
+  if (servers === undefined) {
+    return {};
+  }
+  if (typeof servers !== 'object' || servers === null || Array.isArray(servers)) {
+    throw new CLIError(`"${target.serversKey}" in ${target.path} is not an object`);
+  }
+  return servers as Record<string, unknown>;
+}
+
+/**
+ * Whether a server entry is the `mpak run` launcher for a package, i.e. one
+ * mpak wrote (any version spec of the package counts)
+ */
+export function isMpakServerEntry(entry: unknown, packageName: string): boolean {
+  if (typeof entry !== 'object' || entry === null) {
+    return false;
+  }
+  const { command, args } = entry as Partial<McpServerEntry>;
+  if (command !== 'mpak' || !Array.isArray(args) || args.length !== 2 || args[0] !== 'run') {
+    return false;
+  }
+  return args[1] === packageName || (typeof args[1] === 'string' && args[1].startsWith(`${packageName}@`));
+}
+
+/**
+ * Throw unless the named server is absent or was registered by mpak for this
+ * package, so hand-written entries aren't replaced or removed by accident
+ */
+export function assertMpakServer(
+  config: Record<string, unknown>,
+  target: McpClientTarget,
+  name: string,
+  packageName: string
+): void {
+  const servers = getServers(config, target);
+  if (name in servers && !isMpakServerEntry(servers[name], packageName)) {
+    throw new CLIError(
+      `${name} in ${target.path} was not added by mpak for ${packageName}. Use --force to change it anyway, or --name to pick another name`
+    );
+  }
+}
+
+/**
+ * Return a copy of a config with a server added or replaced. Other servers
+ * and settings are left as they are.
+ */
+export function withServer(
+  config: Record<string, unknown>,
+  target: McpClientTarget,
+  name: string,
+  entry: McpServerEntry
+): Record<string, unknown> {
+  return { ...config, [target.serversKey]: { ...getServers(config, target), [name]: entry } };
+}
+
+/**
+ * Return a copy of a config without a server, or null when it isn't there
+ */
+export function withoutServer(
+  config: Record<string, unknown>,
+  target: McpClientTarget,
+  name: string
+): Record<string, unknown> | null {
+  const servers = getServers(config, target);
+  if (!(name in servers)) {
+    return null;
+  }
+  const remaining = { ...servers };
+  delete remaining[name];
+  return { ...config, [target.serversKey]: remaining };
+}
+
+/**
+ * Serialize a client config the way it is written to disk
+ */
+export function formatClientConfig(config: Record<string, unknown>): string {
+  return JSON.stringify(config, null, 2) + '\n';
+}
+
+/**
+ * Write a client config atomically. The first time mpak changes an existing
+ * file, the original is copied next to it (<file>.mpak-backup).
+ * @returns the backup path when one was created
+ */
+export function writeClientConfig(path: string, config: Record<string, unknown>): string | null {
+  let backupPath: string | null = null;
+  if (existsSync(path) && !existsSync(path + BACKUP_SUFFIX)) {
+    backupPath = path + BACKUP_SUFFIX;
+    copyFileSync(path, backupPath);
+  }
+
+  // Keep the file's permissions (configs holding tokens are often 0600);
+  // the rename would otherwise replace them with the umask default
+  const mode = existsSync(path) ? statSync(path).mode & 0o7777 : undefined;
+
+  mkdirSync(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tempPath, formatClientConfig(config), { mode });
+  if (mode !== undefined) {
+    chmodSync(tempPath, mode);
+  }
+  renameSync(tempPath, path);
+  return backupPath;
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { McpError, StdioMcpClient } from './client.js';
+import { LineBuffer, parseMessage } from './jsonrpc.js';
+
+/**
+ * Minimal stdio MCP server: two pages of tools, one prompt, logs a line to
+ * stdout before its first message, and can be told to crash
+ */
+const SERVER = `
+const readline = require('readline');
+const send = (m) => process.stdout.write(JSON.stringify(m) + '\\n');
+process.stdout.write('booting...\\n');
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const msg = JSON.parse(line);
+  if (msg.id === undefined) return;
+  const reply = (result) => send({ jsonrpc: '2.0', id: msg.id, result });
+  switch (msg.method) {
+    case 'initialize':
+      return reply({
+        protocolVersion: msg.params.protocolVersion,
+        capabilities: { tools: { listChanged: true }, prompts: {} },
+        serverInfo: { name: 'fixture', version: '1.0.0' },
+      });
+    case 'tools/list':
+      return msg.params && msg.params.cursor === 'page2'
+        ? reply({ tools: [{ name: 'b', inputSchema: { type: 'object' } }] })
+        : reply({ tools: [{ name: 'a', inputSchema: { type: 'object' } }], nextCursor: 'page2' });
+    case 'prompts/list':
+      return reply({ prompts: [{ name: 'greet' }] });
+    case 'crash':
+      console.error('fatal: out of cheese');
+      process.exit(3);
+    default:
+      send({ jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: 'Method not found' } });
+  }
+});
+`;
+
+describe('LineBuffer', () => {
+  it('joins lines split across chunks', () => {
+    const buffer = new LineBuffer();
+    expect(buffer.push('{"a":')).toEqual([]);
+    expect(buffer.push('1}\r\n{"b"')).toEqual(['{"a":1}']);
+    expect(buffer.flush()).toEqual(['{"b"']);
+  });
+});
+
+describe('parseMessage', () => {
+  it('ignores lines that are not JSON-RPC', () => {
+    expect(parseMessage('booting...')).toBeNull();
+    expect(parseMessage('{"hello":1}')).toBeNull();
+    expect(parseMessage('{"jsonrpc":"2.0","id":1,"result":{}}')).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+  });
+});
+
+describe('StdioMcpClient', () => {
+  let dir: string;
+  let serverPath: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mpak-mcp-test-'));
+    serverPath = join(dir, 'server.cjs');
+    writeFileSync(serverPath, SERVER);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function start(): Promise<StdioMcpClient> {
+    return StdioMcpClient.start({ command: process.execPath, args: [serverPath] }, { timeoutMs: 5000 });
+  }
+
+  it('initializes and lists every page', async () => {
+    const client = await start();
+    try {
+      const init = await client.initialize();
+      expect(init.serverInfo).toEqual({ name: 'fixture', version: '1.0.0' });
+      expect(init.capabilities.tools).toEqual({ listChanged: true });
+
+      expect((await client.listTools()).map((t) => t.name)).toEqual(['a', 'b']);
+      expect(await client.listPrompts()).toEqual([{ name: 'greet' }]);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('counts stdout lines that are not JSON-RPC', async () => {
+    const client = await start();
+    await client.initialize();
+    await client.close();
+
+    expect(client.stdoutNoise).toEqual({ lines: 1, sample: ['booting...'] });
+  });
+
+  it('surfaces error responses as McpError', async () => {
+    const client = await start();
+    try {
+      await client.initialize();
+      const error = await client.request('resources/list').catch((err: unknown) => err);
+      expect(error).toBeInstanceOf(McpError);
+      expect((error as McpError).code).toBe(-32601);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('rejects pending requests with the server stderr when it exits', async () => {
+    const client = await start();
+    await client.initialize();
+
+    await expect(client.request('crash')).rejects.toThrow(/exited with code 3[\s\S]*out of cheese/);
+    await client.close();
+  });
+
+  it('reports servers that fail to start', async () => {
+    const client = await StdioMcpClient.start({ command: join(dir, 'missing'), args: [] });
+
+    await expect(client.initialize()).rejects.toThrow('Failed to start server');
+    await client.close();
+  });
+});
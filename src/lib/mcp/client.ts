@@ -0,0 +1,440 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { getVersion } from '../../utils/version.js';
+import {
+  JsonRpcErrorCode,
+  LineBuffer,
+  isNotification,
+  isRequest,
+  isResponse,
+  parseMessage,
+  serializeMessage,
+  type JsonRpcErrorObject,
+  type JsonRpcId,
+  type JsonRpcMessage,
+  type JsonRpcNotification,
+  type JsonRpcResponse,
+} from './jsonrpc.js';
+
+/**
+ * MCP protocol revision mpak speaks as a client
+ */
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+/**
+ * Default time to wait for a response from the server
+ */
+export const DEFAULT_MCP_TIMEOUT_MS = 30_000;
+
+/**
+ * Time a server gets to exit after its stdin closes before it is signalled
+ */
+const SHUTDOWN_GRACE_MS = 2_000;
+
+/**
+ * Server stderr lines kept for error messages
+ */
+const STDERR_TAIL_LINES = 20;
+
+/**
+ * Non-JSON-RPC stdout lines kept as examples for stdoutNoise
+ */
+const STDOUT_NOISE_SAMPLE_LINES = 5;
+
+/**
+ * Lines a server wrote to stdout that were not JSON-RPC messages
+ */
+export interface StdoutNoise {
+  lines: number;
+  sample: string[];
+}
+
+export interface McpImplementation {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+export interface McpServerCapabilities {
+  tools?: { listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  logging?: Record<string, unknown>;
+  completions?: Record<string, unknown>;
+  experimental?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface McpInitializeResult {
+  protocolVersion: string;
+  capabilities: McpServerCapabilities;
+  serverInfo: McpImplementation;
+  instructions?: string;
+}
+
+export interface McpTool {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  annotations?: Record<string, unknown>;
+}
+
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * A content block in a tool result or prompt message
+ */
+export type McpContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image' | 'audio'; data: string; mimeType: string }
+  | { type: 'resource_link'; uri: string; name?: string; mimeType?: string }
+  | {
+      type: 'resource';
+      resource: { uri: string; mimeType?: string; text?: string; blob?: string };
+    };
+
+export interface McpCallToolResult {
+  content: McpContentBlock[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Error response from an MCP server
+ */
+export class McpError extends Error {
+  public readonly code: number;
+  public readonly data?: unknown;
+
+  constructor(error: JsonRpcErrorObject) {
+    super(error.message);
+    this.name = 'McpError';
+    this.code = error.code;
+    this.data = error.data;
+  }
+}
+
+/**
+ * Command that starts an MCP server on stdio
+ */
+export interface McpServerCommand {
+  command: string;
+  args: string[];
+  env?: Record<string, string | undefined>;
+  cwd?: string;
+}
+
+export interface McpClientOptions {
+  /** Per-request timeout (default 30s) */
+  timeoutMs?: number;
+  /** Forward server stderr to ours instead of keeping it for error messages */
+  inheritStderr?: boolean;
+  /** Called for notifications the server sends (logging, list changes, progress) */
+  onNotification?: (_notification: JsonRpcNotification) => void;
+  /** Called once when the server process exits or fails to start */
+  onExit?: (_error: Error) => void;
+}
+
+interface PendingRequest {
+  settle: (_response: JsonRpcResponse) => void;
+  reject: (_error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * MCP client for a server running as a child process on stdio
+ * @example
+ * const client = await StdioMcpClient.start({ command: 'node', args: ['server.js'] });
+ * const init = await client.initialize();
+ * const tools = await client.listTools();
+ * await client.close();
+ */
+export class StdioMcpClient {
+  private readonly child: ChildProcess;
+  private readonly timeoutMs: number;
+  private readonly onNotification?: McpClientOptions['onNotification'];
+  private readonly pending = new Map<JsonRpcId, PendingRequest>();
+  private readonly stderrTail: string[] = [];
+  private readonly noise: StdoutNoise = { lines: 0, sample: [] };
+  private nextId = 1;
+  private exited: Promise<number | null>;
+  private exitError: Error | null = null;
+
+  private constructor(child: ChildProcess, options: McpClientOptions) {
+    this.child = child;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_MCP_TIMEOUT_MS;
+    this.onNotification = options.onNotification;
+
+    const stdout = new LineBuffer();
+    child.stdout!.setEncoding('utf8');
+    child.stdout!.on('data', (chunk: string) => {
+      for (const line of stdout.push(chunk)) this.handleLine(line);
+    });
+
+    if (child.stderr) {
+      const stderr = new LineBuffer();
+      child.stderr.setEncoding('utf8');
+      child.stderr.on('data', (chunk: string) => {
+        for (const line of stderr.push(chunk)) {
+          this.stderrTail.push(line);
+          if (this.stderrTail.length > STDERR_TAIL_LINES) this.stderrTail.shift();
+        }
+      });
+    }
+
+    // Writes after the server has gone away fail with EPIPE; the exit
+    // handler reports that
+    child.stdin!.on('error', () => {});
+
+    // A spawn failure can emit both 'error' and 'close'; report the exit once
+    let reported = false;
+    const reportExit = (error: Error) => {
+      if (reported) return;
+      reported = true;
+      options.onExit?.(error);
+    };
+    this.exited = new Promise((resolve) => {
+      child.on('close', (code, signal) => {
+        this.exitError ??= new Error(
+          `Server exited ${signal ? `on ${signal}` : `with code ${code}`}${this.formatStderrTail()}`
+        );
+        this.rejectAll(this.exitError);
+        reportExit(this.exitError);
+        resolve(code);
+      });
+      child.on('error', (err) => {
+        this.exitError = new Error(`Failed to start server: ${err.message}`);
+        this.rejectAll(this.exitError);
+        reportExit(this.exitError);
+        resolve(null);
+      });
+    });
+  }
+
+  /**
+   * Spawn a server. Call initialize() before anything else.
+   */
+  static async start(server: McpServerCommand, options: McpClientOptions = {}): Promise<StdioMcpClient> {
+    const child = spawn(server.command, server.args, {
+      stdio: ['pipe', 'pipe', options.inheritStderr ? 'inherit' : 'pipe'],
+      env: server.env,
+      cwd: server.cwd,
+    });
+    return new StdioMcpClient(child, options);
+  }
+
+  /**
+   * Perform the initialize handshake
+   */
+  async initialize(): Promise<McpInitializeResult> {
+    const result = await this.request<McpInitializeResult>('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'mpak', version: getVersion() },
+    });
+    this.notify('notifications/initialized');
+    return result;
+  }
+
+  /**
+   * Send a request and wait for its result
+   */
+  async request<T>(method: string, params?: Record<string, unknown>): Promise<T> {
+    const response = await this.requestRaw(method, params);
+    if (response.error) {
+      throw new McpError(response.error);
+    }
+    return response.result as T;
+  }
+
+  /**
+   * Send a request and return the whole JSON-RPC response, errors included.
+   * Aborting the signal tells the server the request is cancelled.
+   */
+  requestRaw(method: string, params?: Record<string, unknown>, signal?: AbortSignal): Promise<JsonRpcResponse> {
+    if (this.exitError) {
+      return Promise.reject(this.exitError);
+    }
+    const id = this.nextId++;
+    return new Promise<JsonRpcResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Timed out after ${this.timeoutMs}ms waiting for ${method}${this.formatStderrTail()}`));
+      }, this.timeoutMs);
+      this.pending.set(id, { settle: resolve, reject, timer });
+      signal?.addEventListener(
+        'abort',
+        () => {
+          if (!this.pending.has(id)) return;
+          clearTimeout(timer);
+          this.pending.delete(id);
+          const reason = typeof signal.reason === 'string' ? signal.reason : undefined;
+          this.notify('notifications/cancelled', { requestId: id, ...(reason ? { reason } : {}) });
+          reject(new Error(`Cancelled ${method}`));
+        },
+        { once: true }
+      );
+      this.send({ jsonrpc: '2.0', id, method, ...(params ? { params } : {}) });
+    });
+  }
+
+  /**
+   * Send a notification (no response)
+   */
+  notify(method: string, params?: Record<string, unknown>): void {
+    this.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    return this.listAll<McpTool>('tools/list', 'tools');
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    return this.listAll<McpPrompt>('prompts/list', 'prompts');
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    return this.listAll<McpResource>('resources/list', 'resources');
+  }
+
+  async listResourceTemplates(): Promise<McpResourceTemplate[]> {
+    return this.listAll<McpResourceTemplate>('resources/templates/list', 'resourceTemplates');
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<McpCallToolResult> {
+    return this.request<McpCallToolResult>('tools/call', { name, arguments: args });
+  }
+
+  /**
+   * Output that would corrupt the stream for stricter MCP clients (usually
+   * logging to stdout). Complete once the server has exited.
+   */
+  get stdoutNoise(): StdoutNoise {
+    return this.noise;
+  }
+
+  /**
+   * Shut the server down: close its stdin, then SIGTERM and finally SIGKILL
+   * if it doesn't exit in time (the MCP stdio shutdown sequence)
+   */
+  async close(): Promise<void> {
+    for (const [, request] of this.pending) clearTimeout(request.timer);
+    this.pending.clear();
+    if (this.child.exitCode !== null || this.child.signalCode !== null || this.exitError) {
+      return;
+    }
+
+    this.child.stdin!.end();
+    for (const signal of ['SIGTERM', 'SIGKILL'] as const) {
+      if (await this.waitForExit(SHUTDOWN_GRACE_MS)) return;
+      this.child.kill(signal);
+    }
+    await this.waitForExit(SHUTDOWN_GRACE_MS);
+  }
+
+  /**
+   * Follow nextCursor through every page of a list method
+   */
+  private async listAll<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request<Record<string, unknown>>(method, cursor ? { cursor } : undefined);
+      items.push(...((page[key] as T[] | undefined) ?? []));
+      cursor = typeof page.nextCursor === 'string' ? page.nextCursor : undefined;
+    } while (cursor);
+    return items;
+  }
+
+  private async waitForExit(timeoutMs: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+    const exited = await Promise.race([this.exited.then(() => true), timedOut]);
+    clearTimeout(timer);
+    return exited;
+  }
+
+  private send(message: JsonRpcMessage): void {
+    if (this.child.stdin?.writable) {
+      this.child.stdin.write(serializeMessage(message));
+    }
+  }
+
+  private handleLine(line: string): void {
+    const message = parseMessage(line);
+    if (!message) {
+      if (line.trim()) {
+        this.noise.lines++;
+        if (this.noise.sample.length < STDOUT_NOISE_SAMPLE_LINES) this.noise.sample.push(line);
+      }
+      return;
+    }
+
+    if (isResponse(message)) {
+      this.handleResponse(message);
+    } else if (isRequest(message)) {
+      // mpak offers no client capabilities (sampling, roots, elicitation);
+      // only answer pings
+      if (message.method === 'ping') {
+        this.send({ jsonrpc: '2.0', id: message.id, result: {} });
+      } else {
+        this.send({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: JsonRpcErrorCode.METHOD_NOT_FOUND, message: `Method not supported: ${message.method}` },
+        });
+      }
+    } else if (isNotification(message)) {
+      this.onNotification?.(message);
+    }
+  }
+
+  private handleResponse(response: JsonRpcResponse): void {
+    if (response.id === null) {
+      return;
+    }
+    const request = this.pending.get(response.id);
+    if (!request) {
+      return;
+    }
+    this.pending.delete(response.id);
+    clearTimeout(request.timer);
+    request.settle(response);
+  }
+
+  private rejectAll(error: Error): void {
+    for (const [, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  private formatStderrTail(): string {
+    return this.stderrTail.length > 0 ? `\nServer stderr:\n  ${this.stderrTail.join('\n  ')}` : '';
+  }
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  McpGateway,
+  isToolAllowed,
+  matchesToolPattern,
+  splitNamespacedName,
+} from './gateway.js';
+import type { JsonRpcMessage, JsonRpcResponse } from './jsonrpc.js';
+
+/**
+ * Stdio server named by its first argument. Calling "grow" adds a tool and
+ * announces the change; "echo" logs before answering; "wait" never answers.
+ * Notifications it receives are logged back.
+ */
+const SERVER = `
+const readline = require('readline');
+const name = process.argv[2];
+const send = (m) => process.stdout.write(JSON.stringify(m) + '\\n');
+const tools = [{ name: 'echo', inputSchema: { type: 'object' } }, { name: 'delete_all', inputSchema: { type: 'object' } }, { name: 'grow', inputSchema: { type: 'object' } }];
+const waiting = new Set();
+const log = (data) => send({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data } });
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const msg = JSON.parse(line);
+  if (msg.id === undefined) {
+    if (msg.method === 'notifications/cancelled') log('cancelled ' + (waiting.has(msg.params.requestId) ? 'wait' : 'unknown'));
+    else if (msg.method !== 'notifications/initialized') log('got ' + msg.method);
+    return;
+  }
+  const reply = (result) => send({ jsonrpc: '2.0', id: msg.id, result });
+  switch (msg.method) {
+    case 'initialize':
+      return reply({ protocolVersion: '2025-06-18', capabilities: { tools: { listChanged: true }, prompts: {}, resources: {}, logging: {} }, serverInfo: { name, version: '1.0.0' }, instructions: 'Use ' + name });
+    case 'tools/list':
+      return reply({ tools });
+    case 'prompts/list':
+      return reply({ prompts: [{ name: 'greet' }] });
+    case 'resources/list':
+      return reply({ resources: [{ uri: 'mem://' + name + '/readme', name: 'readme' }] });
+    case 'resources/read':
+      return reply({ contents: [{ uri: msg.params.uri, text: 'from ' + name }] });
+    case 'prompts/get':
+      return reply({ messages: [{ role: 'user', content: { type: 'text', text: name + ':' + msg.params.name } }] });
+    case 'tools/call':
+      if (msg.params.name === 'wait') return waiting.add(msg.id);
+      if (msg.params.name === 'grow') {
+        tools.push({ name: 'new_tool', inputSchema: { type: 'object' } });
+        send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+      } else {
+        send({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'called' } });
+      }
+      return reply({ content: [{ type: 'text', text: name + ':' + msg.params.name }] });
+    case 'logging/setLevel':
+      return reply({});
+    default:
+      send({ jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: 'Method not found' } });
+  }
+});
+`;
+
+describe('tool filters', () => {
+  it('matches * wildcards against the whole name', () => {
+    expect(matchesToolPattern('create_issue', 'create_*')).toBe(true);
+    expect(matchesToolPattern('recreate_issue', 'create_*')).toBe(false);
+    expect(matchesToolPattern('a.b', 'a.b')).toBe(true);
+    expect(matchesToolPattern('axb', 'a.b')).toBe(false);
+  });
+
+  it('applies allow, then deny', () => {
+    expect(isToolAllowed('echo')).toBe(true);
+    expect(isToolAllowed('echo', { allow: ['get_*'] })).toBe(false);
+    expect(isToolAllowed('get_issue', { allow: ['get_*'], deny: ['get_issue'] })).toBe(false);
+    expect(isToolAllowed('delete_repo', { deny: ['delete_*'] })).toBe(false);
+  });
+
+  it('splits namespaced names at the first separator', () => {
+    expect(splitNamespacedName('github__create_issue')).toEqual({ server: 'github', name: 'create_issue' });
+    expect(splitNamespacedName('a__b__c')).toEqual({ server: 'a', name: 'b__c' });
+    expect(splitNamespacedName('plain')).toBeNull();
+  });
+});
+
+describe('McpGateway', () => {
+  let dir: string;
+  let gateway: McpGateway | undefined;
+  let sent: JsonRpcMessage[];
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mpak-gateway-test-'));
+    writeFileSync(join(dir, 'server.cjs'), SERVER);
+  });
+
+  afterEach(async () => {
+    await gateway?.close();
+    gateway = undefined;
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function start(): Promise<McpGateway> {
+    sent = [];
+    gateway = new McpGateway({ onMessage: (message) => sent.push(message), log: () => {} });
+    const server = (name: string) => ({ command: process.execPath, args: [join(dir, 'server.cjs'), name] });
+    await gateway.addServer('alpha', server('alpha'));
+    await gateway.addServer('beta', server('beta'), { deny: ['delete_*'] });
+    return gateway;
+  }
+
+  /**
+   * Server log lines the gateway passed on, as [logger, data]
+   */
+  function logged(): Array<[unknown, unknown]> {
+    return sent.flatMap((m): Array<[unknown, unknown]> =>
+      'method' in m && m.method === 'notifications/message' ? [[m.params?.logger, m.params?.data]] : []
+    );
+  }
+
+  let nextId = 1;
+  async function request(method: string, params?: Record<string, unknown>): Promise<JsonRpcResponse> {
+    return (await gateway!.handle({ jsonrpc: '2.0', id: nextId++, method, ...(params ? { params } : {}) }))!;
+  }
+
+  it('aggregates capabilities and namespaced lists', async () => {
+    await start();
+    const init = await request('initialize', { protocolVersion: '2025-06-18' });
+    expect(init.result).toMatchObject({
+      capabilities: { tools: { listChanged: true }, prompts: { listChanged: true }, logging: {} },
+      serverInfo: { name: 'mpak-gateway' },
+      instructions: '## alpha\n\nUse alpha\n\n## beta\n\nUse beta',
+    });
+
+    const tools = (await request('tools/list')).result as { tools: Array<{ name: string }> };
+    expect(tools.tools.map((tool) => tool.name)).toEqual([
+      'alpha__echo',
+      'alpha__delete_all',
+      'alpha__grow',
+      'beta__echo',
+      'beta__grow',
+    ]);
+    const prompts = (await request('prompts/list')).result as { prompts: Array<{ name: string }> };
+    expect(prompts.prompts.map((prompt) => prompt.name)).toEqual(['alpha__greet', 'beta__greet']);
+  });
+
+  it('routes calls, prompts and resource reads to the owning server', async () => {
+    await start();
+    expect((await request('tools/call', { name: 'beta__echo', arguments: {} })).result).toEqual({
+      content: [{ type: 'text', text: 'beta:echo' }],
+    });
+    expect(sent).toContainEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/message',
+      params: { level: 'info', data: 'called', logger: 'beta' },
+    });
+
+    const prompt = (await request('prompts/get', { name: 'alpha__greet' })).result as {
+      messages: Array<{ content: { text: string } }>;
+    };
+    expect(prompt.messages[0].content.text).toBe('alpha:greet');
+
+    const read = (await request('resources/read', { uri: 'mem://beta/readme' })).result as {
+      contents: Array<{ text: string }>;
+    };
+    expect(read.contents[0].text).toBe('from beta');
+  });
+
+  it('rejects denied and unknown tools', async () => {
+    await start();
+    const denied = await request('tools/call', { name: 'beta__delete_all', arguments: {} });
+    expect(denied.error).toEqual({ code: -32602, message: 'Unknown tool: beta__delete_all' });
+    expect((await request('tools/call', { name: 'gamma__echo' })).error?.code).toBe(-32602);
+    expect((await request('tools/call', { name: 'echo' })).error?.code).toBe(-32602);
+    expect((await request('sampling/createMessage')).error?.code).toBe(-32601);
+  });
+
+  it('forwards cancellations to the server handling the request', async () => {
+    await start();
+    const call = gateway!.handle({ jsonrpc: '2.0', id: 'call-1', method: 'tools/call', params: { name: 'beta__wait', arguments: {} } });
+    await gateway!.handle({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 'call-1' } });
+
+    expect(await call).toMatchObject({ id: 'call-1', error: { message: 'Cancelled tools/call' } });
+    await expect.poll(() => logged()).toEqual([['beta', 'cancelled wait']]);
+  });
+
+  it('passes other client notifications to every server', async () => {
+    await start();
+    await gateway!.handle({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    await gateway!.handle({ jsonrpc: '2.0', method: 'notifications/roots/list_changed' });
+
+    await expect.poll(() => logged().sort()).toEqual([
+      ['alpha', 'got notifications/roots/list_changed'],
+      ['beta', 'got notifications/roots/list_changed'],
+    ]);
+  });
+
+  it('refreshes lists and forwards list_changed', async () => {
+    await start();
+    await request('tools/call', { name: 'alpha__grow', arguments: {} });
+    await expect.poll(() => sent.some((m) => 'method' in m && m.method === 'notifications/tools/list_changed')).toBe(true);
+    expect(gateway!.tools.map((tool) => tool.name)).toContain('alpha__new_tool');
+  });
+});
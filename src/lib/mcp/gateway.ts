@@ -0,0 +1,469 @@
+import { getVersion } from '../../utils/version.js';
+import {
+  MCP_PROTOCOL_VERSION,
+  McpError,
+  StdioMcpClient,
+  type McpInitializeResult,
+  type McpPrompt,
+  type McpResource,
+  type McpResourceTemplate,
+  type McpServerCapabilities,
+  type McpServerCommand,
+  type McpTool,
+} from './client.js';
+import {
+  JsonRpcErrorCode,
+  isNotification,
+  isRequest,
+  type JsonRpcId,
+  type JsonRpcMessage,
+  type JsonRpcNotification,
+  type JsonRpcResponse,
+} from './jsonrpc.js';
+
+/**
+ * Joins a server name and a tool or prompt name: github__create_issue
+ */
+export const NAMESPACE_SEPARATOR = '__';
+
+/**
+ * Server names usable as a namespace: letters, digits, "-" and single "_"
+ */
+export const SERVER_NAME_PATTERN = /^[A-Za-z0-9]+(?:[-_][A-Za-z0-9]+)*$/;
+
+/**
+ * Which of a server's tools the gateway exposes. Patterns may use * as a
+ * wildcard; deny wins over allow.
+ */
+export interface ToolFilter {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface McpGatewayOptions {
+  /** Per-request timeout for each server (default 30s) */
+  timeoutMs?: number;
+  /** Sends a notification to the gateway's client */
+  onMessage?: (_message: JsonRpcMessage) => void;
+  /** Where status lines go (default stderr) */
+  log?: (_line: string) => void;
+}
+
+type ListKind = 'tools' | 'prompts' | 'resources';
+
+const LIST_CHANGED: Record<string, ListKind> = {
+  'notifications/tools/list_changed': 'tools',
+  'notifications/prompts/list_changed': 'prompts',
+  'notifications/resources/list_changed': 'resources',
+};
+
+/**
+ * A server behind the gateway, with its lists as last fetched
+ */
+interface Upstream {
+  name: string;
+  client: StdioMcpClient;
+  init: McpInitializeResult;
+  filter?: ToolFilter;
+  tools: McpTool[];
+  prompts: McpPrompt[];
+  resources: McpResource[];
+  templates: McpResourceTemplate[];
+}
+
+type RequestOutcome = Pick<JsonRpcResponse, 'result' | 'error'>;
+
+/**
+ * Match a tool name against an allow/deny pattern
+ * @example matchesToolPattern('create_issue', 'create_*') => true
+ */
+export function matchesToolPattern(name: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+export function isToolAllowed(name: string, filter?: ToolFilter): boolean {
+  if (filter?.allow && !filter.allow.some((pattern) => matchesToolPattern(name, pattern))) {
+    return false;
+  }
+  return !filter?.deny?.some((pattern) => matchesToolPattern(name, pattern));
+}
+
+/**
+ * Split a namespaced name at the first separator
+ * @example splitNamespacedName('github__create_issue') => { server: 'github', name: 'create_issue' }
+ */
+export function splitNamespacedName(name: string): { server: string; name: string } | null {
+  const index = name.indexOf(NAMESPACE_SEPARATOR);
+  if (index <= 0) {
+    return null;
+  }
+  return { server: name.slice(0, index), name: name.slice(index + NAMESPACE_SEPARATOR.length) };
+}
+
+function invalidParams(message: string): McpError {
+  return new McpError({ code: JsonRpcErrorCode.INVALID_PARAMS, message });
+}
+
+/**
+ * Aggregates several stdio MCP servers into one: tools and prompts are
+ * exposed as <server>__<name>, resources keep their URIs, and each request
+ * is routed to the server that owns it.
+ * @example
+ * const gateway = new McpGateway({ onMessage: (m) => write(m) });
+ * await gateway.addServer('github', { command: 'node', args: ['server.js'] });
+ * const response = await gateway.handle(request);
+ */
+export class McpGateway {
+  private readonly upstreams = new Map<string, Upstream>();
+  /** Client requests being handled, so a cancellation can reach the server working on one */
+  private readonly inFlight = new Map<JsonRpcId, AbortController>();
+  private readonly timeoutMs?: number;
+  private readonly onMessage: (_message: JsonRpcMessage) => void;
+  private readonly log: (_line: string) => void;
+  private closing = false;
+
+  constructor(options: McpGatewayOptions = {}) {
+    this.timeoutMs = options.timeoutMs;
+    this.onMessage = options.onMessage ?? (() => {});
+    this.log = options.log ?? ((line) => process.stderr.write(line + '\n'));
+  }
+
+  /**
+   * Names of the servers currently behind the gateway
+   */
+  get servers(): string[] {
+    return [...this.upstreams.keys()];
+  }
+
+  /**
+   * Start a server, initialize it and fetch its lists
+   */
+  async addServer(name: string, server: McpServerCommand, filter?: ToolFilter): Promise<McpInitializeResult> {
+    if (!SERVER_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid server name "${name}"`);
+    }
+    if (this.upstreams.has(name)) {
+      throw new Error(`Duplicate server name "${name}"`);
+    }
+
+    let upstream: Upstream | undefined;
+    const client = await StdioMcpClient.start(server, {
+      timeoutMs: this.timeoutMs,
+      inheritStderr: true,
+      onNotification: (notification) => {
+        if (upstream) this.handleNotification(upstream, notification);
+      },
+      onExit: (error) => {
+        if (upstream) this.removeServer(upstream, error);
+      },
+    });
+
+    try {
+      const init = await client.initialize();
+      upstream = { name, client, init, filter, tools: [], prompts: [], resources: [], templates: [] };
+      for (const kind of ['tools', 'prompts', 'resources'] as const) {
+        await this.refresh(upstream, kind);
+      }
+    } catch (err) {
+      await client.close();
+      throw err;
+    }
+    this.upstreams.set(name, upstream);
+    return upstream.init;
+  }
+
+  /**
+   * Every tool the gateway exposes, namespaced
+   */
+  get tools(): McpTool[] {
+    return this.collect((upstream) =>
+      upstream.tools.map((tool) => ({ ...tool, name: this.qualify(upstream, tool.name) }))
+    );
+  }
+
+  get prompts(): McpPrompt[] {
+    return this.collect((upstream) =>
+      upstream.prompts.map((prompt) => ({ ...prompt, name: this.qualify(upstream, prompt.name) }))
+    );
+  }
+
+  /**
+   * Answer a message from the client. Returns null for notifications and
+   * responses, which need no reply.
+   */
+  async handle(message: JsonRpcMessage): Promise<JsonRpcResponse | null> {
+    if (isNotification(message)) {
+      this.handleClientNotification(message);
+      return null;
+    }
+    if (!isRequest(message)) {
+      return null;
+    }
+    const controller = new AbortController();
+    this.inFlight.set(message.id, controller);
+    let outcome: RequestOutcome;
+    try {
+      outcome = await this.dispatch(message.method, message.params ?? {}, controller.signal);
+    } catch (err) {
+      outcome = {
+        error:
+          err instanceof McpError
+            ? { code: err.code, message: err.message, ...(err.data !== undefined ? { data: err.data } : {}) }
+            : { code: JsonRpcErrorCode.INTERNAL_ERROR, message: err instanceof Error ? err.message : String(err) },
+      };
+    } finally {
+      this.inFlight.delete(message.id);
+    }
+    return { jsonrpc: '2.0', id: message.id, ...outcome };
+  }
+
+  /**
+   * Shut every server down
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    await Promise.all([...this.upstreams.values()].map((upstream) => upstream.client.close()));
+    this.upstreams.clear();
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>, signal: AbortSignal): Promise<RequestOutcome> {
+    switch (method) {
+      case 'initialize':
+        return { result: this.initializeResult() };
+      case 'ping':
+        return { result: {} };
+      case 'tools/list':
+        return { result: { tools: this.tools } };
+      case 'prompts/list':
+        return { result: { prompts: this.prompts } };
+      case 'resources/list':
+        return {
+          result: {
+            resources: this.collect((upstream) =>
+              upstream.resources.map((resource) => ({ ...resource, name: this.qualify(upstream, resource.name) }))
+            ),
+          },
+        };
+      case 'resources/templates/list':
+        return {
+          result: {
+            resourceTemplates: this.collect((upstream) =>
+              upstream.templates.map((template) => ({ ...template, name: this.qualify(upstream, template.name) }))
+            ),
+          },
+        };
+
+      case 'tools/call': {
+        const { upstream, name } = this.route(params.name, 'tool');
+        if (!isToolAllowed(name, upstream.filter)) {
+          throw invalidParams(`Unknown tool: ${String(params.name)}`);
+        }
+        return this.forward(upstream, method, { ...params, name }, signal);
+      }
+      case 'prompts/get': {
+        const { upstream, name } = this.route(params.name, 'prompt');
+        return this.forward(upstream, method, { ...params, name }, signal);
+      }
+      case 'resources/read':
+      case 'resources/subscribe':
+      case 'resources/unsubscribe':
+        return this.forward(this.routeUri(params.uri), method, params, signal);
+
+      case 'completion/complete': {
+        const ref = (params.ref ?? {}) as { type?: string; name?: unknown; uri?: unknown };
+        if (ref.type === 'ref/prompt') {
+          const { upstream, name } = this.route(ref.name, 'prompt');
+          return this.forward(upstream, method, { ...params, ref: { ...ref, name } }, signal);
+        }
+        return this.forward(this.routeUri(ref.uri), method, params, signal);
+      }
+
+      case 'logging/setLevel': {
+        const targets = [...this.upstreams.values()].filter((upstream) => upstream.init.capabilities.logging);
+        await Promise.allSettled(targets.map((upstream) => upstream.client.request(method, params)));
+        return { result: {} };
+      }
+
+      default:
+        throw new McpError({ code: JsonRpcErrorCode.METHOD_NOT_FOUND, message: `Method not found: ${method}` });
+    }
+  }
+
+  /**
+   * Capabilities are the union of the servers'; list changes are always
+   * announced because servers can come and go
+   */
+  private initializeResult(): McpInitializeResult {
+    const upstreams = [...this.upstreams.values()];
+    const any = (has: (_capabilities: McpServerCapabilities) => unknown) =>
+      upstreams.some((upstream) => has(upstream.init.capabilities));
+
+    const capabilities: McpServerCapabilities = {};
+    if (any((c) => c.tools)) capabilities.tools = { listChanged: true };
+    if (any((c) => c.prompts)) capabilities.prompts = { listChanged: true };
+    if (any((c) => c.resources)) {
+      capabilities.resources = { listChanged: true, subscribe: any((c) => c.resources?.subscribe) };
+    }
+    if (any((c) => c.logging)) capabilities.logging = {};
+    if (any((c) => c.completions)) capabilities.completions = {};
+
+    const instructions = upstreams
+      .filter((upstream) => upstream.init.instructions)
+      .map((upstream) => `## ${upstream.name}\n\n${upstream.init.instructions}`)
+      .join('\n\n');
+
+    return {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities,
+      serverInfo: { name: 'mpak-gateway', version: getVersion() },
+      ...(instructions ? { instructions } : {}),
+    };
+  }
+
+  private async forward(
+    upstream: Upstream,
+    method: string,
+    params: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<RequestOutcome> {
+    const response = await upstream.client.requestRaw(method, params, signal);
+    return response.error ? { error: response.error } : { result: response.result };
+  }
+
+  /**
+   * Find the server for a namespaced tool or prompt name
+   */
+  private route(qualified: unknown, what: 'tool' | 'prompt'): { upstream: Upstream; name: string } {
+    const parts = typeof qualified === 'string' ? splitNamespacedName(qualified) : null;
+    const upstream = parts ? this.upstreams.get(parts.server) : undefined;
+    if (!parts || !upstream) {
+      throw invalidParams(`Unknown ${what}: ${String(qualified)}`);
+    }
+    return { upstream, name: parts.name };
+  }
+
+  /**
+   * Find the server for a resource URI: one that listed it, else the one
+   * with the longest matching template prefix, else the only server with
+   * resources
+   */
+  private routeUri(uri: unknown): Upstream {
+    if (typeof uri !== 'string') {
+      throw invalidParams('Missing resource uri');
+    }
+    const upstreams = [...this.upstreams.values()];
+    const listed = upstreams.find((upstream) => upstream.resources.some((resource) => resource.uri === uri));
+    if (listed) {
+      return listed;
+    }
+
+    let best: { upstream: Upstream; length: number } | undefined;
+    for (const upstream of upstreams) {
+      for (const template of upstream.templates) {
+        const prefix = template.uriTemplate.split('{')[0];
+        if (uri.startsWith(prefix) && prefix.length > (best?.length ?? 0)) {
+          best = { upstream, length: prefix.length };
+        }
+      }
+    }
+    if (best) {
+      return best.upstream;
+    }
+
+    const withResources = upstreams.filter((upstream) => upstream.init.capabilities.resources);
+    if (withResources.length === 1) {
+      return withResources[0];
+    }
+    throw invalidParams(`No server provides resource ${uri}`);
+  }
+
+  private async refresh(upstream: Upstream, kind: ListKind): Promise<void> {
+    if (!upstream.init.capabilities[kind]) {
+      return;
+    }
+    try {
+      if (kind === 'tools') {
+        upstream.tools = (await upstream.client.listTools()).filter((tool) => isToolAllowed(tool.name, upstream.filter));
+      } else if (kind === 'prompts') {
+        upstream.prompts = await upstream.client.listPrompts();
+      } else {
+        upstream.resources = await upstream.client.listResources();
+        upstream.templates = await upstream.client.listResourceTemplates().catch(() => []);
+      }
+    } catch (err) {
+      this.log(`=> ${upstream.name}: could not list ${kind}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  /**
+   * A cancellation goes to the server handling the request (its client
+   * sends it on with that server's request id); other notifications, such
+   * as roots/list_changed, concern every server
+   */
+  private handleClientNotification(notification: JsonRpcNotification): void {
+    if (notification.method === 'notifications/cancelled') {
+      const { requestId, reason } = (notification.params ?? {}) as { requestId?: JsonRpcId; reason?: unknown };
+      if (requestId !== undefined) {
+        this.inFlight.get(requestId)?.abort(typeof reason === 'string' ? reason : undefined);
+      }
+      return;
+    }
+    // Each server was initialized by the gateway when it was added
+    if (notification.method === 'notifications/initialized') {
+      return;
+    }
+    for (const upstream of this.upstreams.values()) {
+      upstream.client.notify(notification.method, notification.params);
+    }
+  }
+
+  private handleNotification(upstream: Upstream, notification: JsonRpcNotification): void {
+    const kind = LIST_CHANGED[notification.method];
+    if (kind) {
+      this.refresh(upstream, kind).then(() => this.send({ jsonrpc: '2.0', method: notification.method }));
+      return;
+    }
+    if (notification.method === 'notifications/message') {
+      const logger = notification.params?.logger;
+      this.send({
+        ...notification,
+        params: { ...notification.params, logger: logger ? `${upstream.name}/${String(logger)}` : upstream.name },
+      });
+      return;
+    }
+    // Progress and resource updates carry the client's own tokens and URIs
+    this.send(notification);
+  }
+
+  /**
+   * Drop a server that exited and tell the client its lists changed
+   */
+  private removeServer(upstream: Upstream, error: Error): void {
+    if (this.closing || this.upstreams.get(upstream.name) !== upstream) {
+      return;
+    }
+    this.upstreams.delete(upstream.name);
+    this.log(`=> ${upstream.name}: ${error.message}`);
+    for (const kind of ['tools', 'prompts', 'resources'] as const) {
+      if (upstream.init.capabilities[kind]) {
+        this.send({ jsonrpc: '2.0', method: `notifications/${kind}/list_changed` });
+      }
+    }
+  }
+
+  private send(message: JsonRpcMessage): void {
+    if (!this.closing) this.onMessage(message);
+  }
+
+  private qualify(upstream: Upstream, name: string): string {
+    return `${upstream.name}${NAMESPACE_SEPARATOR}${name}`;
+  }
+
+  private collect<T>(items: (_upstream: Upstream) => T[]): T[] {
+    return [...this.upstreams.values()].flatMap(items);
+  }
+}
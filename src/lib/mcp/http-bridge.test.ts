@@ -0,0 +1,264 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PassThrough } from 'stream';
+import { TextDecoder } from 'util';
+import { startHttpBridge, type HttpBridge, type HttpBridgeOptions } from './http-bridge.js';
+import { runStdioProxy } from './stdio-proxy.js';
+import { SseParser, type SseEvent } from './sse.js';
+
+/**
+ * Stdio server with one tool; logs to stdout at startup and sends a
+ * notification before each tool result. Echoing "slow" never answers,
+ * "late" answers after 400ms, and "ask" sends the client a request and
+ * returns its error.
+ */
+const SERVER = `
+const readline = require('readline');
+const send = (m) => process.stdout.write(JSON.stringify(m) + '\\n');
+const asked = new Map();
+process.stdout.write('starting\\n');
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const msg = JSON.parse(line);
+  if (msg.method === undefined) return asked.get(msg.id)?.(msg);
+  if (msg.id === undefined) return;
+  const reply = (result) => send({ jsonrpc: '2.0', id: msg.id, result });
+  switch (msg.method) {
+    case 'initialize':
+      return reply({ protocolVersion: '2025-06-18', capabilities: { tools: {} }, serverInfo: { name: 'fixture', version: '1.0.0' } });
+    case 'tools/call':
+      if (msg.params.arguments.text === 'slow') return;
+      if (msg.params.arguments.text === 'late') return setTimeout(() => reply({ content: [] }), 400);
+      if (msg.params.arguments.text === 'ask') {
+        asked.set('roots', (response) => reply({ content: [{ type: 'text', text: response.error.message }] }));
+        return send({ jsonrpc: '2.0', id: 'roots', method: 'roots/list' });
+      }
+      send({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'calling' } });
+      return reply({ content: [{ type: 'text', text: msg.params.arguments.text }] });
+    default:
+      send({ jsonrpc: '2.0', id: msg.id, error: { code: -32601, message: 'Method not found' } });
+  }
+});
+`;
+
+const initialize = { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18' } };
+const call = { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'echo', arguments: { text: 'hi' } } };
+
+/**
+ * Read SSE events from a response until `count` have arrived
+ */
+async function readEvents(response: Response, count: number): Promise<SseEvent[]> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SseParser();
+  const events: SseEvent[] = [];
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    events.push(...parser.push(decoder.decode(value, { stream: true })));
+  }
+  await reader.cancel();
+  return events;
+}
+
+describe('startHttpBridge', () => {
+  let dir: string;
+  let bridge: HttpBridge | undefined;
+  const logs: string[] = [];
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mpak-bridge-test-'));
+    writeFileSync(join(dir, 'server.cjs'), SERVER);
+  });
+
+  afterEach(async () => {
+    await bridge?.close();
+    bridge = undefined;
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function start(options: Partial<HttpBridgeOptions> = {}): Promise<HttpBridge> {
+    bridge = await startHttpBridge({
+      transport: 'http',
+      port: 0,
+      host: '127.0.0.1',
+      packageName: '@test/fixture',
+      server: { command: process.execPath, args: [join(dir, 'server.cjs')] },
+      log: (line) => logs.push(line),
+      ...options,
+    });
+    return bridge;
+  }
+
+  function post(url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('serves Streamable HTTP with a session per client', async () => {
+    const { url } = await start();
+    const endpoint = `${url}/mcp`;
+
+    const init = await post(endpoint, initialize);
+    expect(init.status).toBe(200);
+    const session = init.headers.get('mcp-session-id')!;
+    expect(session).toBeTruthy();
+    const body = (await init.json()) as { result: { serverInfo: { name: string } } };
+    expect(body.result.serverInfo.name).toBe('fixture');
+
+    expect((await post(endpoint, { jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': session })).status).toBe(202);
+    const result = await post(endpoint, call, { 'Mcp-Session-Id': session });
+    expect(await result.json()).toEqual({ jsonrpc: '2.0', id: 2, result: { content: [{ type: 'text', text: 'hi' }] } });
+
+    expect((await post(endpoint, call)).status).toBe(400);
+    expect((await post(endpoint, call, { 'Mcp-Session-Id': 'nope' })).status).toBe(404);
+    expect(logs.some((line) => line.includes('stdout] starting'))).toBe(true);
+
+    expect(bridge!.sessions).toBe(1);
+    expect((await fetch(endpoint, { method: 'DELETE', headers: { 'Mcp-Session-Id': session } })).status).toBe(204);
+    expect(bridge!.sessions).toBe(0);
+  });
+
+  it('keeps requests that reuse an id apart', async () => {
+    const { url } = await start();
+    const session = (await post(`${url}/mcp`, initialize)).headers.get('mcp-session-id')!;
+    const echo = (text: string) => ({ ...call, id: 7, params: { name: 'echo', arguments: { text } } });
+
+    const batch = await post(`${url}/mcp`, [echo('a'), echo('b')], { 'Mcp-Session-Id': session });
+    expect(await batch.json()).toEqual([
+      { jsonrpc: '2.0', id: 7, result: { content: [{ type: 'text', text: 'a' }] } },
+      { jsonrpc: '2.0', id: 7, result: { content: [{ type: 'text', text: 'b' }] } },
+    ]);
+
+    const concurrent = await Promise.all(
+      ['c', 'd'].map((text) => post(`${url}/mcp`, echo(text), { 'Mcp-Session-Id': session }).then((r) => r.json()))
+    );
+    expect(concurrent).toMatchObject([
+      { id: 7, result: { content: [{ text: 'c' }] } },
+      { id: 7, result: { content: [{ text: 'd' }] } },
+    ]);
+  });
+
+  it('answers requests the server does not respond to in time', async () => {
+    const { url } = await start({ requestTimeoutMs: 200 });
+    const session = (await post(`${url}/mcp`, initialize)).headers.get('mcp-session-id')!;
+    const slow = { ...call, params: { name: 'echo', arguments: { text: 'slow' } } };
+
+    const response = await post(`${url}/mcp`, slow, { 'Mcp-Session-Id': session });
+    expect(await response.json()).toMatchObject({ id: 2, error: { message: 'Timed out after 200ms waiting for tools/call' } });
+  });
+
+  it('drops responses that arrive after the request timed out', async () => {
+    const { url } = await start({ requestTimeoutMs: 200 });
+    const session = (await post(`${url}/mcp`, initialize)).headers.get('mcp-session-id')!;
+    const stream = await fetch(`${url}/mcp`, { headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': session } });
+    const late = { ...call, params: { name: 'echo', arguments: { text: 'late' } } };
+
+    const response = await post(`${url}/mcp`, late, { 'Mcp-Session-Id': session });
+    expect(await response.json()).toMatchObject({ id: 2, error: { message: 'Timed out after 200ms waiting for tools/call' } });
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    await post(`${url}/mcp`, call, { 'Mcp-Session-Id': session });
+
+    const [event] = await readEvents(stream, 1);
+    expect(JSON.parse(event.data)).toMatchObject({ method: 'notifications/message' });
+    expect(logs.some((line) => line.includes('dropped a late response to mpak-'))).toBe(true);
+  });
+
+  it('answers server requests when the client has no stream', async () => {
+    const { url } = await start();
+    const session = (await post(`${url}/mcp`, initialize)).headers.get('mcp-session-id')!;
+    const ask = { ...call, params: { name: 'echo', arguments: { text: 'ask' } } };
+
+    const response = await post(`${url}/mcp`, ask, { 'Mcp-Session-Id': session });
+    expect(await response.json()).toMatchObject({
+      id: 2,
+      result: { content: [{ text: 'Client has no open stream to receive requests' }] },
+    });
+  });
+
+  it('delivers server notifications on the GET stream', async () => {
+    const { url } = await start();
+    const init = await post(`${url}/mcp`, initialize);
+    const session = init.headers.get('mcp-session-id')!;
+
+    const stream = await fetch(`${url}/mcp`, { headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': session } });
+    expect(stream.headers.get('content-type')).toBe('text/event-stream');
+    await post(`${url}/mcp`, call, { 'Mcp-Session-Id': session });
+
+    const [event] = await readEvents(stream, 1);
+    expect(JSON.parse(event.data)).toMatchObject({ method: 'notifications/message', params: { data: 'calling' } });
+  });
+
+  it('checks bearer tokens and origins, but not for /health', async () => {
+    const { url } = await start({ authToken: 'secret', corsOrigins: ['https://app.example'] });
+
+    const health = await fetch(`${url}/health`);
+    expect(await health.json()).toEqual({ status: 'ok', package: '@test/fixture', transport: 'http', sessions: 0 });
+
+    const denied = await post(`${url}/mcp`, initialize);
+    expect(denied.status).toBe(401);
+    expect(denied.headers.get('www-authenticate')).toBe('Bearer');
+
+    const foreign = await post(`${url}/mcp`, initialize, { Authorization: 'Bearer secret', Origin: 'https://evil.example' });
+    expect(foreign.status).toBe(403);
+
+    const allowed = await post(`${url}/mcp`, initialize, { Authorization: 'Bearer secret', Origin: 'https://app.example' });
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://app.example');
+  });
+
+  it('serves the legacy HTTP+SSE transport', async () => {
+    const { url } = await start({ transport: 'sse' });
+
+    const stream = await fetch(`${url}/sse`, { headers: { Accept: 'text/event-stream' } });
+    const reader = stream.body!.getReader();
+    const parser = new SseParser();
+    const next = async (): Promise<SseEvent> => {
+      for (;;) {
+        const { value } = await reader.read();
+        const [event] = parser.push(new TextDecoder().decode(value));
+        if (event) return event;
+      }
+    };
+
+    const endpoint = await next();
+    expect(endpoint.event).toBe('endpoint');
+    expect(endpoint.data).toMatch(/^\/messages\?sessionId=/);
+
+    expect((await post(`${url}${endpoint.data}`, initialize)).status).toBe(202);
+    expect(JSON.parse((await next()).data)).toMatchObject({ id: 1, result: { serverInfo: { name: 'fixture' } } });
+    await reader.cancel();
+  });
+
+  for (const transport of ['http', 'sse'] as const) {
+    it(`proxies stdio to the ${transport} transport`, async () => {
+      const { url } = await start({ transport });
+      const input = new PassThrough();
+      const output = new PassThrough();
+      let text = '';
+      output.on('data', (chunk: Buffer) => (text += chunk.toString()));
+
+      const done = runStdioProxy({
+        url: `${url}${transport === 'http' ? '/mcp' : '/sse'}`,
+        transport,
+        input,
+        output,
+        log: (line) => logs.push(line),
+      });
+      // The call is sent before the session exists; the proxy holds it until then
+      input.end(JSON.stringify(initialize) + '\n' + JSON.stringify(call) + '\n');
+      await done;
+
+      const messages = text.trim().split('\n').map((line) => JSON.parse(line));
+      expect(messages.find((m) => m.id === 1).result.serverInfo.name).toBe('fixture');
+      expect(messages.find((m) => m.id === 2).result.content[0].text).toBe('hi');
+    });
+  }
+});
@@ -0,0 +1,574 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { URL } from 'url';
+import { DEFAULT_MCP_TIMEOUT_MS, type McpServerCommand } from './client.js';
+import {
+  JsonRpcErrorCode,
+  LineBuffer,
+  isNotification,
+  isRequest,
+  isResponse,
+  parseMessage,
+  serializeMessage,
+  type JsonRpcErrorObject,
+  type JsonRpcId,
+  type JsonRpcMessage,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from './jsonrpc.js';
+import { formatSseEvent } from './sse.js';
+
+/**
+ * HTTP transports a stdio server can be exposed over: Streamable HTTP, or
+ * the older HTTP+SSE transport for legacy clients
+ */
+export type HttpTransport = 'http' | 'sse';
+
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+export const HEALTH_PATH = '/health';
+export const SESSION_HEADER = 'mcp-session-id';
+
+/**
+ * Environment variable with the bearer token clients must send
+ */
+export const BRIDGE_TOKEN_ENV_VAR = 'MPAK_BRIDGE_TOKEN';
+
+/**
+ * Streamable HTTP sessions without traffic for this long are closed
+ */
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60_000;
+
+/**
+ * Largest request body accepted
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Prefix of the ids given to requests forwarded by request()
+ */
+const INTERNAL_ID_PREFIX = 'mpak-';
+
+/**
+ * Comment sent on idle SSE streams so proxies keep them open
+ */
+const SSE_KEEPALIVE_MS = 25_000;
+
+/**
+ * Time a server gets to exit after its stdin closes before it is signalled
+ */
+const SESSION_SHUTDOWN_GRACE_MS = 2_000;
+
+export interface HttpBridgeOptions {
+  transport: HttpTransport;
+  /** Port to listen on (0 picks a free one) */
+  port: number;
+  host: string;
+  /** Package name for logs and /health */
+  packageName: string;
+  /** Package version for /health */
+  packageVersion?: string;
+  /** How to start one server process (one per session) */
+  server: McpServerCommand;
+  /** Require `Authorization: Bearer <token>` */
+  authToken?: string;
+  /** Browser origins allowed to connect ('*' for any); other origins are refused */
+  corsOrigins?: string[];
+  sessionIdleMs?: number;
+  /** Time to wait for the server's response to each request (default 30s) */
+  requestTimeoutMs?: number;
+  /** Where status lines go (default stderr) */
+  log?: (_line: string) => void;
+}
+
+export interface HttpBridge {
+  /** Base URL, e.g. http://127.0.0.1:8080 */
+  url: string;
+  /** Open sessions */
+  readonly sessions: number;
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  public readonly status: number;
+  public readonly code: number;
+
+  constructor(status: number, message: string, code: number = -32000) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * A request forwarded to the server under an id of the bridge's own, so
+ * clients reusing ids (across concurrent POSTs or within a batch) can't
+ * collide
+ */
+interface PendingRequest {
+  clientId: JsonRpcId;
+  settle: (_response: JsonRpcResponse) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * One client session: a server process of its own, plus the SSE stream
+ * server-initiated messages are delivered on
+ */
+class BridgeSession {
+  readonly id = randomUUID();
+  lastActive = Date.now();
+  private readonly child: ChildProcess;
+  private readonly routeResponses: boolean;
+  private readonly requestTimeoutMs: number;
+  private readonly log: (_line: string) => void;
+  private readonly waiting = new Map<string, PendingRequest>();
+  private nextRequestId = 0;
+  private stream: ServerResponse | null = null;
+  private keepalive: NodeJS.Timeout | null = null;
+  private closed = false;
+  readonly exited: Promise<void>;
+
+  /**
+   * @param routeResponses deliver responses to request() callers (Streamable
+   * HTTP) instead of the stream (HTTP+SSE)
+   */
+  constructor(
+    server: McpServerCommand,
+    routeResponses: boolean,
+    requestTimeoutMs: number,
+    log: (_line: string) => void,
+    onExit: () => void
+  ) {
+    this.routeResponses = routeResponses;
+    this.requestTimeoutMs = requestTimeoutMs;
+    this.log = log;
+    this.child = spawn(server.command, server.args, {
+      cwd: server.cwd,
+      env: server.env,
+      stdio: ['pipe', 'pipe', 'inherit'],
+    });
+
+    const stdout = new LineBuffer();
+    this.child.stdout!.setEncoding('utf8');
+    this.child.stdout!.on('data', (chunk: string) => {
+      for (const line of stdout.push(chunk)) this.onLine(line);
+    });
+    this.child.stdin!.on('error', () => {});
+
+    this.exited = new Promise((resolve) => {
+      const finish = (reason: string) => {
+        if (!this.closed) this.log(`=> Session ${this.shortId} server ${reason}`);
+        this.closed = true;
+        for (const internalId of [...this.waiting.keys()]) {
+          this.settle(internalId, { code: JsonRpcErrorCode.INTERNAL_ERROR, message: `Server ${reason}` });
+        }
+        this.detachStream(true);
+        onExit();
+        resolve();
+      };
+      this.child.on('close', (code, signal) => finish(signal ? `exited on ${signal}` : `exited with code ${code}`));
+      this.child.on('error', (err) => finish(`failed to start: ${err.message}`));
+    });
+  }
+
+  get shortId(): string {
+    return this.id.slice(0, 8);
+  }
+
+  get hasStream(): boolean {
+    return this.stream !== null;
+  }
+
+  send(message: JsonRpcMessage): void {
+    this.lastActive = Date.now();
+    if (!this.closed) this.child.stdin!.write(serializeMessage(message));
+  }
+
+  /**
+   * Pass on a client notification or response. A cancellation names the
+   * client's request id, so it is translated to the id the server saw.
+   */
+  forward(message: JsonRpcMessage): void {
+    if (isNotification(message) && message.method === 'notifications/cancelled') {
+      const requestId = (message.params as { requestId?: JsonRpcId } | undefined)?.requestId;
+      const internalId = [...this.waiting].find(([, pending]) => pending.clientId === requestId)?.[0];
+      if (internalId !== undefined) {
+        this.send({ ...message, params: { ...message.params, requestId: internalId } });
+        return;
+      }
+    }
+    this.send(message);
+  }
+
+  /**
+   * Send a request and wait for the server's response. Requests the server
+   * doesn't answer in time get an error response (and are cancelled).
+   */
+  request(message: JsonRpcRequest): Promise<JsonRpcResponse> {
+    if (this.closed) {
+      return Promise.resolve({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: JsonRpcErrorCode.INTERNAL_ERROR, message: 'Server has exited' },
+      });
+    }
+    const internalId = `${INTERNAL_ID_PREFIX}${++this.nextRequestId}`;
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.settle(internalId, {
+          code: JsonRpcErrorCode.INTERNAL_ERROR,
+          message: `Timed out after ${this.requestTimeoutMs}ms waiting for ${message.method}`,
+        });
+        this.send({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: internalId, reason: 'Timed out' } });
+      }, this.requestTimeoutMs);
+      this.waiting.set(internalId, { clientId: message.id, settle: resolve, timer });
+      this.send({ ...message, id: internalId });
+    });
+  }
+
+  /**
+   * Complete a forwarded request with the server's response or an error,
+   * restoring the client's id
+   */
+  private settle(internalId: string, outcome: JsonRpcResponse | JsonRpcErrorObject): void {
+    const pending = this.waiting.get(internalId);
+    if (!pending) return;
+    this.waiting.delete(internalId);
+    clearTimeout(pending.timer);
+    pending.settle(
+      'jsonrpc' in outcome
+        ? { ...outcome, id: pending.clientId }
+        : { jsonrpc: '2.0', id: pending.clientId, error: outcome }
+    );
+  }
+
+  attachStream(res: ServerResponse): void {
+    this.stream = res;
+    this.keepalive = setInterval(() => res.write(': keepalive\n\n'), SSE_KEEPALIVE_MS);
+    this.keepalive.unref();
+  }
+
+  detachStream(end = false): void {
+    if (this.keepalive) clearInterval(this.keepalive);
+    this.keepalive = null;
+    if (end && this.stream && !this.stream.writableEnded) this.stream.end();
+    this.stream = null;
+  }
+
+  /**
+   * End the session: close the server's stdin, then SIGTERM it if needed
+   */
+  async close(): Promise<void> {
+    if (!this.closed) {
+      this.closed = true;
+      this.log(`=> Session ${this.shortId} closed`);
+      this.child.stdin!.end();
+      const timer = setTimeout(() => this.child.kill('SIGTERM'), SESSION_SHUTDOWN_GRACE_MS);
+      await this.exited;
+      clearTimeout(timer);
+    }
+  }
+
+  private onLine(line: string): void {
+    const message = parseMessage(line);
+    if (!message) {
+      // Anything else on stdout would corrupt the stream
+      if (line.trim()) this.log(`[session ${this.shortId} stdout] ${line}`);
+      return;
+    }
+    this.lastActive = Date.now();
+
+    if (this.routeResponses && isResponse(message) && String(message.id).startsWith(INTERNAL_ID_PREFIX)) {
+      // A response to a request that already timed out has no one to go to
+      if (this.waiting.has(String(message.id))) {
+        this.settle(String(message.id), message);
+      } else {
+        this.log(`=> Session ${this.shortId} dropped a late response to ${message.id}`);
+      }
+      return;
+    }
+    if (this.stream) {
+      this.stream.write(formatSseEvent({ event: 'message', data: JSON.stringify(message) }));
+      return;
+    }
+    // Without a stream, notifications have nowhere to go; a request must
+    // still be answered or the server would wait for it forever
+    if (isRequest(message)) {
+      this.send({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: JsonRpcErrorCode.INTERNAL_ERROR, message: 'Client has no open stream to receive requests' },
+      });
+    }
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Parse a POST body into JSON-RPC messages (a single message or a batch)
+ */
+export function parseBody(body: string): { messages: JsonRpcMessage[]; batch: boolean } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Parse error: body is not valid JSON', JsonRpcErrorCode.PARSE_ERROR);
+  }
+  const batch = Array.isArray(parsed);
+  const items = batch ? (parsed as unknown[]) : [parsed];
+  const messages = items.map((item) => parseMessage(JSON.stringify(item)));
+  if (items.length === 0 || messages.some((message) => message === null)) {
+    throw new HttpError(400, 'Invalid request: expected JSON-RPC 2.0 messages', JsonRpcErrorCode.INVALID_REQUEST);
+  }
+  return { messages: messages as JsonRpcMessage[], batch };
+}
+
+/**
+ * Compare a bearer token in constant time
+ */
+function tokenMatches(header: string | undefined, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: HttpError): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  const headers: Record<string, string> = error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {};
+  sendJson(res, error.status, { jsonrpc: '2.0', id: null, error: { code: error.code, message: error.message } }, headers);
+}
+
+function openEventStream(res: ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+}
+
+/**
+ * Serve a stdio MCP server over HTTP. Each client session gets its own
+ * server process, started with the given command.
+ */
+export async function startHttpBridge(options: HttpBridgeOptions): Promise<HttpBridge> {
+  const log = options.log ?? ((line: string) => process.stderr.write(line + '\n'));
+  const sessions = new Map<string, BridgeSession>();
+  const corsOrigins = options.corsOrigins ?? [];
+  const idleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_MCP_TIMEOUT_MS;
+
+  const openSession = (routeResponses: boolean): BridgeSession => {
+    const session = new BridgeSession(options.server, routeResponses, requestTimeoutMs, log, () => sessions.delete(session.id));
+    sessions.set(session.id, session);
+    log(`=> Session ${session.shortId} started`);
+    return session;
+  };
+
+  const findSession = (id: string | null | undefined): BridgeSession => {
+    if (!id) throw new HttpError(400, `Bad request: missing ${SESSION_HEADER} header`);
+    const session = sessions.get(id);
+    if (!session) throw new HttpError(404, 'Session not found');
+    return session;
+  };
+
+  /**
+   * Browsers send Origin; refuse origins that weren't allowed (this also
+   * guards a local server against DNS rebinding)
+   */
+  const applyCors = (req: IncomingMessage, res: ServerResponse): void => {
+    const origin = req.headers.origin;
+    if (!origin) return;
+    if (!corsOrigins.includes('*') && !corsOrigins.includes(origin)) {
+      throw new HttpError(403, `Origin ${origin} is not allowed`);
+    }
+    res.setHeader('Access-Control-Allow-Origin', corsOrigins.includes('*') ? '*' : origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+  };
+
+  const handleStreamablePost = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const { messages, batch } = parseBody(await readBody(req));
+    const initialize = messages.find((message) => isRequest(message) && message.method === 'initialize');
+
+    let session: BridgeSession;
+    if (initialize) {
+      if (messages.length > 1) {
+        throw new HttpError(400, 'Invalid request: initialize must be sent on its own', JsonRpcErrorCode.INVALID_REQUEST);
+      }
+      session = openSession(true);
+    } else {
+      session = findSession(req.headers[SESSION_HEADER] as string | undefined);
+    }
+
+    const requests = messages.filter(isRequest);
+    for (const message of messages) {
+      if (!isRequest(message)) session.forward(message);
+    }
+    if (requests.length === 0) {
+      res.writeHead(202).end();
+      return;
+    }
+
+    const responses = await Promise.all(requests.map((request) => session.request(request)));
+    sendJson(res, 200, batch ? responses : responses[0], initialize ? { 'Mcp-Session-Id': session.id } : {});
+  };
+
+  const handleStreamableGet = (req: IncomingMessage, res: ServerResponse): void => {
+    if (!String(req.headers.accept ?? '').includes('text/event-stream')) {
+      throw new HttpError(406, 'Not acceptable: GET requires Accept: text/event-stream');
+    }
+    const session = findSession(req.headers[SESSION_HEADER] as string | undefined);
+    if (session.hasStream) {
+      throw new HttpError(409, 'Conflict: this session already has an open stream');
+    }
+    openEventStream(res);
+    session.attachStream(res);
+    req.on('close', () => session.detachStream());
+  };
+
+  const handleSseConnect = (req: IncomingMessage, res: ServerResponse): void => {
+    const session = openSession(false);
+    openEventStream(res);
+    res.write(formatSseEvent({ event: 'endpoint', data: `${SSE_MESSAGES_PATH}?sessionId=${session.id}` }));
+    session.attachStream(res);
+    // The legacy transport's session lives as long as its stream
+    req.on('close', () => {
+      session.detachStream();
+      session.close();
+    });
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const session = findSession(url.searchParams.get('sessionId'));
+    const { messages } = parseBody(await readBody(req));
+    for (const message of messages) session.send(message);
+    res.writeHead(202).end('Accepted');
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    applyCors(req, res);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, Mcp-Session-Id, MCP-Protocol-Version, Last-Event-ID',
+      });
+      res.end();
+      return;
+    }
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        package: options.packageName,
+        ...(options.packageVersion ? { version: options.packageVersion } : {}),
+        transport: options.transport,
+        sessions: sessions.size,
+      });
+      return;
+    }
+
+    if (options.authToken && !tokenMatches(req.headers.authorization, options.authToken)) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+
+    const endpoint = `${options.transport}:${url.pathname}`;
+    switch (`${endpoint} ${req.method}`) {
+      case `http:${MCP_PATH} POST`:
+        return handleStreamablePost(req, res);
+      case `http:${MCP_PATH} GET`:
+        return handleStreamableGet(req, res);
+      case `http:${MCP_PATH} DELETE`: {
+        const session = findSession(req.headers[SESSION_HEADER] as string | undefined);
+        await session.close();
+        res.writeHead(204).end();
+        return;
+      }
+      case `sse:${SSE_PATH} GET`:
+        return handleSseConnect(req, res);
+      case `sse:${SSE_MESSAGES_PATH} POST`:
+        return handleSseMessage(req, res, url);
+    }
+
+    const known = options.transport === 'http' ? [MCP_PATH] : [SSE_PATH, SSE_MESSAGES_PATH];
+    if (known.includes(url.pathname)) {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+    throw new HttpError(404, `Not found: ${url.pathname}`);
+  };
+
+  const server: Server = createServer((req, res) => {
+    route(req, res).catch((err: unknown) => {
+      sendError(res, err instanceof HttpError ? err : new HttpError(500, err instanceof Error ? err.message : String(err)));
+    });
+  });
+
+  // Streamable HTTP sessions have no connection to watch; close idle ones
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - idleMs;
+    for (const session of sessions.values()) {
+      if (!session.hasStream && session.lastActive < cutoff) {
+        log(`=> Session ${session.shortId} idle, closing`);
+        session.close();
+      }
+    }
+  }, Math.min(idleMs, 60_000));
+  sweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    get sessions() {
+      return sessions.size;
+    },
+    async close() {
+      clearInterval(sweep);
+      await Promise.all([...sessions.values()].map((session) => session.close()));
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
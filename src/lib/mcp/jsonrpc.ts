@@ -0,0 +1,111 @@
+/**
+ * JSON-RPC 2.0 messages as exchanged with MCP servers. Over stdio each
+ * message is one line of JSON.
+ */
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * Standard JSON-RPC error codes
+ */
+export const JsonRpcErrorCode = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+export function isRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return 'method' in message && 'id' in message && message.id !== undefined;
+}
+
+export function isNotification(message: JsonRpcMessage): message is JsonRpcNotification {
+  return 'method' in message && !('id' in message && message.id !== undefined);
+}
+
+export function isResponse(message: JsonRpcMessage): message is JsonRpcResponse {
+  return !('method' in message) && 'id' in message;
+}
+
+/**
+ * Parse one line of a stdio stream. Returns null for lines that are not a
+ * JSON-RPC message (blank lines, or a server logging to stdout).
+ */
+export function parseMessage(line: string): JsonRpcMessage | null {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return null;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null || (parsed as { jsonrpc?: unknown }).jsonrpc !== '2.0') {
+    return null;
+  }
+  return parsed as JsonRpcMessage;
+}
+
+/**
+ * Serialize a message for a stdio stream (one line)
+ */
+export function serializeMessage(message: JsonRpcMessage): string {
+  return JSON.stringify(message) + '\n';
+}
+
+/**
+ * Splits a byte stream into lines, buffering partial lines between chunks
+ */
+export class LineBuffer {
+  private pending = '';
+
+  /**
+   * Add a chunk and return the complete lines it finished
+   */
+  push(chunk: string): string[] {
+    this.pending += chunk;
+    const lines = this.pending.split('\n');
+    this.pending = lines.pop() ?? '';
+    return lines.map((line) => (line.endsWith('\r') ? line.slice(0, -1) : line));
+  }
+
+  /**
+   * Return whatever is left when the stream ends
+   */
+  flush(): string[] {
+    const rest = this.pending;
+    this.pending = '';
+    return rest ? [rest] : [];
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'stream';
+import type { ChildProcess } from 'child_process';
+import { relayStdio } from './relay.js';
+
+function fakeChild() {
+  return { stdin: new PassThrough(), stdout: new PassThrough() };
+}
+
+function collect(stream: PassThrough): () => string {
+  let text = '';
+  stream.setEncoding('utf8');
+  stream.on('data', (chunk: string) => (text += chunk));
+  return () => text;
+}
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('relayStdio', () => {
+  it('forwards both directions unchanged', async () => {
+    const child = fakeChild();
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const toServer = collect(child.stdin);
+    const toClient = collect(output);
+
+    relayStdio(child as unknown as ChildProcess, { input, output });
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    child.stdout.write('log line\n{"jsonrpc":"2.0","id":1,"result":{}}\n');
+    await tick();
+
+    expect(toServer()).toBe('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    expect(toClient()).toBe('log line\n{"jsonrpc":"2.0","id":1,"result":{}}\n');
+  });
+
+  it('diverts stdout lines that are not JSON-RPC when guarding', async () => {
+    const child = fakeChild();
+    const output = new PassThrough();
+    const toClient = collect(output);
+    const diverted: string[] = [];
+
+    relayStdio(child as unknown as ChildProcess, {
+      input: new PassThrough(),
+      output,
+      onInvalidLine: (line) => diverted.push(line),
+    });
+    child.stdout.write('Server started\n\n{"jsonrpc":"2.0","id":1,');
+    child.stdout.write('"result":{}}\r\n{"not":"jsonrpc"}\n');
+    child.stdout.end('trailing');
+    await tick();
+
+    expect(toClient()).toBe('{"jsonrpc":"2.0","id":1,"result":{}}\n');
+    expect(diverted).toEqual(['Server started', '{"not":"jsonrpc"}', 'trailing']);
+  });
+});
@@ -0,0 +1,72 @@
+import type { ChildProcess } from 'child_process';
+import { LineBuffer, parseMessage } from './jsonrpc.js';
+import type { TraceRecorder } from './trace.js';
+
+export interface RelayOptions {
+  /** Record every line in both directions */
+  recorder?: TraceRecorder;
+  /**
+   * Forward only JSON-RPC messages from the server's stdout and pass every
+   * other non-blank line here instead
+   */
+  onInvalidLine?: (_line: string) => void;
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+/**
+ * Relay stdio between this process and a server spawned with piped
+ * stdin/stdout. Without onInvalidLine, bytes are forwarded unchanged.
+ * Returns a function that stops reading input for this server (so a
+ * restarted server can take over); input is paused until then.
+ */
+export function relayStdio(child: ChildProcess, options: RelayOptions = {}): () => void {
+  const { recorder, onInvalidLine } = options;
+  const input: NodeJS.ReadableStream = options.input ?? process.stdin;
+  const output: NodeJS.WritableStream = options.output ?? process.stdout;
+
+  const fromClient = new LineBuffer();
+  const onData = (chunk: string) => {
+    child.stdin!.write(chunk);
+    if (recorder) {
+      for (const line of fromClient.push(chunk)) recorder.line('client', line);
+    }
+  };
+  const onEnd = () => {
+    if (recorder) {
+      for (const line of fromClient.flush()) recorder.line('client', line);
+    }
+    child.stdin!.end();
+  };
+  input.setEncoding('utf8');
+  input.on('data', onData);
+  input.on('end', onEnd);
+  input.resume();
+  // The server may exit before the client stops writing
+  child.stdin!.on('error', () => {});
+
+  const fromServer = new LineBuffer();
+  const serverLine = (line: string) => {
+    recorder?.line('server', line);
+    if (!onInvalidLine) return;
+    if (parseMessage(line)) {
+      output.write(line + '\n');
+    } else if (line.trim()) {
+      onInvalidLine(line);
+    }
+  };
+  child.stdout!.setEncoding('utf8');
+  child.stdout!.on('data', (chunk: string) => {
+    if (!onInvalidLine) output.write(chunk);
+    for (const line of fromServer.push(chunk)) serverLine(line);
+  });
+  child.stdout!.on('end', () => {
+    for (const line of fromServer.flush()) serverLine(line);
+  });
+
+  return () => {
+    input.pause();
+    input.off('data', onData);
+    input.off('end', onEnd);
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { SseParser, formatSseEvent } from './sse.js';
+
+describe('formatSseEvent', () => {
+  it('writes one data field per line', () => {
+    expect(formatSseEvent({ event: 'message', data: 'a\nb', id: '7' })).toBe('id: 7\nevent: message\ndata: a\ndata: b\n\n');
+  });
+});
+
+describe('SseParser', () => {
+  it('parses events split across chunks and line endings', () => {
+    const parser = new SseParser();
+    expect(parser.push(': comment\nevent: endpoint\r')).toEqual([]);
+    expect(parser.push('\ndata: /messages?sessionId=1\r\n\r\ndata: {"a":')).toEqual([
+      { event: 'endpoint', data: '/messages?sessionId=1' },
+    ]);
+    expect(parser.push('1}\ndata:2\n\n')).toEqual([{ event: 'message', data: '{"a":1}\n2' }]);
+  });
+
+  it('round-trips formatted events', () => {
+    const parser = new SseParser();
+    const text = formatSseEvent({ event: 'message', data: '{"x":1}' }) + formatSseEvent({ event: 'ping', data: '' });
+    expect(parser.push(text)).toEqual([
+      { event: 'message', data: '{"x":1}' },
+      { event: 'ping', data: '' },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Server-Sent Events framing, used by the MCP HTTP transports
+ */
+
+export interface SseEvent {
+  /** Event type (defaults to "message") */
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Encode one event. Multi-line data becomes several data: fields.
+ * @example formatSseEvent({ event: 'message', data: '{}' }) => 'event: message\ndata: {}\n\n'
+ */
+export function formatSseEvent(event: SseEvent): string {
+  let text = '';
+  if (event.id !== undefined) text += `id: ${event.id}\n`;
+  text += `event: ${event.event}\n`;
+  for (const line of event.data.split('\n')) text += `data: ${line}\n`;
+  return text + '\n';
+}
+
+/**
+ * Incremental SSE parser: feed it chunks, get back complete events
+ */
+export class SseParser {
+  private pending = '';
+  private event = '';
+  private data: string[] = [];
+  private id: string | undefined;
+
+  push(chunk: string): SseEvent[] {
+    let text = this.pending + chunk;
+    // A trailing \r may be the first half of \r\n; wait for the next chunk
+    const carry = text.endsWith('\r') ? '\r' : '';
+    if (carry) text = text.slice(0, -1);
+    const lines = text.split(/\r\n|\r|\n/);
+    this.pending = (lines.pop() ?? '') + carry;
+
+    const events: SseEvent[] = [];
+    for (const line of lines) {
+      const event = this.line(line);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  private line(line: string): SseEvent | null {
+    if (line === '') {
+      if (this.data.length === 0) {
+        this.event = '';
+        return null;
+      }
+      const event: SseEvent = { event: this.event || 'message', data: this.data.join('\n') };
+      if (this.id !== undefined) event.id = this.id;
+      this.event = '';
+      this.data = [];
+      return event;
+    }
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.event = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        this.id = value;
+        break;
+      // retry and unknown fields are ignored
+    }
+    return null;
+  }
+}
@@ -0,0 +1,288 @@
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import { URL } from 'url';
+import { getUserAgent } from '../api/http-client.js';
+import {
+  JsonRpcErrorCode,
+  LineBuffer,
+  isRequest,
+  isResponse,
+  parseMessage,
+  serializeMessage,
+  type JsonRpcId,
+  type JsonRpcMessage,
+} from './jsonrpc.js';
+import { SseParser } from './sse.js';
+import type { HttpTransport } from './http-bridge.js';
+
+/**
+ * How long to wait for responses still owed when input ends
+ */
+const DRAIN_TIMEOUT_MS = 10_000;
+
+export interface StdioProxyOptions {
+  /** Streamable HTTP endpoint, or the SSE endpoint for the legacy transport */
+  url: string;
+  transport: HttpTransport;
+  /** Extra request headers (e.g. Authorization) */
+  headers?: Record<string, string>;
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  /** Where status lines go (default stderr) */
+  log?: (_line: string) => void;
+}
+
+/**
+ * Read a streamed response body as SSE events, calling onEvent for each
+ */
+async function readEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (_event: { event: string; data: string }) => void
+): Promise<void> {
+  const parser = new SseParser();
+  const stream = Readable.fromWeb(body as Parameters<typeof Readable.fromWeb>[0]);
+  stream.setEncoding('utf8');
+  for await (const chunk of stream) {
+    for (const event of parser.push(chunk as string)) onEvent(event);
+  }
+}
+
+/**
+ * Bridge a remote MCP server to stdio: JSON-RPC lines read from input are
+ * sent to the server over HTTP, and everything the server sends back is
+ * written to output as lines. Resolves when input ends.
+ */
+export async function runStdioProxy(options: StdioProxyOptions): Promise<void> {
+  const input: NodeJS.ReadableStream = options.input ?? process.stdin;
+  const output: NodeJS.WritableStream = options.output ?? process.stdout;
+  const log = options.log ?? ((line: string) => process.stderr.write(line + '\n'));
+  const baseHeaders = { 'User-Agent': getUserAgent(), ...options.headers };
+  const abort = new AbortController();
+  const inFlight = new Set<Promise<void>>();
+  // Requests from the client that have no response yet
+  const unanswered = new Set<JsonRpcId>();
+  let drained: (() => void) | null = null;
+
+  const write = (message: JsonRpcMessage) => {
+    output.write(serializeMessage(message));
+    if (isResponse(message) && message.id !== null && unanswered.delete(message.id) && unanswered.size === 0) {
+      drained?.();
+    }
+  };
+
+  /**
+   * Write a server message from an HTTP body or SSE event (re-serialized so
+   * it is always one line)
+   */
+  const writeData = (data: string) => {
+    const message = parseMessage(data.replace(/\n/g, ' '));
+    if (message) write(message);
+    else log(`=> Ignoring a server message that is not JSON-RPC: ${data.slice(0, 200)}`);
+  };
+
+  /**
+   * Answer a request the server couldn't take, so the client isn't left waiting
+   */
+  const fail = (message: JsonRpcMessage, reason: string) => {
+    log(`=> ${reason}`);
+    if (isRequest(message)) {
+      write({ jsonrpc: '2.0', id: message.id, error: { code: JsonRpcErrorCode.INTERNAL_ERROR, message: reason } });
+    }
+  };
+
+  const describeFailure = async (response: Response): Promise<string> => {
+    const text = (await response.text().catch(() => '')).trim();
+    let detail = text.slice(0, 200);
+    try {
+      detail = JSON.parse(text).error?.message ?? detail;
+    } catch {
+      // Not JSON
+    }
+    return `Server responded with HTTP ${response.status}${detail ? `: ${detail}` : ''}`;
+  };
+
+  let send: (_message: JsonRpcMessage) => Promise<void>;
+  let finish: () => Promise<void>;
+
+  if (options.transport === 'http') {
+    let sessionId: string | undefined;
+    let protocolVersion: string | undefined;
+    let listening = false;
+    // Messages after initialize wait for its response, which carries the session id
+    let initializing: Promise<void> = Promise.resolve();
+
+    // Server-initiated messages arrive on a GET stream once there is a session
+    const listen = async () => {
+      listening = true;
+      const response = await fetch(options.url, {
+        headers: { ...baseHeaders, Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId! },
+        signal: abort.signal,
+      });
+      // 405: the server doesn't offer a stream
+      if (!response.ok || !response.body) return;
+      await readEvents(response.body, (event) => {
+        if (event.event === 'message') writeData(event.data);
+      });
+    };
+
+    const post = async (message: JsonRpcMessage) => {
+      const headers: Record<string, string> = {
+        ...baseHeaders,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      };
+      if (sessionId) headers['Mcp-Session-Id'] = sessionId;
+      if (protocolVersion) headers['MCP-Protocol-Version'] = protocolVersion;
+
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(message),
+        signal: abort.signal,
+      });
+      if (!response.ok) {
+        fail(message, await describeFailure(response));
+        return;
+      }
+
+      const newSession = response.headers.get('mcp-session-id');
+      if (newSession && newSession !== sessionId) sessionId = newSession;
+
+      const handle = (reply: JsonRpcMessage) => {
+        if (isRequest(message) && message.method === 'initialize' && isResponse(reply) && reply.id === message.id) {
+          protocolVersion = (reply.result as { protocolVersion?: string } | undefined)?.protocolVersion;
+        }
+        write(reply);
+      };
+
+      const type = response.headers.get('content-type') ?? '';
+      if (response.status === 202 || !response.body) {
+        await response.body?.cancel();
+      } else if (type.includes('text/event-stream')) {
+        await readEvents(response.body, (event) => {
+          if (event.event !== 'message') return;
+          const reply = parseMessage(event.data.replace(/\n/g, ' '));
+          if (reply) handle(reply);
+        });
+      } else {
+        const body = JSON.parse(await response.text()) as JsonRpcMessage | JsonRpcMessage[];
+        for (const reply of Array.isArray(body) ? body : [body]) handle(reply);
+      }
+
+      if (sessionId && !listening) {
+        listen().catch((err: unknown) => {
+          if (!abort.signal.aborted) log(`=> Server stream closed: ${err instanceof Error ? err.message : err}`);
+        });
+      }
+    };
+
+    send = async (message) => {
+      if (isRequest(message) && message.method === 'initialize') {
+        const done = post(message);
+        initializing = done.catch(() => {});
+        return done;
+      }
+      await initializing;
+      return post(message);
+    };
+
+    finish = async () => {
+      if (!sessionId) return;
+      await fetch(options.url, {
+        method: 'DELETE',
+        headers: { ...baseHeaders, 'Mcp-Session-Id': sessionId },
+      }).catch(() => {});
+    };
+  } else {
+    // Legacy HTTP+SSE: the stream announces where to POST messages
+    const endpoint = new Promise<string>((resolve, reject) => {
+      (async () => {
+        const response = await fetch(options.url, {
+          headers: { ...baseHeaders, Accept: 'text/event-stream' },
+          signal: abort.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(await describeFailure(response));
+        }
+        await readEvents(response.body, (event) => {
+          if (event.event === 'endpoint') resolve(new URL(event.data.trim(), options.url).toString());
+          else if (event.event === 'message') writeData(event.data);
+        });
+        if (!abort.signal.aborted) log('=> Server closed the event stream');
+        // No-op if the endpoint was announced; otherwise sends fail instead of waiting
+        reject(new Error('event stream closed before the server announced its message endpoint'));
+      })().catch(reject);
+    });
+    // Surface connection failures through send()
+    endpoint.catch(() => {});
+
+    // POSTs are answered with 202 straight away; send them one at a time so
+    // the server sees messages in order
+    let previous: Promise<void> = Promise.resolve();
+    const post = async (message: JsonRpcMessage) => {
+      const target = await endpoint;
+      const response = await fetch(target, {
+        method: 'POST',
+        headers: { ...baseHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify(message),
+        signal: abort.signal,
+      });
+      if (!response.ok) {
+        fail(message, await describeFailure(response));
+      } else {
+        await response.body?.cancel();
+      }
+    };
+    send = (message) => {
+      const done = previous.then(() => post(message));
+      previous = done.catch(() => {});
+      return done;
+    };
+    finish = async () => {};
+  }
+
+  const dispatch = (message: JsonRpcMessage) => {
+    if (isRequest(message)) unanswered.add(message.id);
+    const task = send(message)
+      .catch((err: unknown) => {
+        if (abort.signal.aborted) return;
+        const cause = err instanceof Error ? ((err.cause as Error | undefined)?.message ?? err.message) : String(err);
+        fail(message, `Could not reach ${options.url} (${cause})`);
+      })
+      .finally(() => inFlight.delete(task));
+    inFlight.add(task);
+  };
+
+  const onLine = (line: string) => {
+    if (!line.trim()) return;
+    const message = parseMessage(line);
+    if (message) dispatch(message);
+    else log(`=> Ignoring input that is not JSON-RPC: ${line.slice(0, 200)}`);
+  };
+
+  const lines = new LineBuffer();
+  input.setEncoding('utf8');
+  await new Promise<void>((resolve) => {
+    input.on('data', (chunk: string) => lines.push(chunk).forEach(onLine));
+    input.on('end', () => {
+      lines.flush().forEach(onLine);
+      resolve();
+    });
+  });
+
+  // Let requests already sent finish (over legacy SSE, responses arrive on
+  // the stream after the POST), then end the session
+  while (inFlight.size > 0) {
+    await Promise.all([...inFlight]);
+  }
+  if (unanswered.size > 0) {
+    let timer: NodeJS.Timeout | undefined;
+    await new Promise<void>((resolve) => {
+      drained = resolve;
+      timer = setTimeout(resolve, DRAIN_TIMEOUT_MS);
+    });
+    clearTimeout(timer);
+  }
+  await finish();
+  abort.abort();
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { coerceValue, parseToolArgs, validateToolArgs } from './tool-args.js';
+
+const schema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string' },
+    limit: { type: 'integer', minimum: 1 },
+    exact: { type: 'boolean' },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['query'],
+};
+
+describe('coerceValue', () => {
+  it('converts values to the schema type', () => {
+    expect(coerceValue('5', { type: 'integer' })).toBe(5);
+    expect(coerceValue('1.5', { type: 'number' })).toBe(1.5);
+    expect(coerceValue('true', { type: 'boolean' })).toBe(true);
+    expect(coerceValue('["a"]', { type: 'array' })).toEqual(['a']);
+    expect(coerceValue('42', { type: 'string' })).toBe('42');
+  });
+
+  it('passes values that do not convert through unchanged', () => {
+    expect(coerceValue('many', { type: 'integer' })).toBe('many');
+    expect(coerceValue('yes', { type: 'boolean' })).toBe('yes');
+    expect(coerceValue('', { type: 'number' })).toBe('');
+  });
+
+  it('parses JSON for untyped properties and keeps plain strings', () => {
+    expect(coerceValue('{"a":1}', undefined)).toEqual({ a: 1 });
+    expect(coerceValue('hello', undefined)).toBe('hello');
+  });
+});
+
+describe('parseToolArgs', () => {
+  it('builds typed arguments from key=value pairs', () => {
+    expect(parseToolArgs(['query=a=b', 'limit=5', 'exact=false', 'tags=["x"]'], schema)).toEqual({
+      query: 'a=b',
+      limit: 5,
+      exact: false,
+      tags: ['x'],
+    });
+  });
+
+  it('rejects pairs without a key', () => {
+    expect(() => parseToolArgs(['=5'], schema)).toThrow('Use key=value');
+    expect(() => parseToolArgs(['query'], schema)).toThrow('Use key=value');
+  });
+});
+
+describe('validateToolArgs', () => {
+  it('accepts valid arguments', () => {
+    expect(validateToolArgs({ query: 'cats', limit: 2 }, schema)).toEqual([]);
+  });
+
+  it('reports missing and invalid arguments by path', () => {
+    const issues = validateToolArgs({ limit: 0, tags: [1] }, schema);
+
+    expect(issues).toHaveLength(3);
+    expect(issues[0]).toMatch(/^query: /);
+    expect(issues[1]).toMatch(/^limit: /);
+    expect(issues[2]).toMatch(/^tags\.0: /);
+  });
+});
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { CLIError } from '../../utils/errors.js';
+
+type JsonSchema = Record<string, unknown>;
+
+function propertySchema(inputSchema: JsonSchema, key: string): JsonSchema | undefined {
+  const properties = inputSchema.properties as Record<string, JsonSchema> | undefined;
+  return properties?.[key];
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Convert a command-line string to the type the schema asks for. Values
+ * that don't convert are passed through so validation can report them.
+ * @example coerceValue('5', { type: 'integer' }) => 5
+ */
+export function coerceValue(raw: string, schema: JsonSchema | undefined): unknown {
+  switch (schema?.type) {
+    case 'string':
+      return raw;
+    case 'number':
+    case 'integer': {
+      const value = Number(raw);
+      return raw.trim() !== '' && !Number.isNaN(value) ? value : raw;
+    }
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : raw;
+    default:
+      // Objects, arrays, unions and untyped properties: JSON if it parses
+      return parseJson(raw);
+  }
+}
+
+/**
+ * Parse `key=value` pairs into tool arguments, typed by the input schema
+ * @example parseToolArgs(['q=cats', 'limit=5'], schema) => { q: 'cats', limit: 5 }
+ */
+export function parseToolArgs(pairs: string[], inputSchema: JsonSchema): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) {
+      throw new CLIError(`Invalid argument "${pair}". Use key=value`);
+    }
+    const key = pair.slice(0, eq);
+    args[key] = coerceValue(pair.slice(eq + 1), propertySchema(inputSchema, key));
+  }
+  return args;
+}
+
+/**
+ * Check tool arguments against the tool's input schema
+ * @returns one message per problem (empty when valid, or when the schema
+ * uses features that can't be checked locally; the server still validates)
+ */
+export function validateToolArgs(args: Record<string, unknown>, inputSchema: JsonSchema): string[] {
+  let schema: z.ZodType;
+  try {
+    schema = z.fromJSONSchema(inputSchema as Parameters<typeof z.fromJSONSchema>[0]);
+  } catch {
+    return [];
+  }
+
+  const result = schema.safeParse(args);
+  if (result.success) {
+    return [];
+  }
+  return result.error.issues.map((issue) => `${issue.path.join('.') || '(arguments)'}: ${issue.message}`);
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { TraceRecorder, readTrace, resolveTracePath, summarizeTrace, type TraceEntry } from './trace.js';
+
+describe('resolveTracePath', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mpak-trace-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('uses a file path as is and creates a file per run in a directory', () => {
+    expect(resolveTracePath(join(dir, 'out.jsonl'), '@scope/echo')).toBe(join(dir, 'out.jsonl'));
+    expect(resolveTracePath(dir, '@scope/echo')).toMatch(new RegExp(`^${dir}/scope-echo-\\d+\\.jsonl$`));
+  });
+});
+
+describe('TraceRecorder', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mpak-trace-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('pairs responses with requests from the other side', () => {
+    const path = join(dir, 'trace.jsonl');
+    const recorder = new TraceRecorder(path);
+    recorder.start('@scope/echo', 'node', ['server.js']);
+    recorder.line('client', '{"jsonrpc":"2.0","id":1,"method":"tools/list"}', 100);
+    recorder.line('server', 'booting...', 110);
+    recorder.line('server', '{"jsonrpc":"2.0","id":1,"method":"ping"}', 120);
+    recorder.line('server', '{"jsonrpc":"2.0","id":1,"result":{"tools":[]}}', 150);
+    recorder.line('client', '{"jsonrpc":"2.0","id":1,"result":{}}', 155);
+    recorder.exit(0, null);
+    recorder.close();
+
+    const entries = readTrace(path);
+    expect(entries.map((e) => ('event' in e ? e.event : 'text' in e ? 'text' : e.from))).toEqual([
+      'start',
+      'client',
+      'text',
+      'server',
+      'server',
+      'client',
+      'exit',
+    ]);
+    expect(entries[4]).toMatchObject({ method: 'tools/list', latencyMs: 50 });
+    expect(entries[5]).toMatchObject({ method: 'ping', latencyMs: 35 });
+  });
+
+  it('creates trace files readable by the owner only', () => {
+    const path = join(dir, 'trace.jsonl');
+    new TraceRecorder(path).close();
+
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+  });
+});
+
+describe('summarizeTrace', () => {
+  const ts = (s: number) => new Date(Date.UTC(2026, 0, 1, 0, 0, s)).toISOString();
+  const request = (s: number, id: number, method: string, params?: Record<string, unknown>): TraceEntry => ({
+    ts: ts(s),
+    from: 'client',
+    message: { jsonrpc: '2.0', id, method, params },
+  });
+  const response = (s: number, id: number, method: string, latencyMs: number, body: object): TraceEntry => ({
+    ts: ts(s),
+    from: 'server',
+    message: { jsonrpc: '2.0', id, ...body },
+    method,
+    latencyMs,
+  });
+
+  const entries: TraceEntry[] = [
+    { ts: ts(0), event: 'start', package: '@scope/echo', command: 'node', args: [] },
+    request(0, 1, 'tools/call', { name: 'search' }),
+    response(2, 1, 'tools/call', 2000, { result: { content: [] } }),
+    request(2, 2, 'tools/call', { name: 'fetch' }),
+    response(2, 2, 'tools/call', 40, { result: { isError: true, content: [{ type: 'text', text: 'Bad URL\nmore' }] } }),
+    request(3, 3, 'resources/read'),
+    response(3, 3, 'resources/read', 5, { error: { code: -32602, message: 'Unknown resource' } }),
+    request(4, 4, 'tools/list'),
+    { ts: ts(5), from: 'server', text: 'debug output' },
+    { ts: ts(5), event: 'start', package: '@scope/echo', command: 'node', args: [] },
+    request(5, 4, 'tools/list'),
+    response(5, 4, 'tools/list', 10, { result: { tools: [] } }),
+  ];
+
+  it('reports per-method latency, slow calls, errors and unanswered requests', () => {
+    const summary = summarizeTrace(entries, 1000);
+
+    expect(summary).toMatchObject({ sessions: 2, messages: 9, invalidLines: 1, durationMs: 5000 });
+    expect(summary.methods).toEqual([
+      { method: 'tools/call', calls: 2, errors: 1, avgMs: 1020, maxMs: 2000 },
+      { method: 'tools/list', calls: 2, errors: 0, avgMs: 10, maxMs: 10 },
+      { method: 'resources/read', calls: 1, errors: 1, avgMs: 5, maxMs: 5 },
+    ]);
+    expect(summary.slow.map((c) => [c.label, c.latencyMs])).toEqual([['tools/call search', 2000]]);
+    expect(summary.errors.map((c) => [c.label, c.error])).toEqual([
+      ['tools/call fetch', { message: 'Bad URL' }],
+      ['resources/read', { code: -32602, message: 'Unknown resource' }],
+    ]);
+    expect(summary.unanswered.map((c) => c.label)).toEqual(['tools/list']);
+  });
+});
@@ -0,0 +1,251 @@
+import { closeSync, existsSync, openSync, readFileSync, statSync, writeSync } from 'fs';
+import { join } from 'path';
+import { performance } from 'perf_hooks';
+import { isRequest, isResponse, parseMessage, type JsonRpcMessage } from './jsonrpc.js';
+
+/**
+ * Environment variable naming a trace file (or a directory for one file per run)
+ */
+export const TRACE_ENV_VAR = 'MPAK_TRACE';
+
+/**
+ * Who sent a traced line: the MCP client (e.g. Claude Desktop) or the server
+ */
+export type TraceSource = 'client' | 'server';
+
+/**
+ * One line of a trace file
+ */
+export type TraceEntry =
+  | { ts: string; event: 'start'; package: string; command: string; args: string[] }
+  | { ts: string; event: 'exit'; code: number | null; signal: string | null }
+  | {
+      ts: string;
+      from: TraceSource;
+      message: JsonRpcMessage;
+      /** On responses: the method of the request being answered */
+      method?: string;
+      /** On responses: milliseconds since the request was seen */
+      latencyMs?: number;
+    }
+  /** A line that is not JSON-RPC (a server logging to stdout corrupts the stream) */
+  | { ts: string; from: TraceSource; text: string };
+
+/**
+ * Resolve where to write a trace. A directory gets a new file per run.
+ * @example resolveTracePath('/tmp/traces', '@scope/echo') => '/tmp/traces/scope-echo-1760000000000.jsonl'
+ */
+export function resolveTracePath(target: string, packageName: string): string {
+  if (existsSync(target) && statSync(target).isDirectory()) {
+    const safeName = packageName.replace(/^@/, '').replace(/[^a-zA-Z0-9._-]+/g, '-');
+    return join(target, `${safeName}-${Date.now()}.jsonl`);
+  }
+  return target;
+}
+
+/**
+ * Appends JSON-RPC traffic to a JSONL file, pairing responses with their
+ * requests to record latency. Writes are synchronous so nothing is lost
+ * when mpak exits with the server.
+ */
+export class TraceRecorder {
+  private readonly fd: number;
+  private readonly pending = new Map<string, { method: string; startedAt: number }>();
+
+  constructor(readonly path: string) {
+    // Owner-only: traces can contain tokens and other tool arguments
+    this.fd = openSync(path, 'a', 0o600);
+  }
+
+  start(packageName: string, command: string, args: string[]): void {
+    this.pending.clear();
+    this.write({ ts: new Date().toISOString(), event: 'start', package: packageName, command, args });
+  }
+
+  /**
+   * Record one line of the stdio stream
+   */
+  line(from: TraceSource, line: string, now: number = performance.now()): void {
+    if (!line.trim()) {
+      return;
+    }
+    const ts = new Date().toISOString();
+    const message = parseMessage(line);
+    if (!message) {
+      this.write({ ts, from, text: line });
+      return;
+    }
+
+    if (isRequest(message)) {
+      this.pending.set(`${from}:${message.id}`, { method: message.method, startedAt: now });
+    } else if (isResponse(message)) {
+      // A response answers a request from the other side
+      const key = `${from === 'client' ? 'server' : 'client'}:${message.id}`;
+      const request = this.pending.get(key);
+      if (request) {
+        this.pending.delete(key);
+        this.write({ ts, from, message, method: request.method, latencyMs: Math.round(now - request.startedAt) });
+        return;
+      }
+    }
+    this.write({ ts, from, message });
+  }
+
+  exit(code: number | null, signal: string | null): void {
+    this.write({ ts: new Date().toISOString(), event: 'exit', code, signal });
+  }
+
+  close(): void {
+    closeSync(this.fd);
+  }
+
+  private write(entry: TraceEntry): void {
+    writeSync(this.fd, JSON.stringify(entry) + '\n');
+  }
+}
+
+/**
+ * Read a trace file. Lines that are not valid JSON (e.g. a trace cut off
+ * mid-write) are skipped.
+ */
+export function readTrace(path: string): TraceEntry[] {
+  const entries: TraceEntry[] = [];
+  for (const line of readFileSync(path, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip partial lines
+    }
+  }
+  return entries;
+}
+
+export interface TraceCall {
+  ts: string;
+  /** Method, with the tool or prompt name for tools/call and prompts/get */
+  label: string;
+  from: TraceSource;
+  latencyMs?: number;
+  /** Error response, or the first text of a tool result with isError */
+  error?: { code?: number; message: string };
+}
+
+export interface TraceMethodStats {
+  method: string;
+  calls: number;
+  errors: number;
+  avgMs: number | null;
+  maxMs: number | null;
+}
+
+export interface TraceSummary {
+  sessions: number;
+  messages: number;
+  /** Lines that were not JSON-RPC */
+  invalidLines: number;
+  durationMs: number | null;
+  methods: TraceMethodStats[];
+  slow: TraceCall[];
+  errors: TraceCall[];
+  unanswered: TraceCall[];
+}
+
+function callLabel(method: string, params: Record<string, unknown> | undefined): string {
+  if ((method === 'tools/call' || method === 'prompts/get') && typeof params?.name === 'string') {
+    return `${method} ${params.name}`;
+  }
+  return method;
+}
+
+/**
+ * Summarize a trace: per-method latency, calls at or over slowMs, error
+ * responses (including tool results with isError) and requests that never
+ * got an answer
+ */
+export function summarizeTrace(entries: TraceEntry[], slowMs: number): TraceSummary {
+  const summary: TraceSummary = {
+    sessions: 0,
+    messages: 0,
+    invalidLines: 0,
+    durationMs: null,
+    methods: [],
+    slow: [],
+    errors: [],
+    unanswered: [],
+  };
+  const stats = new Map<string, { calls: number; errors: number; latencies: number[] }>();
+  let open = new Map<string, TraceCall>();
+
+  const finishSession = () => {
+    summary.unanswered.push(...open.values());
+    open = new Map();
+  };
+
+  for (const entry of entries) {
+    if ('event' in entry) {
+      if (entry.event === 'start') {
+        finishSession();
+        summary.sessions++;
+      }
+      continue;
+    }
+    if ('text' in entry) {
+      summary.invalidLines++;
+      continue;
+    }
+
+    summary.messages++;
+    const { message, from } = entry;
+    if (isRequest(message)) {
+      const call: TraceCall = { ts: entry.ts, label: callLabel(message.method, message.params), from };
+      open.set(`${from}:${message.id}`, call);
+      const methodStats = stats.get(message.method) ?? { calls: 0, errors: 0, latencies: [] };
+      methodStats.calls++;
+      stats.set(message.method, methodStats);
+    } else if (isResponse(message)) {
+      const key = `${from === 'client' ? 'server' : 'client'}:${message.id}`;
+      const call = open.get(key);
+      if (!call) continue;
+      open.delete(key);
+
+      const methodStats = entry.method ? stats.get(entry.method) : undefined;
+      if (entry.latencyMs !== undefined) {
+        call.latencyMs = entry.latencyMs;
+        methodStats?.latencies.push(entry.latencyMs);
+        if (entry.latencyMs >= slowMs) summary.slow.push(call);
+      }
+
+      const result = message.result as { isError?: boolean; content?: Array<{ type: string; text?: string }> } | undefined;
+      if (message.error) {
+        call.error = message.error;
+      } else if (result?.isError) {
+        const text = result.content?.find((block) => block.type === 'text')?.text;
+        call.error = { message: text ? text.split('\n')[0] : 'Tool returned an error' };
+      }
+      if (call.error) {
+        summary.errors.push(call);
+        if (methodStats) methodStats.errors++;
+      }
+    }
+  }
+  finishSession();
+
+  const first = entries.length > 0 ? Date.parse(entries[0].ts) : NaN;
+  const last = entries.length > 0 ? Date.parse(entries[entries.length - 1].ts) : NaN;
+  if (!Number.isNaN(first) && !Number.isNaN(last)) {
+    summary.durationMs = last - first;
+  }
+
+  summary.methods = [...stats.entries()]
+    .map(([method, { calls, errors, latencies }]) => ({
+      method,
+      calls,
+      errors,
+      avgMs: latencies.length > 0 ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : null,
+      maxMs: latencies.length > 0 ? Math.max(...latencies) : null,
+    }))
+    .sort((a, b) => b.calls - a.calls || a.method.localeCompare(b.method));
+  summary.slow.sort((a, b) => (b.latencyMs ?? 0) - (a.latencyMs ?? 0));
+  return summary;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { getOidcToken, DEFAULT_OIDC_AUDIENCE } from './oidc.js';
+import { CLIError } from '../utils/errors.js';
+
+describe('getOidcToken', () => {
+  let server: Server;
+  let baseUrl: string;
+  let lastRequest: { url: string; authorization?: string };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      lastRequest = { url: req.url || '', authorization: req.headers.authorization };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ value: 'github-oidc-token' }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  afterEach(() => {
+    delete process.env.MPAK_OIDC_TOKEN;
+    delete process.env.MPAK_OIDC_AUDIENCE;
+    delete process.env.ACTIONS_ID_TOKEN_REQUEST_URL;
+    delete process.env.ACTIONS_ID_TOKEN_REQUEST_TOKEN;
+  });
+
+  it('prefers MPAK_OIDC_TOKEN', async () => {
+    process.env.MPAK_OIDC_TOKEN = 'explicit-token';
+    process.env.ACTIONS_ID_TOKEN_REQUEST_URL = `${baseUrl}/token?api-version=2.0`;
+    process.env.ACTIONS_ID_TOKEN_REQUEST_TOKEN = 'request-token';
+
+    await expect(getOidcToken()).resolves.toBe('explicit-token');
+  });
+
+  it('requests a token from GitHub Actions with the audience', async () => {
+    process.env.ACTIONS_ID_TOKEN_REQUEST_URL = `${baseUrl}/token?api-version=2.0`;
+    process.env.ACTIONS_ID_TOKEN_REQUEST_TOKEN = 'request-token';
+
+    await expect(getOidcToken()).resolves.toBe('github-oidc-token');
+    expect(lastRequest.authorization).toBe('Bearer request-token');
+    expect(lastRequest.url).toBe(`/token?api-version=2.0&audience=${DEFAULT_OIDC_AUDIENCE}`);
+  });
+
+  it('honours MPAK_OIDC_AUDIENCE', async () => {
+    process.env.ACTIONS_ID_TOKEN_REQUEST_URL = `${baseUrl}/token`;
+    process.env.ACTIONS_ID_TOKEN_REQUEST_TOKEN = 'request-token';
+    process.env.MPAK_OIDC_AUDIENCE = 'https://registry.example.com';
+
+    await getOidcToken();
+    expect(lastRequest.url).toBe('/token?audience=https%3A%2F%2Fregistry.example.com');
+  });
+
+  it('throws a CLIError outside GitHub Actions', async () => {
+    await expect(getOidcToken()).rejects.toBeInstanceOf(CLIError);
+  });
+});
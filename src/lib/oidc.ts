@@ -0,0 +1,47 @@
+import { URL } from 'url';
+import { CLIError } from '../utils/errors.js';
+
+/**
+ * Audience requested for GitHub Actions OIDC tokens (override with MPAK_OIDC_AUDIENCE)
+ */
+export const DEFAULT_OIDC_AUDIENCE = 'mpak';
+
+/**
+ * Get an OIDC token for publishing.
+ *
+ * Uses MPAK_OIDC_TOKEN when set, otherwise requests one from the GitHub
+ * Actions token endpoint (requires `permissions: id-token: write`).
+ */
+export async function getOidcToken(audience?: string): Promise<string> {
+  if (process.env.MPAK_OIDC_TOKEN) {
+    return process.env.MPAK_OIDC_TOKEN;
+  }
+
+  const requestUrl = process.env.ACTIONS_ID_TOKEN_REQUEST_URL;
+  const requestToken = process.env.ACTIONS_ID_TOKEN_REQUEST_TOKEN;
+  if (!requestUrl || !requestToken) {
+    throw new CLIError(
+      'No OIDC token available. Publishing requires GitHub Actions with ' +
+        '"permissions: id-token: write", or MPAK_OIDC_TOKEN set to a token.'
+    );
+  }
+
+  const url = new URL(requestUrl);
+  url.searchParams.set(
+    'audience',
+    audience || process.env.MPAK_OIDC_AUDIENCE || DEFAULT_OIDC_AUDIENCE
+  );
+
+  const response = await fetch(url, {
+    headers: { Authorization: `Bearer ${requestToken}`, Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    throw new CLIError(`Failed to get OIDC token from GitHub Actions (${response.status})`);
+  }
+
+  const body = (await response.json()) as { value?: string };
+  if (!body.value) {
+    throw new CLIError('GitHub Actions returned an empty OIDC token');
+  }
+  return body.value;
+}
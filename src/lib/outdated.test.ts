@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  checkOutdated,
+  findInstalledBundles,
+  findInstalledSkills,
+  needsUpdate,
+  type InstalledPackage,
+  type VersionLookup,
+} from './outdated.js';
+import { listTrackedSkills, writeSkillMetadata } from './installed-skills.js';
+import type { CacheEntry } from './cache.js';
+import { NotFoundError } from '../utils/errors.js';
+
+function cacheEntry(name: string, version: string, current = false): CacheEntry {
+  return {
+    name,
+    version,
+    platform: { os: 'linux', arch: 'x64' },
+    source: 'registry',
+    pulledAt: '2026-01-01T00:00:00.000Z',
+    size: 1,
+    path: `/cache/${name}/${version}`,
+    sha256: null,
+    current,
+  };
+}
+
+const published: VersionLookup = async () => ({
+  versions: ['1.0.0', '1.1.0', '1.2.0', '2.0.0', '2.1.0-beta.1'],
+  latest: '2.0.0',
+});
+
+describe('findInstalledBundles', () => {
+  it('uses the current version, or the highest cached one', () => {
+    const packages = findInstalledBundles([
+      cacheEntry('@scope/a', '1.0.0', true),
+      cacheEntry('@scope/a', '2.0.0'),
+      cacheEntry('@scope/b', '1.2.0'),
+      cacheEntry('@scope/b', '1.10.0'),
+    ]);
+
+    expect(packages.map((p) => [p.name, p.current])).toEqual([
+      ['@scope/a', '1.0.0'],
+      ['@scope/b', '1.10.0'],
+    ]);
+  });
+
+  it('skips local bundles and takes specifiers from mpak.json', () => {
+    const local = { ...cacheEntry('@me/dev', '0.1.0'), source: 'local' as const };
+
+    const packages = findInstalledBundles([local, cacheEntry('@scope/a', '1.0.0')], { '@scope/a': '^1.0.0' });
+
+    expect(packages).toEqual([expect.objectContaining({ name: '@scope/a', specifier: '^1.0.0' })]);
+  });
+});
+
+describe('findInstalledSkills', () => {
+  let skillsDir: string;
+
+  beforeEach(() => {
+    skillsDir = join(tmpdir(), `mpak-skills-test-${Date.now()}`);
+    mkdirSync(skillsDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(skillsDir, { recursive: true, force: true });
+  });
+
+  function installSkill(dir: string, name: string, version: string, specifier: string): void {
+    mkdirSync(join(skillsDir, dir));
+    writeFileSync(join(skillsDir, dir, 'SKILL.md'), `---\nname: ${dir}\n---\n`);
+    writeSkillMetadata(join(skillsDir, dir), {
+      name,
+      version,
+      specifier,
+      sha256: 'a'.repeat(64),
+      installedAt: '2026-01-01T00:00:00.000Z',
+    });
+  }
+
+  it('lists only skills installed by mpak, with their install spec', () => {
+    installSkill('writer', '@scope/writer', '1.0.0', '^1.0.0');
+    mkdirSync(join(skillsDir, 'handmade'));
+    writeFileSync(join(skillsDir, 'handmade', 'SKILL.md'), '---\nname: handmade\n---\n');
+
+    const packages = findInstalledSkills(listTrackedSkills(skillsDir));
+
+    expect(packages).toEqual([
+      {
+        type: 'skill',
+        name: '@scope/writer',
+        current: '1.0.0',
+        specifier: '^1.0.0',
+        path: join(skillsDir, 'writer'),
+      },
+    ]);
+  });
+
+  it('prefers the mpak.json specifier', () => {
+    installSkill('writer', '@scope/writer', '1.0.0', 'latest');
+
+    const [pkg] = findInstalledSkills(listTrackedSkills(skillsDir), { '@scope/writer': '~1.0.0' });
+
+    expect(pkg.specifier).toBe('~1.0.0');
+  });
+});
+
+describe('checkOutdated', () => {
+  function pkg(name: string, current: string, specifier = 'latest'): InstalledPackage {
+    return { type: 'bundle', name, current, specifier, path: `/cache/${name}` };
+  }
+
+  it('reports wanted and latest versions honouring the specifier', async () => {
+    const results = await checkOutdated(
+      [pkg('@scope/free', '1.0.0'), pkg('@scope/pinned', '1.0.0', '^1.0.0'), pkg('@scope/fresh', '2.0.0')],
+      published
+    );
+
+    expect(results.map((r) => [r.name, r.wanted, r.latest, r.outdated, needsUpdate(r)])).toEqual([
+      ['@scope/free', '2.0.0', '2.0.0', true, true],
+      ['@scope/fresh', '2.0.0', '2.0.0', false, false],
+      ['@scope/pinned', '1.2.0', '2.0.0', true, true],
+    ]);
+  });
+
+  it('keeps a package at its wanted version outdated but not updatable', async () => {
+    const [result] = await checkOutdated([pkg('@scope/pinned', '1.2.0', '^1.0.0')], published);
+
+    expect(result.outdated).toBe(true);
+    expect(needsUpdate(result)).toBe(false);
+  });
+
+  it('reports lookup failures per package', async () => {
+    const lookup: VersionLookup = async (p) => {
+      if (p.name === '@scope/gone') throw new NotFoundError('Bundle not found: @scope/gone');
+      return published(p);
+    };
+
+    const results = await checkOutdated([pkg('@scope/gone', '1.0.0'), pkg('@scope/ok', '1.0.0')], lookup);
+
+    expect(results[0]).toMatchObject({ name: '@scope/gone', error: 'Bundle not found: @scope/gone', wanted: null });
+    expect(results[1]).toMatchObject({ name: '@scope/ok', wanted: '2.0.0' });
+  });
+});
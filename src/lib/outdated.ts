@@ -0,0 +1,140 @@
+import semver from 'semver';
+import { RegistryClient } from './api/registry-client.js';
+import { getSkillDetails } from './api/skills-client.js';
+import type { CacheEntry } from './cache.js';
+import type { TrackedSkill } from './installed-skills.js';
+import { LATEST_TAG, resolveVersionSpec } from './version-resolver.js';
+
+/**
+ * A cached bundle or installed skill, with the version spec it follows
+ */
+export interface InstalledPackage {
+  type: 'bundle' | 'skill';
+  name: string;
+  /** Version in use (the .current bundle, or the installed skill) */
+  current: string;
+  /** Version spec updates must satisfy (mpak.json, the skill's install spec, or latest) */
+  specifier: string;
+  path: string;
+}
+
+/**
+ * An installed package compared to the registry
+ */
+export interface OutdatedResult extends InstalledPackage {
+  /** Highest version matching the specifier (null if none does) */
+  wanted: string | null;
+  latest: string | null;
+  /** Whether current differs from wanted or latest */
+  outdated: boolean;
+  /** Why the registry lookup failed */
+  error?: string;
+}
+
+export interface PublishedVersions {
+  versions: string[];
+  latest: string;
+}
+
+export type VersionLookup = (_pkg: InstalledPackage) => Promise<PublishedVersions>;
+
+/**
+ * One package per cached registry bundle. The current version is the one the
+ * .current pointer names, or the highest cached version when there is none.
+ */
+export function findInstalledBundles(
+  entries: CacheEntry[],
+  specifiers: Record<string, string> = {}
+): InstalledPackage[] {
+  const byName = new Map<string, CacheEntry[]>();
+  for (const entry of entries) {
+    if (entry.source !== 'registry' || !entry.version || !semver.valid(entry.version)) continue;
+    byName.set(entry.name, [...(byName.get(entry.name) ?? []), entry]);
+  }
+
+  const packages: InstalledPackage[] = [];
+  for (const [name, versions] of byName) {
+    const current =
+      versions.find((e) => e.current) ??
+      versions.sort((a, b) => semver.rcompare(a.version!, b.version!))[0];
+    packages.push({
+      type: 'bundle',
+      name,
+      current: current.version!,
+      specifier: specifiers[name] ?? LATEST_TAG,
+      path: current.path,
+    });
+  }
+  return packages;
+}
+
+/**
+ * One package per skill installed by mpak. mpak.json overrides the spec the
+ * skill was installed with.
+ */
+export function findInstalledSkills(
+  skills: TrackedSkill[],
+  specifiers: Record<string, string> = {}
+): InstalledPackage[] {
+  return skills.map((skill) => ({
+    type: 'skill',
+    name: skill.name,
+    current: skill.version,
+    specifier: specifiers[skill.name] ?? skill.specifier ?? LATEST_TAG,
+    path: skill.path,
+  }));
+}
+
+/**
+ * Look up published versions in the registry (bundles and skills)
+ */
+export function registryVersionLookup(client: RegistryClient): VersionLookup {
+  return async (pkg) => {
+    if (pkg.type === 'bundle') {
+      const { versions, latest } = await client.getVersions(pkg.name);
+      return { versions: versions.map((v) => v.version), latest };
+    }
+    const skill = await getSkillDetails(pkg.name);
+    return { versions: skill.versions.map((v) => v.version), latest: skill.latest_version };
+  };
+}
+
+/**
+ * Compare installed packages to the versions the registry has published.
+ * Lookup failures are reported per package rather than aborting the check.
+ */
+export async function checkOutdated(
+  packages: InstalledPackage[],
+  lookup: VersionLookup
+): Promise<OutdatedResult[]> {
+  const results: OutdatedResult[] = [];
+  for (const pkg of packages) {
+    try {
+      const { versions, latest } = await lookup(pkg);
+      const wanted = resolveVersionSpec(pkg.specifier, versions, latest);
+      results.push({
+        ...pkg,
+        wanted,
+        latest,
+        outdated: (wanted !== null && wanted !== pkg.current) || latest !== pkg.current,
+      });
+    } catch (err) {
+      results.push({
+        ...pkg,
+        wanted: null,
+        latest: null,
+        outdated: false,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return results.sort((a, b) => a.name.localeCompare(b.name) || a.type.localeCompare(b.type));
+}
+
+/**
+ * Whether `mpak update` would change a package (a newer or different
+ * version satisfies its specifier)
+ */
+export function needsUpdate(result: OutdatedResult): boolean {
+  return result.wanted !== null && result.wanted !== result.current;
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { RestartTracker, describeExit, exitStatus } from './supervisor.js';
+
+describe('exitStatus', () => {
+  it('keeps exit codes and maps signals to 128+n', () => {
+    expect(exitStatus(0, null)).toBe(0);
+    expect(exitStatus(3, null)).toBe(3);
+    expect(exitStatus(null, 'SIGINT')).toBe(130);
+    expect(exitStatus(null, 'SIGTERM')).toBe(143);
+    expect(exitStatus(null, 'SIGKILL')).toBe(137);
+  });
+
+  it('describes the exit', () => {
+    expect(describeExit(2, null)).toBe('exited with code 2');
+    expect(describeExit(null, 'SIGSEGV')).toBe('was killed by SIGSEGV');
+  });
+});
+
+describe('RestartTracker', () => {
+  const limits = { maxRestarts: 3, windowMs: 60_000, initialDelayMs: 1_000, maxDelayMs: 3_000 };
+
+  it('follows the policy', () => {
+    expect(new RestartTracker('no', limits).next(1).restart).toBe(false);
+    expect(new RestartTracker('on-failure', limits).next(0)).toEqual({ restart: false, reason: 'it exited cleanly' });
+    expect(new RestartTracker('on-failure', limits).next(null).restart).toBe(true);
+    expect(new RestartTracker('always', limits).next(0).restart).toBe(true);
+  });
+
+  it('backs off exponentially and gives up when the window is full', () => {
+    const tracker = new RestartTracker('always', limits);
+    expect(tracker.next(1, 0)).toEqual({ restart: true, delayMs: 1_000, attempt: 1 });
+    expect(tracker.next(1, 1_000)).toEqual({ restart: true, delayMs: 2_000, attempt: 2 });
+    expect(tracker.next(1, 3_000)).toEqual({ restart: true, delayMs: 3_000, attempt: 3 });
+    expect(tracker.next(1, 6_000)).toEqual({ restart: false, reason: 'it was restarted 3 times within 60s' });
+  });
+
+  it('forgets restarts that left the window', () => {
+    const tracker = new RestartTracker('always', limits);
+    tracker.next(1, 0);
+    tracker.next(1, 1_000);
+    expect(tracker.next(1, 60_500)).toEqual({ restart: true, delayMs: 2_000, attempt: 2 });
+  });
+});
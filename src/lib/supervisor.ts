@@ -0,0 +1,91 @@
+import { constants } from 'os';
+
+/**
+ * When `run --restart` starts a server again after it exits
+ */
+export type RestartPolicy = 'no' | 'on-failure' | 'always';
+
+export const RESTART_POLICIES: readonly RestartPolicy[] = ['no', 'on-failure', 'always'];
+
+export interface RestartLimits {
+  /** Restarts allowed within windowMs before giving up */
+  maxRestarts: number;
+  windowMs: number;
+  /** Delay before the first restart in a window; doubles with each one after */
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RESTART_LIMITS: RestartLimits = {
+  maxRestarts: 5,
+  windowMs: 60_000,
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+
+export type RestartDecision =
+  | { restart: true; delayMs: number; attempt: number }
+  | { restart: false; reason: string };
+
+/**
+ * Exit status for a process that ended with a code or a signal. Signal
+ * deaths are reported the way shells do, as 128 + the signal number.
+ * @example exitStatus(null, 'SIGTERM') => 143
+ */
+export function exitStatus(code: number | null, signal: string | null): number {
+  if (code !== null) {
+    return code;
+  }
+  const number = signal ? (constants.signals as Record<string, number | undefined>)[signal] : undefined;
+  return number ? 128 + number : 1;
+}
+
+/**
+ * Describe how a process ended, for status lines
+ * @example describeExit(null, 'SIGKILL') => 'was killed by SIGKILL'
+ */
+export function describeExit(code: number | null, signal: string | null): string {
+  return signal ? `was killed by ${signal}` : `exited with code ${code}`;
+}
+
+/**
+ * Decides whether to restart a server after each exit: exponential backoff,
+ * and a cap on restarts within a sliding window so a server that crashes on
+ * startup doesn't loop forever
+ */
+export class RestartTracker {
+  private readonly policy: RestartPolicy;
+  private readonly limits: RestartLimits;
+  private readonly restarts: number[] = [];
+
+  constructor(policy: RestartPolicy, limits: RestartLimits = DEFAULT_RESTART_LIMITS) {
+    this.policy = policy;
+    this.limits = limits;
+  }
+
+  /**
+   * Call after each exit; code is null when a signal killed the server
+   */
+  next(code: number | null, now = Date.now()): RestartDecision {
+    if (this.policy === 'no') {
+      return { restart: false, reason: 'restart policy is "no"' };
+    }
+    if (this.policy === 'on-failure' && code === 0) {
+      return { restart: false, reason: 'it exited cleanly' };
+    }
+
+    while (this.restarts.length > 0 && now - this.restarts[0] >= this.limits.windowMs) {
+      this.restarts.shift();
+    }
+    if (this.restarts.length >= this.limits.maxRestarts) {
+      return {
+        restart: false,
+        reason: `it was restarted ${this.restarts.length} times within ${Math.round(this.limits.windowMs / 1000)}s`,
+      };
+    }
+
+    const delayMs = Math.min(this.limits.initialDelayMs * 2 ** this.restarts.length, this.limits.maxDelayMs);
+    this.restarts.push(now);
+    return { restart: true, delayMs, attempt: this.restarts.length };
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import {
+  defaultUserConfigValue,
+  describeUserConfigType,
+  encodeUserConfigValue,
+  parseUserConfigValue,
+  splitMultiple,
+} from './user-config.js';
+
+describe('parseUserConfigValue', () => {
+  it('keeps strings as typed', () => {
+    expect(parseUserConfigValue({ type: 'string' }, ' a b ')).toEqual({ valid: true, value: ' a b ' });
+  });
+
+  it('parses numbers within bounds', () => {
+    const field = { type: 'number' as const, min: 1, max: 10 };
+    expect(parseUserConfigValue(field, ' 05 ')).toEqual({ valid: true, value: '5' });
+    expect(parseUserConfigValue(field, 'ten')).toEqual({ valid: false, error: '"ten" is not a number' });
+    expect(parseUserConfigValue(field, '')).toEqual({ valid: false, error: '"" is not a number' });
+    expect(parseUserConfigValue(field, '0')).toEqual({ valid: false, error: '0 is less than the minimum of 1' });
+    expect(parseUserConfigValue(field, '11')).toEqual({ valid: false, error: '11 is more than the maximum of 10' });
+  });
+
+  it('parses booleans', () => {
+    const field = { type: 'boolean' as const };
+    expect(parseUserConfigValue(field, 'Yes')).toEqual({ valid: true, value: 'true' });
+    expect(parseUserConfigValue(field, 'off')).toEqual({ valid: true, value: 'false' });
+    expect(parseUserConfigValue(field, 'maybe').valid).toBe(false);
+  });
+
+  describe('paths', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'mpak-user-config-test-'));
+      writeFileSync(join(dir, 'notes.txt'), 'x');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('checks that directories and files exist', () => {
+      const file = join(dir, 'notes.txt');
+      expect(parseUserConfigValue({ type: 'directory' }, dir)).toEqual({ valid: true, value: dir });
+      expect(parseUserConfigValue({ type: 'file' }, file)).toEqual({ valid: true, value: file });
+      expect(parseUserConfigValue({ type: 'directory' }, file)).toEqual({ valid: false, error: `${file} is not a directory` });
+      expect(parseUserConfigValue({ type: 'file' }, dir)).toEqual({ valid: false, error: `${dir} is a directory, not a file` });
+      expect(parseUserConfigValue({ type: 'file' }, join(dir, 'missing'))).toEqual({
+        valid: false,
+        error: `${join(dir, 'missing')} does not exist`,
+      });
+    });
+
+    it('expands ~ to the home directory', () => {
+      expect(parseUserConfigValue({ type: 'directory' }, '~')).toEqual({ valid: true, value: homedir() });
+    });
+
+    it('checks every value of a multiple field', () => {
+      const field = { type: 'directory' as const, multiple: true };
+      expect(parseUserConfigValue(field, `${dir}, ${tmpdir()}`)).toEqual({ valid: true, value: [dir, tmpdir()] });
+      expect(parseUserConfigValue(field, JSON.stringify([dir]))).toEqual({ valid: true, value: [dir] });
+      expect(parseUserConfigValue(field, `${dir},${join(dir, 'missing')}`).valid).toBe(false);
+      expect(parseUserConfigValue(field, ' , ')).toEqual({ valid: false, error: 'Enter at least one value' });
+    });
+  });
+});
+
+describe('splitMultiple', () => {
+  it('reads comma-separated lists and JSON arrays', () => {
+    expect(splitMultiple('a, b,,c ')).toEqual(['a', 'b', 'c']);
+    expect(splitMultiple('["a,b", "c"]')).toEqual(['a,b', 'c']);
+    expect(splitMultiple('[not json')).toEqual(['[not json']);
+  });
+});
+
+describe('defaults and encoding', () => {
+  it('uses defaults in the form of the field', () => {
+    expect(defaultUserConfigValue({ type: 'number', default: 5 })).toBe('5');
+    expect(defaultUserConfigValue({ type: 'boolean', default: false })).toBe('false');
+    expect(defaultUserConfigValue({ type: 'string', multiple: true, default: ['a', 'b'] })).toEqual(['a', 'b']);
+    expect(defaultUserConfigValue({ type: 'string', multiple: true, default: 'a' })).toEqual(['a']);
+    expect(defaultUserConfigValue({ type: 'string' })).toBeUndefined();
+  });
+
+  it('stores lists as JSON', () => {
+    expect(encodeUserConfigValue(['a', 'b'])).toBe('["a","b"]');
+    expect(encodeUserConfigValue('a')).toBe('a');
+  });
+
+  it('describes what a field accepts', () => {
+    expect(describeUserConfigType({ type: 'string' })).toBe('');
+    expect(describeUserConfigType({ type: 'number', min: 1, max: 10 })).toBe('number, 1-10');
+    expect(describeUserConfigType({ type: 'boolean' })).toBe('yes/no');
+    expect(describeUserConfigType({ type: 'file', multiple: true })).toBe('file, comma-separated');
+  });
+});
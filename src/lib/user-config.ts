@@ -0,0 +1,231 @@
+import { existsSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import type { McpbUserConfigField } from '../schemas/generated/manifest.js';
+import { ConfigManager } from '../utils/config-manager.js';
+import { promptLine, promptMasked } from '../utils/prompt.js';
+import { SecretStore } from '../utils/secrets.js';
+
+/**
+ * Resolved user_config values; fields with `multiple: true` have a list
+ */
+export type UserConfigValues = Record<string, string | string[]>;
+
+export type ParsedUserConfigValue =
+  | { valid: true; value: string | string[] }
+  | { valid: false; error: string };
+
+const BOOLEAN_WORDS: Record<string, string> = {
+  true: 'true',
+  yes: 'true',
+  y: 'true',
+  on: 'true',
+  '1': 'true',
+  false: 'false',
+  no: 'false',
+  n: 'false',
+  off: 'false',
+  '0': 'false',
+};
+
+/**
+ * Split a value for a `multiple` field: a JSON array (as stored) or a
+ * comma-separated list (as typed)
+ * @example splitMultiple('a, b') => ['a', 'b']
+ */
+export function splitMultiple(input: string): string[] {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed.map(String);
+      }
+    } catch {
+      // Not JSON; treat it as a list
+    }
+  }
+  return trimmed
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse one value of a field's type. Numbers and booleans come back in
+ * canonical form, paths absolute.
+ */
+function parseSingle(field: McpbUserConfigField, input: string): ParsedUserConfigValue {
+  switch (field.type) {
+    case 'number': {
+      const number = Number(input.trim());
+      if (input.trim() === '' || !Number.isFinite(number)) {
+        return { valid: false, error: `"${input}" is not a number` };
+      }
+      if (field.min !== undefined && number < field.min) {
+        return { valid: false, error: `${number} is less than the minimum of ${field.min}` };
+      }
+      if (field.max !== undefined && number > field.max) {
+        return { valid: false, error: `${number} is more than the maximum of ${field.max}` };
+      }
+      return { valid: true, value: String(number) };
+    }
+
+    case 'boolean': {
+      const value = BOOLEAN_WORDS[input.trim().toLowerCase()];
+      return value ? { valid: true, value } : { valid: false, error: `"${input}" is not yes or no` };
+    }
+
+    case 'directory':
+    case 'file': {
+      const trimmed = input.trim();
+      const path = resolve(trimmed === '~' || trimmed.startsWith('~/') ? join(homedir(), trimmed.slice(1)) : trimmed);
+      if (!existsSync(path)) {
+        return { valid: false, error: `${path} does not exist` };
+      }
+      const isDirectory = statSync(path).isDirectory();
+      if (field.type === 'directory' && !isDirectory) {
+        return { valid: false, error: `${path} is not a directory` };
+      }
+      if (field.type === 'file' && isDirectory) {
+        return { valid: false, error: `${path} is a directory, not a file` };
+      }
+      return { valid: true, value: path };
+    }
+
+    default:
+      return { valid: true, value: input };
+  }
+}
+
+/**
+ * Check a typed or stored value against its field: type, bounds and, for
+ * paths, that they exist
+ * @example parseUserConfigValue({ type: 'number', max: 10 }, '12') => { valid: false, error: '12 is more than the maximum of 10' }
+ */
+export function parseUserConfigValue(field: McpbUserConfigField, input: string): ParsedUserConfigValue {
+  if (!field.multiple) {
+    return parseSingle(field, input);
+  }
+  const values: string[] = [];
+  for (const item of splitMultiple(input)) {
+    const parsed = parseSingle(field, item);
+    if (!parsed.valid) {
+      return parsed;
+    }
+    values.push(parsed.value as string);
+  }
+  if (values.length === 0) {
+    return { valid: false, error: 'Enter at least one value' };
+  }
+  return { valid: true, value: values };
+}
+
+/**
+ * A field's default in the form values are used in (not validated: a
+ * default directory need not exist until the server uses it)
+ */
+export function defaultUserConfigValue(field: McpbUserConfigField): string | string[] | undefined {
+  if (field.default === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(field.default)) {
+    return field.multiple ? field.default : field.default.join(',');
+  }
+  return field.multiple ? [String(field.default)] : String(field.default);
+}
+
+/**
+ * How a value is kept in config.json (lists as JSON arrays)
+ */
+export function encodeUserConfigValue(value: string | string[]): string {
+  return Array.isArray(value) ? JSON.stringify(value) : value;
+}
+
+/**
+ * Show a value to the user
+ * @example formatUserConfigValue(['a', 'b']) => 'a, b'
+ */
+export function formatUserConfigValue(value: string | string[]): string {
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * What a field accepts, for prompts (empty for a plain string)
+ * @example describeUserConfigType({ type: 'number', min: 1, max: 10 }) => 'number, 1-10'
+ */
+export function describeUserConfigType(field: McpbUserConfigField): string {
+  const parts: string[] = field.type === 'string' ? [] : [field.type === 'boolean' ? 'yes/no' : field.type];
+  if (field.min !== undefined && field.max !== undefined) {
+    parts.push(`${field.min}-${field.max}`);
+  } else if (field.min !== undefined) {
+    parts.push(`at least ${field.min}`);
+  } else if (field.max !== undefined) {
+    parts.push(`at most ${field.max}`);
+  }
+  if (field.multiple) {
+    parts.push('comma-separated');
+  }
+  return parts.join(', ');
+}
+
+export interface UserConfigPromptOptions {
+  /** Shown in brackets; an empty answer returns undefined */
+  hint?: string;
+  /** Text the user can enter to clear the value (returned as null) */
+  clearWord?: string;
+}
+
+/**
+ * Prompt until the user enters a valid value. Sensitive fields are masked.
+ * @returns the value, undefined for an empty answer, or null if cleared
+ */
+export async function promptUserConfigValue(
+  key: string,
+  field: McpbUserConfigField,
+  options: UserConfigPromptOptions = {}
+): Promise<string | string[] | undefined | null> {
+  const type = describeUserConfigType(field);
+  const hint = options.hint ? ` [${options.hint}]` : '';
+  const question = `=> ${field.title || key}${type ? ` (${type})` : ''}${hint}: `;
+  if (field.description) {
+    process.stderr.write(`   ${field.description}\n`);
+  }
+
+  for (;;) {
+    const answer = field.sensitive ? await promptMasked(question) : await promptLine(question);
+    if (answer.trim() === '') {
+      return undefined;
+    }
+    if (options.clearWord !== undefined && answer.trim() === options.clearWord) {
+      return null;
+    }
+    const parsed = parseUserConfigValue(field, answer);
+    if (parsed.valid) {
+      return parsed.value;
+    }
+    process.stderr.write(`=> ${parsed.error}\n`);
+  }
+}
+
+/**
+ * Save a value: sensitive fields go to the keychain or encrypted file,
+ * everything else to config.json
+ * @returns where it was saved, for status lines
+ */
+export async function saveUserConfigValue(
+  packageName: string,
+  key: string,
+  field: McpbUserConfigField,
+  value: string | string[],
+  configManager: ConfigManager,
+  secrets: SecretStore
+): Promise<string> {
+  const encoded = encodeUserConfigValue(value);
+  if (field.sensitive) {
+    return (await secrets.set(packageName, key, encoded)).description;
+  }
+  await secrets.delete(packageName, key);
+  configManager.setPackageConfigValue(packageName, key, encoded);
+  return '~/.mpak/config.json';
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { isExactVersion, resolveBundleVersion, resolveVersionSpec } from './version-resolver.js';
+import type { RegistryClient } from './api/registry-client.js';
+import { NotFoundError } from '../utils/errors.js';
+
+const versions = [
+  '1.0.0',
+  '1.2.0',
+  '1.2.5',
+  '1.4.0',
+  '1.4.2',
+  '1.5.0-beta.1',
+  '2.0.0-alpha.1',
+  '2.0.0-beta.1',
+  '2.0.0-beta.3',
+  '2.0.0',
+  '2.1.0',
+  '3.0.0-rc.1',
+];
+const latest = '2.1.0';
+
+describe('isExactVersion', () => {
+  it('accepts exact versions only', () => {
+    expect(isExactVersion('1.2.3')).toBe(true);
+    expect(isExactVersion('1.2.3-beta.1')).toBe(true);
+    expect(isExactVersion('^1.2')).toBe(false);
+    expect(isExactVersion('1.2')).toBe(false);
+    expect(isExactVersion('beta')).toBe(false);
+  });
+});
+
+describe('resolveVersionSpec', () => {
+  it('resolves no spec and latest to the registry latest', () => {
+    expect(resolveVersionSpec(undefined, versions, latest)).toBe('2.1.0');
+    expect(resolveVersionSpec('latest', versions, latest)).toBe('2.1.0');
+  });
+
+  it('passes exact versions through', () => {
+    expect(resolveVersionSpec('1.2.0', versions, latest)).toBe('1.2.0');
+  });
+
+  it('resolves caret, tilde, comparator and x ranges', () => {
+    expect(resolveVersionSpec('^1.2', versions, latest)).toBe('1.4.2');
+    expect(resolveVersionSpec('~1.2.0', versions, latest)).toBe('1.2.5');
+    expect(resolveVersionSpec('>=2 <3', versions, latest)).toBe('2.1.0');
+    expect(resolveVersionSpec('1.x', versions, latest)).toBe('1.4.2');
+  });
+
+  it('excludes prereleases unless the range names one on the same version', () => {
+    expect(resolveVersionSpec('^1.4', versions, latest)).toBe('1.4.2');
+    expect(resolveVersionSpec('>=3', versions, latest)).toBeNull();
+    expect(resolveVersionSpec('>=2.0.0-beta.2 <2.0.0', versions, latest)).toBe('2.0.0-beta.3');
+  });
+
+  it('resolves tags to the newest matching prerelease', () => {
+    expect(resolveVersionSpec('beta', versions, latest)).toBe('2.0.0-beta.3');
+    expect(resolveVersionSpec('rc', versions, latest)).toBe('3.0.0-rc.1');
+    expect(resolveVersionSpec('canary', versions, latest)).toBeNull();
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(resolveVersionSpec('^4', versions, latest)).toBeNull();
+  });
+});
+
+describe('resolveBundleVersion', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function fakeClient() {
+    const getVersions = vi.fn(async () => ({
+      name: '@scope/pkg',
+      latest,
+      versions: versions.map((version) => ({ version })),
+    }));
+    return { client: { getVersions } as unknown as RegistryClient, getVersions };
+  }
+
+  it('does not call the registry for exact or missing versions', async () => {
+    const { client, getVersions } = fakeClient();
+
+    expect(await resolveBundleVersion(client, '@scope/pkg', '1.2.0')).toBe('1.2.0');
+    expect(await resolveBundleVersion(client, '@scope/pkg', undefined)).toBeUndefined();
+    expect(getVersions).not.toHaveBeenCalled();
+  });
+
+  it('resolves ranges and reports the version on stderr', async () => {
+    const { client } = fakeClient();
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    expect(await resolveBundleVersion(client, '@scope/pkg', '^1.2')).toBe('1.4.2');
+    expect(stderr).toHaveBeenCalledWith('=> Resolved @scope/pkg@^1.2 to 1.4.2\n');
+  });
+
+  it('throws NotFoundError when nothing matches', async () => {
+    const { client } = fakeClient();
+
+    await expect(resolveBundleVersion(client, '@scope/pkg', '^9')).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
@@ -0,0 +1,96 @@
+import semver from 'semver';
+import { RegistryClient } from './api/registry-client.js';
+import { getSkillDetails } from './api/skills-client.js';
+import { NotFoundError } from '../utils/errors.js';
+
+/**
+ * Tag that always resolves to the registry's latest version
+ */
+export const LATEST_TAG = 'latest';
+
+/**
+ * Whether a version spec names one exact version (no lookup needed)
+ * @example isExactVersion('1.2.3') => true, isExactVersion('^1.2') => false
+ */
+export function isExactVersion(spec: string): boolean {
+  return semver.valid(spec) !== null;
+}
+
+/**
+ * Resolve a version spec against the versions a package has published.
+ *
+ * - Exact versions resolve to themselves
+ * - `latest` (or no spec) resolves to the registry's latest version
+ * - Ranges (`^1.2`, `~1.4.0`, `>=2 <3`, `1.x`) resolve to the highest
+ *   matching version. Prereleases only match when the range names a
+ *   prerelease of the same major.minor.patch (npm rules).
+ * - Any other word is a tag: the highest prerelease whose first identifier
+ *   is that word (`beta` => `2.0.0-beta.3`)
+ *
+ * @returns the resolved version, or null when nothing matches
+ */
+export function resolveVersionSpec(
+  spec: string | undefined,
+  versions: string[],
+  latest: string
+): string | null {
+  if (!spec || spec === LATEST_TAG) {
+    return latest;
+  }
+  if (isExactVersion(spec)) {
+    return semver.clean(spec);
+  }
+  if (semver.validRange(spec) !== null) {
+    return semver.maxSatisfying(versions, spec);
+  }
+
+  const tagged = versions.filter((version) => semver.prerelease(version)?.[0] === spec);
+  return tagged.length > 0 ? semver.rsort(tagged)[0] : null;
+}
+
+function resolveOrThrow(
+  name: string,
+  spec: string,
+  versions: string[],
+  latest: string
+): string {
+  const resolved = resolveVersionSpec(spec, versions, latest);
+  if (!resolved) {
+    throw new NotFoundError(`No version of ${name} matches "${spec}" (latest is ${latest})`);
+  }
+  if (resolved !== spec) {
+    process.stderr.write(`=> Resolved ${name}@${spec} to ${resolved}\n`);
+  }
+  return resolved;
+}
+
+/**
+ * Resolve a bundle version spec to an exact version.
+ * Exact versions and no version are passed through without a registry call
+ * (the download endpoint resolves latest itself).
+ */
+export async function resolveBundleVersion(
+  client: RegistryClient,
+  name: string,
+  spec: string | undefined
+): Promise<string | undefined> {
+  if (!spec || isExactVersion(spec)) {
+    return spec;
+  }
+  const { versions, latest } = await client.getVersions(name);
+  return resolveOrThrow(name, spec, versions.map((v) => v.version), latest);
+}
+
+/**
+ * Resolve a skill version spec to an exact version (see resolveBundleVersion)
+ */
+export async function resolveSkillVersion(
+  name: string,
+  spec: string | undefined
+): Promise<string | undefined> {
+  if (!spec || isExactVersion(spec)) {
+    return spec;
+  }
+  const skill = await getSkillDetails(name);
+  return resolveOrThrow(name, spec, skill.versions.map((v) => v.version), skill.latest_version);
+}
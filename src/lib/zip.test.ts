@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createWriteStream,
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readFileSync,
+  readlinkSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { deflateRawSync } from 'zlib';
+import archiver from 'archiver';
+import { crc32, extractZip, readZipEntries, resolveEntryPath, ZipExtractionError } from './zip.js';
+
+interface TestEntry {
+  name: string;
+  data?: string | Buffer;
+  mode?: number;
+  deflate?: boolean;
+  /** Override the uncompressed size recorded in the archive */
+  declaredSize?: number;
+}
+
+/**
+ * Build a ZIP by hand so tests can include entries no well-behaved
+ * archiver would write (traversal paths, lying sizes, hostile symlinks)
+ */
+function buildZip(entries: TestEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const raw = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data ?? '', 'utf8');
+    const body = entry.deflate ? deflateRawSync(raw) : raw;
+    const method = entry.deflate ? 8 : 0;
+    const size = entry.declaredSize ?? raw.length;
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x800, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, body);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE((3 << 8) | 20, 4); // made by unix
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(((entry.mode ?? 0o100644) << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDir = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(centralDir.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDir, eocd]);
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('can be computed incrementally', () => {
+    const whole = crc32(Buffer.from('hello world'));
+    const parts = crc32(Buffer.from(' world'), crc32(Buffer.from('hello')));
+    expect(parts).toBe(whole);
+  });
+});
+
+describe('resolveEntryPath', () => {
+  it('resolves normal names inside the destination', () => {
+    expect(resolveEntryPath('/dest', 'a/b.txt')).toBe('/dest/a/b.txt');
+  });
+
+  it('allows names that merely start with dots', () => {
+    expect(resolveEntryPath('/dest', '..data/file')).toBe('/dest/..data/file');
+  });
+
+  it('rejects parent traversal', () => {
+    expect(() => resolveEntryPath('/dest', '../evil')).toThrow(ZipExtractionError);
+    expect(() => resolveEntryPath('/dest', 'a/../../evil')).toThrow(ZipExtractionError);
+  });
+
+  it('rejects absolute paths and drive letters', () => {
+    expect(() => resolveEntryPath('/dest', '/etc/passwd')).toThrow(ZipExtractionError);
+    expect(() => resolveEntryPath('/dest', 'C:/Windows/evil')).toThrow(ZipExtractionError);
+  });
+});
+
+describe('extractZip', () => {
+  let testDir: string;
+  let destDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mpak-zip-test-${Date.now()}`);
+    destDir = join(testDir, 'out');
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  function writeZip(entries: TestEntry[]): string {
+    const zipPath = join(testDir, 'test.zip');
+    writeFileSync(zipPath, buildZip(entries));
+    return zipPath;
+  }
+
+  it('extracts stored and deflated files and directories', async () => {
+    const zipPath = writeZip([
+      { name: 'server/', mode: 0o040755 },
+      { name: 'manifest.json', data: '{"name":"x"}' },
+      { name: 'server/index.js', data: 'console.log(1);\n'.repeat(100), deflate: true },
+    ]);
+
+    await extractZip(zipPath, destDir);
+
+    expect(readFileSync(join(destDir, 'manifest.json'), 'utf8')).toBe('{"name":"x"}');
+    expect(readFileSync(join(destDir, 'server/index.js'), 'utf8')).toBe('console.log(1);\n'.repeat(100));
+  });
+
+  it('preserves executable bits', async () => {
+    const zipPath = writeZip([{ name: 'bin/server', data: '#!/bin/sh\n', mode: 0o100755 }]);
+
+    await extractZip(zipPath, destDir);
+
+    expect(statSync(join(destDir, 'bin/server')).mode & 0o777).toBe(0o755);
+  });
+
+  it('extracts archives written by archiver', async () => {
+    const zipPath = join(testDir, 'archiver.zip');
+    await new Promise<void>((resolve, reject) => {
+      const output = createWriteStream(zipPath);
+      const archive = archiver('zip', { zlib: { level: 9 } });
+      output.on('close', () => resolve());
+      archive.on('error', reject);
+      archive.pipe(output);
+      archive.append('hello', { name: 'dir/hello.txt' });
+      archive.append('#!/bin/sh', { name: 'run.sh', mode: 0o755 });
+      archive.finalize();
+    });
+
+    await extractZip(zipPath, destDir);
+
+    expect(readFileSync(join(destDir, 'dir/hello.txt'), 'utf8')).toBe('hello');
+    expect(statSync(join(destDir, 'run.sh')).mode & 0o111).not.toBe(0);
+  });
+
+  it('rejects zip-slip entries without writing anything', async () => {
+    const zipPath = writeZip([
+      { name: 'ok.txt', data: 'fine' },
+      { name: '../escaped.txt', data: 'evil' },
+    ]);
+
+    await expect(extractZip(zipPath, destDir)).rejects.toThrow(/escapes destination/);
+    expect(existsSync(join(testDir, 'escaped.txt'))).toBe(false);
+    expect(existsSync(join(destDir, 'ok.txt'))).toBe(false);
+  });
+
+  it('extracts symlinks that stay inside the destination', async () => {
+    const zipPath = writeZip([
+      { name: 'lib/real.txt', data: 'data' },
+      { name: 'lib/link.txt', data: 'real.txt', mode: 0o120777 },
+    ]);
+
+    await extractZip(zipPath, destDir);
+
+    expect(lstatSync(join(destDir, 'lib/link.txt')).isSymbolicLink()).toBe(true);
+    expect(readlinkSync(join(destDir, 'lib/link.txt'))).toBe('real.txt');
+  });
+
+  it('rejects symlinks pointing outside the destination', async () => {
+    const zipPath = writeZip([{ name: 'link', data: '../../etc', mode: 0o120777 }]);
+
+    await expect(extractZip(zipPath, destDir)).rejects.toThrow(/Unsafe symlink/);
+  });
+
+  it('extracts relative symlinks that climb within the destination', async () => {
+    const zipPath = writeZip([
+      { name: 'node_modules/pkg/bin/cli.js', data: '#!/usr/bin/env node\n' },
+      { name: 'node_modules/.bin/cli', data: '../pkg/bin/cli.js', mode: 0o120777 },
+    ]);
+
+    await extractZip(zipPath, destDir);
+
+    expect(readFileSync(join(destDir, 'node_modules/.bin/cli'), 'utf8')).toBe('#!/usr/bin/env node\n');
+  });
+
+  it('rejects symlink chains that escape through an earlier link', async () => {
+    const zipPath = writeZip([
+      { name: 'a/d', data: '..', mode: 0o120777 },
+      { name: 'e', data: 'a/d/../..', mode: 0o120777 },
+    ]);
+
+    await expect(extractZip(zipPath, destDir)).rejects.toThrow(/Unsafe symlink/);
+    expect(existsSync(join(destDir, 'e'))).toBe(false);
+  });
+
+  it('rejects symlinks that climb out of a directory that does not exist yet', async () => {
+    const zipPath = writeZip([{ name: 'link', data: 'later/../../..', mode: 0o120777 }]);
+
+    await expect(extractZip(zipPath, destDir)).rejects.toThrow(/Unsafe symlink/);
+  });
+
+  it('does not create directories through a dangling symlink', async () => {
+    const zipPath = writeZip([
+      { name: 'lib/link', data: 'missing', mode: 0o120777 },
+      { name: 'lib/link/sub/file.txt', data: 'evil' },
+    ]);
+
+    await expect(extractZip(zipPath, destDir)).rejects.toThrow(/escapes destination/);
+    expect(existsSync(join(destDir, 'lib/missing'))).toBe(false);
+  });
+
+  it('rejects absolute symlink targets', async () => {
+    const zipPath = writeZip([{ name: 'link', data: '/etc/passwd', mode: 0o120777 }]);
+
+    await expect(extractZip(zipPath, destDir)).rejects.toThrow(/Unsafe symlink/);
+  });
+
+  it('rejects archives over the total size limit', async () => {
+    const zipPath = writeZip([{ name: 'big.bin', data: Buffer.alloc(4096) }]);
+
+    await expect(
+      extractZip(zipPath, destDir, { maxTotalBytes: 1024, maxEntries: 10, maxRatio: 200 })
+    ).rejects.toThrow(/byte limit/);
+  });
+
+  it('rejects entries over the compression ratio limit', async () => {
+    const zipPath = writeZip([
+      { name: 'zeros.bin', data: Buffer.alloc(4 * 1024 * 1024), deflate: true },
+    ]);
+
+    await expect(extractZip(zipPath, destDir)).rejects.toThrow(/compression ratio/);
+  });
+
+  it('rejects too many entries', async () => {
+    const zipPath = writeZip([
+      { name: 'a', data: 'a' },
+      { name: 'b', data: 'b' },
+    ]);
+
+    await expect(
+      extractZip(zipPath, destDir, { maxTotalBytes: 1024, maxEntries: 1, maxRatio: 200 })
+    ).rejects.toThrow(/too many entries/);
+  });
+
+  it('stops entries that inflate past their declared size', async () => {
+    const zipPath = writeZip([
+      { name: 'liar.bin', data: Buffer.alloc(64 * 1024), deflate: true, declaredSize: 10 },
+    ]);
+
+    await expect(extractZip(zipPath, destDir)).rejects.toThrow(/larger than its declared size/);
+  });
+
+  it('rejects files that are not ZIP archives', async () => {
+    const notZip = join(testDir, 'not.zip');
+    writeFileSync(notZip, 'just text');
+
+    expect(() => readZipEntries(notZip)).toThrow(/Not a ZIP archive/);
+  });
+});
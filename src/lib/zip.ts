@@ -0,0 +1,470 @@
+import {
+  chmodSync,
+  closeSync,
+  createReadStream,
+  createWriteStream,
+  fstatSync,
+  lstatSync,
+  mkdirSync,
+  openSync,
+  readSync,
+  realpathSync,
+  rmSync,
+  symlinkSync,
+} from 'fs';
+import { dirname, isAbsolute, relative, resolve, sep } from 'path';
+import { Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createInflateRaw } from 'zlib';
+
+/**
+ * Limits guarding against zip bombs
+ */
+export interface ZipLimits {
+  /** Maximum total uncompressed size of all entries */
+  maxTotalBytes: number;
+  /** Maximum number of entries */
+  maxEntries: number;
+  /** Maximum compression ratio of a single entry (checked for entries over 1 MiB) */
+  maxRatio: number;
+}
+
+export const DEFAULT_ZIP_LIMITS: ZipLimits = {
+  maxTotalBytes: 2 * 1024 * 1024 * 1024,
+  maxEntries: 100_000,
+  maxRatio: 200,
+};
+
+/** Entries smaller than this are exempt from the ratio check (small text files compress well) */
+const RATIO_CHECK_THRESHOLD = 1024 * 1024;
+
+/**
+ * Error thrown for malformed or unsafe archives
+ */
+export class ZipExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipExtractionError';
+  }
+}
+
+/**
+ * A file, directory or symlink recorded in the central directory
+ */
+export interface ZipEntry {
+  name: string;
+  method: number;
+  flags: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  /** Unix mode bits (file type + permissions), or null if not created on unix */
+  mode: number | null;
+  isDirectory: boolean;
+  isSymlink: boolean;
+}
+
+// Signatures
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIR_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// Compression methods
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Unix file types (upper bits of the mode)
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+const MADE_BY_UNIX = 3;
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE) as used by ZIP, computed incrementally
+ */
+export function crc32(data: Buffer, previous = 0): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = ~previous >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = readSync(fd, buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new ZipExtractionError('Unexpected end of archive');
+  }
+  return buffer;
+}
+
+/**
+ * Read the central directory of a ZIP file
+ */
+export function readZipEntries(zipPath: string): ZipEntry[] {
+  const fd = openSync(zipPath, 'r');
+  try {
+    const fileSize = fstatSync(fd).size;
+    const tailLength = Math.min(fileSize, MAX_EOCD_SEARCH);
+    const tail = readAt(fd, fileSize - tailLength, tailLength);
+
+    // The end-of-central-directory record is followed by a variable-length comment
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      throw new ZipExtractionError('Not a ZIP archive (end of central directory not found)');
+    }
+
+    const entryCount = tail.readUInt16LE(eocd + 10);
+    const dirSize = tail.readUInt32LE(eocd + 12);
+    const dirOffset = tail.readUInt32LE(eocd + 16);
+    if (entryCount === 0xffff || dirSize === 0xffffffff || dirOffset === 0xffffffff) {
+      throw new ZipExtractionError('ZIP64 archives are not supported');
+    }
+    if (dirOffset + dirSize > fileSize) {
+      throw new ZipExtractionError('Corrupt archive (central directory out of range)');
+    }
+
+    const dir = readAt(fd, dirOffset, dirSize);
+    const entries: ZipEntry[] = [];
+    let pos = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (pos + 46 > dir.length || dir.readUInt32LE(pos) !== CENTRAL_DIR_SIGNATURE) {
+        throw new ZipExtractionError('Corrupt archive (bad central directory entry)');
+      }
+      const madeBy = dir.readUInt16LE(pos + 4) >> 8;
+      const flags = dir.readUInt16LE(pos + 8);
+      const method = dir.readUInt16LE(pos + 10);
+      const crc = dir.readUInt32LE(pos + 16);
+      const compressedSize = dir.readUInt32LE(pos + 20);
+      const uncompressedSize = dir.readUInt32LE(pos + 24);
+      const nameLength = dir.readUInt16LE(pos + 28);
+      const extraLength = dir.readUInt16LE(pos + 30);
+      const commentLength = dir.readUInt16LE(pos + 32);
+      const externalAttrs = dir.readUInt32LE(pos + 38);
+      const localHeaderOffset = dir.readUInt32LE(pos + 42);
+
+      // Bit 11: filename is UTF-8; otherwise treat as latin1 (close enough to CP437 for paths)
+      const rawName = dir.subarray(pos + 46, pos + 46 + nameLength);
+      const name = rawName.toString(flags & 0x800 ? 'utf8' : 'latin1').replace(/\\/g, '/');
+
+      if (compressedSize === 0xffffffff || uncompressedSize === 0xffffffff || localHeaderOffset === 0xffffffff) {
+        throw new ZipExtractionError('ZIP64 archives are not supported');
+      }
+
+      const mode = madeBy === MADE_BY_UNIX ? (externalAttrs >>> 16) & 0xffff : null;
+      const fileType = mode !== null ? mode & S_IFMT : 0;
+      const isDirectory = name.endsWith('/') || fileType === S_IFDIR || (externalAttrs & 0x10) !== 0;
+
+      entries.push({
+        name,
+        method,
+        flags,
+        crc32: crc,
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset,
+        mode,
+        isDirectory,
+        isSymlink: fileType === S_IFLNK,
+      });
+
+      pos += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Resolve an entry name inside destDir, rejecting anything that would
+ * land outside it (zip-slip)
+ */
+export function resolveEntryPath(destDir: string, name: string): string {
+  if (name.includes('\0')) {
+    throw new ZipExtractionError(`Unsafe path in archive: ${JSON.stringify(name)}`);
+  }
+  if (isAbsolute(name) || name.startsWith('/') || /^[a-zA-Z]:/.test(name)) {
+    throw new ZipExtractionError(`Unsafe absolute path in archive: ${name}`);
+  }
+  const target = resolve(destDir, name);
+  if (!isInside(destDir, target)) {
+    throw new ZipExtractionError(`Unsafe path in archive escapes destination: ${name}`);
+  }
+  return target;
+}
+
+function isInside(root: string, target: string): boolean {
+  const rel = relative(root, target);
+  return rel === '' || (!isAbsolute(rel) && rel !== '..' && !rel.startsWith(`..${sep}`));
+}
+
+/**
+ * Create a directory inside destDir, first making sure its nearest existing
+ * ancestor hasn't been redirected outside destDir by a symlink extracted
+ * earlier (mkdir would otherwise follow it)
+ */
+function mkdirInside(realDest: string, dir: string): void {
+  let existing = dir;
+  for (;;) {
+    try {
+      // lstat, so a dangling link counts as existing and is resolved below
+      lstatSync(existing);
+      break;
+    } catch {
+      existing = dirname(existing);
+    }
+  }
+  let realExisting: string;
+  try {
+    realExisting = realpathSync(existing);
+  } catch {
+    throw new ZipExtractionError(`Unsafe path in archive escapes destination via symlink: ${dir}`);
+  }
+  if (!isInside(realDest, realExisting)) {
+    throw new ZipExtractionError(`Unsafe path in archive escapes destination via symlink: ${dir}`);
+  }
+  mkdirSync(dir, { recursive: true });
+}
+
+/**
+ * Resolve a symlink target one component at a time, following links that
+ * are already extracted, as the OS would
+ * @returns the path it points to, or null if it leaves realDest at any step
+ */
+function resolveLinkTarget(realDest: string, realParent: string, linkTarget: string): string | null {
+  let current = realParent;
+  let pastMissing = false;
+  for (const part of linkTarget.split(/[\\/]/)) {
+    if (part === '' || part === '.') {
+      continue;
+    }
+    if (part === '..') {
+      // What ".." means after a missing component depends on whether that
+      // component later becomes a link, so don't guess
+      if (pastMissing) return null;
+      current = dirname(current);
+    } else {
+      current = resolve(current, part);
+      try {
+        if (lstatSync(current).isSymbolicLink()) {
+          current = realpathSync(current);
+        }
+      } catch {
+        pastMissing = true;
+      }
+    }
+    if (!isInside(realDest, current)) {
+      return null;
+    }
+  }
+  return current;
+}
+
+/**
+ * Make sure the directory a file is about to be written to hasn't been
+ * redirected outside destDir by a symlink extracted earlier
+ */
+function assertRealParentInside(realDest: string, target: string): void {
+  const parent = realpathSync(dirname(target));
+  if (!isInside(realDest, parent)) {
+    throw new ZipExtractionError(`Unsafe path in archive escapes destination via symlink: ${target}`);
+  }
+  try {
+    if (lstatSync(target).isSymbolicLink()) {
+      // Never write through an existing link
+      rmSync(target, { force: true });
+    }
+  } catch {
+    // Target doesn't exist yet
+  }
+}
+
+/**
+ * Get the offset of an entry's data (after its local header)
+ */
+function getDataOffset(fd: number, entry: ZipEntry): number {
+  const header = readAt(fd, entry.localHeaderOffset, 30);
+  if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new ZipExtractionError(`Corrupt archive (bad local header for ${entry.name})`);
+  }
+  return entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+}
+
+/**
+ * Stream one entry's data, decompressing and checking size and CRC as it goes
+ */
+async function extractEntryData(
+  zipPath: string,
+  dataOffset: number,
+  entry: ZipEntry,
+  output: NodeJS.WritableStream,
+  onBytes: (_count: number) => void
+): Promise<void> {
+  let written = 0;
+  let crc = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      written += chunk.length;
+      if (written > entry.uncompressedSize) {
+        callback(new ZipExtractionError(
+          `Entry ${entry.name} is larger than its declared size (possible zip bomb)`
+        ));
+        return;
+      }
+      try {
+        onBytes(chunk.length);
+      } catch (error) {
+        callback(error as Error);
+        return;
+      }
+      crc = crc32(chunk, crc);
+      callback(null, chunk);
+    },
+  });
+
+  const source = entry.compressedSize > 0
+    ? createReadStream(zipPath, { start: dataOffset, end: dataOffset + entry.compressedSize - 1 })
+    : null;
+
+  if (source) {
+    const stages: NodeJS.ReadWriteStream[] = entry.method === METHOD_DEFLATE ? [createInflateRaw()] : [];
+    await pipeline([source, ...stages, counter, output]);
+  } else {
+    await new Promise<void>((resolveEnd, reject) => {
+      output.on('error', reject);
+      output.end(() => resolveEnd());
+    });
+  }
+
+  if (written !== entry.uncompressedSize) {
+    throw new ZipExtractionError(`Entry ${entry.name} is truncated or corrupt`);
+  }
+  if (crc !== entry.crc32) {
+    throw new ZipExtractionError(`CRC mismatch for ${entry.name}`);
+  }
+}
+
+/**
+ * Extract a ZIP archive (.mcpb, .skill) into destDir without shelling out.
+ *
+ * - Rejects entries that would be written outside destDir (zip-slip), and
+ *   symlinks pointing outside it
+ * - Enforces entry-count, total-size and compression-ratio limits, and stops
+ *   any entry that inflates past its declared size
+ * - Preserves unix permission bits so binary bundles stay executable
+ */
+export async function extractZip(
+  zipPath: string,
+  destDir: string,
+  limits: ZipLimits = DEFAULT_ZIP_LIMITS
+): Promise<void> {
+  const entries = readZipEntries(zipPath);
+
+  // Check declared sizes up front, before anything is written
+  if (entries.length > limits.maxEntries) {
+    throw new ZipExtractionError(`Archive has too many entries (${entries.length} > ${limits.maxEntries})`);
+  }
+  let declaredTotal = 0;
+  for (const entry of entries) {
+    if (entry.flags & 0x1) {
+      throw new ZipExtractionError(`Encrypted entries are not supported: ${entry.name}`);
+    }
+    if (!entry.isDirectory && entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATE) {
+      throw new ZipExtractionError(`Unsupported compression method ${entry.method} for ${entry.name}`);
+    }
+    if (
+      entry.uncompressedSize > RATIO_CHECK_THRESHOLD &&
+      entry.uncompressedSize / Math.max(1, entry.compressedSize) > limits.maxRatio
+    ) {
+      throw new ZipExtractionError(`Entry ${entry.name} exceeds the maximum compression ratio (possible zip bomb)`);
+    }
+    declaredTotal += entry.uncompressedSize;
+    resolveEntryPath(destDir, entry.name);
+  }
+  if (declaredTotal > limits.maxTotalBytes) {
+    throw new ZipExtractionError(
+      `Archive expands to ${declaredTotal} bytes, more than the ${limits.maxTotalBytes} byte limit`
+    );
+  }
+
+  mkdirSync(destDir, { recursive: true });
+  const realDest = realpathSync(destDir);
+
+  let totalWritten = 0;
+  const countBytes = (count: number) => {
+    totalWritten += count;
+    if (totalWritten > limits.maxTotalBytes) {
+      throw new ZipExtractionError('Archive exceeds the maximum extracted size (possible zip bomb)');
+    }
+  };
+
+  const fd = openSync(zipPath, 'r');
+  try {
+    for (const entry of entries) {
+      const target = resolveEntryPath(destDir, entry.name);
+
+      if (entry.isDirectory) {
+        mkdirInside(realDest, target);
+        continue;
+      }
+
+      mkdirInside(realDest, dirname(target));
+      assertRealParentInside(realDest, target);
+      const dataOffset = getDataOffset(fd, entry);
+
+      if (entry.isSymlink) {
+        const chunks: Buffer[] = [];
+        const collector = new Writable({
+          write(chunk: Buffer, _encoding, callback) {
+            chunks.push(chunk);
+            callback();
+          },
+        });
+        await extractEntryData(zipPath, dataOffset, entry, collector, countBytes);
+        const linkTarget = Buffer.concat(chunks).toString('utf8');
+        const realParent = realpathSync(dirname(target));
+        if (isAbsolute(linkTarget) || resolveLinkTarget(realDest, realParent, linkTarget) === null) {
+          throw new ZipExtractionError(`Unsafe symlink in archive: ${entry.name} -> ${linkTarget}`);
+        }
+        symlinkSync(linkTarget, target);
+        continue;
+      }
+
+      await extractEntryData(zipPath, dataOffset, entry, createWriteStream(target), countBytes);
+
+      const permissions = entry.mode !== null ? entry.mode & 0o777 : 0;
+      if (permissions) {
+        try {
+          chmodSync(target, permissions);
+        } catch {
+          // Ignore chmod errors on Windows
+        }
+      }
+    }
+  } finally {
+    closeSync(fd);
+  }
+}
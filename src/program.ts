@@ -1,10 +1,31 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { getVersion } from './utils/version.js';
 import { handleUnifiedSearch } from './commands/search.js';
 import { handleSearch } from './commands/packages/search.js';
 import { handleShow } from './commands/packages/show.js';
 import { handlePull } from './commands/packages/pull.js';
 import { handleRun } from './commands/packages/run.js';
+import { handleBundleValidate } from './commands/packages/validate.js';
+import { handleBundlePack } from './commands/packages/pack.js';
+import { handleBundlePublish } from './commands/packages/publish.js';
+import { handleBundleInstall, handleBundleUninstall } from './commands/packages/install.js';
+import { handleInspect } from './commands/packages/inspect.js';
+import { handleConfigure } from './commands/packages/configure.js';
+import { handleInstall } from './commands/install.js';
+import { handleOutdated, handleUpdate } from './commands/outdated.js';
+import { handleCall } from './commands/call.js';
+import { handleRepl } from './commands/repl.js';
+import { handleProxy } from './commands/proxy.js';
+import { handleServe } from './commands/serve.js';
+import { handleLogs, handlePs, handleRestart, handleStart, handleStop } from './commands/daemon.js';
+import { handleTraceView } from './commands/trace.js';
+import { handleLogin, handleLogout, handleWhoami } from './commands/auth.js';
+import {
+  handleCacheList,
+  handleCacheClean,
+  handleCachePrune,
+  handleCacheVerify,
+} from './commands/cache.js';
 import {
   handleConfigSet,
   handleConfigGet,
@@ -19,15 +40,34 @@ import {
   handleSkillPull,
   handleSkillInstall,
   handleSkillList,
+  handleSkillPublish,
 } from './commands/skills/index.js';
 
+/**
+ * Collect a repeatable option into an array
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 /**
  * Creates and configures the CLI program
  *
  * Command structure:
  * - mpak search <query>    - Unified search (bundles + skills)
+ * - mpak install [pkgs]    - Install project dependencies from mpak.json/mpak.lock
+ * - mpak outdated/update   - Check and update cached bundles and installed skills
+ * - mpak call <pkg> <tool> - Call one tool on a bundle's MCP server
+ * - mpak repl [pkg]        - Interactive MCP session with a bundle's server
+ * - mpak configure [pkg]   - Prompt for every user_config value of a bundle
+ * - mpak proxy <url>       - Expose a remote MCP server on stdio
+ * - mpak serve             - Serve several bundles as one MCP server (gateway)
+ * - mpak start/ps/stop     - Background HTTP servers (restart, logs)
+ * - mpak login/logout      - Registry authentication (whoami shows the current user)
  * - mpak bundle <command>  - MCP bundle commands
  * - mpak skill <command>   - Agent skill commands
+ * - mpak cache <command>   - Bundle cache management
+ * - mpak trace view <file> - Summarize MCP traffic recorded by run --trace
  * - mpak config <command>  - Configuration commands
  */
 export function createProgram(): Command {
@@ -54,6 +94,68 @@ export function createProgram(): Command {
       await handleUnifiedSearch(query, options);
     });
 
+  // ==========================================================================
+  // Project install (mpak.json + mpak.lock)
+  // ==========================================================================
+
+  program
+    .command('install [packages...]')
+    .description('Install bundles and skills pinned in mpak.lock (adds packages to mpak.json)')
+    .option('--skill', 'Add the given packages as skills instead of bundles')
+    .option('--frozen-lockfile', 'Fail instead of updating mpak.lock')
+    .option('--json', 'Output as JSON')
+    .action(async (packages, options) => {
+      await handleInstall(packages || [], options);
+    });
+
+  // ==========================================================================
+  // Updates (cached bundles + installed skills)
+  // ==========================================================================
+
+  program
+    .command('outdated')
+    .description('Compare cached bundles and installed skills to the registry')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      await handleOutdated(options);
+    });
+
+  program
+    .command('update [names...]')
+    .description('Update cached bundles and installed skills to the newest version their spec allows')
+    .option('--json', 'Output as JSON')
+    .action(async (names, options) => {
+      await handleUpdate(names || [], options);
+    });
+
+  // ==========================================================================
+  // Authentication
+  // ==========================================================================
+
+  program
+    .command('login')
+    .description('Log in to the registry with an API token (prompted, or piped on stdin)')
+    .option('--token <token>', 'API token (prefer the prompt or stdin to keep it out of shell history)')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      await handleLogin(options);
+    });
+
+  program
+    .command('logout')
+    .description('Remove the stored token for the registry')
+    .action(async () => {
+      await handleLogout();
+    });
+
+  program
+    .command('whoami')
+    .description('Show the user you are logged in as')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      await handleWhoami(options);
+    });
+
   // ==========================================================================
   // Top-level run alias (for Claude Code integration)
   // ==========================================================================
@@ -63,10 +165,132 @@ export function createProgram(): Command {
     .description('Run an MCP server (alias for "bundle run")')
     .option('--update', 'Force re-download even if cached')
     .option('-l, --local <path>', 'Run a local .mcpb bundle file')
+    .option('--trace <file>', 'Record MCP traffic to a JSONL file or directory (or set MPAK_TRACE)')
+    .option('--guard-stdout', 'Forward only JSON-RPC from the server stdout; move anything else to stderr')
+    .option('--transport <type>', 'stdio (default), http (Streamable HTTP) or sse (legacy HTTP+SSE)')
+    .option('--port <number>', 'Port for http/sse (default 8080)', parseInt)
+    .option('--host <host>', 'Address for http/sse to listen on (default 127.0.0.1)')
+    .option('--auth-token <token>', 'Require this bearer token from http/sse clients (or set MPAK_BRIDGE_TOKEN)')
+    .option('--cors <origins>', 'Comma-separated browser origins allowed over http/sse (* for any)')
+    .option('--timeout <ms>', 'Time to wait for each server response over http/sse', parseInt)
+    .option('--restart <policy>', 'Restart the server when it exits: no (default), on-failure or always')
+    .option('--max-restarts <number>', 'Give up after this many restarts within --restart-window (default 5)', parseInt)
+    .option('--restart-window <duration>', 'Window for --max-restarts, e.g. 60s or 5m (default 60s)')
+    .addOption(new Option('--log-file <path>', 'Log to rotate (set by mpak start)').hideHelp())
     .action(async (packageSpec, options) => {
       await handleRun(packageSpec || '', options);
     });
 
+  program
+    .command('call <package> <tool>')
+    .description('Call one MCP tool from a bundle and print the result')
+    .option('-a, --arg <key=value>', 'Tool argument (repeatable)', collect, [])
+    .option('-i, --input <file>', 'JSON file with tool arguments (- for stdin)')
+    .option('-o, --output-dir <dir>', 'Directory for images and other binary content (default: current)')
+    .option('--update', 'Force re-download even if cached')
+    .option('--timeout <ms>', 'Time to wait for each server response', parseInt)
+    .option('--json', 'Print the raw tools/call result as JSON')
+    .action(async (packageSpec, tool, options) => {
+      await handleCall(packageSpec, tool, options);
+    });
+
+  program
+    .command('proxy <url>')
+    .description('Expose a remote MCP server (Streamable HTTP or SSE) as a local stdio server')
+    .option('--transport <type>', 'http (Streamable HTTP, default) or sse (legacy HTTP+SSE)')
+    .option('-H, --header <header>', 'Request header as "Name: value" (repeatable)', collect, [])
+    .option('--token <token>', 'Bearer token to send (or set MPAK_PROXY_TOKEN)')
+    .action(async (url, options) => {
+      await handleProxy(url, options);
+    });
+
+  program
+    .command('serve')
+    .description('Serve several bundles as one MCP server, with tools namespaced by server')
+    .requiredOption('-c, --config <file>', 'JSON file listing the servers to aggregate')
+    .option('--transport <type>', 'stdio (default), http (Streamable HTTP) or sse (legacy HTTP+SSE)')
+    .option('--port <number>', 'Port for http/sse (default 8080)', parseInt)
+    .option('--host <host>', 'Address for http/sse to listen on (default 127.0.0.1)')
+    .option('--auth-token <token>', 'Require this bearer token from http/sse clients (or set MPAK_BRIDGE_TOKEN)')
+    .option('--cors <origins>', 'Comma-separated browser origins allowed over http/sse (* for any)')
+    .option('--timeout <ms>', 'Time to wait for each server response', parseInt)
+    .addOption(new Option('--log-file <path>', 'Log to rotate (set by mpak start)').hideHelp())
+    .action(async (options) => {
+      await handleServe(options);
+    });
+
+  // ==========================================================================
+  // Background servers (HTTP, managed under ~/.mpak/run)
+  // ==========================================================================
+
+  program
+    .command('start [package]')
+    .description('Serve a bundle or gateway config over HTTP in the background')
+    .option('-l, --local <path>', 'Serve a local .mcpb bundle file')
+    .option('-c, --config <file>', 'Serve a gateway config (as for mpak serve)')
+    .option('--name <name>', 'Name for ps/stop/logs (default: the package or file name)')
+    .option('--transport <type>', 'http (Streamable HTTP, default) or sse (legacy HTTP+SSE)')
+    .option('--port <number>', 'Port to listen on (default: first free from 8080)', parseInt)
+    .option('--host <host>', 'Address to listen on (default 127.0.0.1)')
+    .option('--auth-token <token>', 'Require this bearer token from clients (or set MPAK_BRIDGE_TOKEN)')
+    .option('--cors <origins>', 'Comma-separated browser origins allowed (* for any)')
+    .option('--update', 'Force re-download even if cached')
+    .option('--timeout <ms>', 'Time to wait for each server response', parseInt)
+    .action(async (packageSpec, options) => {
+      await handleStart(packageSpec, options);
+    });
+
+  program
+    .command('ps')
+    .description('List background servers with pid, uptime and URL')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      await handlePs(options);
+    });
+
+  program
+    .command('stop [name]')
+    .description('Stop a background server')
+    .option('--all', 'Stop every background server')
+    .action(async (name, options) => {
+      await handleStop(name, options);
+    });
+
+  program
+    .command('restart <name>')
+    .description('Restart a background server with the same settings')
+    .action(async (name) => {
+      await handleRestart(name);
+    });
+
+  program
+    .command('logs <name>')
+    .description('Show a background server\'s log (server stderr included)')
+    .option('-f, --follow', 'Keep printing new lines')
+    .option('-n, --lines <number>', 'Lines to show (default 50)', parseInt)
+    .action(async (name, options) => {
+      await handleLogs(name, options);
+    });
+
+  program
+    .command('repl [package]')
+    .description('Start a bundle and explore its tools, prompts and resources interactively')
+    .option('-l, --local <path>', 'Use a local .mcpb bundle file')
+    .option('--update', 'Force re-download even if cached')
+    .option('--timeout <ms>', 'Time to wait for each server response', parseInt)
+    .action(async (packageSpec, options) => {
+      await handleRepl(packageSpec || '', options);
+    });
+
+  program
+    .command('configure [package]')
+    .description("Set a bundle's user_config values interactively, optional ones included")
+    .option('-l, --local <path>', 'Configure a local .mcpb bundle file')
+    .option('--update', 'Force re-download even if cached')
+    .action(async (packageSpec, options) => {
+      await handleConfigure(packageSpec || '', options);
+    });
+
   // ==========================================================================
   // Bundle namespace (MCP bundles)
   // ==========================================================================
@@ -109,10 +333,99 @@ export function createProgram(): Command {
     .description('Run an MCP server from the registry')
     .option('--update', 'Force re-download even if cached')
     .option('-l, --local <path>', 'Run a local .mcpb bundle file')
+    .option('--trace <file>', 'Record MCP traffic to a JSONL file or directory (or set MPAK_TRACE)')
+    .option('--guard-stdout', 'Forward only JSON-RPC from the server stdout; move anything else to stderr')
+    .option('--transport <type>', 'stdio (default), http (Streamable HTTP) or sse (legacy HTTP+SSE)')
+    .option('--port <number>', 'Port for http/sse (default 8080)', parseInt)
+    .option('--host <host>', 'Address for http/sse to listen on (default 127.0.0.1)')
+    .option('--auth-token <token>', 'Require this bearer token from http/sse clients (or set MPAK_BRIDGE_TOKEN)')
+    .option('--cors <origins>', 'Comma-separated browser origins allowed over http/sse (* for any)')
+    .option('--timeout <ms>', 'Time to wait for each server response over http/sse', parseInt)
+    .option('--restart <policy>', 'Restart the server when it exits: no (default), on-failure or always')
+    .option('--max-restarts <number>', 'Give up after this many restarts within --restart-window (default 5)', parseInt)
+    .option('--restart-window <duration>', 'Window for --max-restarts, e.g. 60s or 5m (default 60s)')
+    .addOption(new Option('--log-file <path>', 'Log to rotate (set by mpak start)').hideHelp())
     .action(async (packageSpec, options) => {
       await handleRun(packageSpec || '', options);
     });
 
+  bundle
+    .command('inspect [package]')
+    .description('Start a bundle and list the tools, prompts and resources it exposes over MCP')
+    .option('-l, --local <path>', 'Inspect a local .mcpb bundle file')
+    .option('--update', 'Force re-download even if cached')
+    .option('--timeout <ms>', 'Time to wait for each server response', parseInt)
+    .option('--json', 'Output as JSON')
+    .action(async (packageSpec, options) => {
+      await handleInspect(packageSpec || '', options);
+    });
+
+  bundle
+    .command('install <package>')
+    .description('Register a bundle as an MCP server in a client config')
+    .requiredOption('--client <client>', 'Client: claude-desktop, claude-code, cursor, vscode')
+    .option('--scope <scope>', 'Config scope: user or project (default depends on the client)')
+    .option('--name <name>', 'Server name in the config (default: unscoped package name)')
+    .option('--force', 'Replace an existing entry mpak did not add')
+    .option('--dry-run', 'Show the config change without writing it')
+    .option('--json', 'Output as JSON')
+    .action(async (packageSpec, options) => {
+      await handleBundleInstall(packageSpec, options);
+    });
+
+  bundle
+    .command('uninstall <package>')
+    .description('Remove a bundle from a client config')
+    .requiredOption('--client <client>', 'Client: claude-desktop, claude-code, cursor, vscode')
+    .option('--scope <scope>', 'Config scope: user or project (default depends on the client)')
+    .option('--name <name>', 'Server name in the config (default: unscoped package name)')
+    .option('--force', 'Remove the entry even if mpak did not add it')
+    .option('--dry-run', 'Show the config change without writing it')
+    .option('--json', 'Output as JSON')
+    .action(async (packageSpec, options) => {
+      await handleBundleUninstall(packageSpec, options);
+    });
+
+  bundle
+    .command('list')
+    .description('List cached bundles (alias for "cache list")')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      await handleCacheList(options);
+    });
+
+  bundle
+    .command('validate <path>')
+    .description('Validate a bundle directory or .mcpb file against the MCPB manifest spec')
+    .option('--json', 'Output as JSON')
+    .action(async (bundlePath, options) => {
+      await handleBundleValidate(bundlePath, options);
+    });
+
+  bundle
+    .command('pack <path>')
+    .description('Create a .mcpb bundle from a bundle directory')
+    .option('-o, --output <path>', 'Output file path')
+    .option('--os <os>', 'Target OS to stamp (darwin, linux, win32, any)')
+    .option('--arch <arch>', 'Target architecture to stamp (x64, arm64, any)')
+    .option('--json', 'Output as JSON')
+    .action(async (bundlePath, options) => {
+      await handleBundlePack(bundlePath, options);
+    });
+
+  bundle
+    .command('publish <path>')
+    .description('Announce a bundle release to the registry (GitHub Actions OIDC)')
+    .option('-o, --output <path>', 'Output file path when packing a directory')
+    .option('--os <os>', 'Target OS of the artifact (darwin, linux, win32, any)')
+    .option('--arch <arch>', 'Target architecture of the artifact (x64, arm64, any)')
+    .option('--release-tag <tag>', 'GitHub release tag the artifact is attached to')
+    .option('--prerelease', 'Mark the version as a prerelease')
+    .option('--json', 'Output as JSON')
+    .action(async (bundlePath, options) => {
+      await handleBundlePublish(bundlePath, options);
+    });
+
   // ==========================================================================
   // Skill namespace (Agent Skills)
   // ==========================================================================
@@ -136,6 +449,18 @@ export function createProgram(): Command {
       await handleSkillPack(path, options);
     });
 
+  skill
+    .command('publish <path>')
+    .description('Announce a skill release to the registry (GitHub Actions OIDC)')
+    .option('-o, --output <path>', 'Output file path when packing a directory')
+    .option('--scope <scope>', 'Registry scope (defaults to the GitHub repository owner)')
+    .option('--release-tag <tag>', 'GitHub release tag the artifact is attached to')
+    .option('--prerelease', 'Mark the version as a prerelease')
+    .option('--json', 'Output as JSON')
+    .action(async (path, options) => {
+      await handleSkillPublish(path, options);
+    });
+
   skill
     .command('search <query>')
     .description('Search skills in the registry')
@@ -184,6 +509,65 @@ export function createProgram(): Command {
       await handleSkillList(options);
     });
 
+  // ==========================================================================
+  // Cache commands (bundles extracted by run)
+  // ==========================================================================
+
+  const cacheCmd = program
+    .command('cache')
+    .description('Manage cached bundles in ~/.mpak/cache');
+
+  cacheCmd
+    .command('list')
+    .description('List cached bundles with version, platform and disk usage')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      await handleCacheList(options);
+    });
+
+  cacheCmd
+    .command('clean [package]')
+    .description('Remove cached bundles (all, or one package[@version])')
+    .option('--json', 'Output as JSON')
+    .action(async (packageSpec, options) => {
+      await handleCacheClean(packageSpec, options);
+    });
+
+  cacheCmd
+    .command('prune')
+    .description('Remove cached bundles pulled longer ago than a duration')
+    .option('--older-than <duration>', 'Age such as 30d, 12h or 2w', '30d')
+    .option('--json', 'Output as JSON')
+    .action(async (options) => {
+      await handleCachePrune(options);
+    });
+
+  cacheCmd
+    .command('verify [package]')
+    .description('Re-check cached bundles against their recorded and registry digests')
+    .option('--json', 'Output as JSON')
+    .action(async (packageSpec, options) => {
+      await handleCacheVerify(packageSpec, options);
+    });
+
+  // ==========================================================================
+  // Trace commands (traffic recorded by run --trace)
+  // ==========================================================================
+
+  const traceCmd = program
+    .command('trace')
+    .description('Inspect MCP traffic recorded by "run --trace"');
+
+  traceCmd
+    .command('view <file>')
+    .description('Summarize a trace: latency per method, slow calls and errors')
+    .option('--slow <ms>', 'Report calls at or over this latency (default 1000)', parseInt)
+    .option('--limit <number>', 'Show at most this many calls per section (default 20)', parseInt)
+    .option('--json', 'Output as JSON')
+    .action(async (file, options) => {
+      await handleTraceView(file, options);
+    });
+
   // ==========================================================================
   // Config commands (shared for bundles and skills)
   // ==========================================================================
@@ -195,8 +579,9 @@ export function createProgram(): Command {
   configCmd
     .command('set <package> <key=value...>')
     .description('Set config value(s) for a package')
-    .action(async (packageName, keyValuePairs) => {
-      await handleConfigSet(packageName, keyValuePairs);
+    .option('--secret', 'Store the values in the OS keychain (or encrypted file) instead of config.json')
+    .action(async (packageName, keyValuePairs, options) => {
+      await handleConfigSet(packageName, keyValuePairs, options);
     });
 
   configCmd
@@ -3,3 +3,4 @@ export * from './package';
 export * from './api-responses';
 export * from './auth';
 export * from './skill';
+export * from './manifest';
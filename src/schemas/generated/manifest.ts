@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { PlatformSchema, ServerTypeSchema } from './package.js';
+
+// =============================================================================
+// MCP Bundle (MCPB) Specification - manifest.json Schema
+// https://github.com/modelcontextprotocol/mcpb/blob/main/MANIFEST.md
+// =============================================================================
+
+/**
+ * Launch configuration for the server process. Strings may reference
+ * ${__dirname} (the extracted bundle directory) and ${user_config.<key>}.
+ */
+export const McpbMcpConfigSchema = z.object({
+  command: z.string().min(1).optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string(), z.string()).optional(),
+});
+
+/**
+ * Per-platform overrides of the launch configuration (keyed by os)
+ */
+export const McpbServerConfigSchema = McpbMcpConfigSchema.extend({
+  platform_overrides: z.record(z.string(), McpbMcpConfigSchema).optional(),
+});
+
+export const McpbServerSchema = z.object({
+  type: ServerTypeSchema,
+  entry_point: z.string().min(1),
+  mcp_config: McpbServerConfigSchema,
+});
+
+/**
+ * User configuration field types
+ */
+export const McpbUserConfigTypeSchema = z.enum(['string', 'number', 'boolean', 'directory', 'file']);
+
+/**
+ * User configuration field (prompted for or set via `mpak config set`)
+ */
+export const McpbUserConfigFieldSchema = z.object({
+  type: McpbUserConfigTypeSchema,
+  title: z.string().optional(),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+  sensitive: z.boolean().optional(),
+  multiple: z.boolean().optional(),
+  default: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+export const McpbAuthorSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().optional(),
+  url: z.string().optional(),
+});
+
+export const McpbToolSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+});
+
+export const McpbPromptSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  arguments: z.array(z.string()).optional(),
+  text: z.string().optional(),
+});
+
+export const McpbCompatibilitySchema = z.object({
+  claude_desktop: z.string().optional(),
+  platforms: z.array(PlatformSchema).optional(),
+  runtimes: z
+    .object({
+      node: z.string().optional(),
+      python: z.string().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Bundle manifest (manifest.json at the root of a .mcpb archive).
+ * Bundles built before the DXT -> MCPB rename declare dxt_version instead
+ * of manifest_version; either is accepted.
+ */
+export const McpbManifestSchema = z
+  .object({
+    manifest_version: z.string().optional(),
+    dxt_version: z.string().optional(),
+    name: z.string().min(1),
+    display_name: z.string().optional(),
+    version: z.string().min(1),
+    description: z.string().min(1),
+    long_description: z.string().optional(),
+    author: McpbAuthorSchema.optional(),
+    repository: z.object({ type: z.string(), url: z.string() }).optional(),
+    homepage: z.string().optional(),
+    documentation: z.string().optional(),
+    support: z.string().optional(),
+    icon: z.string().optional(),
+    server: McpbServerSchema,
+    tools: z.array(McpbToolSchema).optional(),
+    tools_generated: z.boolean().optional(),
+    prompts: z.array(McpbPromptSchema).optional(),
+    prompts_generated: z.boolean().optional(),
+    keywords: z.array(z.string()).optional(),
+    license: z.string().optional(),
+    compatibility: McpbCompatibilitySchema.optional(),
+    user_config: z.record(z.string(), McpbUserConfigFieldSchema).optional(),
+  })
+  .refine((manifest) => manifest.manifest_version || manifest.dxt_version, {
+    message: 'Required',
+    path: ['manifest_version'],
+  });
+
+// =============================================================================
+// TypeScript Types
+// =============================================================================
+
+export type McpbMcpConfig = z.infer<typeof McpbMcpConfigSchema>;
+export type McpbServerConfig = z.infer<typeof McpbServerConfigSchema>;
+export type McpbServer = z.infer<typeof McpbServerSchema>;
+export type McpbUserConfigType = z.infer<typeof McpbUserConfigTypeSchema>;
+export type McpbUserConfigField = z.infer<typeof McpbUserConfigFieldSchema>;
+export type McpbAuthor = z.infer<typeof McpbAuthorSchema>;
+export type McpbTool = z.infer<typeof McpbToolSchema>;
+export type McpbPrompt = z.infer<typeof McpbPromptSchema>;
+export type McpbCompatibility = z.infer<typeof McpbCompatibilitySchema>;
+export type McpbManifest = z.infer<typeof McpbManifestSchema>;
@@ -128,8 +128,8 @@ export class ConfigManager {
   private configFile: string;
   private config: MpakConfig | null = null;
 
-  constructor() {
-    this.configDir = join(homedir(), '.mpak');
+  constructor(configDir: string = join(homedir(), '.mpak')) {
+    this.configDir = configDir;
     this.configFile = join(this.configDir, 'config.json');
     this.ensureConfigDir();
   }
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { CredentialStore, normalizeRegistryUrl, TOKEN_ENV_VAR } from './credentials.js';
+import { ConfigCorruptedError } from './config-manager.js';
+
+describe('normalizeRegistryUrl', () => {
+  it('strips trailing slashes', () => {
+    expect(normalizeRegistryUrl('https://api.mpak.dev/')).toBe('https://api.mpak.dev');
+    expect(normalizeRegistryUrl('https://api.mpak.dev')).toBe('https://api.mpak.dev');
+  });
+});
+
+describe('CredentialStore', () => {
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mpak-credentials-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    filePath = join(testDir, 'credentials.json');
+    delete process.env[TOKEN_ENV_VAR];
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+    delete process.env[TOKEN_ENV_VAR];
+  });
+
+  it('returns undefined when logged out', () => {
+    expect(new CredentialStore(filePath).getToken('https://api.mpak.dev')).toBeUndefined();
+  });
+
+  it('stores tokens per registry with owner-only permissions', () => {
+    const store = new CredentialStore(filePath);
+    store.setToken('https://api.mpak.dev/', 'prod-token');
+    store.setToken('http://localhost:3200', 'dev-token');
+
+    expect(store.getToken('https://api.mpak.dev')).toBe('prod-token');
+    expect(store.getToken('http://localhost:3200')).toBe('dev-token');
+    expect(store.getToken('https://other.example.com')).toBeUndefined();
+    if (process.platform !== 'win32') {
+      expect(statSync(filePath).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('prefers MPAK_TOKEN over stored tokens', () => {
+    const store = new CredentialStore(filePath);
+    store.setToken('https://api.mpak.dev', 'stored');
+    process.env[TOKEN_ENV_VAR] = 'from-env';
+
+    expect(store.getToken('https://api.mpak.dev')).toBe('from-env');
+  });
+
+  it('deletes tokens and removes the file when empty', () => {
+    const store = new CredentialStore(filePath);
+    store.setToken('https://api.mpak.dev', 'token');
+
+    expect(store.deleteToken('https://api.mpak.dev')).toBe(true);
+    expect(store.deleteToken('https://api.mpak.dev')).toBe(false);
+    expect(existsSync(filePath)).toBe(false);
+  });
+
+  it('keeps other registries when deleting one', () => {
+    const store = new CredentialStore(filePath);
+    store.setToken('https://api.mpak.dev', 'a');
+    store.setToken('http://localhost:3200', 'b');
+    store.deleteToken('https://api.mpak.dev');
+
+    const file = JSON.parse(readFileSync(filePath, 'utf8'));
+    expect(Object.keys(file.registries)).toEqual(['http://localhost:3200']);
+  });
+
+  it('throws ConfigCorruptedError for invalid files', () => {
+    writeFileSync(filePath, '{ not json');
+    expect(() => new CredentialStore(filePath).getToken('https://api.mpak.dev')).toThrow(
+      ConfigCorruptedError
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { ConfigCorruptedError } from './config-manager.js';
+
+/**
+ * Environment variable that overrides stored credentials (e.g. in CI)
+ */
+export const TOKEN_ENV_VAR = 'MPAK_TOKEN';
+
+export interface StoredCredential {
+  token: string;
+  savedAt: string;
+}
+
+/**
+ * Credentials file structure. Tokens are keyed by registry URL so a token
+ * is only ever sent to the registry it was issued by.
+ */
+export interface CredentialsFile {
+  version: number;
+  registries: Record<string, StoredCredential>;
+}
+
+/**
+ * Normalize a registry URL for use as a key
+ * @example normalizeRegistryUrl('https://api.mpak.dev/') => 'https://api.mpak.dev'
+ */
+export function normalizeRegistryUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * API tokens in ~/.mpak/credentials.json, kept out of config.json and
+ * readable only by the current user (0600)
+ */
+export class CredentialStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string = join(homedir(), '.mpak', 'credentials.json')) {
+    this.filePath = filePath;
+  }
+
+  private load(): CredentialsFile {
+    if (!existsSync(this.filePath)) {
+      return { version: 1, registries: {} };
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(this.filePath, 'utf8'));
+    } catch (err) {
+      throw new ConfigCorruptedError(
+        `Credentials file contains invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+        this.filePath,
+        err instanceof Error ? err : undefined
+      );
+    }
+
+    const file = parsed as Partial<CredentialsFile> | null;
+    if (typeof file !== 'object' || file === null || typeof file.registries !== 'object' || file.registries === null) {
+      throw new ConfigCorruptedError('Credentials file must contain a registries object', this.filePath);
+    }
+    return { version: file.version ?? 1, registries: file.registries };
+  }
+
+  private save(file: CredentialsFile): void {
+    if (Object.keys(file.registries).length === 0) {
+      rmSync(this.filePath, { force: true });
+      return;
+    }
+
+    mkdirSync(dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+    renameSync(tempPath, this.filePath);
+    try {
+      chmodSync(this.filePath, 0o600);
+    } catch {
+      // Ignore chmod errors on Windows
+    }
+  }
+
+  /**
+   * Token for a registry: MPAK_TOKEN if set, otherwise the stored token
+   */
+  getToken(registryUrl: string): string | undefined {
+    if (process.env[TOKEN_ENV_VAR]) {
+      return process.env[TOKEN_ENV_VAR];
+    }
+    return this.load().registries[normalizeRegistryUrl(registryUrl)]?.token;
+  }
+
+  setToken(registryUrl: string, token: string): void {
+    const file = this.load();
+    file.registries[normalizeRegistryUrl(registryUrl)] = {
+      token,
+      savedAt: new Date().toISOString(),
+    };
+    this.save(file);
+  }
+
+  /**
+   * Remove the stored token for a registry
+   * @returns true if a token was removed
+   */
+  deleteToken(registryUrl: string): boolean {
+    const file = this.load();
+    const key = normalizeRegistryUrl(registryUrl);
+    if (!file.registries[key]) {
+      return false;
+    }
+    delete file.registries[key];
+    this.save(file);
+    return true;
+  }
+}
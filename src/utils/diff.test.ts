@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, formatDiff } from './diff.js';
+
+describe('diffLines', () => {
+  it('marks added and removed lines', () => {
+    expect(diffLines('a\nb\nc\n', 'a\nx\nc\n')).toEqual([
+      { op: ' ', text: 'a' },
+      { op: '-', text: 'b' },
+      { op: '+', text: 'x' },
+      { op: ' ', text: 'c' },
+    ]);
+  });
+
+  it('handles empty inputs', () => {
+    expect(diffLines('', 'a\n')).toEqual([{ op: '+', text: 'a' }]);
+    expect(diffLines('a\n', '')).toEqual([{ op: '-', text: 'a' }]);
+  });
+});
+
+describe('formatDiff', () => {
+  it('returns an empty string for identical texts', () => {
+    expect(formatDiff('a\n', 'a\n', 'f.json')).toBe('');
+  });
+
+  it('shows changes with surrounding context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n');
+    const after = ['1', '2', '3', '4', '5', '6', '7', 'eight'].join('\n');
+
+    expect(formatDiff(before, after, 'f.json', 2)).toBe(
+      ['--- f.json', '+++ f.json', '...', ' 6', ' 7', '-8', '+eight'].join('\n')
+    );
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * A line of a diff: unchanged, removed or added
+ */
+export interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Line diff of two texts. Common leading and trailing lines are matched
+ * directly and the rest by longest common subsequence, which is fine for
+ * config files where one section changes.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === '' ? [] : before.replace(/\n$/, '').split('\n');
+  const b = after === '' ? [] : after.replace(/\n$/, '').split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs = Array.from({ length: midA.length + 1 }, () => new Array<number>(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = a.slice(0, start).map((text) => ({ op: ' ', text }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      lines.push({ op: ' ', text: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ op: '-', text: midA[i++] });
+    } else {
+      lines.push({ op: '+', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) lines.push({ op: '-', text: midA[i++] });
+  while (j < midB.length) lines.push({ op: '+', text: midB[j++] });
+  for (const text of a.slice(endA)) lines.push({ op: ' ', text });
+  return lines;
+}
+
+/**
+ * Format a diff unified-style: changed lines with up to `context` unchanged
+ * lines around them, and `...` where unchanged lines were left out.
+ * Returns an empty string when the texts are the same.
+ */
+export function formatDiff(before: string, after: string, path: string, context = 3): string {
+  const lines = diffLines(before, after);
+  const changed = lines.map((line, index) => (line.op === ' ' ? -1 : index)).filter((index) => index >= 0);
+  if (changed.length === 0) {
+    return '';
+  }
+
+  const shown = new Set<number>();
+  for (const index of changed) {
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+      shown.add(k);
+    }
+  }
+
+  const output = [`--- ${path}`, `+++ ${path}`];
+  let skipped = false;
+  lines.forEach((line, index) => {
+    if (!shown.has(index)) {
+      if (!skipped) output.push('...');
+      skipped = true;
+      return;
+    }
+    skipped = false;
+    output.push(`${line.op}${line.text}`);
+  });
+  return output.join('\n');
+}
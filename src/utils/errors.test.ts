@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { CLIError } from './errors.js';
+import {
+  ApiError,
+  AuthError,
+  CLIError,
+  ExitCode,
+  NetworkError,
+  NotFoundError,
+  ServerError,
+  exitCodeFor,
+} from './errors.js';
 
 describe('CLIError', () => {
   it('should create error with message', () => {
@@ -23,3 +32,25 @@ describe('CLIError', () => {
     expect(error).toBeInstanceOf(Error);
   });
 });
+
+describe('exitCodeFor', () => {
+  it('uses the exit code of typed errors', () => {
+    expect(exitCodeFor(new NotFoundError('missing'))).toBe(ExitCode.NOT_FOUND);
+    expect(exitCodeFor(new AuthError('denied', 403))).toBe(ExitCode.AUTH);
+    expect(exitCodeFor(new NetworkError('offline'))).toBe(ExitCode.NETWORK);
+    expect(exitCodeFor(new ServerError('down', 503))).toBe(ExitCode.SERVER);
+  });
+
+  it('falls back to the general exit code', () => {
+    expect(exitCodeFor(new Error('plain'))).toBe(ExitCode.GENERAL);
+    expect(exitCodeFor('string')).toBe(ExitCode.GENERAL);
+  });
+
+  it('keeps API error details', () => {
+    const error = new NotFoundError('missing', 'NOT_FOUND');
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toBeInstanceOf(CLIError);
+    expect(error.status).toBe(404);
+    expect(error.code).toBe('NOT_FOUND');
+  });
+});
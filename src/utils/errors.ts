@@ -1,3 +1,16 @@
+/**
+ * Process exit codes. These are part of the CLI's interface (scripts branch
+ * on them), so existing values must never change.
+ */
+export const ExitCode = {
+  GENERAL: 1,
+  NOT_FOUND: 3,
+  AUTH: 4,
+  NETWORK: 5,
+  SERVER: 6,
+  RATE_LIMITED: 7,
+} as const;
+
 /**
  * Custom error class for CLI errors
  */
@@ -14,6 +27,114 @@ export class CLIError extends Error {
   }
 }
 
+/**
+ * Error returned by the registry API. `code` is the machine-readable code
+ * from the error body, when the registry sends one.
+ */
+export class ApiError extends CLIError {
+  public readonly status: number;
+  public readonly code: string | undefined;
+
+  constructor(message: string, status: number, code?: string, exitCode: number = ExitCode.GENERAL) {
+    super(message, exitCode);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * 404 from the registry
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string, code?: string) {
+    super(message, 404, code, ExitCode.NOT_FOUND);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Missing, invalid or expired credentials (401/403)
+ */
+export class AuthError extends ApiError {
+  constructor(message: string, status: number = 401, code?: string) {
+    super(message, status, code, ExitCode.AUTH);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * 429 from the registry, after retries were exhausted
+ */
+export class RateLimitError extends ApiError {
+  constructor(message: string, code?: string) {
+    super(message, 429, code, ExitCode.RATE_LIMITED);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * 5xx from the registry, after retries were exhausted
+ */
+export class ServerError extends ApiError {
+  constructor(message: string, status: number, code?: string) {
+    super(message, status, code, ExitCode.SERVER);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The registry could not be reached (DNS, connection, proxy or timeout)
+ */
+export class NetworkError extends CLIError {
+  constructor(message: string) {
+    super(message, ExitCode.NETWORK);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Exit code for an error caught by a command handler
+ */
+export function exitCodeFor(error: unknown): number {
+  return error instanceof CLIError ? error.exitCode : ExitCode.GENERAL;
+}
+
+/**
+ * Error thrown when a downloaded artifact doesn't match its registry digest.
+ *
+ * - `corrupted`: the byte count differs from the published size (truncated
+ *   or incomplete transfer) - retrying usually fixes it
+ * - `tampered`: the size matches but the content doesn't - the artifact was
+ *   modified after publishing and must not be used
+ */
+export class IntegrityError extends CLIError {
+  public readonly kind: 'corrupted' | 'tampered';
+  public readonly expectedSha256: string;
+  public readonly actualSha256: string;
+
+  constructor(
+    subject: string,
+    kind: 'corrupted' | 'tampered',
+    expectedSha256: string,
+    actualSha256: string,
+    detail?: string
+  ) {
+    const reason = kind === 'corrupted'
+      ? `download is corrupted or incomplete${detail ? ` (${detail})` : ''}; try again`
+      : 'content does not match the published digest; the artifact may have been tampered with';
+    super(
+      `Integrity check failed for ${subject}: ${reason}\n` +
+      `  expected sha256: ${expectedSha256}\n` +
+      `  actual sha256:   ${actualSha256}`
+    );
+    this.name = 'IntegrityError';
+    this.kind = kind;
+    this.expectedSha256 = expectedSha256;
+    this.actualSha256 = actualSha256;
+  }
+}
+
 /**
  * Handles errors gracefully and exits with appropriate code
  */
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { isIgnored, parseIgnoreFile, parseIgnoreRule } from './ignore.js';
+
+describe('parseIgnoreRule', () => {
+  it('skips blank lines and comments', () => {
+    expect(parseIgnoreRule('')).toBeNull();
+    expect(parseIgnoreRule('   ')).toBeNull();
+    expect(parseIgnoreRule('# comment')).toBeNull();
+  });
+
+  it('parses negation and directory-only flags', () => {
+    const rule = parseIgnoreRule('!build/')!;
+    expect(rule.negated).toBe(true);
+    expect(rule.directoryOnly).toBe(true);
+  });
+});
+
+describe('isIgnored', () => {
+  function ignored(content: string, path: string, isDirectory = false): boolean {
+    return isIgnored(parseIgnoreFile(content), path, isDirectory);
+  }
+
+  it('matches unanchored names at any depth', () => {
+    expect(ignored('*.log', 'debug.log')).toBe(true);
+    expect(ignored('*.log', 'logs/deep/debug.log')).toBe(true);
+    expect(ignored('*.log', 'debug.log.txt')).toBe(false);
+  });
+
+  it('anchors patterns containing a slash', () => {
+    expect(ignored('/dist', 'dist', true)).toBe(true);
+    expect(ignored('/dist', 'server/dist', true)).toBe(false);
+    expect(ignored('src/*.ts', 'src/index.ts')).toBe(true);
+    expect(ignored('src/*.ts', 'src/lib/index.ts')).toBe(false);
+  });
+
+  it('only applies directory patterns to directories', () => {
+    expect(ignored('tests/', 'tests', true)).toBe(true);
+    expect(ignored('tests/', 'tests', false)).toBe(false);
+  });
+
+  it('supports ** across directories', () => {
+    expect(ignored('**/fixtures', 'a/b/fixtures', true)).toBe(true);
+    expect(ignored('docs/**/*.md', 'docs/README.md')).toBe(true);
+    expect(ignored('docs/**/*.md', 'docs/a/b/guide.md')).toBe(true);
+    expect(ignored('node_modules/**', 'node_modules/x/index.js')).toBe(true);
+  });
+
+  it('lets later negations re-include paths', () => {
+    expect(ignored('*.md\n!README.md', 'README.md')).toBe(false);
+    expect(ignored('*.md\n!README.md', 'CHANGELOG.md')).toBe(true);
+  });
+
+  it('treats ? and character classes as globs', () => {
+    expect(ignored('file?.txt', 'file1.txt')).toBe(true);
+    expect(ignored('file?.txt', 'file10.txt')).toBe(false);
+    expect(ignored('*.py[cod]', 'mod.pyc')).toBe(true);
+    expect(ignored('*.py[!c]', 'mod.pyc')).toBe(false);
+  });
+
+  it('escapes regex characters in literal names', () => {
+    expect(ignored('a+b.txt', 'a+b.txt')).toBe(true);
+    expect(ignored('a+b.txt', 'aab.txt')).toBe(false);
+  });
+});
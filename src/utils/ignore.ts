@@ -0,0 +1,106 @@
+/**
+ * A single rule from an ignore file (.mcpbignore), using the gitignore
+ * subset: `#` comments, `!` negation, trailing `/` for directories only,
+ * leading or inner `/` to anchor at the root, and `*`, `?`, `**` globs.
+ */
+export interface IgnoreRule {
+  pattern: string;
+  negated: boolean;
+  directoryOnly: boolean;
+  regex: RegExp;
+}
+
+/**
+ * Convert a gitignore glob to a regex source matching a full relative path
+ * @example globToRegexSource('*.log') => '[^/]*\\.log'
+ */
+function globToRegexSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" matches everything
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      i += 1;
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Parse one ignore pattern, or null for blank lines and comments
+ */
+export function parseIgnoreRule(line: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+
+  const negated = pattern.startsWith('!');
+  if (negated) pattern = pattern.slice(1);
+  if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) pattern = pattern.slice(1);
+
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) pattern = pattern.replace(/\/+$/, '');
+
+  // A slash anywhere but the end anchors the pattern at the root
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+  if (!pattern) {
+    return null;
+  }
+
+  const body = globToRegexSource(pattern);
+  const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+  return { pattern: line.trim(), negated, directoryOnly, regex };
+}
+
+/**
+ * Parse the contents of an ignore file
+ */
+export function parseIgnoreFile(content: string): IgnoreRule[] {
+  return content
+    .split(/\r?\n/)
+    .map(parseIgnoreRule)
+    .filter((rule): rule is IgnoreRule => rule !== null);
+}
+
+/**
+ * Whether a path (relative, `/`-separated) is ignored. The last matching
+ * rule wins. Callers walking a tree should skip ignored directories, as
+ * files inside an ignored directory cannot be re-included.
+ */
+export function isIgnored(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  findProjectRoot,
+  readProjectManifest,
+  writeProjectManifest,
+  readLockfile,
+  writeLockfile,
+  createLockfile,
+  findLockedArtifact,
+  getProjectLockedBundle,
+  getProjectLockedSkill,
+  ProjectFileError,
+} from './lockfile.js';
+
+const SHA_A = 'a'.repeat(64);
+const SHA_B = 'b'.repeat(64);
+
+describe('lockfile', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `mpak-lockfile-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('findProjectRoot', () => {
+    it('finds mpak.json in the start directory', () => {
+      writeFileSync(join(testDir, 'mpak.json'), '{}');
+      expect(findProjectRoot(testDir)).toBe(testDir);
+    });
+
+    it('walks up to the nearest parent with mpak.json', () => {
+      writeFileSync(join(testDir, 'mpak.json'), '{}');
+      const nested = join(testDir, 'a', 'b');
+      mkdirSync(nested, { recursive: true });
+      expect(findProjectRoot(nested)).toBe(testDir);
+    });
+
+    it('returns null when no mpak.json exists', () => {
+      const nested = join(testDir, 'empty');
+      mkdirSync(nested);
+      // tmpdir() itself should never contain a project manifest
+      expect(findProjectRoot(nested)).toBeNull();
+    });
+  });
+
+  describe('project manifest', () => {
+    it('round-trips with sorted keys and drops empty sections', () => {
+      writeProjectManifest(testDir, {
+        bundles: { '@z/last': 'latest', '@a/first': '1.0.0' },
+        skills: {},
+      });
+
+      const raw = readFileSync(join(testDir, 'mpak.json'), 'utf8');
+      expect(raw.indexOf('@a/first')).toBeLessThan(raw.indexOf('@z/last'));
+      expect(readProjectManifest(testDir)).toEqual({
+        bundles: { '@a/first': '1.0.0', '@z/last': 'latest' },
+      });
+    });
+
+    it('throws ProjectFileError for invalid JSON', () => {
+      writeFileSync(join(testDir, 'mpak.json'), '{ nope');
+      expect(() => readProjectManifest(testDir)).toThrow(ProjectFileError);
+    });
+
+    it('throws ProjectFileError for non-string versions', () => {
+      writeFileSync(join(testDir, 'mpak.json'), JSON.stringify({ bundles: { '@a/b': 1 } }));
+      expect(() => readProjectManifest(testDir)).toThrow(/bundles\.@a\/b/);
+    });
+  });
+
+  describe('lockfile read/write', () => {
+    it('returns null when mpak.lock does not exist', () => {
+      expect(readLockfile(testDir)).toBeNull();
+    });
+
+    it('round-trips bundles and skills', () => {
+      const lock = createLockfile();
+      lock.bundles['@scope/bundle'] = {
+        specifier: 'latest',
+        version: '1.2.3',
+        artifacts: [
+          { platform: { os: 'linux', arch: 'x64' }, sha256: SHA_B, url: 'https://x/linux' },
+          { platform: { os: 'darwin', arch: 'arm64' }, sha256: SHA_A, url: 'https://x/darwin' },
+        ],
+      };
+      lock.skills['@scope/skill'] = {
+        specifier: '2.0.0',
+        version: '2.0.0',
+        sha256: SHA_A,
+        url: 'https://x/skill',
+      };
+
+      writeLockfile(testDir, lock);
+      const read = readLockfile(testDir)!;
+
+      expect(read.lockfileVersion).toBe(1);
+      expect(read.skills['@scope/skill'].version).toBe('2.0.0');
+      // Artifacts are sorted by platform for stable diffs
+      expect(read.bundles['@scope/bundle'].artifacts.map((a) => a.platform.os)).toEqual([
+        'darwin',
+        'linux',
+      ]);
+    });
+
+    it('rejects an unknown lockfile version', () => {
+      writeFileSync(
+        join(testDir, 'mpak.lock'),
+        JSON.stringify({ lockfileVersion: 99, bundles: {}, skills: {} })
+      );
+      expect(() => readLockfile(testDir)).toThrow(ProjectFileError);
+    });
+
+    it('rejects malformed digests', () => {
+      writeFileSync(
+        join(testDir, 'mpak.lock'),
+        JSON.stringify({
+          lockfileVersion: 1,
+          bundles: {},
+          skills: { '@a/b': { specifier: 'latest', version: '1.0.0', sha256: 'short', url: 'u' } },
+        })
+      );
+      expect(() => readLockfile(testDir)).toThrow(/sha256/);
+    });
+  });
+
+  describe('findLockedArtifact', () => {
+    const entry = {
+      specifier: 'latest',
+      version: '1.0.0',
+      artifacts: [{ platform: { os: 'linux', arch: 'x64' }, sha256: SHA_A, url: 'u' }],
+    };
+
+    it('finds the artifact for a matching platform', () => {
+      expect(findLockedArtifact(entry, { os: 'linux', arch: 'x64' })?.sha256).toBe(SHA_A);
+    });
+
+    it('returns undefined for other platforms', () => {
+      expect(findLockedArtifact(entry, { os: 'darwin', arch: 'arm64' })).toBeUndefined();
+    });
+  });
+
+  describe('project lookups', () => {
+    it('finds locked bundles and skills from a nested directory', () => {
+      writeProjectManifest(testDir, { bundles: { '@a/b': 'latest' }, skills: { '@a/s': 'latest' } });
+      const lock = createLockfile();
+      lock.bundles['@a/b'] = { specifier: 'latest', version: '1.0.0', artifacts: [] };
+      lock.skills['@a/s'] = { specifier: 'latest', version: '0.1.0', sha256: SHA_A, url: 'u' };
+      writeLockfile(testDir, lock);
+
+      const nested = join(testDir, 'src');
+      mkdirSync(nested);
+      expect(getProjectLockedBundle('@a/b', nested)?.version).toBe('1.0.0');
+      expect(getProjectLockedSkill('@a/s', nested)?.version).toBe('0.1.0');
+      expect(getProjectLockedBundle('@a/other', nested)).toBeNull();
+    });
+
+    it('returns null when the project has no lockfile', () => {
+      writeProjectManifest(testDir, { bundles: { '@a/b': 'latest' } });
+      expect(getProjectLockedBundle('@a/b', testDir)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { z } from 'zod';
+
+/**
+ * Project manifest filename (declared dependencies)
+ */
+export const PROJECT_MANIFEST_FILE = 'mpak.json';
+
+/**
+ * Lockfile filename (resolved dependencies)
+ */
+export const LOCKFILE_FILE = 'mpak.lock';
+
+/**
+ * Current lockfile format version
+ */
+export const LOCKFILE_VERSION = 1;
+
+/**
+ * Version specifier used when a dependency is added without a version
+ */
+export const LATEST_SPECIFIER = 'latest';
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+const DependencyMapSchema = z.record(z.string(), z.string());
+
+/**
+ * mpak.json - dependencies declared by the project
+ */
+export const ProjectManifestSchema = z.object({
+  bundles: DependencyMapSchema.optional(),
+  skills: DependencyMapSchema.optional(),
+});
+
+const LockedPlatformSchema = z.object({
+  os: z.string(),
+  arch: z.string(),
+});
+
+/**
+ * A single resolved bundle artifact (one per platform)
+ */
+export const LockedArtifactSchema = z.object({
+  platform: LockedPlatformSchema,
+  sha256: z.string().length(64),
+  url: z.string(),
+});
+
+/**
+ * A resolved bundle. Bundles are platform-specific, so every platform the
+ * project has been installed on gets its own artifact entry.
+ */
+export const LockedBundleSchema = z.object({
+  specifier: z.string(),
+  version: z.string(),
+  artifacts: z.array(LockedArtifactSchema),
+});
+
+/**
+ * A resolved skill (skills are platform-independent)
+ */
+export const LockedSkillSchema = z.object({
+  specifier: z.string(),
+  version: z.string(),
+  sha256: z.string().length(64),
+  url: z.string(),
+});
+
+/**
+ * mpak.lock - exact resolution of every dependency in mpak.json
+ */
+export const LockfileSchema = z.object({
+  lockfileVersion: z.literal(LOCKFILE_VERSION),
+  bundles: z.record(z.string(), LockedBundleSchema),
+  skills: z.record(z.string(), LockedSkillSchema),
+});
+
+export type ProjectManifest = z.infer<typeof ProjectManifestSchema>;
+export type LockedArtifact = z.infer<typeof LockedArtifactSchema>;
+export type LockedBundle = z.infer<typeof LockedBundleSchema>;
+export type LockedSkill = z.infer<typeof LockedSkillSchema>;
+export type Lockfile = z.infer<typeof LockfileSchema>;
+
+/**
+ * Error thrown when mpak.json or mpak.lock cannot be read or is invalid
+ */
+export class ProjectFileError extends Error {
+  public readonly filePath: string;
+
+  constructor(message: string, filePath: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+    this.filePath = filePath;
+  }
+}
+
+// =============================================================================
+// Reading and writing
+// =============================================================================
+
+/**
+ * Find the nearest directory containing mpak.json, walking up from startDir
+ */
+export function findProjectRoot(startDir: string = process.cwd()): string | null {
+  let dir = resolve(startDir);
+  for (;;) {
+    if (existsSync(join(dir, PROJECT_MANIFEST_FILE))) {
+      return dir;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+function readJsonFile<T>(filePath: string, schema: z.ZodType<T>): T {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (err) {
+    throw new ProjectFileError(
+      `Failed to read ${filePath}: ${err instanceof Error ? err.message : String(err)}`,
+      filePath
+    );
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new ProjectFileError(`Invalid ${filePath}: ${issues}`, filePath);
+  }
+  return result.data;
+}
+
+/**
+ * Sort object keys so the files diff cleanly in version control
+ */
+function sortKeys<T>(record: Record<string, T> | undefined): Record<string, T> {
+  const sorted: Record<string, T> = {};
+  for (const key of Object.keys(record || {}).sort()) {
+    sorted[key] = record![key];
+  }
+  return sorted;
+}
+
+/**
+ * Read mpak.json from a project directory
+ */
+export function readProjectManifest(projectDir: string): ProjectManifest {
+  return readJsonFile(join(projectDir, PROJECT_MANIFEST_FILE), ProjectManifestSchema);
+}
+
+/**
+ * Write mpak.json to a project directory
+ */
+export function writeProjectManifest(projectDir: string, manifest: ProjectManifest): void {
+  const output: ProjectManifest = {};
+  if (manifest.bundles && Object.keys(manifest.bundles).length > 0) {
+    output.bundles = sortKeys(manifest.bundles);
+  }
+  if (manifest.skills && Object.keys(manifest.skills).length > 0) {
+    output.skills = sortKeys(manifest.skills);
+  }
+  writeFileSync(join(projectDir, PROJECT_MANIFEST_FILE), JSON.stringify(output, null, 2) + '\n');
+}
+
+/**
+ * Create an empty lockfile
+ */
+export function createLockfile(): Lockfile {
+  return { lockfileVersion: LOCKFILE_VERSION, bundles: {}, skills: {} };
+}
+
+/**
+ * Read mpak.lock from a project directory (null if it doesn't exist yet)
+ */
+export function readLockfile(projectDir: string): Lockfile | null {
+  const lockPath = join(projectDir, LOCKFILE_FILE);
+  if (!existsSync(lockPath)) {
+    return null;
+  }
+  return readJsonFile(lockPath, LockfileSchema);
+}
+
+/**
+ * Write mpak.lock to a project directory
+ */
+export function writeLockfile(projectDir: string, lockfile: Lockfile): void {
+  const bundles = sortKeys(lockfile.bundles);
+  for (const entry of Object.values(bundles)) {
+    entry.artifacts.sort((a, b) =>
+      `${a.platform.os}-${a.platform.arch}`.localeCompare(`${b.platform.os}-${b.platform.arch}`)
+    );
+  }
+
+  const output: Lockfile = {
+    lockfileVersion: LOCKFILE_VERSION,
+    bundles,
+    skills: sortKeys(lockfile.skills),
+  };
+  writeFileSync(join(projectDir, LOCKFILE_FILE), JSON.stringify(output, null, 2) + '\n');
+}
+
+// =============================================================================
+// Lookups
+// =============================================================================
+
+/**
+ * Find the locked artifact for a platform
+ */
+export function findLockedArtifact(
+  entry: LockedBundle,
+  platform: { os: string; arch: string }
+): LockedArtifact | undefined {
+  return entry.artifacts.find(
+    (a) => a.platform.os === platform.os && a.platform.arch === platform.arch
+  );
+}
+
+/**
+ * Look up a bundle in the lockfile of the project containing cwd.
+ * Returns null outside a project or when the bundle isn't locked.
+ */
+export function getProjectLockedBundle(packageName: string, cwd?: string): LockedBundle | null {
+  const root = findProjectRoot(cwd);
+  if (!root) return null;
+  return readLockfile(root)?.bundles[packageName] ?? null;
+}
+
+/**
+ * Look up a skill in the lockfile of the project containing cwd.
+ * Returns null outside a project or when the skill isn't locked.
+ */
+export function getProjectLockedSkill(skillName: string, cwd?: string): LockedSkill | null {
+  const root = findProjectRoot(cwd);
+  if (!root) return null;
+  return readLockfile(root)?.skills[skillName] ?? null;
+}
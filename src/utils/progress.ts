@@ -0,0 +1,102 @@
+/**
+ * Format a byte count for display
+ */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Format a duration in seconds as e.g. "42s" or "3m05s"
+ */
+export function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return '--';
+  const s = Math.round(seconds);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  return `${m}m${String(s % 60).padStart(2, '0')}s`;
+}
+
+const BAR_WIDTH = 24;
+const RENDER_INTERVAL_MS = 100;
+
+/**
+ * Single-line download progress bar (bytes, rate, ETA) drawn on stderr.
+ * Does nothing unless stderr is a TTY, so piped output and MCP clients
+ * reading stderr never see control characters.
+ */
+export class ProgressBar {
+  private readonly label: string;
+  private readonly enabled: boolean;
+  private startedAt = Date.now();
+  private total: number | undefined;
+  private startOffset: number;
+  private lastRender = 0;
+  private current: number;
+
+  constructor(
+    label: string,
+    total: number | undefined,
+    startOffset = 0,
+    enabled: boolean = process.stderr.isTTY === true
+  ) {
+    this.label = label;
+    this.total = total;
+    this.enabled = enabled;
+    this.startOffset = startOffset;
+    this.current = startOffset;
+  }
+
+  /**
+   * Update the total once it is known (e.g. from Content-Length), and the
+   * offset a resumed download starts from
+   */
+  setTotal(total: number | undefined, startOffset: number = this.startOffset): void {
+    this.total = total;
+    this.startOffset = startOffset;
+    this.current = startOffset;
+    this.startedAt = Date.now();
+  }
+
+  update(current: number): void {
+    this.current = current;
+    const now = Date.now();
+    if (now - this.lastRender >= RENDER_INTERVAL_MS) {
+      this.lastRender = now;
+      this.render();
+    }
+  }
+
+  /**
+   * Draw the final state and move to the next line
+   */
+  finish(): void {
+    if (!this.enabled) return;
+    this.render();
+    process.stderr.write('\n');
+  }
+
+  private render(): void {
+    if (!this.enabled) return;
+
+    const elapsed = (Date.now() - this.startedAt) / 1000;
+    const rate = elapsed > 0 ? (this.current - this.startOffset) / elapsed : 0;
+    const rateText = `${formatSize(Math.round(rate))}/s`;
+
+    let line: string;
+    if (this.total) {
+      const ratio = Math.min(1, this.current / this.total);
+      const filled = Math.round(ratio * BAR_WIDTH);
+      const bar = '#'.repeat(filled) + '-'.repeat(BAR_WIDTH - filled);
+      const eta = rate > 0 ? (this.total - this.current) / rate : NaN;
+      line =
+        `${this.label} [${bar}] ${String(Math.floor(ratio * 100)).padStart(3)}% ` +
+        `${formatSize(this.current)}/${formatSize(this.total)} ${rateText} ETA ${formatDuration(eta)}`;
+    } else {
+      line = `${this.label} ${formatSize(this.current)} ${rateText}`;
+    }
+
+    process.stderr.write(`\r${line}\x1b[K`);
+  }
+}
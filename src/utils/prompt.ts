@@ -0,0 +1,86 @@
+import { createInterface } from 'readline';
+import { CLIError } from './errors.js';
+
+/**
+ * Ask a question on the terminal (prompts go to stderr so stdout stays
+ * clean for MCP traffic)
+ */
+export function promptLine(question: string): Promise<string> {
+  return new Promise((resolve) => {
+    const rl = createInterface({ input: process.stdin, output: process.stderr, terminal: true });
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
+
+/**
+ * Ask a yes/no question that defaults to yes
+ */
+export async function confirm(question: string): Promise<boolean> {
+  const answer = await promptLine(`${question} [Y/n]: `);
+  return answer.trim().toLowerCase() !== 'n';
+}
+
+/**
+ * Ask for a secret, echoing `*` for each character typed. Backspace and
+ * Ctrl-U edit the answer; Ctrl-C cancels.
+ */
+export function promptMasked(question: string): Promise<string> {
+  const input = process.stdin;
+  if (!input.isTTY) {
+    return promptLine(question);
+  }
+
+  return new Promise((resolve, reject) => {
+    let answer = '';
+
+    const finish = (err?: Error): void => {
+      input.removeListener('data', onData);
+      input.setRawMode(false);
+      input.pause();
+      process.stderr.write('\n');
+      if (err) {
+        reject(err);
+      } else {
+        resolve(answer);
+      }
+    };
+
+    const onData = (chunk: Buffer | string): void => {
+      const text = chunk.toString();
+      // Arrow keys and other escape sequences
+      if (text.startsWith('\u001b')) {
+        return;
+      }
+      for (const char of text) {
+        if (char === '\r' || char === '\n') {
+          finish();
+          return;
+        }
+        if (char === '\u0003') {
+          finish(new CLIError('Cancelled', 130));
+          return;
+        }
+        if (char === '\u007f' || char === '\b') {
+          if (answer) {
+            answer = answer.slice(0, -1);
+            process.stderr.write('\b \b');
+          }
+        } else if (char === '\u0015') {
+          process.stderr.write('\b \b'.repeat(answer.length));
+          answer = '';
+        } else if (char >= ' ') {
+          answer += char;
+          process.stderr.write('*');
+        }
+      }
+    };
+
+    process.stderr.write(question);
+    input.setRawMode(true);
+    input.on('data', onData);
+    input.resume();
+  });
+}
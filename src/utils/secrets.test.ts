@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigManager } from './config-manager.js';
+import { EncryptedFileBackend, SecretBackend, SecretStore } from './secrets.js';
+
+class MemoryBackend implements SecretBackend {
+  readonly name = 'memory';
+  readonly description = 'memory';
+  readonly values = new Map<string, string>();
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async get(account: string): Promise<string | undefined> {
+    return this.values.get(account);
+  }
+
+  async set(account: string, value: string): Promise<void> {
+    this.values.set(account, value);
+  }
+
+  async delete(account: string): Promise<boolean> {
+    return this.values.delete(account);
+  }
+}
+
+describe('EncryptedFileBackend', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mpak-secrets-test-'));
+    filePath = join(dir, 'secrets.enc');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips values without writing them in plaintext', async () => {
+    const backend = new EncryptedFileBackend({ filePath, getPassphrase: async () => 'correct horse' });
+    await backend.set('@scope/pkg:api_key', 'sk-live-123');
+
+    expect(readFileSync(filePath, 'utf8')).not.toContain('sk-live-123');
+    const reopened = new EncryptedFileBackend({ filePath, getPassphrase: async () => 'correct horse' });
+    expect(await reopened.get('@scope/pkg:api_key')).toBe('sk-live-123');
+    expect(await reopened.get('@scope/pkg:other')).toBeUndefined();
+
+    expect(await reopened.delete('@scope/pkg:api_key')).toBe(true);
+    expect(await reopened.get('@scope/pkg:api_key')).toBeUndefined();
+  });
+
+  it('rejects a wrong passphrase before writing', async () => {
+    await new EncryptedFileBackend({ filePath, getPassphrase: async () => 'right' }).set('a', '1');
+    const before = readFileSync(filePath, 'utf8');
+
+    const wrong = new EncryptedFileBackend({ filePath, getPassphrase: async () => 'wrong' });
+    await expect(wrong.get('a')).rejects.toThrow('Wrong passphrase');
+    await expect(wrong.set('b', '2')).rejects.toThrow('Wrong passphrase');
+    expect(readFileSync(filePath, 'utf8')).toBe(before);
+  });
+});
+
+describe('SecretStore', () => {
+  let dir: string;
+  let configManager: ConfigManager;
+  let backend: MemoryBackend;
+  let secrets: SecretStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mpak-secrets-test-'));
+    configManager = new ConfigManager(dir);
+    backend = new MemoryBackend();
+    secrets = new SecretStore(configManager, [backend]);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps only a reference in config.json', async () => {
+    await secrets.set('@scope/pkg', 'api_key', 'sk-live-123');
+    configManager.setPackageConfigValue('@scope/pkg', 'region', 'eu');
+
+    expect(configManager.getPackageConfig('@scope/pkg')).toEqual({ api_key: 'mpak-secret:memory', region: 'eu' });
+    expect(readFileSync(join(dir, 'config.json'), 'utf8')).not.toContain('sk-live-123');
+    expect(await secrets.resolvePackageConfig('@scope/pkg')).toEqual({ api_key: 'sk-live-123', region: 'eu' });
+  });
+
+  it('migrates plaintext values once', async () => {
+    configManager.setPackageConfigValue('@scope/pkg', 'api_key', 'sk-old');
+    configManager.setPackageConfigValue('@scope/pkg', 'region', 'eu');
+
+    expect(await secrets.migrate('@scope/pkg', ['api_key', 'missing'])).toEqual(['api_key']);
+    expect(await secrets.migrate('@scope/pkg', ['api_key'])).toEqual([]);
+    expect(backend.values.get('@scope/pkg:api_key')).toBe('sk-old');
+    expect(configManager.getPackageConfigValue('@scope/pkg', 'region')).toBe('eu');
+  });
+
+  it('reports secrets that have gone missing', async () => {
+    await secrets.set('@scope/pkg', 'api_key', 'sk-live-123');
+    await secrets.delete('@scope/pkg', 'api_key');
+
+    await expect(secrets.resolvePackageConfig('@scope/pkg')).rejects.toThrow(
+      'Secret api_key for @scope/pkg is missing from the memory'
+    );
+    expect(existsSync(join(dir, 'config.json'))).toBe(true);
+  });
+});
@@ -0,0 +1,390 @@
+import { spawnSync } from 'child_process';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { ConfigCorruptedError, ConfigManager, PackageConfig } from './config-manager.js';
+import { CLIError } from './errors.js';
+import { promptMasked } from './prompt.js';
+
+/**
+ * Environment variable holding the passphrase for the encrypted secrets file
+ */
+export const SECRET_KEY_ENV_VAR = 'MPAK_SECRET_KEY';
+
+/**
+ * Stored in config.json in place of a sensitive value
+ * @example 'mpak-secret:keychain'
+ */
+export const SECRET_REF_PREFIX = 'mpak-secret:';
+
+/**
+ * Service name secrets are filed under in the OS keychain
+ */
+const KEYCHAIN_SERVICE = 'mpak';
+
+/**
+ * Somewhere secrets can be kept outside config.json. Secrets are addressed
+ * by account, `<package>:<key>`.
+ */
+export interface SecretBackend {
+  /** Recorded in the config reference, so a value is read back from where it was stored */
+  readonly name: string;
+  /** Where the secret lives, for `config get` */
+  readonly description: string;
+  isAvailable(): boolean;
+  get(_account: string): Promise<string | undefined>;
+  set(_account: string, _value: string): Promise<void>;
+  /** @returns true if a secret was removed */
+  delete(_account: string): Promise<boolean>;
+}
+
+/**
+ * The OS keychain through libsecret's `secret-tool` (GNOME Keyring, KWallet)
+ */
+export class LibsecretBackend implements SecretBackend {
+  readonly name = 'keychain';
+  readonly description = 'OS keychain';
+  private available: boolean | undefined;
+
+  isAvailable(): boolean {
+    if (this.available === undefined) {
+      // secret-tool talks to the keyring over the session bus; without one
+      // (SSH sessions, containers) every call would fail
+      this.available =
+        process.platform === 'linux' &&
+        Boolean(process.env.DBUS_SESSION_BUS_ADDRESS) &&
+        spawnSync('secret-tool', ['--help'], { stdio: 'ignore' }).error === undefined;
+    }
+    return this.available;
+  }
+
+  async get(account: string): Promise<string | undefined> {
+    const result = this.secretTool(['lookup', 'service', KEYCHAIN_SERVICE, 'account', account]);
+    return result.status === 0 ? result.stdout : undefined;
+  }
+
+  async set(account: string, value: string): Promise<void> {
+    // The value goes over stdin so it never shows up in a process listing
+    const result = this.secretTool(
+      ['store', `--label=mpak: ${account}`, 'service', KEYCHAIN_SERVICE, 'account', account],
+      value
+    );
+    if (result.status !== 0) {
+      throw new CLIError(`Failed to save ${account} to the keychain: ${result.stderr.trim() || 'secret-tool failed'}`);
+    }
+  }
+
+  async delete(account: string): Promise<boolean> {
+    if ((await this.get(account)) === undefined) {
+      return false;
+    }
+    return this.secretTool(['clear', 'service', KEYCHAIN_SERVICE, 'account', account]).status === 0;
+  }
+
+  private secretTool(args: string[], input?: string): { status: number | null; stdout: string; stderr: string } {
+    const result = spawnSync('secret-tool', args, { input, encoding: 'utf8', timeout: 30_000 });
+    return { status: result.status, stdout: result.stdout ?? '', stderr: result.stderr ?? '' };
+  }
+}
+
+interface EncryptedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Encrypted secrets file structure. `check` is a known value encrypted with
+ * the same key, so a wrong passphrase is caught before anything is written.
+ */
+interface SecretsFile {
+  version: number;
+  salt: string;
+  check: EncryptedValue;
+  secrets: Record<string, EncryptedValue>;
+}
+
+const CHECK_VALUE = 'mpak';
+
+// scrypt with N=2^15 needs 32 MB, just over Node's default limit
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export interface EncryptedFileBackendOptions {
+  filePath?: string;
+  /**
+   * Supplies the passphrase; `isNew` is true when the file is about to be
+   * created. Defaults to MPAK_SECRET_KEY, then a prompt on a terminal.
+   */
+  getPassphrase?: (_isNew: boolean) => Promise<string>;
+}
+
+/**
+ * Fallback when there is no keychain: secrets in ~/.mpak/secrets.enc,
+ * encrypted with AES-256-GCM under a key derived (scrypt) from a passphrase
+ */
+export class EncryptedFileBackend implements SecretBackend {
+  readonly name = 'file';
+  readonly description: string;
+  private readonly filePath: string;
+  private readonly getPassphrase: (_isNew: boolean) => Promise<string>;
+  private key: Buffer | null = null;
+
+  constructor(options: EncryptedFileBackendOptions = {}) {
+    this.filePath = options.filePath ?? join(homedir(), '.mpak', 'secrets.enc');
+    this.getPassphrase = options.getPassphrase ?? ((isNew) => passphraseFromEnvOrPrompt(this.filePath, isNew));
+    this.description = `encrypted file ${this.filePath.replace(homedir(), '~')}`;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async get(account: string): Promise<string | undefined> {
+    const file = this.load();
+    const entry = file?.secrets[account];
+    if (!file || !entry) {
+      return undefined;
+    }
+    return decrypt(await this.unlock(file), entry);
+  }
+
+  async set(account: string, value: string): Promise<void> {
+    let file = this.load();
+    if (!file) {
+      const salt = randomBytes(16);
+      this.key = deriveKey(await this.getPassphrase(true), salt);
+      file = { version: 1, salt: salt.toString('base64'), check: encrypt(this.key, CHECK_VALUE), secrets: {} };
+    }
+    file.secrets[account] = encrypt(await this.unlock(file), value);
+    this.save(file);
+  }
+
+  async delete(account: string): Promise<boolean> {
+    const file = this.load();
+    if (!file?.secrets[account]) {
+      return false;
+    }
+    // Removing an entry needs no key
+    delete file.secrets[account];
+    this.save(file);
+    return true;
+  }
+
+  private async unlock(file: SecretsFile): Promise<Buffer> {
+    if (!this.key) {
+      const key = deriveKey(await this.getPassphrase(false), Buffer.from(file.salt, 'base64'));
+      try {
+        decrypt(key, file.check);
+      } catch {
+        throw new CLIError(`Wrong passphrase for ${this.filePath} (check ${SECRET_KEY_ENV_VAR})`);
+      }
+      this.key = key;
+    }
+    return this.key;
+  }
+
+  private load(): SecretsFile | null {
+    if (!existsSync(this.filePath)) {
+      return null;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(this.filePath, 'utf8'));
+    } catch (err) {
+      throw new ConfigCorruptedError(
+        `Secrets file contains invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+        this.filePath,
+        err instanceof Error ? err : undefined
+      );
+    }
+
+    const file = parsed as Partial<SecretsFile> | null;
+    if (
+      typeof file !== 'object' ||
+      file === null ||
+      typeof file.salt !== 'string' ||
+      typeof file.check !== 'object' ||
+      typeof file.secrets !== 'object' ||
+      file.secrets === null
+    ) {
+      throw new ConfigCorruptedError('Secrets file must contain salt, check and secrets', this.filePath);
+    }
+    return file as SecretsFile;
+  }
+
+  private save(file: SecretsFile): void {
+    mkdirSync(dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(file, null, 2) + '\n', { mode: 0o600 });
+    renameSync(tempPath, this.filePath);
+    try {
+      chmodSync(this.filePath, 0o600);
+    } catch {
+      // Ignore chmod errors on Windows
+    }
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32, SCRYPT_OPTIONS);
+}
+
+function encrypt(key: Buffer, value: string): EncryptedValue {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * @throws if the key is wrong or the value was tampered with
+ */
+function decrypt(key: Buffer, value: EncryptedValue): string {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(value.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(value.data, 'base64')), decipher.final()]).toString('utf8');
+}
+
+async function passphraseFromEnvOrPrompt(filePath: string, isNew: boolean): Promise<string> {
+  const fromEnv = process.env[SECRET_KEY_ENV_VAR];
+  if (fromEnv) {
+    return fromEnv;
+  }
+  if (process.stdin.isTTY !== true) {
+    throw new CLIError(`Set ${SECRET_KEY_ENV_VAR} to unlock ${filePath} (no OS keychain is available)`);
+  }
+
+  const shown = filePath.replace(homedir(), '~');
+  if (!isNew) {
+    return promptMasked(`=> Passphrase for ${shown}: `);
+  }
+  process.stderr.write(`=> No OS keychain available; secrets will be encrypted in ${shown}\n`);
+  const passphrase = await promptMasked('=> Choose a passphrase: ');
+  if (!passphrase) {
+    throw new CLIError('A passphrase is required');
+  }
+  if ((await promptMasked('=> Repeat the passphrase: ')) !== passphrase) {
+    throw new CLIError('Passphrases do not match');
+  }
+  return passphrase;
+}
+
+/**
+ * Keychain first, then the encrypted file
+ */
+export function defaultSecretBackends(): SecretBackend[] {
+  return [new LibsecretBackend(), new EncryptedFileBackend()];
+}
+
+/**
+ * Whether a stored config value is a reference to a secret
+ */
+export function isSecretReference(value: string): boolean {
+  return value.startsWith(SECRET_REF_PREFIX);
+}
+
+/**
+ * Sensitive user_config values for ConfigManager: the value goes to a
+ * secret backend and config.json keeps only a reference to it
+ */
+export class SecretStore {
+  private readonly configManager: ConfigManager;
+  private readonly backends: SecretBackend[];
+
+  constructor(configManager: ConfigManager, backends: SecretBackend[] = defaultSecretBackends()) {
+    this.configManager = configManager;
+    this.backends = backends;
+  }
+
+  /**
+   * Store a secret and record a reference to it in the package config
+   * @returns the backend it was stored in
+   */
+  async set(packageName: string, key: string, value: string): Promise<SecretBackend> {
+    const backend = this.backends.find((candidate) => candidate.isAvailable());
+    if (!backend) {
+      throw new CLIError('No secret storage is available');
+    }
+    const previous = this.backendFor(this.configManager.getPackageConfigValue(packageName, key));
+    await backend.set(accountFor(packageName, key), value);
+    if (previous && previous !== backend) {
+      await previous.delete(accountFor(packageName, key));
+    }
+    this.configManager.setPackageConfigValue(packageName, key, SECRET_REF_PREFIX + backend.name);
+    return backend;
+  }
+
+  /**
+   * A package's stored config with references replaced by their secrets
+   * @throws CLIError if a referenced secret is missing
+   */
+  async resolvePackageConfig(packageName: string): Promise<PackageConfig> {
+    const resolved: PackageConfig = {};
+    for (const [key, value] of Object.entries(this.configManager.getPackageConfig(packageName) ?? {})) {
+      if (!isSecretReference(value)) {
+        resolved[key] = value;
+        continue;
+      }
+      const secret = await this.backendFor(value)?.get(accountFor(packageName, key));
+      if (secret === undefined) {
+        throw new CLIError(
+          `Secret ${key} for ${packageName} is missing from the ${this.describe(value)}\n` +
+            `Run 'mpak config set ${packageName} --secret ${key}=<value>' to set it again`
+        );
+      }
+      resolved[key] = secret;
+    }
+    return resolved;
+  }
+
+  /**
+   * Move plaintext values of the given keys out of config.json
+   * @returns the keys that were moved
+   */
+  async migrate(packageName: string, keys: string[]): Promise<string[]> {
+    const migrated: string[] = [];
+    for (const key of keys) {
+      const value = this.configManager.getPackageConfigValue(packageName, key);
+      if (value !== undefined && !isSecretReference(value)) {
+        await this.set(packageName, key, value);
+        migrated.push(key);
+      }
+    }
+    return migrated;
+  }
+
+  /**
+   * Remove the secret behind a stored value, if it is a reference (the
+   * config entry itself is left to ConfigManager)
+   */
+  async delete(packageName: string, key: string): Promise<void> {
+    const backend = this.backendFor(this.configManager.getPackageConfigValue(packageName, key));
+    await backend?.delete(accountFor(packageName, key));
+  }
+
+  /**
+   * Where a reference points, for display
+   * @example describe('mpak-secret:keychain') => 'OS keychain'
+   */
+  describe(reference: string): string {
+    return this.backendFor(reference)?.description ?? `unknown secret store "${reference.slice(SECRET_REF_PREFIX.length)}"`;
+  }
+
+  private backendFor(value: string | undefined): SecretBackend | undefined {
+    if (value === undefined || !isSecretReference(value)) {
+      return undefined;
+    }
+    const name = value.slice(SECRET_REF_PREFIX.length);
+    return this.backends.find((backend) => backend.name === name);
+  }
+}
+
+function accountFor(packageName: string, key: string): string {
+  return `${packageName}:${key}`;
+}